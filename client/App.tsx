@@ -6,15 +6,21 @@ import { DeckViewModal } from './components/DeckViewModal'
 import { TokensModal } from './components/TokensModal'
 import { CountersModal } from './components/CountersModal'
 import { TeamAssignmentModal } from './components/TeamAssignmentModal'
+import { MatchRulesModal } from './components/MatchRulesModal'
+import { TimeControlsModal } from './components/TimeControlsModal'
 import { ReadyCheckModal } from './components/ReadyCheckModal'
 import { CardDetailModal } from './components/CardDetailModal'
 import { RevealRequestModal } from './components/RevealRequestModal'
+import { UndoRequestModal } from './components/UndoRequestModal'
 import { ContextMenu } from './components/ContextMenu'
 import { CommandModal } from './components/CommandModal'
 import { MainMenu } from './components/MainMenu'
 import { RoundEndModal } from './components/RoundEndModal'
 import { CounterSelectionModal } from './components/CounterSelectionModal'
 import { TopDeckView } from './components/TopDeckView'
+import { ChatPanel } from './components/ChatPanel'
+import { GameLogPanel } from './components/GameLogPanel'
+import { ReplayViewer } from './components/ReplayViewer'
 import { useGameState } from './hooks/useGameState'
 import { useAppAbilities } from './hooks/useAppAbilities'
 import { useAppCommand } from './hooks/useAppCommand'
@@ -37,8 +43,12 @@ import type {
 import { GameMode, DeckType } from './types'
 import { STATUS_ICONS, STATUS_DESCRIPTIONS } from './constants'
 import { countersDatabase, fetchContentDatabase } from './content'
-import { validateTarget, calculateValidTargets, checkActionHasTargets } from '@server/utils/targeting'
+import { validateTarget, calculateValidTargets, checkActionHasTargets, matchesTargetFilter } from '@server/utils/targeting'
 import { useLanguage } from './contexts/LanguageContext'
+import type { GameReplay } from '@server/utils/replay'
+import { getMatchRules } from '@server/utils/matchRules'
+import { getTimeControls } from '@server/utils/turnClock'
+import { logger } from './utils/logger'
 
 const COUNTER_BG_URL = 'https://res.cloudinary.com/dxxh6meej/image/upload/v1763653192/background_counter_socvss.png'
 
@@ -52,12 +62,17 @@ const App = memo(function App() {
     setLocalPlayerId,
     createGame,
     joinGame,
+    watchGame,
     startReadyCheck,
     cancelReadyCheck,
     playerReady,
     assignTeams,
     setGameMode,
     setGamePrivacy,
+    setSpectatorDelay,
+    setMatchRules,
+    setTimeControls,
+    setDummyAi,
     setActiveGridSize,
     setDummyPlayerCount,
     updatePlayerName,
@@ -77,7 +92,6 @@ const App = memo(function App() {
     shufflePlayerDeck,
     addBoardCardStatus,
     removeBoardCardStatus,
-    removeBoardCardStatusByOwner,
     modifyBoardCardPower,
     addAnnouncedCardStatus,
     removeAnnouncedCardStatus,
@@ -92,6 +106,9 @@ const App = memo(function App() {
     respondToRevealRequest,
     syncGame,
     resetGame,
+    undoAction,
+    redoAction,
+    respondToUndoRequest,
     toggleActivePlayer,
     toggleAutoDraw,
     forceReconnect,
@@ -114,11 +131,14 @@ const App = memo(function App() {
     scoreLine,
     confirmRoundEnd,
     resetDeployStatus,
-    scoreDiagonal,
+    scoreAbility,
     removeStatusByType,
     reorderTopDeck,
     reorderCards,
-    triggerFloatingText,
+    chatMessages,
+    sendChatMessage,
+    gameEvents,
+    requestGameLog,
   } = gameStateHook
 
   const [modalsState, setModalsState] = useState({
@@ -129,8 +149,13 @@ const App = memo(function App() {
     isCountersModalOpen: false,
     isRulesModalOpen: false,
     isTeamAssignOpen: false,
+    isReplayListOpen: false,
+    isMatchRulesOpen: false,
+    isTimeControlsOpen: false,
   })
 
+  const [replay, setReplay] = useState<GameReplay | null>(null)
+
   const [commandModalCard, setCommandModalCard] = useState<Card | null>(null)
   const [counterSelectionData, setCounterSelectionData] = useState<CounterSelectionData | null>(null)
   const [topDeckViewState, setTopDeckViewState] = useState<{
@@ -290,7 +315,7 @@ const App = memo(function App() {
     setCounterSelectionData,
     moveItem,
     drawCard,
-    updatePlayerScore,
+    scoreAbility,
     removeBoardCardStatus,
   })
 
@@ -322,7 +347,6 @@ const App = memo(function App() {
     onAbilityComplete: () => setAbilityCheckKey(prev => prev + 1),
     moveItem,
     drawCard,
-    updatePlayerScore,
     markAbilityUsed,
     applyGlobalEffect,
     swapCards,
@@ -335,11 +359,9 @@ const App = memo(function App() {
     modifyBoardCardPower,
     addBoardCardStatus,
     removeBoardCardStatus,
-    removeBoardCardStatusByOwner,
     resetDeployStatus,
-    scoreDiagonal,
+    scoreAbility,
     removeStatusByType,
-    triggerFloatingText,
   })
 
   const handleAnnouncedCardDoubleClick = (player: Player, card: Card) => {
@@ -391,6 +413,9 @@ const App = memo(function App() {
     [localPlayerId, gameState.gameId],
   )
 
+  // The server decides what can actually be undone, this only hides the controls from everyone else
+  const canUndo = gameState.isGameStarted && localPlayerId !== null && gameState.activePlayerId === localPlayerId
+
   const realPlayerCount = useMemo(
     () => gameState.players?.filter(p => !p.isDummy).length || 0,
     [gameState.players],
@@ -642,6 +667,16 @@ const App = memo(function App() {
       if (e.key === 'Escape') {
         handleCancelInteraction()
       }
+      if ((e.ctrlKey || e.metaKey) && canUndo) {
+        const key = e.key.toLowerCase()
+        if (key === 'z' && !e.shiftKey) {
+          e.preventDefault()
+          undoAction()
+        } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+          e.preventDefault()
+          redoAction()
+        }
+      }
     }
 
     const handleRightClick = (e: MouseEvent) => {
@@ -656,7 +691,7 @@ const App = memo(function App() {
       window.removeEventListener('keydown', handleKeyDown)
       window.removeEventListener('contextmenu', handleRightClick)
     }
-  }, [cursorStack, playMode, abilityMode, markAbilityUsed, gameState.isGameStarted, nextPhase, localPlayer, moveItem, gameState.players, localPlayerId])
+  }, [cursorStack, playMode, abilityMode, markAbilityUsed, gameState.isGameStarted, nextPhase, localPlayer, moveItem, gameState.players, localPlayerId, canUndo, undoAction, redoAction])
 
   // Synchronize NO TARGET Overlay via WebSocket Signal
   useEffect(() => {
@@ -757,7 +792,7 @@ const App = memo(function App() {
         gameState.players.forEach(p => {
           p.hand.forEach((card, index) => {
             // Ensure payload filter is used for hand targets too
-            if (abilityMode.payload.filter?.(card)) {
+            if (abilityMode.payload.filter && matchesTargetFilter(abilityMode.payload.filter, card, gameState.players)) {
               // For Deploy from Hand, only check owner
               if (abilityMode.payload.actionType === 'SELECT_HAND_FOR_DEPLOY') {
                 if (p.id === actorId) {
@@ -858,8 +893,9 @@ const App = memo(function App() {
     if (gameState.isScoringStep && !abilityMode) {
       const activePlayerId = gameState.activePlayerId
       const activePlayer = gameState.players.find(p => p.id === activePlayerId)
-      // Allow control if it's local player's turn OR if it's a dummy turn (anyone helps dummy)
-      const canControl = activePlayer && (activePlayer.id === localPlayerId || activePlayer.isDummy)
+      // Allow control if it's local player's turn OR if it's a dummy turn (anyone helps dummy);
+      // a dummy played by the AI scores on the server
+      const canControl = activePlayer && !activePlayer.aiDifficulty && (activePlayer.id === localPlayerId || activePlayer.isDummy)
 
       if (canControl) {
         let found = false
@@ -979,25 +1015,20 @@ const App = memo(function App() {
             }
           }
         } else if (actionToProcess.payload?.resourceChange) {
-          const { draw, score } = actionToProcess.payload.resourceChange
+          const { draw } = actionToProcess.payload.resourceChange
           const activePlayerId = actionToProcess.sourceCard?.ownerId || gameState.activePlayerId
-          if (activePlayerId !== undefined && activePlayerId !== null) {
-            if (draw) {
-              const count = typeof draw === 'number' ? draw : 1
-              for (let i = 0; i < count; i++) {
-                drawCard(activePlayerId)
-              }
-            }
-            if (score) {
-              updatePlayerScore(activePlayerId, score)
+          if (draw && activePlayerId !== undefined && activePlayerId !== null) {
+            const count = typeof draw === 'number' ? draw : 1
+            for (let i = 0; i < count; i++) {
+              drawCard(activePlayerId)
             }
           }
-        } else if (actionToProcess.payload?.contextReward && actionToProcess.sourceCard) {
+        } else if ((actionToProcess.payload?.contextReward || actionToProcess.payload?.score) && actionToProcess.sourceCard) {
           // This is handled inside useAppAbilities now for better access to board state
           // but we call executeAction to trigger it
           executeAction(actionToProcess, actionToProcess.sourceCoords || { row: -1, col: -1 })
         } else if (actionToProcess.payload?.customAction && actionToProcess.sourceCard) {
-          // Handle custom actions like FINN_SCORING
+          // Handle custom actions like REMOVE_ALL_AIM_FROM_CONTEXT
           executeAction(actionToProcess, actionToProcess.sourceCoords || { row: -1, col: -1 })
         }
       } else if (actionToProcess.type === 'CREATE_STACK' || actionToProcess.type === 'OPEN_MODAL') {
@@ -1018,7 +1049,7 @@ const App = memo(function App() {
       }
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [actionQueue, abilityMode, cursorStack, localPlayerId, drawCard, updatePlayerScore, gameState.activePlayerId, gameState.board, moveItem, commandContext, addBoardCardStatus, gameState.players, executeAction, triggerNoTarget])
+  }, [actionQueue, abilityMode, cursorStack, localPlayerId, drawCard, gameState.activePlayerId, gameState.board, moveItem, commandContext, addBoardCardStatus, gameState.players, executeAction, triggerNoTarget])
 
   const closeAllModals = useCallback(() => {
     setModalsState(prev => ({
@@ -1060,6 +1091,11 @@ const App = memo(function App() {
     setModalsState(prev => ({ ...prev, isJoinModalOpen: false }))
   }, [joinGame])
 
+  const handleWatchGame = useCallback((gameId: string) => {
+    watchGame(gameId)
+    setModalsState(prev => ({ ...prev, isJoinModalOpen: false }))
+  }, [watchGame])
+
   const handleCreateGame = useCallback(() => {
     createGame()
     setLocalPlayerId(1)
@@ -1070,6 +1106,20 @@ const App = memo(function App() {
     setModalsState(prev => ({ ...prev, isJoinModalOpen: true }))
   }, [requestGamesList])
 
+  const handleOpenReplay = useCallback(async (replayId: string) => {
+    try {
+      const response = await fetch(`/api/replays/${encodeURIComponent(replayId)}`)
+      if (!response.ok) {
+        throw new Error(`Failed to fetch replay: ${response.statusText}`)
+      }
+      setReplay(await response.json())
+      setModalsState(prev => ({ ...prev, isReplayListOpen: false }))
+    } catch (error) {
+      logger.error('Failed to load replay:', error)
+      alert(t('replayLoadFailed'))
+    }
+  }, [t])
+
   const handleSaveSettings = useCallback((url: string) => {
     localStorage.setItem('custom_ws_url', url.trim())
     setModalsState(prev => ({ ...prev, isSettingsModalOpen: false }))
@@ -1304,7 +1354,7 @@ const App = memo(function App() {
       const isSpecialItem = card?.deck === DeckType.Tokens || card?.deck === 'counter'
       if (isBoardItem) {
         if (canControl && card.isFaceDown) {
-          items.push({ label: t('revealToAll'), onClick: () => revealBoardCard(data.boardCoords, 'all') })
+          items.push({ label: t('revealToAll'), onClick: () => revealBoardCard(data.boardCoords) })
         }
         if (!isOwner && !isVisible) {
           items.push({ label: t('requestReveal'), onClick: () => requestCardReveal({ source: 'board', ownerId: card.ownerId!, boardCoords: data.boardCoords }, localPlayerId) })
@@ -1337,7 +1387,7 @@ const App = memo(function App() {
             visibleStatusItems.push({
               type: 'statusControl',
               label: status,
-              onAdd: () => isBoardItem ? addBoardCardStatus(data.boardCoords, status, localPlayerId) : addAnnouncedCardStatus(player.id, status, localPlayerId),
+              onAdd: () => isBoardItem ? addBoardCardStatus(data.boardCoords, status) : addAnnouncedCardStatus(player.id, status),
               onRemove: () => isBoardItem ? removeBoardCardStatus(data.boardCoords, status) : removeAnnouncedCardStatus(player.id, status),
               removeDisabled: false,
             })
@@ -1438,7 +1488,7 @@ const App = memo(function App() {
           items.push({ isDivider: true })
         }
         if (type === 'handCard') {
-          items.push({ label: t('revealToAll'), onClick: () => revealHandCard(player.id, cardIndex, 'all') })
+          items.push({ label: t('revealToAll'), onClick: () => revealHandCard(player.id, cardIndex) })
         }
         if (items.length > 0 && !('isDivider' in items[items.length - 1])) {
           items.push({ isDivider: true })
@@ -1462,7 +1512,7 @@ const App = memo(function App() {
             if (items.length > 0 && !('isDivider' in items[items.length - 1])) {
               items.push({ isDivider: true })
             }
-            items.push({ type: 'statusControl', label: t('revealed'), onAdd: () => addHandCardStatus(player.id, cardIndex, 'Revealed', localPlayerId), onRemove: () => removeHandCardStatus(player.id, cardIndex, 'Revealed'), removeDisabled: false })
+            items.push({ type: 'statusControl', label: t('revealed'), onAdd: () => addHandCardStatus(player.id, cardIndex, 'Revealed'), onRemove: () => removeHandCardStatus(player.id, cardIndex, 'Revealed'), removeDisabled: false })
           }
         }
       } else if (type === 'handCard' && !isVisible) {
@@ -1550,6 +1600,16 @@ const App = memo(function App() {
     }
   }, [modalsState.isCountersModalOpen])
 
+  if (!isGameActive && replay) {
+    return (
+      <ReplayViewer
+        replay={replay}
+        onClose={() => setReplay(null)}
+        imageRefreshVersion={imageRefreshVersion}
+      />
+    )
+  }
+
   if (!isGameActive) {
     return (
       <MainMenu
@@ -1561,12 +1621,16 @@ const App = memo(function App() {
         isJoinModalOpen={modalsState.isJoinModalOpen}
         setJoinModalOpen={(open) => setModalsState(prev => ({ ...prev, isJoinModalOpen: open }))}
         handleJoinGame={handleJoinGame}
+        handleWatchGame={handleWatchGame}
         gamesList={gamesList}
         isDeckBuilderOpen={modalsState.isDeckBuilderOpen}
         setViewingCard={setViewingCard}
         isSettingsModalOpen={modalsState.isSettingsModalOpen}
         handleSaveSettings={handleSaveSettings}
         isRulesModalOpen={modalsState.isRulesModalOpen}
+        isReplayListOpen={modalsState.isReplayListOpen}
+        setReplayListOpen={(open) => setModalsState(prev => ({ ...prev, isReplayListOpen: open }))}
+        handleOpenReplay={handleOpenReplay}
         viewingCard={viewingCard}
         gameState={gameState}
         imageRefreshVersion={imageRefreshVersion}
@@ -1612,11 +1676,21 @@ const App = memo(function App() {
         isScoringStep={gameState.isScoringStep}
         currentRound={gameState.currentRound}
         turnNumber={gameState.turnNumber}
+        isSpectator={isSpectator}
+        spectatorDelay={gameState.spectatorDelay ?? 0}
+        onSpectatorDelayChange={setSpectatorDelay}
+        canUndo={canUndo}
+        onUndo={undoAction}
+        onRedo={redoAction}
+        onOpenMatchRules={() => setModalsState(prev => ({ ...prev, isMatchRulesOpen: true }))}
+        onOpenTimeControls={() => setModalsState(prev => ({ ...prev, isTimeControlsOpen: true }))}
+        turnClock={gameState.turnClock}
       />
 
       {gameState.isRoundEndModalOpen && (
         <RoundEndModal
           gameState={gameState}
+          localPlayerId={localPlayerId}
           onConfirm={confirmRoundEnd}
           onExit={exitGame}
         />
@@ -1631,6 +1705,30 @@ const App = memo(function App() {
         />
       )}
 
+      {modalsState.isMatchRulesOpen && !gameState.isGameStarted && (
+        <MatchRulesModal
+          rules={getMatchRules(gameState)}
+          canEdit={isHost}
+          onSave={(rules) => {
+            setMatchRules(rules)
+            setModalsState(prev => ({ ...prev, isMatchRulesOpen: false }))
+          }}
+          onClose={() => setModalsState(prev => ({ ...prev, isMatchRulesOpen: false }))}
+        />
+      )}
+
+      {modalsState.isTimeControlsOpen && !gameState.isGameStarted && (
+        <TimeControlsModal
+          controls={getTimeControls(gameState)}
+          canEdit={isHost}
+          onSave={(controls) => {
+            setTimeControls(controls)
+            setModalsState(prev => ({ ...prev, isTimeControlsOpen: false }))
+          }}
+          onClose={() => setModalsState(prev => ({ ...prev, isTimeControlsOpen: false }))}
+        />
+      )}
+
       {gameState.isReadyCheckActive && localPlayer && (
         <ReadyCheckModal
           players={gameState.players}
@@ -1650,6 +1748,21 @@ const App = memo(function App() {
         />
       )}
 
+      {/* Undo Request Modal - Rendered while the active player's undo waits for the local player */}
+      {localPlayerId !== null && gameState.undoRequest?.pendingPlayerIds.includes(localPlayerId) && (
+        <UndoRequestModal
+          fromPlayer={gameState.players.find(p => p.id === gameState.undoRequest!.fromPlayerId)!}
+          onAccept={() => respondToUndoRequest(true)}
+          onDecline={() => respondToUndoRequest(false)}
+        />
+      )}
+
+      {gameState.undoRequest && gameState.undoRequest.fromPlayerId === localPlayerId && (
+        <div className="fixed top-16 left-1/2 -translate-x-1/2 z-[60] bg-gray-800 border border-indigo-500 text-white text-sm py-1 px-3 rounded shadow">
+          {t('undoWaiting')}
+        </div>
+      )}
+
       {commandModalCard && (
         <CommandModal
           isOpen={!!commandModalCard}
@@ -1750,6 +1863,21 @@ const App = memo(function App() {
         cursorStack={cursorStack}
       />
 
+      <ChatPanel
+        messages={chatMessages}
+        players={gameState.players}
+        localPlayerId={localPlayerId}
+        canChat={!!localPlayer}
+        canUseTeamChannel={gameState.gameMode !== GameMode.FreeForAll && localPlayer?.teamId !== undefined}
+        onSend={sendChatMessage}
+      />
+
+      <GameLogPanel
+        events={gameEvents}
+        players={gameState.players}
+        onOpen={requestGameLog}
+      />
+
       {renderedContextMenu}
 
       {/* Cursor Follower for Token Stacks */}
@@ -1831,6 +1959,7 @@ const App = memo(function App() {
               startingPlayerId={gameState.startingPlayerId}
               onDeckClick={handleDeckClick}
               isDeckSelectable={abilityMode?.mode === 'SELECT_DECK'}
+              turnClock={gameState.turnClock}
             />
           </div>
         )}
@@ -1917,6 +2046,8 @@ const App = memo(function App() {
                     startingPlayerId={gameState.startingPlayerId}
                     onDeckClick={handleDeckClick}
                     isDeckSelectable={abilityMode?.mode === 'SELECT_DECK'}
+                    turnClock={gameState.turnClock}
+                    onAiDifficultyChange={setDummyAi}
                   />
                 </div>
               ))}
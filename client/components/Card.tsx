@@ -1,10 +1,11 @@
 import React, { memo, useState, useRef, useEffect, useMemo, useCallback } from 'react'
 import { DeckType } from '@/types'
-import type { Card as CardType, PlayerColor } from '@/types'
+import type { Card as CardType, PlayerColor, StatusDuration } from '@/types'
 import { DECK_THEMES, PLAYER_COLORS, STATUS_ICONS, PLAYER_COLOR_RGB } from '@/constants'
 import { Tooltip, CardTooltipContent } from './Tooltip'
 import { hasReadyAbilityInCurrentPhase } from '@/utils/autoAbilities'
 import { useLanguage } from '@/contexts/LanguageContext'
+import { describeStatusDuration, getStatusDurationBadge } from '@server/utils/statusDurations'
 
 
 // Split props to prevent unnecessary rerenders when only display props change
@@ -35,12 +36,13 @@ interface StatusIconProps {
   type: string;
   playerId: number;
   count: number;
+  duration?: StatusDuration;
   refreshVersion?: number;
   playerColorMap: Map<number, PlayerColor>;
   smallStatusIcons?: boolean;
 }
 
-const StatusIcon: React.FC<StatusIconProps> = memo(({ type, playerId, count, refreshVersion, playerColorMap, smallStatusIcons = false }) => {
+const StatusIcon: React.FC<StatusIconProps> = memo(({ type, playerId, count, duration, refreshVersion, playerColorMap, smallStatusIcons = false }) => {
   const statusColorName = playerColorMap.get(playerId)
   const statusBg = (statusColorName && PLAYER_COLORS[statusColorName]) ? PLAYER_COLORS[statusColorName].bg : 'bg-gray-500'
 
@@ -70,7 +72,7 @@ const StatusIcon: React.FC<StatusIconProps> = memo(({ type, playerId, count, ref
   return (
     <div
       className={`relative ${sizeClass} flex items-center justify-center ${statusBg} bg-opacity-80 rounded-sm shadow-md flex-shrink-0`}
-      title={`${type} (Player ${playerId}) ${!isSingleInstance && count > 0 ? `x${count}` : ''}`}
+      title={`${type} (Player ${playerId}) ${!isSingleInstance && count > 0 ? `x${count}` : ''}${duration ? ` - ${describeStatusDuration(duration)}` : ''}`}
     >
       {iconUrl ? (
         <img
@@ -92,6 +94,16 @@ const StatusIcon: React.FC<StatusIconProps> = memo(({ type, playerId, count, ref
           {count}
         </span>
       )}
+
+      {/* Remaining duration of a timed status */}
+      {duration && (
+        <span
+          className={`absolute bottom-0 left-0.5 text-yellow-300 font-bold ${countBadgeSize} leading-none`}
+          style={{ textShadow: '1px 1px 2px black' }}
+        >
+          {getStatusDurationBadge(duration)}
+        </span>
+      )}
     </div>
   )
 })
@@ -283,13 +295,14 @@ const CardCore: React.FC<CardCoreProps & CardInteractionProps> = memo(({
       if (hiddenStatusTypes.includes(status.type)) {
         return acc
       }
-      const key = `${status.type}_${status.addedByPlayerId}`
+      // Timed statuses get their own icon per remaining duration
+      const key = `${status.type}_${status.addedByPlayerId}${status.duration ? `_${getStatusDurationBadge(status.duration)}` : ''}`
       if (!acc[key]) {
-        acc[key] = { type: status.type, playerId: status.addedByPlayerId, count: 0 }
+        acc[key] = { key, type: status.type, playerId: status.addedByPlayerId, count: 0, duration: status.duration }
       }
       acc[key].count++
       return acc
-    }, {} as Record<string, { type: string, playerId: number, count: number }>)
+    }, {} as Record<string, { key: string, type: string, playerId: number, count: number, duration?: StatusDuration }>)
   }, [card.statuses])
 
   // Memoized values (must be called before any conditional returns)
@@ -357,7 +370,7 @@ const CardCore: React.FC<CardCoreProps & CardInteractionProps> = memo(({
             >
               {lastPlayedGroup && (
                 <div className="absolute bottom-[3px] left-[3px] pointer-events-none">
-                  <StatusIcon type={lastPlayedGroup.type} playerId={lastPlayedGroup.playerId} count={lastPlayedGroup.count} refreshVersion={imageRefreshVersion} playerColorMap={playerColorMap} smallStatusIcons={smallStatusIcons} />
+                  <StatusIcon type={lastPlayedGroup.type} playerId={lastPlayedGroup.playerId} count={lastPlayedGroup.count} duration={lastPlayedGroup.duration} refreshVersion={imageRefreshVersion} playerColorMap={playerColorMap} smallStatusIcons={smallStatusIcons} />
                 </div>
               )}
             </div>
@@ -423,13 +436,13 @@ const CardCore: React.FC<CardCoreProps & CardInteractionProps> = memo(({
                 <>
                   <div className="absolute top-[3px] left-[3px] right-[3px] flex flex-row-reverse flex-wrap justify-start items-start z-10 pointer-events-none">
                     {negativeGroups.map((group) => (
-                      <StatusIcon key={`${group.type}_${group.playerId}`} type={group.type} playerId={group.playerId} count={group.count} refreshVersion={imageRefreshVersion} playerColorMap={playerColorMap} smallStatusIcons={smallStatusIcons} />
+                      <StatusIcon key={group.key} type={group.type} playerId={group.playerId} count={group.count} duration={group.duration} refreshVersion={imageRefreshVersion} playerColorMap={playerColorMap} smallStatusIcons={smallStatusIcons} />
                     ))}
                   </div>
 
                   <div className="absolute bottom-[3px] left-[3px] right-[30px] flex flex-wrap-reverse content-start items-end z-10 pointer-events-none">
                     {combinedPositiveGroups.map((group) => (
-                      <StatusIcon key={`${group.type}_${group.playerId}`} type={group.type} playerId={group.playerId} count={group.count} refreshVersion={imageRefreshVersion} playerColorMap={playerColorMap} smallStatusIcons={smallStatusIcons} />
+                      <StatusIcon key={group.key} type={group.type} playerId={group.playerId} count={group.count} duration={group.duration} refreshVersion={imageRefreshVersion} playerColorMap={playerColorMap} smallStatusIcons={smallStatusIcons} />
                     ))}
                   </div>
                 </>
@@ -558,6 +571,9 @@ const arePropsEqual = (prevProps: CardCoreProps & CardInteractionProps, nextProp
     if (!next || prev.type !== next.type || prev.addedByPlayerId !== next.addedByPlayerId) {
       return false
     }
+    if ((prev.duration && getStatusDurationBadge(prev.duration)) !== (next.duration && getStatusDurationBadge(next.duration))) {
+      return false
+    }
   }
 
   // Check power-related changes
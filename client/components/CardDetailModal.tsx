@@ -6,6 +6,7 @@ import type { Card as CardType, Player } from '@/types'
 import { PLAYER_COLORS, DECK_THEMES } from '@/constants'
 import { formatAbilityText } from '@/utils/textFormatters'
 import { useLanguage } from '@/contexts/LanguageContext'
+import { describeStatusDuration } from '@server/utils/statusDurations'
 
 interface CardDetailModalProps {
   card: CardType;
@@ -80,6 +81,15 @@ export const CardDetailModal: React.FC<CardDetailModalProps> = ({ card, ownerPla
     {} as Record<string, number[]>,
   )
 
+  // Remaining durations of timed statuses, by type
+  const statusDurations: Record<string, string[]> = {}
+  for (const status of card.statuses ?? []) {
+    if (status.duration) {
+      const description = describeStatusDuration(status.duration)
+      statusDurations[status.type] = [...new Set([...(statusDurations[status.type] ?? []), description])]
+    }
+  }
+
   return (
     <div onClick={onClose} className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-[300]">
       <div onClick={e => e.stopPropagation()} className={`bg-gray-800 rounded-lg shadow-2xl w-full max-w-4xl h-[40rem] p-6 flex gap-6 border-4 ${themeColor}`}>
@@ -137,6 +147,9 @@ export const CardDetailModal: React.FC<CardDetailModalProps> = ({ card, ownerPla
                     <li key={type}>
                       <strong className="text-gray-200">{type}</strong> <span className="text-gray-400 text-xs ml-1">- {breakdown}</span>
                       <p className="text-gray-400 text-xs pl-2 mt-0.5">{description}</p>
+                      {statusDurations[type] && (
+                        <p className="text-yellow-300 text-xs pl-2 mt-0.5">Lasts {statusDurations[type].join(', ')}</p>
+                      )}
                     </li>
                   )
                 })}
@@ -0,0 +1,123 @@
+/**
+ * @file Renders the collapsible in-game chat panel.
+ */
+import React, { useEffect, useRef, useState } from 'react'
+import type { ChatChannel, ChatMessage, Player, PlayerColor } from '@/types'
+import { PLAYER_COLORS } from '@/constants'
+import { useLanguage } from '@/contexts/LanguageContext'
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  players: Player[];
+  localPlayerId: number | null;
+  canChat: boolean;
+  canUseTeamChannel: boolean;
+  onSend: (text: string, channel: ChatChannel) => void;
+}
+
+const MAX_MESSAGE_LENGTH = 500
+
+/**
+ * A chat panel anchored to the bottom of the screen. While collapsed it shows a
+ * badge with the number of messages from other players that arrived since it was last open.
+ * @param {ChatPanelProps} props The properties for the component.
+ * @returns {React.ReactElement} The rendered panel.
+ */
+export const ChatPanel: React.FC<ChatPanelProps> = ({ messages, players, localPlayerId, canChat, canUseTeamChannel, onSend }) => {
+  const { t } = useLanguage()
+  const [isOpen, setIsOpen] = useState(false)
+  const [draft, setDraft] = useState('')
+  const [channel, setChannel] = useState<ChatChannel>('all')
+  const [lastReadAt, setLastReadAt] = useState(0)
+  const listRef = useRef<HTMLDivElement>(null)
+
+  const latestTimestamp = messages.length > 0 ? messages[messages.length - 1].timestamp : 0
+  const unreadCount = isOpen ? 0 : messages.filter(m => m.timestamp > lastReadAt && m.playerId !== localPlayerId).length
+  const activeChannel: ChatChannel = canUseTeamChannel ? channel : 'all'
+
+  // Everything on screen counts as read; keep the list scrolled to the newest message
+  useEffect(() => {
+    if (isOpen) {
+      setLastReadAt(latestTimestamp)
+      if (listRef.current) {
+        listRef.current.scrollTop = listRef.current.scrollHeight
+      }
+    }
+  }, [isOpen, latestTimestamp])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (draft.trim()) {
+      onSend(draft, activeChannel)
+      setDraft('')
+    }
+  }
+
+  const getPlayerColorClass = (playerId: number) => {
+    const color = players.find(p => p.id === playerId)?.color as PlayerColor | undefined
+    return color ? PLAYER_COLORS[color].bg : 'bg-gray-500'
+  }
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="fixed bottom-3 right-3 z-40 bg-gray-800 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg shadow-xl border border-gray-600 flex items-center gap-2"
+      >
+        {t('chat')}
+        {unreadCount > 0 && (
+          <span className="bg-red-600 text-white text-xs font-bold min-w-[1.25rem] h-5 px-1 flex items-center justify-center rounded-full">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+    )
+  }
+
+  return (
+    <div className="fixed bottom-3 right-3 z-40 w-80 h-96 bg-panel-bg rounded-lg shadow-xl border border-gray-600 flex flex-col">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-700">
+        <span className="font-bold">{t('chat')}</span>
+        <button onClick={() => setIsOpen(false)} className="text-gray-400 hover:text-white text-lg leading-none">&times;</button>
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto px-3 py-2 space-y-1 text-sm">
+        {messages.length === 0 ? (
+          <p className="text-gray-500 text-center mt-4">{t('chatEmpty')}</p>
+        ) : messages.map(message => (
+          <div key={message.id} className="break-words">
+            <span className={`inline-block w-2 h-2 rounded-full mr-1 ${getPlayerColorClass(message.playerId)}`} />
+            {message.channel === 'team' && <span className="text-green-400 mr-1">[{t('chatTeam')}]</span>}
+            <span className="font-bold mr-1">{message.playerName}:</span>
+            <span className="text-gray-200 whitespace-pre-wrap">{message.text}</span>
+          </div>
+        ))}
+      </div>
+
+      {canChat && (
+        <form onSubmit={handleSubmit} className="flex items-center gap-1 p-2 border-t border-gray-700">
+          {canUseTeamChannel && (
+            <button
+              type="button"
+              onClick={() => setChannel(activeChannel === 'all' ? 'team' : 'all')}
+              className={`text-xs font-bold py-1 px-2 rounded ${activeChannel === 'team' ? 'bg-green-700' : 'bg-gray-600'}`}
+            >
+              {activeChannel === 'team' ? t('chatTeam') : t('chatAll')}
+            </button>
+          )}
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            maxLength={MAX_MESSAGE_LENGTH}
+            placeholder={t('chatPlaceholder')}
+            className="flex-1 min-w-0 bg-gray-700 text-white text-sm rounded px-2 py-1 outline-none focus:ring-1 focus:ring-indigo-500"
+          />
+          <button type="submit" className="bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold py-1 px-2 rounded">
+            {t('chatSend')}
+          </button>
+        </form>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,217 @@
+/**
+ * @file Renders the collapsible, filterable game event log.
+ */
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import type { GameEvent, GameEventLocation, GameEventType, Player, PlayerColor } from '@/types'
+import { PLAYER_COLORS, TURN_PHASES } from '@/constants'
+import { getCardDefinition, getTokenDatabaseMap } from '@/content'
+import { useLanguage } from '@/contexts/LanguageContext'
+import type { TranslationResource } from '@/locales/types'
+
+type UiKey = keyof TranslationResource['ui']
+type LogFilter = 'all' | 'cards' | 'game' | 'players'
+
+interface GameLogPanelProps {
+  events: GameEvent[];
+  players: Player[];
+  onOpen: () => void;
+}
+
+const EVENT_LABELS: Record<GameEventType, UiKey> = {
+  PLAYER_JOINED: 'eventPlayerJoined',
+  PLAYER_LEFT: 'eventPlayerLeft',
+  PLAYER_DISCONNECTED: 'eventPlayerDisconnected',
+  PLAYER_RECONNECTED: 'eventPlayerReconnected',
+  PLAYER_REPLACED_BY_DUMMY: 'eventPlayerReplacedByDummy',
+  GAME_STARTED: 'eventGameStarted',
+  GAME_RESET: 'eventGameReset',
+  GAME_SYNCED: 'eventGameSynced',
+  GAME_ENDED: 'eventGameEnded',
+  CARD_PLAYED: 'eventCardPlayed',
+  CARD_MOVED: 'eventCardMoved',
+  CARD_DRAWN: 'eventCardDrawn',
+  CARD_ANNOUNCED: 'eventCardAnnounced',
+  CARD_DESTROYED: 'eventCardDestroyed',
+  CARD_RETURNED_TO_HAND: 'eventCardReturnedToHand',
+  CARD_RESURRECTED: 'eventCardResurrected',
+  DECK_SHUFFLED: 'eventDeckShuffled',
+  TOKEN_PLAYED: 'eventTokenPlayed',
+  COUNTER_PLACED: 'eventCounterPlaced',
+  ROUND_CONFIRMED: 'eventRoundConfirmed',
+  ACTIVE_PLAYER_CHANGED: 'eventActivePlayerChanged',
+  PHASE_CHANGED: 'eventPhaseChanged',
+  SCORE_CHANGED: 'eventScoreChanged',
+  ACTION_UNDONE: 'eventActionUndone',
+  ACTION_REDONE: 'eventActionRedone',
+  TURN_TIMED_OUT: 'eventTurnTimedOut',
+  SHUFFLE_SEED_COMMITTED: 'eventShuffleSeedCommitted',
+  SHUFFLE_SEED_REVEALED: 'eventShuffleSeedRevealed',
+  NOTE: 'eventNote',
+}
+
+const GAME_FLOW_EVENTS: GameEventType[] = ['GAME_STARTED', 'GAME_RESET', 'GAME_SYNCED', 'GAME_ENDED', 'ROUND_CONFIRMED', 'ACTIVE_PLAYER_CHANGED', 'PHASE_CHANGED', 'SCORE_CHANGED', 'ACTION_UNDONE', 'ACTION_REDONE', 'TURN_TIMED_OUT', 'SHUFFLE_SEED_COMMITTED', 'SHUFFLE_SEED_REVEALED']
+const PLAYER_EVENTS: GameEventType[] = ['PLAYER_JOINED', 'PLAYER_LEFT', 'PLAYER_DISCONNECTED', 'PLAYER_RECONNECTED', 'PLAYER_REPLACED_BY_DUMMY', 'NOTE']
+
+const getCategory = (type: GameEventType): LogFilter => {
+  if (GAME_FLOW_EVENTS.includes(type)) {
+    return 'game'
+  }
+  return PLAYER_EVENTS.includes(type) ? 'players' : 'cards'
+}
+
+/**
+ * A log panel anchored to the bottom-left corner. Events can be narrowed down
+ * to one category and to the events a single seat caused or was affected by.
+ * @param {GameLogPanelProps} props The properties for the component.
+ * @returns {React.ReactElement} The rendered panel.
+ */
+export const GameLogPanel: React.FC<GameLogPanelProps> = ({ events, players, onOpen }) => {
+  const { t, getCardTranslation, getCounterTranslation } = useLanguage()
+  const [isOpen, setIsOpen] = useState(false)
+  const [filter, setFilter] = useState<LogFilter>('all')
+  const [playerFilter, setPlayerFilter] = useState<number | null>(null)
+  const listRef = useRef<HTMLDivElement>(null)
+
+  const visibleEvents = useMemo(() => events.filter(event =>
+    (filter === 'all' || getCategory(event.type) === filter) &&
+    (playerFilter === null || event.actorId === playerFilter || event.playerId === playerFilter),
+  ), [events, filter, playerFilter])
+
+  const lastSeq = events.length > 0 ? events[events.length - 1].seq : 0
+
+  // Keep the list scrolled to the newest event
+  useEffect(() => {
+    if (isOpen && listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight
+    }
+  }, [isOpen, lastSeq])
+
+  const getPlayerName = (playerId: number | null | undefined) =>
+    players.find(p => p.id === playerId)?.name || (playerId ? `#${playerId}` : '—')
+
+  const getPlayerColorClass = (playerId: number | null) => {
+    const color = players.find(p => p.id === playerId)?.color as PlayerColor | undefined
+    return color ? PLAYER_COLORS[color].bg : 'bg-gray-500'
+  }
+
+  const getCardName = (baseId: string) =>
+    getCardTranslation(baseId)?.name || getCardDefinition(baseId)?.name || getTokenDatabaseMap().get(baseId)?.name || baseId
+
+  const formatLocation = (location: GameEventLocation) => {
+    if (location.zone === 'board') {
+      return location.coords ? `[${location.coords.row + 1}:${location.coords.col + 1}]` : '—'
+    }
+    const zoneKeys: Partial<Record<GameEventLocation['zone'], UiKey>> = { hand: 'hand', deck: 'deck', discard: 'discard', announced: 'announced', token_panel: 'tokens' }
+    const zone = zoneKeys[location.zone] ? t(zoneKeys[location.zone]!) : location.zone
+    return location.playerId ? `${zone} (${getPlayerName(location.playerId)})` : zone
+  }
+
+  const formatValue = (event: GameEvent, value: number | null | undefined) => {
+    if (event.type === 'PHASE_CHANGED') {
+      return value !== null && value !== undefined ? TURN_PHASES[value] || String(value) : '—'
+    }
+    if (event.type === 'ACTIVE_PLAYER_CHANGED') {
+      return getPlayerName(value)
+    }
+    return String(value ?? '—')
+  }
+
+  const formatDetails = (event: GameEvent) => {
+    const parts: string[] = []
+    if (event.cardBaseIds?.length) {
+      parts.push(event.cardBaseIds.map(getCardName).join(', '))
+    } else if (event.from || event.to) {
+      if (event.type !== 'DECK_SHUFFLED' && event.type !== 'COUNTER_PLACED') {
+        parts.push(t('hiddenCard'))
+      }
+    }
+    if (event.statusType) {
+      parts.push(`${getCounterTranslation(event.statusType)?.name || event.statusType} ×${event.after ?? 1}`)
+    }
+    if (event.from && event.to) {
+      parts.push(`${formatLocation(event.from)} → ${formatLocation(event.to)}`)
+    } else if (event.to && event.type !== 'COUNTER_PLACED') {
+      parts.push(formatLocation(event.to))
+    } else if (event.to) {
+      parts.push(`→ ${formatLocation(event.to)}`)
+    }
+    if (event.type !== 'COUNTER_PLACED' && (event.before !== undefined || event.after !== undefined)) {
+      const subject = event.type === 'SCORE_CHANGED' ? `${getPlayerName(event.playerId)}: ` : ''
+      parts.push(`${subject}${formatValue(event, event.before)} → ${formatValue(event, event.after)}`)
+    } else if (event.playerId && !event.from && !event.to) {
+      parts.push(getPlayerName(event.playerId))
+    }
+    if (event.text) {
+      parts.push(event.text)
+    }
+    return parts.join(' · ')
+  }
+
+  const handleOpen = () => {
+    setIsOpen(true)
+    onOpen()
+  }
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={handleOpen}
+        className="fixed bottom-3 left-3 z-40 bg-gray-800 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg shadow-xl border border-gray-600"
+      >
+        {t('gameLog')}
+      </button>
+    )
+  }
+
+  const filters: { value: LogFilter; label: UiKey }[] = [
+    { value: 'all', label: 'gameLogFilterAll' },
+    { value: 'cards', label: 'gameLogFilterCards' },
+    { value: 'game', label: 'gameLogFilterGame' },
+    { value: 'players', label: 'gameLogFilterPlayers' },
+  ]
+
+  return (
+    <div className="fixed bottom-3 left-3 z-40 w-96 h-96 bg-panel-bg rounded-lg shadow-xl border border-gray-600 flex flex-col">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-700">
+        <span className="font-bold">{t('gameLog')}</span>
+        <button onClick={() => setIsOpen(false)} className="text-gray-400 hover:text-white text-lg leading-none">&times;</button>
+      </div>
+
+      <div className="flex items-center gap-1 px-2 py-1 border-b border-gray-700">
+        {filters.map(option => (
+          <button
+            key={option.value}
+            onClick={() => setFilter(option.value)}
+            className={`text-xs font-bold py-1 px-2 rounded ${filter === option.value ? 'bg-indigo-600' : 'bg-gray-600 hover:bg-gray-500'}`}
+          >
+            {t(option.label)}
+          </button>
+        ))}
+        <select
+          value={playerFilter ?? ''}
+          onChange={(e) => setPlayerFilter(e.target.value ? parseInt(e.target.value, 10) : null)}
+          className="ml-auto bg-gray-700 border border-gray-600 text-white text-xs rounded p-1"
+        >
+          <option value="">{t('gameLogAllPlayers')}</option>
+          {players.map(player => (
+            <option key={player.id} value={player.id}>{player.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto px-3 py-2 space-y-1 text-xs">
+        {visibleEvents.length === 0 ? (
+          <p className="text-gray-500 text-center mt-4">{t('gameLogEmpty')}</p>
+        ) : visibleEvents.map(event => (
+          <div key={event.seq} className="break-words">
+            <span className="text-gray-500 mr-1 font-mono">{event.round}.{event.turn}</span>
+            <span className={`inline-block w-2 h-2 rounded-full mr-1 ${getPlayerColorClass(event.actorId)}`} />
+            <span className="font-bold mr-1">{event.actorId !== null ? getPlayerName(event.actorId) : t('gameLogServer')}:</span>
+            <span className="text-indigo-300 mr-1">{t(EVENT_LABELS[event.type])}</span>
+            <span className="text-gray-300">{formatDetails(event)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -1,11 +1,12 @@
 
 import React, { memo, useState, useCallback, useMemo } from 'react'
 import { GameMode } from '@/types'
-import type { GridSize } from '@/types'
+import type { GridSize, TurnClock } from '@/types'
 import type { ConnectionStatus } from '@/hooks/useGameState'
 import { TURN_PHASES, MAX_PLAYERS } from '@/constants'
 import { useLanguage } from '@/contexts/LanguageContext'
 import type { TranslationResource } from '@/locales/types'
+import { TurnClockBadge } from './TurnClockBadge'
 
 interface HeaderProps {
   gameId: string | null;
@@ -38,6 +39,15 @@ interface HeaderProps {
   isScoringStep?: boolean; // New prop
   currentRound?: number;
   turnNumber?: number;
+  isSpectator?: boolean;
+  spectatorDelay?: number;
+  onSpectatorDelayChange?: (seconds: number) => void;
+  canUndo?: boolean;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  onOpenMatchRules?: () => void;
+  onOpenTimeControls?: () => void;
+  turnClock?: TurnClock | null;
 }
 
 const StatusIndicator = memo<{ connectionStatus: ConnectionStatus; t: (key: keyof TranslationResource['ui']) => string }>(({ connectionStatus, t }) => {
@@ -129,9 +139,19 @@ const Header = memo<HeaderProps>(({
   isScoringStep,
   currentRound = 1,
   turnNumber = 1,
+  isSpectator = false,
+  spectatorDelay = 0,
+  onSpectatorDelayChange,
+  canUndo = false,
+  onUndo,
+  onRedo,
+  onOpenMatchRules,
+  onOpenTimeControls,
+  turnClock,
 }) => {
   const { t } = useLanguage()
   const dummyOptions = useMemo(() => [0, 1, 2, 3], [])
+  const spectatorDelayOptions = useMemo(() => [0, 30, 60, 90, 120], [])
   const [showRoundTooltip, setShowRoundTooltip] = useState(false)
 
   const handleRoundMouseEnter = useCallback(() => {
@@ -154,6 +174,9 @@ const Header = memo<HeaderProps>(({
               <span className="font-mono bg-gray-700 px-2 py-1 rounded text-indigo-300 w-24 md:w-44 text-center truncate">{gameId}</span>
             </div>
           )}
+          {isSpectator && (
+            <span className="bg-yellow-600 text-white text-xs font-bold uppercase px-2 py-1 rounded">{t('spectating')}</span>
+          )}
           <label className="flex items-center space-x-1.5 cursor-pointer hidden md:flex" title={t('hiddenGameTooltip')}>
             <input
               type="checkbox"
@@ -191,6 +214,8 @@ const Header = memo<HeaderProps>(({
             t={t}
           />
 
+          {turnClock && <TurnClockBadge clock={turnClock} className="shadow-md" />}
+
           {/* Phase Controls */}
           <div className="flex items-center bg-gray-800 rounded-lg p-1 border border-gray-700 shadow-md">
             <button
@@ -213,6 +238,28 @@ const Header = memo<HeaderProps>(({
               <svg width="24" height="24" viewBox="0 0 24 24" fill="currentColor"><path d="M9 6 L16 12 L9 18 Z" /></svg>
             </button>
           </div>
+
+          {/* Undo/Redo, only for the active player */}
+          {canUndo && (
+            <div className="flex items-center bg-gray-800 rounded-lg p-1 border border-gray-700 shadow-md">
+              <button
+                onClick={onUndo}
+                className="w-8 h-8 flex items-center justify-center text-gray-300 hover:text-white hover:bg-gray-700 rounded transition-colors"
+                title={`${t('undo')} (Ctrl+Z)`}
+                aria-label={t('undo')}
+              >
+                ↶
+              </button>
+              <button
+                onClick={onRedo}
+                className="w-8 h-8 flex items-center justify-center text-gray-300 hover:text-white hover:bg-gray-700 rounded transition-colors"
+                title={`${t('redo')} (Ctrl+Y)`}
+                aria-label={t('redo')}
+              >
+                ↷
+              </button>
+            </div>
+          )}
         </div>
       )}
 
@@ -312,6 +359,33 @@ const Header = memo<HeaderProps>(({
             ))}
           </select>
         </div>
+        {isHost && onSpectatorDelayChange && (
+          <div className="flex items-center space-x-2 hidden xl:flex" title={t('spectatorDelayTooltip')}>
+            <label htmlFor="spectator-delay" className="text-sm font-medium text-gray-300 whitespace-nowrap">{t('spectatorDelay')}:</label>
+            <select
+              id="spectator-delay"
+              value={spectatorDelay}
+              onChange={(e) => onSpectatorDelayChange(parseInt(e.target.value, 10))}
+              className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg block w-full p-2"
+            >
+              {spectatorDelayOptions.map(option => (
+                <option key={option} value={option}>
+                  {option === 0 ? t('off') : `${option}s`}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        {!isGameStarted && onOpenMatchRules && (
+          <button onClick={onOpenMatchRules} className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded text-sm whitespace-nowrap">
+            {t('matchRules')}
+          </button>
+        )}
+        {!isGameStarted && onOpenTimeControls && (
+          <button onClick={onOpenTimeControls} className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded text-sm whitespace-nowrap">
+            {t('timeControls')}
+          </button>
+        )}
         <div className="flex items-center space-x-2">
           {isHost && isGameStarted && (
             <button onClick={onSyncGame} className="bg-yellow-600 hover:bg-yellow-700 text-white font-bold p-2 rounded text-sm">
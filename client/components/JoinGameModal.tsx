@@ -5,10 +5,11 @@ interface JoinGameModalProps {
   isOpen: boolean;
   onClose: () => void;
   onJoin: (gameId: string) => void;
-  games: { gameId: string; playerCount: number }[];
+  onWatch: (gameId: string) => void;
+  games: { gameId: string; playerCount: number; spectatorCount?: number }[];
 }
 
-const JoinGameModal: React.FC<JoinGameModalProps> = memo(({ isOpen, onClose, onJoin, games }) => {
+const JoinGameModal: React.FC<JoinGameModalProps> = memo(({ isOpen, onClose, onJoin, onWatch, games }) => {
   const { t } = useLanguage()
   const [gameIdInput, setGameIdInput] = useState('')
 
@@ -18,6 +19,12 @@ const JoinGameModal: React.FC<JoinGameModalProps> = memo(({ isOpen, onClose, onJ
     }
   }, [gameIdInput, onJoin])
 
+  const handleWatchWithCode = useCallback(() => {
+    if (gameIdInput.trim()) {
+      onWatch(gameIdInput.trim().toUpperCase())
+    }
+  }, [gameIdInput, onWatch])
+
   const handleJoinGame = useCallback((gameId: string) => {
     onJoin(gameId)
   }, [onJoin])
@@ -28,7 +35,7 @@ const JoinGameModal: React.FC<JoinGameModalProps> = memo(({ isOpen, onClose, onJ
 
   const renderedGames = useMemo(() => {
     return games.map(game => (
-      <li key={game.gameId}>
+      <li key={game.gameId} className="flex flex-col gap-1">
         <button
           onClick={() => handleJoinGame(game.gameId)}
           className="w-full text-left p-4 bg-gray-700 hover:bg-indigo-600 hover:border-indigo-400 border border-gray-600 rounded-lg transition-all shadow-md group flex flex-col gap-2"
@@ -43,9 +50,15 @@ const JoinGameModal: React.FC<JoinGameModalProps> = memo(({ isOpen, onClose, onJ
             {game.gameId}
           </span>
         </button>
+        <button
+          onClick={() => onWatch(game.gameId)}
+          className="w-full py-1 bg-gray-700 hover:bg-gray-600 border border-gray-600 rounded-lg text-sm text-gray-300 transition-colors"
+        >
+          {t('watch')}{game.spectatorCount ? ` (${t('spectators')}: ${game.spectatorCount})` : ''}
+        </button>
       </li>
     ))
-  }, [games, handleJoinGame, t])
+  }, [games, handleJoinGame, onWatch, t])
 
   if (!isOpen) {
     return null
@@ -90,6 +103,13 @@ const JoinGameModal: React.FC<JoinGameModalProps> = memo(({ isOpen, onClose, onJ
             >
               {t('join')}
             </button>
+            <button
+              onClick={handleWatchWithCode}
+              disabled={!gameIdInput.trim()}
+              className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-6 rounded disabled:bg-gray-700 disabled:cursor-not-allowed transition-colors"
+            >
+              {t('watch')}
+            </button>
           </div>
 
           <div className="flex justify-end mt-6">
@@ -4,6 +4,7 @@ import { DeckBuilderModal } from './DeckBuilderModal'
 import { SettingsModal } from './SettingsModal'
 import { RulesModal } from './RulesModal'
 import { CardDetailModal } from './CardDetailModal'
+import { ReplayListModal } from './ReplayListModal'
 import type { GameState, Card, Player } from '@/types'
 import { STATUS_DESCRIPTIONS } from '@/constants'
 import { APP_VERSION } from '@/version'
@@ -17,12 +18,16 @@ interface MainMenuProps {
     isJoinModalOpen: boolean;
     setJoinModalOpen: (open: boolean) => void;
     handleJoinGame: (gameId: string) => void;
-    gamesList: { gameId: string; playerCount: number }[];
+    handleWatchGame: (gameId: string) => void;
+    gamesList: { gameId: string; playerCount: number; spectatorCount?: number }[];
     isDeckBuilderOpen: boolean;
     setViewingCard: React.Dispatch<React.SetStateAction<{ card: Card; player?: Player } | null>>;
     isSettingsModalOpen: boolean;
     handleSaveSettings: (url: string) => void;
     isRulesModalOpen: boolean;
+    isReplayListOpen: boolean;
+    setReplayListOpen: (open: boolean) => void;
+    handleOpenReplay: (replayId: string) => void;
     viewingCard: { card: Card; player?: Player } | null;
     gameState: GameState;
     imageRefreshVersion: number;
@@ -38,12 +43,16 @@ export const MainMenu: React.FC<MainMenuProps> = memo(({
   isJoinModalOpen,
   setJoinModalOpen,
   handleJoinGame,
+  handleWatchGame,
   gamesList,
   isDeckBuilderOpen,
   setViewingCard,
   isSettingsModalOpen,
   handleSaveSettings,
   isRulesModalOpen,
+  isReplayListOpen,
+  setReplayListOpen,
+  handleOpenReplay,
   viewingCard,
   gameState,
   imageRefreshVersion,
@@ -83,6 +92,14 @@ export const MainMenu: React.FC<MainMenuProps> = memo(({
             {t('joinGame')}
           </button>
 
+          <button
+            onClick={() => setReplayListOpen(true)}
+            className="w-full bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-6 rounded-lg shadow-lg transition-all transform hover:scale-105 flex items-center justify-center gap-2"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+            {t('replays')}
+          </button>
+
           <button
             disabled
             className="w-full bg-gray-800 text-gray-500 font-bold py-3 px-6 rounded-lg shadow-inner flex items-center justify-center gap-2 cursor-not-allowed border border-gray-700"
@@ -150,6 +167,7 @@ export const MainMenu: React.FC<MainMenuProps> = memo(({
         isOpen={isJoinModalOpen}
         onClose={() => setJoinModalOpen(false)}
         onJoin={handleJoinGame}
+        onWatch={handleWatchGame}
         games={gamesList}
       />
 
@@ -170,6 +188,12 @@ export const MainMenu: React.FC<MainMenuProps> = memo(({
         onClose={() => setRulesModalOpen(false)}
       />
 
+      <ReplayListModal
+        isOpen={isReplayListOpen}
+        onClose={() => setReplayListOpen(false)}
+        onSelect={handleOpenReplay}
+      />
+
       {viewingCard && (
         <CardDetailModal
           card={viewingCard.card}
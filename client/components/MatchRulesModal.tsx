@@ -0,0 +1,137 @@
+/**
+ * @file Renders a modal for viewing and editing a game's match rules in the lobby.
+ */
+import React, { useState } from 'react'
+import type { MatchRules, TieBreakPolicy } from '@/types'
+import { useLanguage } from '@/contexts/LanguageContext'
+import { MAX_FINAL_ROUND_TURN_LIMIT, MAX_MATCH_ROUNDS, MAX_ROUND_TARGET } from '@server/utils/matchRules'
+
+interface MatchRulesModalProps {
+  rules: MatchRules;
+  canEdit: boolean;
+  onSave: (rules: MatchRules) => void;
+  onClose: () => void;
+}
+
+const ROUND_COUNT_OPTIONS = Array.from({ length: MAX_MATCH_ROUNDS }, (_, i) => i + 1)
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, Number.isFinite(value) ? value : min))
+
+/**
+ * Shows the round targets, round count, wins needed, final-round turn limit and tie-break.
+ * Only the host can change them; everyone else sees them read-only.
+ * @param {MatchRulesModalProps} props The properties for the component.
+ * @returns {React.ReactElement} The rendered modal.
+ */
+export const MatchRulesModal: React.FC<MatchRulesModalProps> = ({ rules, canEdit, onSave, onClose }) => {
+  const { t } = useLanguage()
+  const [draft, setDraft] = useState<MatchRules>(rules)
+
+  // One target per round; new rounds start 10 points above the previous one
+  const changeMaxRounds = (maxRounds: number) => {
+    setDraft(current => {
+      const roundTargets = Array.from({ length: maxRounds }, (_, i) =>
+        current.roundTargets[i] ?? Math.min(MAX_ROUND_TARGET, (current.roundTargets[current.roundTargets.length - 1] ?? 10) + (10 * (i - current.roundTargets.length + 1))))
+      return { ...current, maxRounds, roundTargets, winsNeeded: Math.min(current.winsNeeded, maxRounds) }
+    })
+  }
+
+  const changeRoundTarget = (index: number, value: number) => {
+    setDraft(current => ({
+      ...current,
+      roundTargets: current.roundTargets.map((target, i) => (i === index ? clamp(value, 1, MAX_ROUND_TARGET) : target)),
+    }))
+  }
+
+  const inputClass = 'bg-gray-700 border border-gray-600 text-white text-sm rounded p-1 disabled:opacity-70'
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-[60]">
+      <div className="bg-gray-800 rounded-lg p-6 shadow-xl w-full max-w-md">
+        <h2 className="text-2xl font-bold mb-4">{t('matchRules')}</h2>
+
+        <div className="space-y-3 text-sm">
+          <div className="flex items-center justify-between">
+            <label htmlFor="max-rounds" className="text-gray-300">{t('maxRounds')}</label>
+            <select id="max-rounds" value={draft.maxRounds} disabled={!canEdit} onChange={(e) => changeMaxRounds(parseInt(e.target.value, 10))} className={inputClass}>
+              {ROUND_COUNT_OPTIONS.map(option => <option key={option} value={option}>{option}</option>)}
+            </select>
+          </div>
+
+          <div>
+            <span className="text-gray-300">{t('roundTargets')}</span>
+            <div className="grid grid-cols-5 gap-2 mt-1">
+              {draft.roundTargets.map((target, i) => (
+                <label key={i} className="flex flex-col items-center text-xs text-gray-400">
+                  {t('round')} {i + 1}
+                  <input
+                    type="number"
+                    min={1}
+                    max={MAX_ROUND_TARGET}
+                    value={target}
+                    disabled={!canEdit}
+                    onChange={(e) => changeRoundTarget(i, parseInt(e.target.value, 10))}
+                    className={`${inputClass} w-16 text-center`}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <label htmlFor="wins-needed" className="text-gray-300">{t('winsNeeded')}</label>
+            <select
+              id="wins-needed"
+              value={draft.winsNeeded}
+              disabled={!canEdit}
+              onChange={(e) => setDraft(current => ({ ...current, winsNeeded: parseInt(e.target.value, 10) }))}
+              className={inputClass}
+            >
+              {ROUND_COUNT_OPTIONS.filter(option => option <= draft.maxRounds).map(option => <option key={option} value={option}>{option}</option>)}
+            </select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <label htmlFor="turn-limit" className="text-gray-300">{t('finalRoundTurnLimit')}</label>
+            <input
+              id="turn-limit"
+              type="number"
+              min={0}
+              max={MAX_FINAL_ROUND_TURN_LIMIT}
+              value={draft.finalRoundTurnLimit}
+              disabled={!canEdit}
+              title={`0 = ${t('noLimit')}`}
+              onChange={(e) => setDraft(current => ({ ...current, finalRoundTurnLimit: clamp(parseInt(e.target.value, 10), 0, MAX_FINAL_ROUND_TURN_LIMIT) }))}
+              className={`${inputClass} w-16 text-center`}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <label htmlFor="tie-break" className="text-gray-300">{t('tieBreak')}</label>
+            <select
+              id="tie-break"
+              value={draft.tieBreak}
+              disabled={!canEdit}
+              onChange={(e) => setDraft(current => ({ ...current, tieBreak: e.target.value as TieBreakPolicy }))}
+              className={inputClass}
+            >
+              <option value="shared">{t('tieBreakShared')}</option>
+              <option value="suddenDeath">{t('tieBreakSuddenDeath')}</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button onClick={onClose} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded">
+            {canEdit ? t('cancel') : t('close')}
+          </button>
+          {canEdit && (
+            <button onClick={() => onSave(draft)} className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded">
+              {t('save')}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,10 +1,11 @@
 import React, { memo, useRef, useState, useEffect } from 'react'
 import { DeckType as DeckTypeEnum } from '@/types'
-import type { Player, PlayerColor, Card as CardType, DragItem, DropTarget, CustomDeckFile, ContextMenuParams } from '@/types'
+import type { AiDifficulty, Player, PlayerColor, Card as CardType, DragItem, DropTarget, CustomDeckFile, ContextMenuParams, TurnClock } from '@/types'
 import { PLAYER_COLORS, GAME_ICONS } from '@/constants'
 import { getSelectableDecks } from '@/content'
 import { Card as CardComponent } from './Card'
 import { CardTooltipContent } from './Tooltip'
+import { TurnClockBadge } from './TurnClockBadge'
 import { useLanguage } from '@/contexts/LanguageContext'
 import { validateDeckData } from '@/utils/deckValidation'
 
@@ -47,6 +48,8 @@ interface PlayerPanelProps {
   startingPlayerId?: number | null; // Aligned with GameState type (null when not set)
   onDeckClick?: (playerId: number) => void;
   isDeckSelectable?: boolean;
+  turnClock?: TurnClock | null;
+  onAiDifficultyChange?: (playerId: number, difficulty: AiDifficulty | null) => void; // Host only: hands a dummy seat to the AI
 }
 
 const ColorPicker: React.FC<{ player: Player, canEditSettings: boolean, selectedColors: Set<PlayerColor>, onColorChange: (c: PlayerColor) => void }> = memo(({ player, canEditSettings, selectedColors, onColorChange }) => {
@@ -208,6 +211,8 @@ const PlayerPanel: React.FC<PlayerPanelProps> = memo(({
   startingPlayerId,
   onDeckClick,
   isDeckSelectable,
+  turnClock,
+  onAiDifficultyChange,
 }) => {
   const { t, resources } = useLanguage()
   const fileInputRef = useRef<HTMLInputElement>(null)
@@ -226,6 +231,9 @@ const PlayerPanel: React.FC<PlayerPanelProps> = memo(({
   const firstPlayerIconUrl = GAME_ICONS.FIRST_PLAYER
   const ROUND_WIN_MEDAL_URL = GAME_ICONS.ROUND_WIN_MEDAL
   const shouldFlashDeck = isPlayerActive && currentPhase === 0
+  // Live countdown on the player's own turn, otherwise what is left in their bank
+  const playerClock = isGameStarted && turnClock?.playerId === player.id ? turnClock : null
+  const showClock = isGameStarted && (!!playerClock || player.timeBankMs !== undefined)
 
   const handleDeckSelectChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     onDeckChange(e.target.value as DeckTypeEnum)
@@ -283,6 +291,7 @@ const PlayerPanel: React.FC<PlayerPanelProps> = memo(({
             {winCount > 0 && Array.from({ length: winCount }).map((_, i) => (
               <img key={`win-${i}`} src={ROUND_WIN_MEDAL_URL} alt="Round Winner" className="w-6 h-6 drop-shadow-md mr-2 flex-shrink-0" title="Round Winner" />
             ))}
+            {showClock && <TurnClockBadge clock={playerClock} bankMs={player.timeBankMs} className="mr-3 flex-shrink-0" />}
             <input type="checkbox" checked={isPlayerActive} onChange={() => onToggleActivePlayer(player.id)} disabled={!isLocalPlayer && !player.isDummy} className={`w-6 h-6 text-yellow-400 bg-gray-700 border-gray-600 rounded flex-shrink-0 ${!isLocalPlayer && !player.isDummy ? 'cursor-default' : 'cursor-pointer'}`} title="Active Player" />
           </div>
         </div>
@@ -444,11 +453,29 @@ const PlayerPanel: React.FC<PlayerPanelProps> = memo(({
             </select>
           )}
 
+          {/* Dummy AI Select */}
+          {player.isDummy && (onAiDifficultyChange && localPlayerId === 1 ? (
+            <select
+              value={player.aiDifficulty ?? ''}
+              onChange={(e) => onAiDifficultyChange(player.id, (e.target.value || null) as AiDifficulty | null)}
+              className="text-sm bg-gray-700 text-white border border-gray-600 rounded px-1 py-0 h-6 focus:outline-none"
+              title={t('aiPlayer')}
+            >
+              <option value="">{t('aiOff')}</option>
+              <option value="easy">{t('aiEasy')}</option>
+              <option value="normal">{t('aiNormal')}</option>
+              <option value="hard">{t('aiHard')}</option>
+            </select>
+          ) : player.aiDifficulty && (
+            <span className="text-xs text-gray-300 bg-gray-700 rounded px-1" title={t('aiPlayer')}>🤖</span>
+          ))}
+
           <div className="flex-1"></div>
 
           <div className="flex items-center gap-1">
             {isFirstPlayer && <img src={firstPlayerIconUrl} className="w-5 h-5" title="First Player" />}
             {winCount > 0 && <span className="text-yellow-500 text-base font-bold">★{winCount}</span>}
+            {showClock && <TurnClockBadge clock={playerClock} bankMs={player.timeBankMs} className="text-xs" />}
             <input
               type="checkbox"
               checked={isPlayerActive}
@@ -0,0 +1,84 @@
+import React, { useEffect, useState, memo } from 'react'
+import { useLanguage } from '@/contexts/LanguageContext'
+import type { ReplaySummary } from '@server/utils/replay'
+import { logger } from '@/utils/logger'
+
+interface ReplayListModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSelect: (replayId: string) => void;
+}
+
+const ReplayListModal: React.FC<ReplayListModalProps> = memo(({ isOpen, onClose, onSelect }) => {
+  const { t } = useLanguage()
+  const [replays, setReplays] = useState<ReplaySummary[] | null>(null)
+
+  // Refresh the list every time the modal opens, finished games are added all the time
+  useEffect(() => {
+    if (!isOpen) {
+      return
+    }
+    let isCancelled = false
+    setReplays(null)
+    fetch('/api/replays')
+      .then(response => (response.ok ? response.json() : { replays: [] }))
+      .then(data => !isCancelled && setReplays(data.replays || []))
+      .catch(error => {
+        logger.error('Failed to fetch replays:', error)
+        if (!isCancelled) {
+          setReplays([])
+        }
+      })
+    return () => {
+      isCancelled = true
+    }
+  }, [isOpen])
+
+  if (!isOpen) {
+    return null
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-[5px]">
+      <div className="bg-gray-800 rounded-lg p-6 shadow-xl w-full max-w-3xl flex flex-col max-h-[calc(100vh-10px)]">
+        <h2 className="text-2xl font-bold mb-4 flex-shrink-0">{t('replays')}</h2>
+
+        <div className="flex-grow overflow-y-auto pr-2 custom-scrollbar min-h-[150px]">
+          {replays === null ? (
+            <p className="text-gray-400 text-center mt-8">{t('loading')}</p>
+          ) : replays.length === 0 ? (
+            <p className="text-gray-400 text-center opacity-70 mt-8">{t('noReplays')}</p>
+          ) : (
+            <ul className="space-y-2">
+              {replays.map(replay => (
+                <li key={replay.replayId}>
+                  <button
+                    onClick={() => onSelect(replay.replayId)}
+                    className="w-full text-left p-3 bg-gray-700 hover:bg-indigo-600 border border-gray-600 rounded-lg transition-all shadow-md flex flex-col gap-1"
+                  >
+                    <div className="flex justify-between items-center w-full">
+                      <span className="font-mono text-indigo-300 font-bold">{replay.gameId}</span>
+                      <span className="text-xs text-gray-400">{new Date(replay.endedAt).toLocaleString()}</span>
+                    </div>
+                    <span className="text-sm text-gray-200 truncate">{replay.playerNames.join(', ')}</span>
+                    {replay.gameWinner && (
+                      <span className="text-xs text-yellow-400">{t('winner')}: {replay.gameWinner}</span>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex justify-end mt-6 flex-shrink-0">
+          <button type="button" onClick={onClose} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-6 rounded transition-colors">
+            {t('close')}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+})
+
+export { ReplayListModal }
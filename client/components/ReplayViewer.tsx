@@ -0,0 +1,220 @@
+/**
+ * @file Plays back a recorded match on the regular board and player panels.
+ */
+import React, { useEffect, useMemo, useState } from 'react'
+import type { PlayerColor } from '@/types'
+import { TURN_PHASES } from '@/constants'
+import { GameBoard } from './GameBoard'
+import { PlayerPanel } from './PlayerPanel'
+import { GameLogPanel } from './GameLogPanel'
+import { useLanguage } from '@/contexts/LanguageContext'
+import { buildReplayStates, createReplayView, findReplayTurns, getReplayEventSeq } from '@server/utils/replay'
+import type { GameReplay } from '@server/utils/replay'
+
+const REPLAY_STEP_MS = 800
+
+// The viewer only looks at the recorded states, every interaction is ignored
+const noop = () => {}
+
+interface ReplayViewerProps {
+  replay: GameReplay;
+  onClose: () => void;
+  imageRefreshVersion: number;
+}
+
+/**
+ * Shows one recorded state at a time with play/pause, single steps, turn jumps and
+ * per-seat switches for revealing hands, decks and face-down cards.
+ * @param {ReplayViewerProps} props The properties for the component.
+ * @returns {React.ReactElement} The rendered viewer.
+ */
+export const ReplayViewer: React.FC<ReplayViewerProps> = ({ replay, onClose, imageRefreshVersion }) => {
+  const { t } = useLanguage()
+  const states = useMemo(() => buildReplayStates(replay), [replay])
+  const turns = useMemo(() => findReplayTurns(states), [states])
+  const [stateIndex, setStateIndex] = useState(0)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [revealedPlayerIds, setRevealedPlayerIds] = useState<number[]>([])
+
+  const lastIndex = states.length - 1
+
+  useEffect(() => {
+    if (!isPlaying) {
+      return
+    }
+    if (stateIndex >= lastIndex) {
+      setIsPlaying(false)
+      return
+    }
+    const timer = setTimeout(() => setStateIndex(index => Math.min(index + 1, lastIndex)), REPLAY_STEP_MS)
+    return () => clearTimeout(timer)
+  }, [isPlaying, stateIndex, lastIndex])
+
+  const state = useMemo(() => createReplayView(states[stateIndex], revealedPlayerIds), [states, stateIndex, revealedPlayerIds])
+
+  const eventSeq = getReplayEventSeq(replay, stateIndex)
+  const events = useMemo(() => replay.events.filter(event => event.seq <= eventSeq), [replay.events, eventSeq])
+
+  const playerColorMap = useMemo(() => {
+    const map = new Map<number, PlayerColor>()
+    state.players.forEach(p => map.set(p.id, p.color))
+    return map
+  }, [state.players])
+
+  // The turn the current state belongs to, for the jump-to-turn select
+  const currentTurnIndex = turns.reduce((found, turn, i) => (turn.stateIndex <= stateIndex ? i : found), -1)
+
+  const stepTo = (index: number) => {
+    setIsPlaying(false)
+    setStateIndex(Math.max(0, Math.min(index, lastIndex)))
+  }
+
+  const toggleRevealed = (playerId: number) => {
+    setRevealedPlayerIds(ids => (ids.includes(playerId) ? ids.filter(id => id !== playerId) : [...ids, playerId]))
+  }
+
+  const getPlayerName = (playerId: number | null) => state.players.find(p => p.id === playerId)?.name || '—'
+
+  const half = Math.ceil(state.players.length / 2)
+  const renderPlayerPanels = (players: typeof state.players) => players.map(player => (
+    <div key={player.id} className="w-full flex-1 min-h-0 flex flex-col">
+      <PlayerPanel
+        player={player}
+        isLocalPlayer={false}
+        localPlayerId={null}
+        isSpectator={true}
+        isGameStarted={state.isGameStarted}
+        onNameChange={noop}
+        onColorChange={noop}
+        onScoreChange={noop}
+        onDeckChange={noop}
+        onLoadCustomDeck={noop}
+        onDrawCard={noop}
+        handleDrop={noop}
+        draggedItem={null}
+        setDraggedItem={noop}
+        openContextMenu={noop}
+        onHandCardDoubleClick={noop}
+        playerColorMap={playerColorMap}
+        allPlayers={state.players}
+        activePlayerId={state.activePlayerId}
+        onToggleActivePlayer={noop}
+        imageRefreshVersion={imageRefreshVersion}
+        layoutMode="list-remote"
+        currentPhase={state.currentPhase}
+        disableActiveHighlights={true}
+        roundWinners={state.roundWinners}
+        startingPlayerId={state.startingPlayerId}
+      />
+    </div>
+  ))
+
+  return (
+    <div className="relative w-screen h-screen overflow-hidden bg-gray-900 text-white">
+      <header className="absolute top-0 left-0 right-0 h-14 z-40 bg-panel-bg border-b border-gray-700 shadow-md flex items-center gap-3 px-3">
+        <span className="font-bold">{t('replays')}: <span className="font-mono text-indigo-300">{replay.gameId}</span></span>
+
+        <div className="flex items-center gap-1">
+          <button onClick={() => stepTo(stateIndex - 1)} disabled={stateIndex === 0} className="bg-gray-600 hover:bg-gray-500 disabled:opacity-40 text-sm font-bold py-1 px-2 rounded" title={t('replayStepBack')}>
+            ◀
+          </button>
+          <button onClick={() => setIsPlaying(playing => !playing)} disabled={stateIndex >= lastIndex} className="bg-indigo-600 hover:bg-indigo-700 disabled:opacity-40 text-sm font-bold py-1 px-3 rounded min-w-[90px]">
+            {isPlaying ? t('replayPause') : t('replayPlay')}
+          </button>
+          <button onClick={() => stepTo(stateIndex + 1)} disabled={stateIndex >= lastIndex} className="bg-gray-600 hover:bg-gray-500 disabled:opacity-40 text-sm font-bold py-1 px-2 rounded" title={t('replayStepForward')}>
+            ▶
+          </button>
+        </div>
+
+        <input
+          type="range"
+          min={0}
+          max={lastIndex}
+          value={stateIndex}
+          onChange={(e) => stepTo(parseInt(e.target.value, 10))}
+          className="w-48 accent-indigo-500"
+        />
+        <span className="text-xs text-gray-400 font-mono">{stateIndex}/{lastIndex}</span>
+
+        <select
+          value={currentTurnIndex}
+          onChange={(e) => stepTo(turns[parseInt(e.target.value, 10)]?.stateIndex ?? 0)}
+          className="bg-gray-700 border border-gray-600 text-white text-xs rounded p-1"
+          title={t('replayJumpToTurn')}
+        >
+          <option value={-1} disabled>{t('replayJumpToTurn')}</option>
+          {turns.map((turn, i) => (
+            <option key={turn.stateIndex} value={i}>
+              {t('round')} {turn.round} · {t('turn')} {turn.turnNumber} · {getPlayerName(turn.activePlayerId)}
+            </option>
+          ))}
+        </select>
+
+        <span className="text-xs text-gray-300">
+          {t('round')} {state.currentRound} · {TURN_PHASES[state.currentPhase]}
+        </span>
+
+        <div className="flex items-center gap-2 ml-auto text-xs" title={t('replayShowHidden')}>
+          <span className="text-gray-400">{t('replayShowHidden')}:</span>
+          {state.players.filter(p => !p.isDummy).map(player => (
+            <label key={player.id} className="flex items-center gap-1 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={revealedPlayerIds.includes(player.id)}
+                onChange={() => toggleRevealed(player.id)}
+                className="accent-indigo-500"
+              />
+              {player.name}
+            </label>
+          ))}
+        </div>
+
+        <button onClick={onClose} className="bg-red-600 hover:bg-red-700 text-sm font-bold py-1 px-3 rounded">
+          {t('close')}
+        </button>
+      </header>
+
+      {replay.truncated && stateIndex === lastIndex && (
+        <div className="absolute top-16 left-1/2 -translate-x-1/2 z-40 bg-yellow-700 text-white text-sm py-1 px-3 rounded shadow">
+          {t('replayTruncated')}
+        </div>
+      )}
+
+      <div className="absolute left-0 top-14 bottom-[2px] z-30 w-80 bg-panel-bg shadow-xl flex flex-col gap-[2px] border-r border-gray-700 p-[2px]">
+        {renderPlayerPanels(state.players.slice(0, half))}
+      </div>
+
+      <div className="absolute top-14 bottom-0 z-10 flex items-center justify-center pointer-events-none w-full left-0">
+        <div className="pointer-events-auto h-full aspect-square flex items-center justify-center py-[2px]">
+          <GameBoard
+            board={state.board}
+            isGameStarted={state.isGameStarted}
+            activeGridSize={state.activeGridSize}
+            handleDrop={noop}
+            draggedItem={null}
+            setDraggedItem={noop}
+            openContextMenu={noop}
+            playMode={null}
+            setPlayMode={noop}
+            highlight={null}
+            playerColorMap={playerColorMap}
+            localPlayerId={null}
+            onCardDoubleClick={noop}
+            onEmptyCellDoubleClick={noop}
+            imageRefreshVersion={imageRefreshVersion}
+            cursorStack={null}
+            currentPhase={state.currentPhase}
+            activePlayerId={state.activePlayerId}
+            disableActiveHighlights={true}
+          />
+        </div>
+      </div>
+
+      <div className="absolute right-0 top-14 bottom-[2px] z-30 w-80 bg-panel-bg shadow-xl flex flex-col gap-[2px] border-l border-gray-700 p-[2px]">
+        {renderPlayerPanels(state.players.slice(half))}
+      </div>
+
+      <GameLogPanel events={events} players={state.players} onOpen={noop} />
+    </div>
+  )
+}
@@ -5,18 +5,20 @@ import React from 'react'
 import type { GameState, Player } from '@/types'
 import { PLAYER_COLORS } from '@/constants'
 import { useLanguage } from '@/contexts/LanguageContext'
+import { getMatchRules, getRoundTarget, isFinalRound } from '@server/utils/matchRules'
+import { canConfirmRoundEnd } from '@server/utils/gameActions'
 
 // Constants
-const MAX_ROUNDS = 5
 const ROUND_WIN_MEDAL_URL = 'https://res.cloudinary.com/dxxh6meej/image/upload/v1764252181/medal_rgbw8d.png'
 
 interface RoundEndModalProps {
     gameState: GameState;
+    localPlayerId: number | null;
     onConfirm: () => void;
     onExit: () => void;
 }
 
-export const RoundEndModal: React.FC<RoundEndModalProps> = ({ gameState, onConfirm, onExit }) => {
+export const RoundEndModal: React.FC<RoundEndModalProps> = ({ gameState, localPlayerId, onConfirm, onExit }) => {
   const { t } = useLanguage()
 
   if (!gameState.isRoundEndModalOpen) {
@@ -26,10 +28,15 @@ export const RoundEndModal: React.FC<RoundEndModalProps> = ({ gameState, onConfi
   const roundWinnerIds = gameState.roundWinners[gameState.currentRound] || []
   const gameWinnerId = gameState.gameWinner
   const isGameOver = !!gameWinnerId
+  const gameWinnerIds = gameState.gameWinners?.length ? gameState.gameWinners : (gameWinnerId ? [gameWinnerId] : [])
+  const gameWinnerNames = gameState.players.filter(p => gameWinnerIds.includes(p.id)).map(p => p.name).join(', ')
+  // Only the host or a round winner starts the next round
+  const canConfirm = localPlayerId !== null && canConfirmRoundEnd(gameState, localPlayerId)
 
-  // Calculate next round target dynamically
+  // Next round target and limits come from the match rules
+  const rules = getMatchRules(gameState)
   const nextRound = gameState.currentRound + 1
-  const nextTarget = (nextRound * 10) + 10
+  const nextTarget = getRoundTarget(rules, nextRound)
 
   // Sort players based on starting player for the round/game rotation
   // Find index of starting player
@@ -115,14 +122,31 @@ export const RoundEndModal: React.FC<RoundEndModalProps> = ({ gameState, onConfi
                 <span className="text-gray-400">{t('victoryCondition')}</span>
                 <span className="font-bold text-yellow-400">{nextTarget} {t('score')}</span>
               </div>
-              <div className="text-xs text-gray-500 italic mt-2 text-center">
-                {t('win2RoundsMatch')}<br/>
-                {nextRound === MAX_ROUNDS ? t('finalRoundMaxTurns') : t('max5RoundsInfo')}
+              <div className="text-xs text-gray-500 mt-2 space-y-1">
+                <div className="flex justify-between">
+                  <span>{t('winsNeeded')}</span>
+                  <span>{rules.winsNeeded}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>{t('maxRounds')}</span>
+                  <span>{rules.maxRounds}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>{t('tieBreak')}</span>
+                  <span>{rules.tieBreak === 'suddenDeath' ? t('tieBreakSuddenDeath') : t('tieBreakShared')}</span>
+                </div>
+                {isFinalRound(rules, nextRound) && (
+                  <div className="flex justify-between text-yellow-500 italic">
+                    <span>{t('finalRound')}</span>
+                    <span>{rules.finalRoundTurnLimit > 0 ? `${t('finalRoundTurnLimit')}: ${rules.finalRoundTurnLimit}` : t('noLimit')}</span>
+                  </div>
+                )}
               </div>
             </>
           ) : (
             <div className="text-center py-2">
               <div className="text-yellow-400 font-bold text-lg mb-1">{t('matchComplete')}</div>
+              {gameWinnerNames && <div className="text-white font-bold mb-1">{gameWinnerNames}</div>}
               <p className="text-gray-400 text-xs">{t('thankYouPlaying')}</p>
             </div>
           )}
@@ -138,20 +162,22 @@ export const RoundEndModal: React.FC<RoundEndModalProps> = ({ gameState, onConfi
               >
                 {t('returnToMenu')}
               </button>
-              <button
+              {canConfirm && <button
                 onClick={onConfirm}
                 className="flex-1 bg-green-800 hover:bg-green-700 text-white font-bold py-2 px-4 rounded border border-green-600 text-sm transition-colors"
               >
                 {t('continueGame')}
-              </button>
+              </button>}
             </>
-          ) : (
+          ) : canConfirm ? (
             <button
               onClick={onConfirm}
               className="bg-green-800 hover:bg-green-700 text-white font-bold py-2 px-6 rounded border border-green-600 text-sm transition-colors w-full"
             >
               {t('startRound')} {nextRound}
             </button>
+          ) : (
+            <div className="text-gray-400 text-sm text-center w-full py-2">{t('waitingForOthers')}</div>
           )}
         </div>
       </div>
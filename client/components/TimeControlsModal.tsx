@@ -0,0 +1,92 @@
+/**
+ * @file Renders a modal for viewing and editing a game's time controls in the lobby.
+ */
+import React, { useState } from 'react'
+import type { TimeControls, TimeoutBehavior } from '@/types'
+import { useLanguage } from '@/contexts/LanguageContext'
+import { MAX_TIME_BANK_SECONDS, MAX_TIME_INCREMENT_SECONDS, MAX_TURN_LIMIT_SECONDS } from '@server/utils/turnClock'
+
+interface TimeControlsModalProps {
+  controls: TimeControls;
+  canEdit: boolean;
+  onSave: (controls: TimeControls) => void;
+  onClose: () => void;
+}
+
+type SecondsField = 'turnLimitSeconds' | 'bankSeconds' | 'incrementSeconds'
+
+const SECONDS_FIELDS: { field: SecondsField, label: 'turnTimeLimit' | 'timeBank' | 'timeIncrement', max: number }[] = [
+  { field: 'turnLimitSeconds', label: 'turnTimeLimit', max: MAX_TURN_LIMIT_SECONDS },
+  { field: 'bankSeconds', label: 'timeBank', max: MAX_TIME_BANK_SECONDS },
+  { field: 'incrementSeconds', label: 'timeIncrement', max: MAX_TIME_INCREMENT_SECONDS },
+]
+
+/**
+ * Shows the turn limit, time bank, increment and timeout behavior; 0 turns a limit off.
+ * Only the host can change them; everyone else sees them read-only.
+ * @param {TimeControlsModalProps} props The properties for the component.
+ * @returns {React.ReactElement} The rendered modal.
+ */
+export const TimeControlsModal: React.FC<TimeControlsModalProps> = ({ controls, canEdit, onSave, onClose }) => {
+  const { t } = useLanguage()
+  const [draft, setDraft] = useState<TimeControls>(controls)
+
+  const changeSeconds = (field: SecondsField, value: number, max: number) => {
+    setDraft(current => ({ ...current, [field]: Math.min(max, Math.max(0, Number.isFinite(value) ? value : 0)) }))
+  }
+
+  const inputClass = 'bg-gray-700 border border-gray-600 text-white text-sm rounded p-1 disabled:opacity-70'
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-[60]">
+      <div className="bg-gray-800 rounded-lg p-6 shadow-xl w-full max-w-md">
+        <h2 className="text-2xl font-bold mb-4">{t('timeControls')}</h2>
+
+        <div className="space-y-3 text-sm">
+          {SECONDS_FIELDS.map(({ field, label, max }) => (
+            <div key={field} className="flex items-center justify-between">
+              <label htmlFor={`time-${field}`} className="text-gray-300">{t(label)}</label>
+              <input
+                id={`time-${field}`}
+                type="number"
+                min={0}
+                max={max}
+                value={draft[field]}
+                disabled={!canEdit}
+                title={`0 = ${t('noLimit')}`}
+                onChange={(e) => changeSeconds(field, parseInt(e.target.value, 10), max)}
+                className={`${inputClass} w-20 text-center`}
+              />
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between">
+            <label htmlFor="time-on-timeout" className="text-gray-300">{t('onTimeout')}</label>
+            <select
+              id="time-on-timeout"
+              value={draft.onTimeout}
+              disabled={!canEdit}
+              onChange={(e) => setDraft(current => ({ ...current, onTimeout: e.target.value as TimeoutBehavior }))}
+              className={inputClass}
+            >
+              <option value="autoAdvance">{t('timeoutAutoAdvance')}</option>
+              <option value="warn">{t('timeoutWarn')}</option>
+              <option value="forfeitRound">{t('timeoutForfeitRound')}</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button onClick={onClose} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded">
+            {canEdit ? t('cancel') : t('close')}
+          </button>
+          {canEdit && (
+            <button onClick={() => onSave(draft)} className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded">
+              {t('save')}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
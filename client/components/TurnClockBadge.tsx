@@ -0,0 +1,55 @@
+/**
+ * @file Renders a countdown of the active player's turn clock, or a player's idle time bank.
+ */
+import React, { memo, useEffect, useState } from 'react'
+import type { TurnClock } from '@/types'
+import { useLanguage } from '@/contexts/LanguageContext'
+import { formatClock, getRemainingMs } from '@server/utils/turnClock'
+
+// Below this the clock turns red
+const LOW_TIME_MS = 10000
+const TICK_MS = 250
+
+interface TurnClockBadgeProps {
+  clock?: TurnClock | null; // Running clock to count down; without one the bank is shown as is
+  bankMs?: number;
+  className?: string;
+}
+
+/**
+ * Counts down to the clock's deadline while it runs and shows the time left in a bank otherwise.
+ * @param {TurnClockBadgeProps} props The properties for the component.
+ * @returns {React.ReactElement | null} The rendered badge, or null when there is no time to show.
+ */
+export const TurnClockBadge: React.FC<TurnClockBadgeProps> = memo(({ clock, bankMs, className = '' }) => {
+  const { t } = useLanguage()
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (!clock) {
+      return
+    }
+    setNow(Date.now())
+    const interval = setInterval(() => setNow(Date.now()), TICK_MS)
+    return () => clearInterval(interval)
+  }, [clock])
+
+  if (!clock && bankMs === undefined) {
+    return null
+  }
+
+  const remaining = clock ? getRemainingMs(clock, now) : bankMs ?? 0
+  const isOverTime = !!clock && (clock.isExpired || remaining <= 0)
+  const colorClass = isOverTime
+    ? 'bg-red-700 text-white animate-pulse'
+    : clock && remaining < LOW_TIME_MS ? 'bg-red-900 text-red-200' : clock ? 'bg-gray-700 text-yellow-300' : 'bg-gray-800 text-gray-400'
+
+  return (
+    <span
+      className={`font-mono font-bold text-sm px-2 py-0.5 rounded ${colorClass} ${className}`}
+      title={isOverTime ? t('outOfTime') : clock ? t('turnTimer') : t('timeBank')}
+    >
+      ⏱ {formatClock(remaining)}
+    </span>
+  )
+})
@@ -0,0 +1,41 @@
+/**
+ * @file Renders a modal to approve another player's undo.
+ */
+import React from 'react'
+import type { Player } from '@/types'
+import { useLanguage } from '@/contexts/LanguageContext'
+
+interface UndoRequestModalProps {
+  fromPlayer: Player;
+  onAccept: () => void;
+  onDecline: () => void;
+}
+
+/**
+ * A modal that appears for the other players when the active player wants to undo
+ * an action that showed someone a hidden card.
+ * @param {UndoRequestModalProps} props The properties for the component.
+ * @returns {React.ReactElement} The rendered modal.
+ */
+export const UndoRequestModal: React.FC<UndoRequestModalProps> = ({ fromPlayer, onAccept, onDecline }) => {
+  const { t } = useLanguage()
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-[105]">
+      <div className="bg-gray-800 rounded-lg p-8 shadow-xl w-full max-w-md text-center">
+        <h2 className="text-2xl font-bold mb-4">{t('undoRequestTitle')}</h2>
+        <p className="text-gray-300 mb-6">
+          <span className="font-bold">{fromPlayer.name}</span> {t('undoRequestText')}
+        </p>
+        <div className="flex justify-center space-x-4">
+          <button onClick={onDecline} className="bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-6 rounded transition-colors">
+            {t('decline')}
+          </button>
+          <button onClick={onAccept} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-6 rounded transition-colors">
+            {t('accept')}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
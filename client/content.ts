@@ -5,6 +5,10 @@
 
 import { DeckType } from './types'
 import type { Card, CounterDefinition } from './types'
+import { setAbilityDefinitions } from '@server/utils/abilityEngine'
+import { setReactionDefinitions } from '@server/utils/cardEvents'
+import { setAuraDefinitions } from '@server/utils/auras'
+import { setExpiryEffectDefinitions } from '@server/utils/statusDurations'
 
 // --- Type assertion for the imported JSON data ---
 interface RawDecksJson {
@@ -81,6 +85,12 @@ export async function fetchContentDatabase(): Promise<void> {
     countersDatabase = _countersDatabase
     deckFiles = _deckFiles
 
+    // Abilities, reactions, auras and expiry effects run on the client too, to build targeting modes and previews
+    setAbilityDefinitions(_rawJsonData.cardDatabase, _rawJsonData.tokenDatabase)
+    setReactionDefinitions(_rawJsonData.cardDatabase, _rawJsonData.tokenDatabase)
+    setAuraDefinitions(_rawJsonData.cardDatabase, _rawJsonData.tokenDatabase)
+    setExpiryEffectDefinitions(_rawJsonData.countersDatabase)
+
     // Note: STATUS_ICONS and STATUS_DESCRIPTIONS in constants.ts are now Proxy objects
     // that automatically fetch from countersDatabase, so no manual update needed
 
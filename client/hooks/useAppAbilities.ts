@@ -1,8 +1,15 @@
 import { useCallback, useEffect } from 'react'
-import type { Card, GameState, AbilityAction, CommandContext, DragItem, Player, CounterSelectionData, CursorStackState, FloatingTextData } from '@/types'
+import type { Card, GameState, AbilityAction, CommandContext, DragItem, Player, CounterSelectionData, CursorStackState } from '@/types'
 import { getCardAbilityAction, canActivateAbility } from '@server/utils/autoAbilities'
-import { checkActionHasTargets } from '@server/utils/targeting'
+import { checkActionHasTargets, matchesCellFilter, matchesTargetFilter } from '@server/utils/targeting'
 import { hasReadyAbilityInCurrentPhase } from '@/utils/autoAbilities'
+import type { GameAction } from '@server/utils/gameActions'
+
+type ScoreSelection = Omit<Extract<GameAction, { type: 'SCORE_ABILITY' }>, 'type' | 'playerId'>
+
+// Commands (their actions carry the step) score while announced, units from their cell
+const getScoreSource = (action: AbilityAction): ScoreSelection =>
+  action.payload?.step !== undefined ? { step: action.payload.step } : { sourceCoords: action.sourceCoords }
 
 interface UseAppAbilitiesProps {
     gameState: GameState;
@@ -23,9 +30,8 @@ interface UseAppAbilitiesProps {
     // Actions from useGameState
     moveItem: (item: DragItem, target: any) => void;
     drawCard: (playerId: number) => void;
-    updatePlayerScore: (playerId: number, delta: number) => void;
     markAbilityUsed: (coords: { row: number, col: number }, isDeploy?: boolean, setDeployAttempted?: boolean, readyStatusToRemove?: string) => void;
-    applyGlobalEffect: (source: any, targets: any[], type: string, pid: number, isDeploy: boolean) => void;
+    applyGlobalEffect: (source: any, targets: any[], type: string, isDeploy: boolean) => void;
     swapCards: (c1: any, c2: any) => void;
     transferStatus: (from: any, to: any, type: string) => void;
     transferAllCounters: (from: any, to: any) => void;
@@ -34,13 +40,11 @@ interface UseAppAbilitiesProps {
     scoreLine: (r1: number, c1: number, r2: number, c2: number, pid: number) => void;
     nextPhase: () => void;
     modifyBoardCardPower: (coords: any, delta: number) => void;
-    addBoardCardStatus: (coords: any, status: string, pid: number) => void;
+    addBoardCardStatus: (coords: any, status: string) => void;
     removeBoardCardStatus: (coords: any, status: string) => void;
-    removeBoardCardStatusByOwner: (coords: any, status: string, pid: number) => void;
     resetDeployStatus: (coords: { row: number, col: number }) => void;
-    scoreDiagonal: (r1: number, c1: number, r2: number, c2: number, pid: number, bonusType?: 'point_per_support' | 'draw_per_support') => void;
+    scoreAbility: (playerId: number, selection: ScoreSelection) => void;
     removeStatusByType: (coords: { row: number, col: number }, type: string) => void;
-    triggerFloatingText: (data: Omit<FloatingTextData, 'timestamp'> | Omit<FloatingTextData, 'timestamp'>[]) => void;
 }
 
 export const useAppAbilities = ({
@@ -60,7 +64,6 @@ export const useAppAbilities = ({
   onAbilityComplete,
   moveItem,
   drawCard,
-  updatePlayerScore,
   markAbilityUsed,
   applyGlobalEffect,
   swapCards,
@@ -73,11 +76,9 @@ export const useAppAbilities = ({
   modifyBoardCardPower,
   addBoardCardStatus,
   removeBoardCardStatus,
-  removeBoardCardStatusByOwner,
   resetDeployStatus,
-  scoreDiagonal,
+  scoreAbility,
   removeStatusByType,
-  triggerFloatingText,
 }: UseAppAbilitiesProps) => {
 
   const handleActionExecution = useCallback((action: AbilityAction, sourceCoords: { row: number, col: number }) => {
@@ -89,52 +90,21 @@ export const useAppAbilities = ({
 
     // 1. Global Auto Apply
     if (action.type === 'GLOBAL_AUTO_APPLY') {
-      if (action.payload?.customAction === 'FINN_SCORING') {
-        let revealedCount = 0
-        const finnOwnerId = action.sourceCard?.ownerId
-
-        // Defensive check: if source card has no owner, this scoring is invalid
-        if (finnOwnerId === undefined) {
-          console.warn('[FINN_SCORING] Source card missing ownerId, skipping scoring')
-          markAbilityUsed(action.sourceCoords || sourceCoords, !!action.isDeployAbility)
+      // Scoring steps: the server counts the points from the ability and the board
+      if (action.payload?.score) {
+        const ownerId = action.sourceCard?.ownerId
+        if (ownerId === undefined) {
           return
         }
-
-        // Count Revealed cards in opponents' hands
-        gameState.players.forEach(p => {
-          if (p.id !== finnOwnerId) {
-            p.hand.forEach(c => {
-              if (c.statuses?.some(s => s.type === 'Revealed' && s.addedByPlayerId === finnOwnerId)) {
-                revealedCount++
-              }
-            })
-          }
-        })
-
-        // Count Revealed cards on the battlefield owned by opponents
-        gameState.board.forEach(row => {
-          row.forEach(cell => {
-            const card = cell.card
-            if (card && card.ownerId !== finnOwnerId) {
-              // Only count if revealed by Finn's owner
-              const revealedByFinn = card.statuses?.filter(s => s.type === 'Revealed' && s.addedByPlayerId === finnOwnerId).length || 0
-              revealedCount += revealedByFinn
-            }
-          })
-        })
-
-        if (revealedCount > 0) {
-          // Use action.sourceCoords for correct position of Finn card
+        if (action.payload.step !== undefined) {
+          // A command's chained step gets the unit the previous step moved (Tactical Maneuver)
+          const target = (sourceCoords && sourceCoords.row >= 0) ? sourceCoords : commandContext.lastMovedCardCoords
+          scoreAbility(ownerId, { step: action.payload.step, ...(target && { target }) })
+        } else {
           const coords = action.sourceCoords || sourceCoords
-          triggerFloatingText({
-            row: coords.row,
-            col: coords.col,
-            text: `+${revealedCount}`,
-            playerId: finnOwnerId,
-          })
-          updatePlayerScore(finnOwnerId, revealedCount)
+          scoreAbility(ownerId, { sourceCoords: coords })
+          markAbilityUsed(coords, !!action.isDeployAbility)
         }
-        markAbilityUsed(action.sourceCoords || sourceCoords, !!action.isDeployAbility)
         return
       }
 
@@ -209,21 +179,13 @@ export const useAppAbilities = ({
               for (let i = 0; i < amount; i++) {
                 drawCard(playerId)
               }
-            } else if (rewardType === 'SCORE_MOVED_POWER') {
-              triggerFloatingText({
-                row: sourceCoords.row,
-                col: sourceCoords.col,
-                text: `+${amount}`,
-                playerId: playerId,
-              })
-              updatePlayerScore(playerId, amount)
             }
           }
 
           if (action.payload.contextReward === 'STUN_MOVED_UNIT' && coords) {
             const playerId = action.sourceCard.ownerId
             if (playerId !== undefined) {
-              addBoardCardStatus(coords, 'Stun', playerId)
+              addBoardCardStatus(coords, 'Stun')
             } else {
               console.error('Cannot apply stun: sourceCard has no ownerId')
             }
@@ -236,7 +198,7 @@ export const useAppAbilities = ({
           for (let r = 0; r < gridSize; r++) {
             for (let c = 0; c < gridSize; c++) {
               const targetCard = gameState.board[r][c].card
-              if (targetCard && filter(targetCard)) {
+              if (targetCard && matchesTargetFilter(filter, targetCard, gameState.players)) {
                 targets.push({ row: r, col: c })
               }
             }
@@ -258,15 +220,10 @@ export const useAppAbilities = ({
           if (tokenType) {
             // Special handling for multiple tokens in Global Apply (e.g. False Orders Stun x2)
             // applyGlobalEffect is singular. We loop if needed or just call it.
+            // The server credits the counters to the seat whose turn it is (a dummy's on its turn)
             const count = action.payload.count || 1
-            // Allow payload to override ownerId (for False Orders Mode 2)
-            // Use localPlayerId as safe fallback if sourceCard is undefined
-            const addedBy = action.payload.ownerId !== undefined
-              ? action.payload.ownerId
-              : (action.sourceCard?.ownerId ?? localPlayerId)
-
             for (let i = 0; i < count; i++) {
-              applyGlobalEffect(sourceCoords, targets, tokenType, addedBy, !!action.isDeployAbility)
+              applyGlobalEffect(sourceCoords, targets, tokenType, !!action.isDeployAbility)
             }
           }
         } else {
@@ -343,7 +300,7 @@ export const useAppAbilities = ({
     } else if (action.type === 'ENTER_MODE') {
       // Special Immediate Modes (Compound atomic actions)
       if (action.mode === 'SHIELD_SELF_THEN_SPAWN') {
-        addBoardCardStatus(sourceCoords, 'Shield', action.sourceCard!.ownerId!)
+        addBoardCardStatus(sourceCoords, 'Shield')
         setAbilityMode({
           type: 'ENTER_MODE',
           mode: 'SPAWN_TOKEN',
@@ -357,7 +314,7 @@ export const useAppAbilities = ({
       if (action.mode === 'SHIELD_SELF_THEN_RIOT_PUSH') {
         // 1. Shield Self automatically
         const actorId = action.sourceCard!.ownerId!
-        addBoardCardStatus(sourceCoords, 'Shield', actorId)
+        addBoardCardStatus(sourceCoords, 'Shield')
 
         // 2. Check if there are valid adjacent cards to push
         const gridSize = gameState.board.length
@@ -423,7 +380,7 @@ export const useAppAbilities = ({
         return
       }
       if (action.mode === 'PRINCEPS_SHIELD_THEN_AIM') {
-        addBoardCardStatus(sourceCoords, 'Shield', action.sourceCard!.ownerId!)
+        addBoardCardStatus(sourceCoords, 'Shield')
         setCursorStack({
           type: 'Aim',
           count: 1,
@@ -437,7 +394,7 @@ export const useAppAbilities = ({
       if (action.mode === 'ABR_DEPLOY_SHIELD_AIM') {
         // 1. Shield Self automatically
         const actorId = action.sourceCard!.ownerId!
-        addBoardCardStatus(sourceCoords, 'Shield', actorId)
+        addBoardCardStatus(sourceCoords, 'Shield')
 
         // 2. Define the Aim Stack action
         const aimStackAction: AbilityAction = {
@@ -626,29 +583,6 @@ export const useAppAbilities = ({
             markAbilityUsed(sourceCoords, !!action.isDeployAbility)
           }
         }
-      } else if (action.mode === 'ZIUS_LINE_SELECT') {
-        // ZIUS_SCORING: Works like INTEGRATOR_LINE_SELECT but uses the target card coords (where Exploit was placed)
-        // The target card coords are stored in commandContext.lastMovedCardCoords
-        if (commandContext.lastMovedCardCoords) {
-          setAbilityMode({
-            type: 'ENTER_MODE',
-            mode: 'ZIUS_LINE_SELECT',
-            sourceCard: action.sourceCard,
-            sourceCoords: commandContext.lastMovedCardCoords, // Use target card coords as anchor point
-            isDeployAbility: action.isDeployAbility,
-            payload: action.payload,
-          })
-        } else {
-          // Fallback: use Zius's own coords if context not available
-          setAbilityMode({
-            type: 'ENTER_MODE',
-            mode: 'ZIUS_LINE_SELECT',
-            sourceCard: action.sourceCard,
-            sourceCoords: sourceCoords,
-            isDeployAbility: action.isDeployAbility,
-            payload: action.payload,
-          })
-        }
       } else if (action.mode === 'SELECT_DECK') {
         // Secret Informant: Set mode to select a deck to view top 3 cards
         setAbilityMode({
@@ -661,7 +595,7 @@ export const useAppAbilities = ({
         })
       }
     }
-  }, [gameState, localPlayerId, commandContext, markAbilityUsed, setAbilityMode, setCursorStack, triggerNoTarget, applyGlobalEffect, setViewingDiscard, addBoardCardStatus, updatePlayerScore, drawCard, removeStatusByType, onAbilityComplete, triggerFloatingText])
+  }, [gameState, localPlayerId, commandContext, markAbilityUsed, setAbilityMode, setCursorStack, triggerNoTarget, applyGlobalEffect, setViewingDiscard, addBoardCardStatus, scoreAbility, drawCard, removeStatusByType, onAbilityComplete])
 
   // Auto-Execute GLOBAL_AUTO_APPLY actions when they appear in abilityMode
   useEffect(() => {
@@ -757,95 +691,14 @@ export const useAppAbilities = ({
       if (r1 !== r2 && c1 !== c2) {
         return
       }
-      const actionType = payload.actionType
-
       const actorId = sourceCard?.ownerId ?? (gameState.players.find(p => p.id === gameState.activePlayerId)?.isDummy ? gameState.activePlayerId : (localPlayerId || gameState.activePlayerId))
 
-      if (actionType === 'ZIUS_SCORING') {
-        // Validate that the selected line passes through the target card (where Exploit was placed)
-        const targetCoords = commandContext.lastMovedCardCoords
-
-        if (targetCoords) {
-          // Check if targetCoords is on the selected line
-          const isOnRow = r1 === r2 && targetCoords.row === r1
-          const isOnCol = c1 === c2 && targetCoords.col === c1
-
-          if (!isOnRow && !isOnCol) {
-            // Selected line does NOT pass through the target card - invalid selection
-            return
-          }
-        }
-
-        const gridSize = gameState.board.length
-        let startR = 0, endR = gridSize - 1
-        let startC = 0, endC = gridSize - 1
-
-        if (r1 === r2) {
-          startR = endR = r1
-        } else if (c1 === c2) {
-          startC = endC = c1
-        } else {
-          return
-        }
-
-        let exploitCount = 0
-        for (let r = startR; r <= endR; r++) {
-          for (let c = startC; c <= endC; c++) {
-            const cell = gameState.board[r][c]
-            if (cell.card) {
-              exploitCount += cell.card.statuses?.filter(s => s.type === 'Exploit' && s.addedByPlayerId === actorId).length || 0
-            }
-          }
-        }
-
-        if (exploitCount > 0 && actorId) {
-          if (sourceCoords) {
-            triggerFloatingText({
-              row: sourceCoords.row,
-              col: sourceCoords.col,
-              text: `+${exploitCount}`,
-              playerId: actorId,
-            })
-          }
-          updatePlayerScore(actorId, exploitCount)
-        }
-        if (sourceCoords && sourceCoords.row >= 0) {
-          markAbilityUsed(sourceCoords, isDeployAbility)
-        }
-      } else if (actionType === 'CENTURION_BUFF' && sourceCard && sourceCoords && actorId) {
-        const gridSize = gameState.board.length
-        let startR = 0, endR = gridSize - 1
-        let startC = 0, endC = gridSize - 1
-        if (r1 === r2) {
-          startR = endR = r1
-        } else {
-          startC = endC = c1
-        }
-        for (let r = startR; r <= endR; r++) {
-          for (let c = startC; c <= endC; c++) {
-            const targetCard = gameState.board[r][c].card
-            if (targetCard) {
-              const isSelf = targetCard.id === sourceCard.id
-              const isOwner = targetCard.ownerId === actorId
-              const activePlayer = gameState.players.find(p => p.id === actorId)
-              const targetPlayer = gameState.players.find(p => p.id === targetCard.ownerId)
-              const isTeammate = activePlayer?.teamId !== undefined && targetPlayer?.teamId !== undefined && activePlayer.teamId === targetPlayer.teamId
-              if (!isSelf && (isOwner || isTeammate)) {
-                modifyBoardCardPower({ row: r, col: c }, 1)
-              }
-            }
-          }
-        }
-        markAbilityUsed(sourceCoords, isDeployAbility)
-      } else if (actionType === 'SCORE_LINE' || !actionType) {
-        scoreLine(r1, c1, r2, c2, actorId!)
-        if (gameState.isScoringStep) {
-          nextPhase()
-        }
+      if (payload.score && actorId) {
+        scoreAbility(actorId, { ...getScoreSource(abilityMode), start: payload.firstCoords, end: coords })
       }
       setTimeout(() => setAbilityMode(null), 100)
     }
-    if (mode === 'SELECT_DIAGONAL' && payload.actionType === 'SCORE_DIAGONAL') {
+    if (mode === 'SELECT_DIAGONAL' && payload.score) {
       const actorId = sourceCard?.ownerId ?? (gameState.players.find(p => p.id === gameState.activePlayerId)?.isDummy ? gameState.activePlayerId : (localPlayerId || gameState.activePlayerId))
       if (!payload.firstCoords) {
         setAbilityMode({ ...abilityMode, payload: { ...payload, firstCoords: coords } })
@@ -859,11 +712,11 @@ export const useAppAbilities = ({
           return
         }
 
-        scoreDiagonal(r1, c1, r2, c2, actorId!, payload.bonusType)
+        scoreAbility(actorId!, { ...getScoreSource(abilityMode), start: payload.firstCoords, end: coords })
         setTimeout(() => setAbilityMode(null), 100)
       }
     }
-  }, [abilityMode, gameState, localPlayerId, scoreLine, nextPhase, setAbilityMode, modifyBoardCardPower, markAbilityUsed, scoreDiagonal, updatePlayerScore, triggerFloatingText, commandContext])
+  }, [abilityMode, gameState, localPlayerId, scoreLine, nextPhase, setAbilityMode, scoreAbility])
 
   const handleBoardCardClick = useCallback((card: Card, boardCoords: { row: number, col: number }) => {
     if (setPlayMode !== null && setPlayMode !== undefined && cursorStack) {
@@ -882,8 +735,7 @@ export const useAppAbilities = ({
       // Prevent clicking self unless specific modes allow it
       if (abilityMode.sourceCard && abilityMode.sourceCard.id === card.id &&
                 abilityMode.mode !== 'SELECT_LINE_START' &&
-                abilityMode.mode !== 'INTEGRATOR_LINE_SELECT' &&
-                abilityMode.mode !== 'ZIUS_LINE_SELECT' &&
+                abilityMode.mode !== 'COUNTER_LINE_SELECT' &&
                 abilityMode.mode !== 'SELECT_UNIT_FOR_MOVE' &&
                 abilityMode.mode !== 'SELECT_TARGET' &&
                 abilityMode.mode !== 'RIOT_PUSH' &&
@@ -900,7 +752,7 @@ export const useAppAbilities = ({
       const actorId = sourceCard?.ownerId ?? (gameState.players.find(p => p.id === gameState.activePlayerId)?.isDummy ? gameState.activePlayerId : (localPlayerId || gameState.activePlayerId))
 
       if (mode === 'SELECT_TARGET' && payload.tokenType) {
-        if (payload.filter && !payload.filter(card, boardCoords.row, boardCoords.col)) {
+        if (payload.filter && !matchesTargetFilter(payload.filter, card, gameState.players, boardCoords)) {
           return
         }
 
@@ -937,19 +789,20 @@ export const useAppAbilities = ({
       }
 
       if (mode === 'SELECT_TARGET' && payload.actionType === 'OPEN_COUNTER_MODAL') {
-        if (payload.filter && !payload.filter(card)) {
+        if (payload.filter && !matchesTargetFilter(payload.filter, card, gameState.players)) {
           return
         }
         setCounterSelectionData({
           card: card,
           callbackAction: payload.rewardType,
+          step: payload.step,
         })
         setAbilityMode(null)
         return
       }
 
       if (mode === 'SELECT_TARGET' && payload.actionType === 'SACRIFICE_AND_BUFF_LINES') {
-        if (payload.filter && !payload.filter(card, boardCoords.row, boardCoords.col)) {
+        if (payload.filter && !matchesTargetFilter(payload.filter, card, gameState.players, boardCoords)) {
           return
         }
 
@@ -1004,7 +857,7 @@ export const useAppAbilities = ({
       }
 
       if (mode === 'SELECT_TARGET' && payload.actionType === 'DESTROY') {
-        if (payload.filter && !payload.filter(card, boardCoords.row, boardCoords.col)) {
+        if (payload.filter && !matchesTargetFilter(payload.filter, card, gameState.players, boardCoords)) {
           return
         }
         const hasShield = card.statuses?.some(s => s.type === 'Shield')
@@ -1030,7 +883,7 @@ export const useAppAbilities = ({
       }
 
       if (mode === 'SELECT_TARGET' && payload.actionType === 'DRAW_EQUAL_POWER') {
-        if (payload.filter && !payload.filter(card)) {
+        if (payload.filter && !matchesTargetFilter(payload.filter, card, gameState.players)) {
           return
         }
         const count = Math.max(0, card.power + (card.powerModifier || 0))
@@ -1040,26 +893,8 @@ export const useAppAbilities = ({
         setTimeout(() => setAbilityMode(null), 100)
         return
       }
-      if (mode === 'SELECT_TARGET' && payload.actionType === 'SCORE_EQUAL_POWER') {
-        if (payload.filter && !payload.filter(card)) {
-          return
-        }
-        const points = Math.max(0, card.power + (card.powerModifier || 0))
-        if (sourceCoords) {
-          triggerFloatingText({
-            row: sourceCoords.row,
-            col: sourceCoords.col,
-            text: `+${points}`,
-            playerId: actorId!,
-          })
-        }
-        updatePlayerScore(actorId!, points)
-        setTimeout(() => setAbilityMode(null), 100)
-        return
-      }
-
       if (mode === 'SELECT_TARGET' && payload.actionType === 'RESET_DEPLOY') {
-        if (payload.filter && !payload.filter(card)) {
+        if (payload.filter && !matchesTargetFilter(payload.filter, card, gameState.players)) {
           return
         }
         resetDeployStatus(boardCoords)
@@ -1068,17 +903,17 @@ export const useAppAbilities = ({
       }
 
       if (mode === 'SELECT_TARGET' && payload.actionType === 'SHIELD_AND_REMOVE_AIM') {
-        if (payload.filter && !payload.filter(card)) {
+        if (payload.filter && !matchesTargetFilter(payload.filter, card, gameState.players)) {
           return
         }
-        addBoardCardStatus(boardCoords, 'Shield', actorId!)
+        addBoardCardStatus(boardCoords, 'Shield')
         removeStatusByType(boardCoords, 'Aim')
         setTimeout(() => setAbilityMode(null), 100)
         return
       }
 
       if (mode === 'SELECT_TARGET' && payload.actionType === 'MODIFY_POWER') {
-        if (payload.filter && !payload.filter(card)) {
+        if (payload.filter && !matchesTargetFilter(payload.filter, card, gameState.players)) {
           return
         }
         if (payload.amount) {
@@ -1141,7 +976,7 @@ export const useAppAbilities = ({
         if (sourceCard && sourceCard.id === card.id) {
           return
         }
-        if (payload.filter && !payload.filter(card, boardCoords.row, boardCoords.col)) {
+        if (payload.filter && !matchesTargetFilter(payload.filter, card, gameState.players, boardCoords)) {
           return
         }
         swapCards(sourceCoords, boardCoords)
@@ -1153,7 +988,7 @@ export const useAppAbilities = ({
         if (sourceCard && sourceCard.id === card.id) {
           return
         }
-        if (payload.filter && !payload.filter(card, boardCoords.row, boardCoords.col)) {
+        if (payload.filter && !matchesTargetFilter(payload.filter, card, gameState.players, boardCoords)) {
           return
         }
         if (card.statuses && card.statuses.length > 0) {
@@ -1167,7 +1002,7 @@ export const useAppAbilities = ({
         if (sourceCard && sourceCard.id === card.id) {
           return
         }
-        if (payload.filter && !payload.filter(card, boardCoords.row, boardCoords.col)) {
+        if (payload.filter && !matchesTargetFilter(payload.filter, card, gameState.players, boardCoords)) {
           return
         }
         transferAllCounters(boardCoords, sourceCoords)
@@ -1179,39 +1014,15 @@ export const useAppAbilities = ({
         if (sourceCard && sourceCard.id === card.id) {
           return
         }
-        if (payload.filter && !payload.filter(card, boardCoords.row, boardCoords.col)) {
+        if (payload.filter && !matchesTargetFilter(payload.filter, card, gameState.players, boardCoords)) {
           return
         }
         setCursorStack({ type: 'Revealed', count: 1, isDragging: false, sourceCoords: sourceCoords, targetOwnerId: card.ownerId, onlyFaceDown: true, onlyOpponents: true, isDeployAbility: isDeployAbility })
         setTimeout(() => setAbilityMode(null), 100)
         return
       }
-      if (mode === 'CENSOR_SWAP' && sourceCoords && sourceCoords.row >= 0) {
-        if (payload.filter && !payload.filter(card)) {
-          return
-        }
-        removeBoardCardStatusByOwner(boardCoords, 'Exploit', actorId!)
-        addBoardCardStatus(boardCoords, 'Stun', actorId!)
-        markAbilityUsed(sourceCoords, isDeployAbility)
-        setTimeout(() => setAbilityMode(null), 100)
-        return
-      }
-      if (mode === 'ZEALOUS_WEAKEN' && sourceCoords && sourceCoords.row >= 0) {
-        if (payload.filter && !payload.filter(card)) {
-          return
-        }
-        modifyBoardCardPower(boardCoords, -1)
-        markAbilityUsed(sourceCoords, isDeployAbility)
-        setTimeout(() => setAbilityMode(null), 100)
-        return
-      }
-      if (mode === 'CENTURION_BUFF' && sourceCoords && sourceCoords.row >= 0) {
-        markAbilityUsed(sourceCoords, isDeployAbility)
-        setTimeout(() => setAbilityMode(null), 100)
-        return
-      }
       if (mode === 'SELECT_UNIT_FOR_MOVE' && sourceCoords && sourceCoords.row >= 0) {
-        if (payload.filter && !payload.filter(card)) {
+        if (payload.filter && !matchesTargetFilter(payload.filter, card, gameState.players)) {
           return
         }
         setAbilityMode({
@@ -1232,7 +1043,7 @@ export const useAppAbilities = ({
         return
       }
       if (mode === 'SELECT_UNIT_FOR_MOVE' && !sourceCoords) {
-        if (payload.filter && !payload.filter(card)) {
+        if (payload.filter && !matchesTargetFilter(payload.filter, card, gameState.players)) {
           return
         }
         setAbilityMode({
@@ -1250,75 +1061,14 @@ export const useAppAbilities = ({
         })
         return
       }
-      if (mode === 'INTEGRATOR_LINE_SELECT' && sourceCoords && sourceCoords.row >= 0) {
-        if (boardCoords.row !== sourceCoords.row && boardCoords.col !== sourceCoords.col) {
+      if (mode === 'COUNTER_LINE_SELECT' && sourceCoords && sourceCoords.row >= 0) {
+        // The line goes through the anchor: the card a previous step recorded (e.g. Zius's Exploit target), else the source
+        const anchor = payload.anchorCoords || sourceCoords
+        if (boardCoords.row !== anchor.row && boardCoords.col !== anchor.col) {
           return
         }
 
-        const gridSize = gameState.board.length
-        let exploits = 0
-        if (boardCoords.row === sourceCoords.row) {
-          for (let c = 0; c < gridSize; c++) {
-            const cell = gameState.board[boardCoords.row][c]
-            if (cell.card) {
-              exploits += cell.card.statuses?.filter(s => s.type === 'Exploit' && s.addedByPlayerId === actorId).length || 0
-            }
-          }
-        } else {
-          for (let r = 0; r < gridSize; r++) {
-            const cell = gameState.board[r][boardCoords.col]
-            if (cell.card) {
-              exploits += cell.card.statuses?.filter(s => s.type === 'Exploit' && s.addedByPlayerId === actorId).length || 0
-            }
-          }
-        }
-
-        if (exploits > 0) {
-          triggerFloatingText({
-            row: sourceCoords.row,
-            col: sourceCoords.col,
-            text: `+${exploits}`,
-            playerId: actorId!,
-          })
-          updatePlayerScore(actorId!, exploits)
-        }
-        markAbilityUsed(sourceCoords, isDeployAbility)
-        setTimeout(() => setAbilityMode(null), 100)
-        return
-      }
-      if (mode === 'ZIUS_LINE_SELECT' && sourceCoords && sourceCoords.row >= 0) {
-        // Same logic as INTEGRATOR_LINE_SELECT, but sourceCoords points to the target card (where Exploit was placed)
-        if (boardCoords.row !== sourceCoords.row && boardCoords.col !== sourceCoords.col) {
-          return
-        }
-
-        const gridSize = gameState.board.length
-        let exploits = 0
-        if (boardCoords.row === sourceCoords.row) {
-          for (let c = 0; c < gridSize; c++) {
-            const cell = gameState.board[boardCoords.row][c]
-            if (cell.card) {
-              exploits += cell.card.statuses?.filter(s => s.type === 'Exploit' && s.addedByPlayerId === actorId).length || 0
-            }
-          }
-        } else {
-          for (let r = 0; r < gridSize; r++) {
-            const cell = gameState.board[r][boardCoords.col]
-            if (cell.card) {
-              exploits += cell.card.statuses?.filter(s => s.type === 'Exploit' && s.addedByPlayerId === actorId).length || 0
-            }
-          }
-        }
-
-        if (exploits > 0) {
-          triggerFloatingText({
-            row: sourceCoords.row,
-            col: sourceCoords.col,
-            text: `+${exploits}`,
-            playerId: actorId!,
-          })
-          updatePlayerScore(actorId!, exploits)
-        }
+        scoreAbility(actorId!, { sourceCoords, start: anchor, end: boardCoords })
         markAbilityUsed(sourceCoords, isDeployAbility)
         setTimeout(() => setAbilityMode(null), 100)
         return
@@ -1328,7 +1078,7 @@ export const useAppAbilities = ({
     if (!abilityMode && !cursorStack) {
       activateAbility(card, boardCoords)
     }
-  }, [abilityMode, cursorStack, gameState, localPlayerId, interactionLock, handleLineSelection, moveItem, markAbilityUsed, setAbilityMode, setCursorStack, setPlayMode, removeBoardCardStatus, removeBoardCardStatusByOwner, addBoardCardStatus, modifyBoardCardPower, swapCards, transferStatus, transferAllCounters, updatePlayerScore, drawCard, activateAbility, setCounterSelectionData, resetDeployStatus, removeStatusByType, handleActionExecution, setCommandContext, triggerFloatingText])
+  }, [abilityMode, cursorStack, gameState, localPlayerId, interactionLock, handleLineSelection, moveItem, markAbilityUsed, setAbilityMode, setCursorStack, setPlayMode, removeBoardCardStatus, addBoardCardStatus, modifyBoardCardPower, swapCards, transferStatus, transferAllCounters, scoreAbility, drawCard, activateAbility, setCounterSelectionData, resetDeployStatus, removeStatusByType, handleActionExecution, setCommandContext])
 
   const handleEmptyCellClick = useCallback((boardCoords: { row: number, col: number }) => {
     if (interactionLock.current) {
@@ -1516,7 +1266,7 @@ export const useAppAbilities = ({
       return
     }
     if (mode === 'IMMUNIS_RETRIEVE' && sourceCoords && sourceCoords.row >= 0) {
-      if (payload.selectedCardIndex !== undefined && payload.filter?.(boardCoords.row, boardCoords.col)) {
+      if (payload.selectedCardIndex !== undefined && payload.filter && matchesCellFilter(payload.filter, boardCoords)) {
         resurrectDiscardedCard(actorId!, payload.selectedCardIndex, boardCoords)
         markAbilityUsed(sourceCoords, isDeployAbility)
         setTimeout(() => setAbilityMode(null), 100)
@@ -1526,80 +1276,18 @@ export const useAppAbilities = ({
         return
       }
     }
-    if (mode === 'INTEGRATOR_LINE_SELECT' && sourceCoords && sourceCoords.row >= 0) {
-      if (boardCoords.row !== sourceCoords.row && boardCoords.col !== sourceCoords.col) {
+    if (mode === 'COUNTER_LINE_SELECT' && sourceCoords && sourceCoords.row >= 0) {
+      const anchor = payload.anchorCoords || sourceCoords
+      if (boardCoords.row !== anchor.row && boardCoords.col !== anchor.col) {
         return
       }
 
-      const gridSize = gameState.board.length
-      let exploits = 0
-      if (boardCoords.row === sourceCoords.row) {
-        for (let c = 0; c < gridSize; c++) {
-          const cell = gameState.board[boardCoords.row][c]
-          if (cell.card) {
-            exploits += cell.card.statuses?.filter(s => s.type === 'Exploit' && s.addedByPlayerId === actorId).length || 0
-          }
-        }
-      } else {
-        for (let r = 0; r < gridSize; r++) {
-          const cell = gameState.board[r][boardCoords.col]
-          if (cell.card) {
-            exploits += cell.card.statuses?.filter(s => s.type === 'Exploit' && s.addedByPlayerId === actorId).length || 0
-          }
-        }
-      }
-
-      if (exploits > 0) {
-        triggerFloatingText({
-          row: sourceCoords.row,
-          col: sourceCoords.col,
-          text: `+${exploits}`,
-          playerId: actorId!,
-        })
-        updatePlayerScore(actorId!, exploits)
-      }
-      markAbilityUsed(sourceCoords, isDeployAbility)
-      setTimeout(() => setAbilityMode(null), 100)
-      return
-    }
-    if (mode === 'ZIUS_LINE_SELECT' && sourceCoords && sourceCoords.row >= 0) {
-      // Same logic as INTEGRATOR_LINE_SELECT, but sourceCoords points to the target card (where Exploit was placed)
-      if (boardCoords.row !== sourceCoords.row && boardCoords.col !== sourceCoords.col) {
-        return
-      }
-
-      const gridSize = gameState.board.length
-      let exploits = 0
-      if (boardCoords.row === sourceCoords.row) {
-        for (let c = 0; c < gridSize; c++) {
-          const cell = gameState.board[boardCoords.row][c]
-          if (cell.card) {
-            exploits += cell.card.statuses?.filter(s => s.type === 'Exploit' && s.addedByPlayerId === actorId).length || 0
-          }
-        }
-      } else {
-        for (let r = 0; r < gridSize; r++) {
-          const cell = gameState.board[r][boardCoords.col]
-          if (cell.card) {
-            exploits += cell.card.statuses?.filter(s => s.type === 'Exploit' && s.addedByPlayerId === actorId).length || 0
-          }
-        }
-      }
-
-      if (exploits > 0) {
-        triggerFloatingText({
-          row: sourceCoords.row,
-          col: sourceCoords.col,
-          text: `+${exploits}`,
-          playerId: actorId!,
-        })
-        updatePlayerScore(actorId!, exploits)
-      }
+      scoreAbility(actorId!, { sourceCoords, start: anchor, end: boardCoords })
       markAbilityUsed(sourceCoords, isDeployAbility)
       setTimeout(() => setAbilityMode(null), 100)
       return
     }
-  }, [interactionLock, abilityMode, gameState, localPlayerId, handleLineSelection, moveItem, markAbilityUsed, setAbilityMode, spawnToken, setCommandContext, resurrectDiscardedCard, updatePlayerScore, commandContext, handleActionExecution, triggerFloatingText])
+  }, [interactionLock, abilityMode, gameState, localPlayerId, handleLineSelection, moveItem, markAbilityUsed, setAbilityMode, spawnToken, setCommandContext, resurrectDiscardedCard, scoreAbility, commandContext, handleActionExecution])
 
   const handleHandCardClick = useCallback((player: Player, card: Card, cardIndex: number) => {
     if (interactionLock.current) {
@@ -1611,7 +1299,7 @@ export const useAppAbilities = ({
 
       // SELECT_HAND_FOR_DEPLOY (Quick Response Team)
       if (payload.actionType === 'SELECT_HAND_FOR_DEPLOY') {
-        if (payload.filter && !payload.filter(card)) {
+        if (payload.filter && !matchesTargetFilter(payload.filter, card, gameState.players)) {
           return
         }
 
@@ -1673,7 +1361,7 @@ export const useAppAbilities = ({
 
       // DESTROY Hand Card
       if (payload.actionType === 'DESTROY') {
-        if (payload.filter && !payload.filter(card)) {
+        if (payload.filter && !matchesTargetFilter(payload.filter, card, gameState.players)) {
           return
         }
         moveItem({ card, source: 'hand', playerId: player.id, cardIndex, bypassOwnershipCheck: true }, { target: 'discard', playerId: player.id })
@@ -1683,7 +1371,7 @@ export const useAppAbilities = ({
         setTimeout(() => setAbilityMode(null), 100)
       }
     }
-  }, [interactionLock, abilityMode, moveItem, markAbilityUsed, setAbilityMode, setCommandContext, handleActionExecution])
+  }, [interactionLock, abilityMode, moveItem, markAbilityUsed, setAbilityMode, setCommandContext, handleActionExecution, gameState.players])
 
   const handleAnnouncedCardDoubleClick = useCallback((player: Player, card: Card) => {
     if (abilityMode || cursorStack) {
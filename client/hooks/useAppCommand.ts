@@ -1,6 +1,7 @@
 import { useCallback } from 'react'
 import type { Card, GameState, AbilityAction, CommandContext, DragItem, CounterSelectionData } from '@/types'
 import { getCommandAction } from '@server/utils/commandLogic'
+import type { GameAction } from '@server/utils/gameActions'
 
 interface UseAppCommandProps {
     gameState: GameState;
@@ -11,7 +12,7 @@ interface UseAppCommandProps {
     setCounterSelectionData: React.Dispatch<React.SetStateAction<CounterSelectionData | null>>;
     moveItem: (item: DragItem, target: any) => void;
     drawCard: (playerId: number) => void;
-    updatePlayerScore: (playerId: number, delta: number) => void;
+    scoreAbility: (playerId: number, selection: Omit<Extract<GameAction, { type: 'SCORE_ABILITY' }>, 'type' | 'playerId'>) => void;
     removeBoardCardStatus: (coords: any, status: string) => void;
 }
 
@@ -24,7 +25,7 @@ export const useAppCommand = ({
   setCounterSelectionData,
   moveItem,
   drawCard,
-  updatePlayerScore,
+  scoreAbility,
   removeBoardCardStatus,
 }: UseAppCommandProps) => {
 
@@ -98,20 +99,6 @@ export const useAppCommand = ({
     // We call -1 (main) and then the option index.
     const mainActions = getCommandAction(commandModalCard.id, -1, commandModalCard, gameState, ownerId)
 
-    let rewardType: 'DRAW_REMOVED' | 'SCORE_REMOVED' | undefined
-
-    // Special Case: Inspiration (Main Action opens Counter Modal)
-    if (commandModalCard.baseId?.toLowerCase().includes('inspiration')) {
-      rewardType = optionIndex === 0 ? 'DRAW_REMOVED' : 'SCORE_REMOVED'
-      if (mainActions.length > 0 && mainActions[0].type === 'ENTER_MODE') {
-        // Pass the reward type to the next step (immutable update)
-        mainActions[0] = {
-          ...mainActions[0],
-          payload: { ...mainActions[0].payload, rewardType }
-        }
-      }
-    }
-
     // Add main actions to queue if they have targets
     mainActions.forEach(action => {
       // Basic target check validation could happen here, but queue processor handles it.
@@ -165,23 +152,19 @@ export const useAppCommand = ({
       return
     }
 
-    // 2. Remove Counters
-    let totalRemoved = 0
-    Object.entries(countsToRemove).forEach(([type, count]) => {
-      for (let i = 0; i < count; i++) {
-        removeBoardCardStatus(boardCoords, type)
-        totalRemoved++
-      }
-    })
-
-    // 3. Apply Reward
-    if (totalRemoved > 0) {
-      if (data.callbackAction === 'DRAW_REMOVED') {
-        for (let i = 0; i < totalRemoved; i++) {
-          drawCard(ownerId)
+    // 2. Remove Counters and Apply Reward; the server removes the scored ones and counts them itself
+    if (data.callbackAction === 'SCORE_REMOVED') {
+      scoreAbility(ownerId, { step: data.step, target: boardCoords, remove: countsToRemove })
+    } else {
+      let totalRemoved = 0
+      Object.entries(countsToRemove).forEach(([type, count]) => {
+        for (let i = 0; i < count; i++) {
+          removeBoardCardStatus(boardCoords, type)
+          totalRemoved++
         }
-      } else if (data.callbackAction === 'SCORE_REMOVED') {
-        updatePlayerScore(ownerId, totalRemoved)
+      })
+      for (let i = 0; i < totalRemoved; i++) {
+        drawCard(ownerId)
       }
     }
 
@@ -196,7 +179,7 @@ export const useAppCommand = ({
     }
 
     setCounterSelectionData(null)
-  }, [localPlayerId, drawCard, updatePlayerScore, setActionQueue, setCounterSelectionData, gameState, removeBoardCardStatus])
+  }, [localPlayerId, drawCard, scoreAbility, setActionQueue, setCounterSelectionData, gameState, removeBoardCardStatus])
 
   return {
     playCommandCard,
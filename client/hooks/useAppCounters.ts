@@ -263,6 +263,9 @@ export const useAppCounters = ({
                   if (chained.type === 'GLOBAL_AUTO_APPLY') {
                     chained.sourceCoords = { row, col }
                   }
+                  if (chained.mode === 'COUNTER_LINE_SELECT' && chained.payload?.anchor === 'recordedTarget') {
+                    chained.payload = { ...chained.payload, anchorCoords: { row, col } }
+                  }
                 }
                 onAction(chained, cursorStack.sourceCoords || { row: -1, col: -1 })
               }
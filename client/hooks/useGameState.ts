@@ -1,12 +1,15 @@
 // ... existing imports
 import { useState, useEffect, useCallback, useRef } from 'react'
 import { DeckType, GameMode as GameModeEnum } from '../types'
-import type { GameState, Player, Board, GridSize, Card, DragItem, DropTarget, PlayerColor, RevealRequest, CardIdentifier, CustomDeckFile, HighlightData, FloatingTextData } from '../types'
-import { shuffleDeck, PLAYER_COLOR_NAMES, TURN_PHASES, MAX_PLAYERS } from '../constants'
-import { decksData, countersDatabase, rawJsonData, getCardDefinitionByName, getCardDefinition, commandCardIds } from '../content'
+import type { GameState, Player, GridSize, Card, DragItem, DropTarget, PlayerColor, RevealRequest, CardIdentifier, CustomDeckFile, HighlightData, FloatingTextData, ChatMessage, ChatChannel, GameEvent, MatchRules, TimeControls, AiDifficulty } from '../types'
+import { PLAYER_COLOR_NAMES, MAX_PLAYERS } from '../constants'
+import { decksData, countersDatabase, rawJsonData, getCardDefinition, getTokenDatabaseMap, commandCardIds } from '../content'
 import { createInitialBoard, recalculateBoardStatuses } from '@server/utils/boardUtils'
+import { applyGameAction } from '@server/utils/gameActions'
+import type { GameAction, GameActionContext } from '@server/utils/gameActions'
+import { applyPatch, createPatch } from '@server/utils/statePatch'
+import type { ClientMessage, ClientMessageOf } from '@server/types/messages'
 import { logger } from '../utils/logger'
-import { initializeReadyStatuses, removeAllReadyStatuses, resetPhaseReadyStatuses } from '../utils/autoAbilities'
 
 // Helper to determine the correct WebSocket URL
 const getWebSocketURL = () => {
@@ -28,47 +31,37 @@ const getWebSocketURL = () => {
 }
 
 export type ConnectionStatus = 'Connecting' | 'Connected' | 'Disconnected';
-const generateGameId = () => Math.random().toString(36).substring(2, 18).toUpperCase()
 
-const syncLastPlayed = (board: Board, player: Player) => {
-  board.forEach(row => row.forEach(cell => {
-    if (cell.card?.statuses) {
-      cell.card.statuses = cell.card.statuses.filter(s => !(s.type === 'LastPlayed' && s.addedByPlayerId === player.id))
-    }
-  }))
-
-  // Safety check for boardHistory existence
-  if (!player.boardHistory) {
-    player.boardHistory = []
-  }
-
-  let found = false
-  while (player.boardHistory.length > 0 && !found) {
-    const lastId = player.boardHistory[player.boardHistory.length - 1]
-    for (let r = 0; r < board.length; r++) {
-      for (let c = 0; c < board[r].length; c++) {
-        if (board[r][c].card?.id === lastId) {
-          const card = board[r][c].card
-          if (!card) {
-            continue
-          }
-          if (!card.statuses) {
-            card.statuses = []
-          }
-          card.statuses.push({ type: 'LastPlayed', addedByPlayerId: player.id })
-          found = true
-          break
-        }
-      }
-      if (found) {
-        break
-      }
-    }
-    if (!found) {
-      player.boardHistory.pop()
-    }
-  }
-}
+// How many sent state updaters are kept for re-applying after a STATE_CONFLICT
+const MAX_PENDING_UPDATES = 50
+// Matches the server's per-game chat history limit
+const MAX_CHAT_MESSAGES = 200
+// Matches the server's per-game event log limit
+const MAX_GAME_EVENTS = 1000
+
+/**
+ * Content lookups used to predict the outcome of an intent locally.
+ * The server runs the same reducer with its own content and has the final say.
+ * Only the server shuffles, so a predicted shuffle keeps the order until its state arrives.
+ */
+const createActionContext = (actorId: number): GameActionContext => ({
+  actorId,
+  shuffle: (cards) => cards,
+  getTokenDefinition: (tokenId) => getTokenDatabaseMap().get(tokenId) ?? null,
+  getCounterDefinition: (statusType) => countersDatabase[statusType] ?? null,
+})
+
+/**
+ * Copies the board with one cell's card replaced; the other rows and cells are shared.
+ */
+const replaceBoardCard = (board: GameState['board'], coords: { row: number; col: number }, card: Card | null): GameState['board'] =>
+  board.map((row, r) => r !== coords.row ? row : row.map((cell, c) => c !== coords.col ? cell : { ...cell, card }))
+
+/**
+ * Copies the player list with one player replaced by `update(player)`.
+ */
+const updatePlayer = (state: GameState, playerId: number, update: (player: Player) => Player): Player[] =>
+  state.players.map(p => p.id === playerId ? update(p) : p)
 
 export const useGameState = () => {
   // ... state initialization logic kept as is ...
@@ -78,8 +71,8 @@ export const useGameState = () => {
       console.error(`Deck data for ${deckType} not loaded! Returning empty deck.`)
       return []
     }
-    const deckWithOwner = [...deck].map(card => ({ ...card, ownerId: playerId, ownerName: playerName }))
-    return shuffleDeck(deckWithOwner)
+    // The server shuffles every deck when the game starts
+    return deck.map(card => ({ ...card, ownerId: playerId, ownerName: playerName }))
   }, [])
 
   const createNewPlayer = useCallback((id: number, isDummy = false): Player => {
@@ -114,6 +107,7 @@ export const useGameState = () => {
     isPrivate: true,
     isReadyCheckActive: false,
     revealRequests: [],
+    undoRequest: null,
     activePlayerId: null, // Aligned with server default (null)
     startingPlayerId: null, // Aligned with server default (null)
     currentPhase: 0,
@@ -133,25 +127,55 @@ export const useGameState = () => {
   const [localPlayerId, setLocalPlayerId] = useState<number | null>(null)
   const [draggedItem, setDraggedItem] = useState<DragItem | null>(null)
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('Connecting')
-  const [gamesList, setGamesList] = useState<{gameId: string, playerCount: number}[]>([])
+  const [gamesList, setGamesList] = useState<{gameId: string, playerCount: number, spectatorCount?: number}[]>([])
   const [latestHighlight, setLatestHighlight] = useState<HighlightData | null>(null)
   const [latestFloatingTexts, setLatestFloatingTexts] = useState<FloatingTextData[] | null>(null)
   const [latestNoTarget, setLatestNoTarget] = useState<{coords: {row: number, col: number}, timestamp: number} | null>(null)
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([])
+  const [gameEvents, setGameEvents] = useState<GameEvent[]>([])
   const ws = useRef<WebSocket | null>(null)
   const reconnectTimeoutRef = useRef<number | null>(null)
   const joiningGameIdRef = useRef<string | null>(null)
   const isManualExitRef = useRef<boolean>(false)
+  // Game watched without a seat, so a (re)connect subscribes to it instead of taking one
+  const spectatedGameIdRef = useRef<string | null>(null)
+  // Game the event log belongs to; set on JOIN_SUCCESS, before the game's state arrives
+  const eventLogGameIdRef = useRef<string | null>(null)
 
   const gameStateRef = useRef(gameState)
-  useEffect(() => {
-    gameStateRef.current = gameState
-  }, [gameState])
-
+  // Last authoritative state from the server; STATE_PATCH messages apply on top of it
+  const serverStateRef = useRef<GameState | null>(null)
+  const isSyncRequestedRef = useRef<boolean>(false)
+  // Updaters of sent UPDATE_STATE messages by request id, re-applied if the server reports a conflict
+  const pendingUpdatesRef = useRef<Map<number, (prevState: GameState) => GameState>>(new Map())
+  const nextRequestIdRef = useRef<number>(1)
   const localPlayerIdRef = useRef(localPlayerId)
   useEffect(() => {
     localPlayerIdRef.current = localPlayerId
   }, [localPlayerId])
 
+  /**
+   * sendMessage - Send a typed message to the server if the socket is open
+   * @returns Whether the message was sent
+   */
+  const sendMessage = useCallback((message: ClientMessage): boolean => {
+    if (ws.current?.readyState !== WebSocket.OPEN) {
+      return false
+    }
+    ws.current.send(JSON.stringify(message))
+    return true
+  }, [])
+
+  /**
+   * replaceGameState - Set the local game state
+   *
+   * gameStateRef follows right away, so updates made before the next render build on it.
+   */
+  const replaceGameState = useCallback((nextState: GameState) => {
+    gameStateRef.current = nextState
+    setGameState(nextState)
+  }, [])
+
   /**
    * updateState - Low-level API to update game state and synchronize with server
    *
@@ -159,21 +183,56 @@ export const useGameState = () => {
    * It sends the updated state to the server via WebSocket for all clients to sync.
    * Avoid using this for purely local UI state mutations to avoid unnecessary server spam.
    *
+   * The update carries the revision it was built on. If another change reached the server
+   * first, the server answers with STATE_CONFLICT and a function updater is re-applied on
+   * top of the fresh state; a plain state object cannot be rebased and is dropped.
+   * The next state is computed before anything is sent; an update that changes nothing
+   * is not sent at all.
+   *
    * @param newStateOrFn - New state object or function deriving new state from previous state
    */
   const updateState = useCallback((newStateOrFn: GameState | ((prevState: GameState) => GameState)) => {
-    setGameState((prevState) => {
-      // Compute the new state once, using prevState from React for consistency
-      const newState = typeof newStateOrFn === 'function' ? newStateOrFn(prevState) : newStateOrFn
+    const prevState = gameStateRef.current
+    const newState = typeof newStateOrFn === 'function' ? newStateOrFn(prevState) : newStateOrFn
+    if (newState === prevState) {
+      return
+    }
+    replaceGameState(newState)
 
-      // Send WebSocket message with the computed state
-      if (ws.current && ws.current.readyState === WebSocket.OPEN) {
-        ws.current.send(JSON.stringify({ type: 'UPDATE_STATE', gameState: newState }))
+    const requestId = nextRequestIdRef.current++
+    if (typeof newStateOrFn === 'function') {
+      const pendingUpdates = pendingUpdatesRef.current
+      pendingUpdates.set(requestId, newStateOrFn)
+      if (pendingUpdates.size > MAX_PENDING_UPDATES) {
+        pendingUpdates.delete(pendingUpdates.keys().next().value as number)
       }
+    }
+    sendMessage({ type: 'UPDATE_STATE', gameState: newState, requestId })
+  }, [replaceGameState, sendMessage])
 
-      return newState
-    })
-  }, [])
+  /**
+   * dispatchAction - Send a game action (intent) to the server
+   *
+   * The action is applied to a copy of the local state right away so the UI responds
+   * without a round-trip; the server validates it and broadcasts the authoritative
+   * result, or replies with ACTION_REJECTED and the current state.
+   *
+   * @param action - The intent to perform on behalf of the local player
+   */
+  const dispatchAction = useCallback((action: GameAction) => {
+    const actorId = localPlayerIdRef.current
+    const gameId = gameStateRef.current.gameId
+    if (actorId === null || !gameId) {
+      return
+    }
+    // The reducers mutate their draft; unchanged parts of the state keep their identity
+    const prevState = gameStateRef.current
+    const draft = structuredClone(prevState)
+    if (applyGameAction(draft, action, createActionContext(actorId)).success) {
+      replaceGameState(applyPatch(prevState, createPatch(prevState, draft)))
+    }
+    sendMessage({ ...action, gameId })
+  }, [replaceGameState, sendMessage])
 
   // ... WebSocket logic (connectWebSocket, forceReconnect, joinGame, etc.) kept as is ...
   const connectWebSocket = useCallback(() => {
@@ -212,7 +271,9 @@ export const useGameState = () => {
       logger.info('WebSocket connection established')
       setConnectionStatus('Connected')
       const currentGameState = gameStateRef.current
-      if (currentGameState && currentGameState.gameId && ws.current?.readyState === WebSocket.OPEN) {
+      if (spectatedGameIdRef.current) {
+        sendMessage({ type: 'SUBSCRIBE', gameId: spectatedGameIdRef.current })
+      } else if (currentGameState && currentGameState.gameId && ws.current?.readyState === WebSocket.OPEN) {
         let playerToken = undefined
         try {
           const stored = localStorage.getItem('reconnection_data')
@@ -227,11 +288,11 @@ export const useGameState = () => {
           localStorage.removeItem('reconnection_data')
         }
 
-        ws.current.send(JSON.stringify({
+        sendMessage({
           type: 'JOIN_GAME',
           gameId: currentGameState.gameId,
           playerToken: playerToken,
-        }))
+        })
         // Note: Deck data will be sent after JOIN_SUCCESS confirmation if player is host
       }
     }
@@ -241,8 +302,9 @@ export const useGameState = () => {
         if (data.type === 'GAMES_LIST') {
           setGamesList(data.games)
         } else if (data.type === 'JOIN_SUCCESS') {
+          spectatedGameIdRef.current = data.isSpectator ? data.gameId : null
           setLocalPlayerId(data.playerId)
-          const gameId = joiningGameIdRef.current || gameStateRef.current.gameId
+          const gameId = data.gameId || joiningGameIdRef.current || gameStateRef.current.gameId
           if (gameId && data.playerId !== null && data.playerToken) {
             localStorage.setItem('reconnection_data', JSON.stringify({
               gameId,
@@ -254,10 +316,15 @@ export const useGameState = () => {
             localStorage.removeItem('reconnection_data')
           }
           joiningGameIdRef.current = null
+          eventLogGameIdRef.current = gameId
+          setGameEvents([])
+          if (gameId) {
+            sendMessage({ type: 'GET_GAME_LOGS', gameId })
+          }
           if (data.playerId === 1) {
             setTimeout(() => {
-              if (ws.current?.readyState === WebSocket.OPEN) {
-                ws.current.send(JSON.stringify({ type: 'UPDATE_DECK_DATA', deckData: rawJsonData }))
+              if (rawJsonData) {
+                sendMessage({ type: 'UPDATE_DECK_DATA', deckData: rawJsonData })
               }
             }, 500)
           }
@@ -267,9 +334,32 @@ export const useGameState = () => {
         } else if (data.type === 'DECK_DATA_UPDATED') {
           // Deck data synced with server - no action needed
           logger.info('Deck data synced with server')
+        } else if (data.type === 'ACTION_REJECTED') {
+          // The server follows up with the authoritative state, which replaces the local prediction
+          console.warn(`Server rejected ${data.actionType}:`, data.message)
+        } else if (data.type === 'STATE_CONFLICT') {
+          // The server handles messages in order, so every earlier update has been settled too
+          const pendingUpdates = pendingUpdatesRef.current
+          const updater = pendingUpdates.get(data.requestId)
+          for (const requestId of pendingUpdates.keys()) {
+            if (requestId <= data.requestId) {
+              pendingUpdates.delete(requestId)
+            }
+          }
+          // Newer state has already arrived ahead of this reply; re-apply the intent on top of it
+          if (updater) {
+            logger.info(`State update ${data.requestId} conflicted (revision ${data.baseVersion}, current ${data.version}), re-applying`)
+            updateState(updater)
+          } else {
+            console.warn(`State update ${data.requestId} conflicted and could not be re-applied`)
+          }
         } else if (data.type === 'ERROR') {
           if (data.message.includes('not found') || data.message.includes('Dummy')) {
-            setGameState(createInitialState())
+            serverStateRef.current = null
+            pendingUpdatesRef.current.clear()
+            setChatMessages([])
+            setGameEvents([])
+            replaceGameState(createInitialState())
             setLocalPlayerId(null)
             localStorage.removeItem('reconnection_data')
           } else {
@@ -283,9 +373,44 @@ export const useGameState = () => {
           setLatestFloatingTexts([data.floatingTextData])
         } else if (data.type === 'FLOATING_TEXT_BATCH_TRIGGERED') {
           setLatestFloatingTexts(data.batch)
+        } else if (data.type === 'CHAT_MESSAGE') {
+          setChatMessages(prev => [...prev, data.message].slice(-MAX_CHAT_MESSAGES))
+        } else if (data.type === 'CHAT_HISTORY') {
+          setChatMessages(data.messages)
+        } else if (data.type === 'GAME_LOGS') {
+          if (data.gameId === eventLogGameIdRef.current) {
+            setGameEvents(data.logs.slice(-MAX_GAME_EVENTS))
+          }
+        } else if (data.type === 'GAME_EVENTS') {
+          if (data.gameId === eventLogGameIdRef.current) {
+            setGameEvents(prev => {
+              // Skip events already contained in a log fetched in the meantime
+              const lastSeq = prev.length > 0 ? prev[prev.length - 1].seq : 0
+              return [...prev, ...data.events.filter((event: GameEvent) => event.seq > lastSeq)].slice(-MAX_GAME_EVENTS)
+            })
+          }
+        } else if (data.type === 'STATE_PATCH') {
+          const baseState = serverStateRef.current
+          let patchedState: GameState | null = null
+          if (baseState && baseState.gameId === data.gameId && baseState.version === data.baseVersion) {
+            try {
+              patchedState = applyPatch(baseState, data.patch)
+            } catch (error) {
+              console.warn('Failed to apply state patch:', error)
+            }
+          }
+          if (patchedState) {
+            serverStateRef.current = patchedState
+            replaceGameState(patchedState)
+          } else if (!isSyncRequestedRef.current) {
+            // Missed a version (or have no base yet) - ask for a full snapshot
+            isSyncRequestedRef.current = sendMessage({ type: 'SYNC_GAME' })
+          }
         } else if (!data.type && data.players && data.board) {
           // Only update gameState if it's a valid game state (no type, but has required properties)
-          setGameState(data)
+          serverStateRef.current = data
+          isSyncRequestedRef.current = false
+          replaceGameState(data)
         } else {
           console.warn('Unknown message type:', data.type, data)
         }
@@ -304,7 +429,7 @@ export const useGameState = () => {
       }
     }
     ws.current.onerror = (event) => console.error('WebSocket error event:', event)
-  }, [setGameState, createInitialState])
+  }, [replaceGameState, createInitialState, sendMessage, updateState])
 
   const forceReconnect = useCallback(() => {
     if (ws.current && (ws.current.readyState === WebSocket.OPEN || ws.current.readyState === WebSocket.CONNECTING)) {
@@ -317,6 +442,7 @@ export const useGameState = () => {
 
   const joinGame = useCallback((gameId: string): void => {
     isManualExitRef.current = false
+    spectatedGameIdRef.current = null
     if (ws.current?.readyState === WebSocket.OPEN) {
       joiningGameIdRef.current = gameId
       let reconnectionData = null
@@ -328,16 +454,28 @@ export const useGameState = () => {
       } catch (e) {
         localStorage.removeItem('reconnection_data')
       }
-      const payload: { type: string; gameId: string; playerToken?: string } = { type: 'JOIN_GAME', gameId }
+      const payload: ClientMessageOf<'JOIN_GAME'> = { type: 'JOIN_GAME', gameId }
       if (reconnectionData?.gameId === gameId && reconnectionData.playerToken) {
         payload.playerToken = reconnectionData.playerToken
       }
-      ws.current.send(JSON.stringify(payload))
+      sendMessage(payload)
     } else {
       connectWebSocket()
       joiningGameIdRef.current = gameId
     }
-  }, [connectWebSocket])
+  }, [connectWebSocket, sendMessage])
+
+  /**
+   * watchGame - Join a game as a spectator, without taking a seat
+   * @param gameId - The game to watch
+   */
+  const watchGame = useCallback((gameId: string): void => {
+    isManualExitRef.current = false
+    spectatedGameIdRef.current = gameId
+    if (!sendMessage({ type: 'SUBSCRIBE', gameId })) {
+      connectWebSocket()
+    }
+  }, [connectWebSocket, sendMessage])
 
   useEffect(() => {
     isManualExitRef.current = false
@@ -356,34 +494,26 @@ export const useGameState = () => {
   const createGame = useCallback(() => {
     isManualExitRef.current = false
     localStorage.removeItem('reconnection_data')
-    const newGameId = generateGameId()
-    const initialState = {
-      ...createInitialState(),
-      gameId: newGameId,
-      players: [createNewPlayer(1)],
-    }
-    updateState(initialState)
-    // Wait for server to process UPDATE_STATE and assign playerId before sending other messages
-    setTimeout(() => {
-      if (ws.current?.readyState === WebSocket.OPEN) {
-        ws.current.send(JSON.stringify({ type: 'SUBSCRIBE', gameId: newGameId }))
-        ws.current.send(JSON.stringify({ type: 'UPDATE_DECK_DATA', deckData: rawJsonData }))
-      }
-    }, 100)
-  }, [updateState, createInitialState, createNewPlayer])
+    // The server creates the game, seats us as Player 1 and answers with JOIN_SUCCESS
+    sendMessage({ type: 'CREATE_GAME', isPrivate: true })
+  }, [sendMessage])
 
   const requestGamesList = useCallback(() => {
-    if (ws.current?.readyState === WebSocket.OPEN) {
-      ws.current.send(JSON.stringify({ type: 'GET_GAMES_LIST' }))
-    }
-  }, [])
+    sendMessage({ type: 'GET_GAMES_LIST' })
+  }, [sendMessage])
 
   const exitGame = useCallback(() => {
     isManualExitRef.current = true
     const gameIdToLeave = gameStateRef.current.gameId
     const playerIdToLeave = localPlayerIdRef.current
 
-    setGameState(createInitialState())
+    serverStateRef.current = null
+    pendingUpdatesRef.current.clear()
+    spectatedGameIdRef.current = null
+    eventLogGameIdRef.current = null
+    setChatMessages([])
+    setGameEvents([])
+    replaceGameState(createInitialState())
     setLocalPlayerId(null)
     localStorage.removeItem('reconnection_data')
 
@@ -391,8 +521,10 @@ export const useGameState = () => {
       ws.current.onclose = null
     }
 
-    if (ws.current?.readyState === WebSocket.OPEN && gameIdToLeave && playerIdToLeave !== null) {
-      ws.current.send(JSON.stringify({ type: 'EXIT_GAME', gameId: gameIdToLeave, playerId: playerIdToLeave }))
+    if (gameIdToLeave) {
+      sendMessage(playerIdToLeave !== null
+        ? { type: 'EXIT_GAME', gameId: gameIdToLeave, playerId: playerIdToLeave }
+        : { type: 'EXIT_GAME', gameId: gameIdToLeave })
     }
 
     if (ws.current) {
@@ -404,122 +536,96 @@ export const useGameState = () => {
       connectWebSocket()
     }, 100)
 
-  }, [createInitialState, connectWebSocket])
+  }, [createInitialState, connectWebSocket, replaceGameState, sendMessage])
 
   // ... (startReadyCheck, cancelReadyCheck, playerReady, assignTeams, setGameMode, setGamePrivacy, syncGame, resetGame, setActiveGridSize, setDummyPlayerCount methods kept as is) ...
   const startReadyCheck = useCallback(() => {
-    if (ws.current?.readyState === WebSocket.OPEN && gameStateRef.current.gameId) {
-      ws.current.send(JSON.stringify({ type: 'START_READY_CHECK', gameId: gameStateRef.current.gameId }))
+    if (gameStateRef.current.gameId) {
+      sendMessage({ type: 'START_READY_CHECK', gameId: gameStateRef.current.gameId })
     }
-  }, [])
+  }, [sendMessage])
 
   const cancelReadyCheck = useCallback(() => {
-    if (ws.current?.readyState === WebSocket.OPEN && gameStateRef.current.gameId) {
-      ws.current.send(JSON.stringify({ type: 'CANCEL_READY_CHECK', gameId: gameStateRef.current.gameId }))
+    if (gameStateRef.current.gameId) {
+      sendMessage({ type: 'CANCEL_READY_CHECK', gameId: gameStateRef.current.gameId })
     }
-  }, [])
+  }, [sendMessage])
 
   const playerReady = useCallback(() => {
-    if (ws.current?.readyState === WebSocket.OPEN && gameStateRef.current.gameId && localPlayerIdRef.current !== null) {
-      ws.current.send(JSON.stringify({ type: 'PLAYER_READY', gameId: gameStateRef.current.gameId, playerId: localPlayerIdRef.current }))
+    if (gameStateRef.current.gameId && localPlayerIdRef.current !== null) {
+      sendMessage({ type: 'PLAYER_READY', gameId: gameStateRef.current.gameId, playerId: localPlayerIdRef.current })
     }
-  }, [])
+  }, [sendMessage])
 
   const assignTeams = useCallback((teamAssignments: Record<number, number[]>) => {
-    if (ws.current?.readyState === WebSocket.OPEN && gameStateRef.current.gameId) {
-      ws.current.send(JSON.stringify({ type: 'ASSIGN_TEAMS', gameId: gameStateRef.current.gameId, assignments: teamAssignments }))
+    if (gameStateRef.current.gameId) {
+      sendMessage({ type: 'ASSIGN_TEAMS', gameId: gameStateRef.current.gameId, assignments: teamAssignments })
     }
-  }, [])
+  }, [sendMessage])
 
   const setGameMode = useCallback((mode: GameModeEnum) => {
-    if (ws.current?.readyState === WebSocket.OPEN && gameStateRef.current.gameId) {
-      ws.current.send(JSON.stringify({ type: 'SET_GAME_MODE', gameId: gameStateRef.current.gameId, mode }))
+    if (gameStateRef.current.gameId) {
+      sendMessage({ type: 'SET_GAME_MODE', gameId: gameStateRef.current.gameId, mode })
     }
-  }, [])
+  }, [sendMessage])
 
   const setGamePrivacy = useCallback((isPrivate: boolean) => {
-    if (ws.current?.readyState === WebSocket.OPEN && gameStateRef.current.gameId) {
-      ws.current.send(JSON.stringify({ type: 'SET_GAME_PRIVACY', gameId: gameStateRef.current.gameId, isPrivate }))
+    if (gameStateRef.current.gameId) {
+      sendMessage({ type: 'SET_GAME_PRIVACY', gameId: gameStateRef.current.gameId, isPrivate })
     }
-  }, [])
+  }, [sendMessage])
+
+  const setSpectatorDelay = useCallback((seconds: number) => {
+    if (gameStateRef.current.gameId) {
+      sendMessage({ type: 'SET_SPECTATOR_DELAY', gameId: gameStateRef.current.gameId, seconds })
+    }
+  }, [sendMessage])
+
+  const setMatchRules = useCallback((rules: MatchRules) => {
+    if (gameStateRef.current.gameId) {
+      sendMessage({ type: 'SET_MATCH_RULES', gameId: gameStateRef.current.gameId, rules })
+    }
+  }, [sendMessage])
+
+  const setTimeControls = useCallback((controls: TimeControls) => {
+    if (gameStateRef.current.gameId) {
+      sendMessage({ type: 'SET_TIME_CONTROLS', gameId: gameStateRef.current.gameId, controls })
+    }
+  }, [sendMessage])
 
   const syncGame = useCallback(() => {
-    if (ws.current?.readyState === WebSocket.OPEN && gameStateRef.current.gameId && localPlayerIdRef.current === 1) {
-      ws.current.send(JSON.stringify({ type: 'UPDATE_DECK_DATA', deckData: rawJsonData }))
-      const currentState = gameStateRef.current
-      const refreshedState = JSON.parse(JSON.stringify(currentState))
-      refreshedState.players.forEach((p: Player) => {
-        ['hand', 'deck', 'discard'].forEach(pile => {
-          // @ts-ignore
-          if (p[pile]) {
-            // @ts-ignore
-            p[pile] = p[pile].map(c => {
-              const def = getCardDefinitionByName(c.name)
-              return def ? { ...c, ...def } : c
-            })
-          }
-        })
-        if (p.announcedCard) {
-          const def = getCardDefinitionByName(p.announcedCard.name)
-          if (def) {
-            p.announcedCard = { ...p.announcedCard, ...def }
-          }
-        }
-      })
-      refreshedState.board.forEach((row: any[]) => {
-        row.forEach(cell => {
-          if (cell.card) {
-            const def = getCardDefinitionByName(cell.card.name)
-            if (def) {
-              cell.card = { ...cell.card, ...def }
-            }
-          }
-        })
-      })
-      ws.current.send(JSON.stringify({ type: 'FORCE_SYNC', gameState: refreshedState }))
-      setGameState(refreshedState)
+    if (gameStateRef.current.gameId && localPlayerIdRef.current === 1) {
+      // Push the latest content first; the server refreshes every card from it and broadcasts the result
+      if (rawJsonData) {
+        sendMessage({ type: 'UPDATE_DECK_DATA', deckData: rawJsonData })
+      }
+      sendMessage({ type: 'FORCE_SYNC', gameId: gameStateRef.current.gameId })
     }
-  }, [])
+  }, [sendMessage])
 
   const resetGame = useCallback(() => {
-    updateState(currentState => {
-      if (localPlayerIdRef.current !== 1) {
-        return currentState
-      }
-      const newPlayers = currentState.players.map(player => {
-        const newDeck = createDeck(player.selectedDeck, player.id, player.name)
-        return {
-          ...player,
-          hand: [],
-          deck: newDeck,
-          discard: [],
-          announcedCard: null,
-          score: 0,
-          isReady: false,
-          boardHistory: [], // Reset history
-        }
-      })
-      return {
-        ...currentState,
-        players: newPlayers,
-        board: createInitialBoard(),
-        isGameStarted: false,
-        isReadyCheckActive: false,
-        revealRequests: [],
-        activePlayerId: null, // Aligned with server default (null)
-        startingPlayerId: null, // Aligned with server default (null)
-        currentPhase: 0,
-        isScoringStep: false,
-        currentRound: 1,
-        turnNumber: 1,
-        roundEndTriggered: false,
-        roundWinners: {},
-        gameWinner: null,
-        isRoundEndModalOpen: false,
-      }
-    })
-  }, [updateState, createDeck])
+    if (gameStateRef.current.gameId && localPlayerIdRef.current === 1) {
+      sendMessage({ type: 'RESET_GAME', gameId: gameStateRef.current.gameId })
+    }
+  }, [sendMessage])
+
+  const undoAction = useCallback(() => {
+    if (gameStateRef.current.gameId) {
+      sendMessage({ type: 'UNDO_ACTION', gameId: gameStateRef.current.gameId })
+    }
+  }, [sendMessage])
 
+  const redoAction = useCallback(() => {
+    if (gameStateRef.current.gameId) {
+      sendMessage({ type: 'REDO_ACTION', gameId: gameStateRef.current.gameId })
+    }
+  }, [sendMessage])
+
+  const respondToUndoRequest = useCallback((accepted: boolean) => {
+    if (gameStateRef.current.gameId) {
+      sendMessage({ type: 'RESPOND_UNDO_REQUEST', gameId: gameStateRef.current.gameId, accepted })
+    }
+  }, [sendMessage])
 
   const setActiveGridSize = useCallback((size: GridSize) => {
     updateState(currentState => {
@@ -552,210 +658,63 @@ export const useGameState = () => {
     })
   }, [updateState, createNewPlayer])
 
-  const addBoardCardStatus = useCallback((boardCoords: { row: number; col: number }, status: string, addedByPlayerId: number) => {
-    updateState(currentState => {
-      if (!currentState.isGameStarted) {
-        return currentState
-      }
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-      const card = newState.board[boardCoords.row][boardCoords.col].card
-      if (card) {
-        // Lucius, The Immortal Immunity: Cannot be stunned
-        // Uses strict baseId check OR Name+Hero check as a fallback
-        if (status === 'Stun') {
-          if (card.baseId === 'luciusTheImmortal') {
-            return currentState
-          }
-          // Robust Fallback: Name + Hero Type
-          if (card.name.includes('Lucius') && card.types?.includes('Hero')) {
-            return currentState
-          }
-        }
+  const setDummyAi = useCallback((playerId: number, difficulty: AiDifficulty | null) => {
+    if (gameStateRef.current.gameId) {
+      sendMessage({ type: 'SET_DUMMY_AI', gameId: gameStateRef.current.gameId, playerId, difficulty })
+    }
+  }, [sendMessage])
 
-        if (['Support', 'Threat', 'Revealed'].includes(status)) {
-          const alreadyHasStatusFromPlayer = card.statuses?.some(s => s.type === status && s.addedByPlayerId === addedByPlayerId)
-          if (alreadyHasStatusFromPlayer) {
-            return currentState
-          }
-        }
-        if (!card.statuses) {
-          card.statuses = []
-        }
-        card.statuses.push({ type: status, addedByPlayerId })
-      }
-      return newState
-    })
-  }, [updateState])
+  const addBoardCardStatus = useCallback((boardCoords: { row: number; col: number }, status: string) => {
+    dispatchAction({ type: 'PLAY_COUNTER', statusType: status, target: { target: 'board', boardCoords } })
+  }, [dispatchAction])
 
   const removeBoardCardStatus = useCallback((boardCoords: { row: number; col: number }, status: string) => {
-    updateState(currentState => {
-      if (!currentState.isGameStarted) {
-        return currentState
-      }
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-      const card = newState.board[boardCoords.row][boardCoords.col].card
-      if (card?.statuses) {
-        const lastIndex = card.statuses.map(s => s.type).lastIndexOf(status)
-        if (lastIndex > -1) {
-          card.statuses.splice(lastIndex, 1)
-        }
-      }
-      newState.board = recalculateBoardStatuses(newState)
-      return newState
-    })
-  }, [updateState])
+    dispatchAction({ type: 'REMOVE_STATUS', statusType: status, target: { target: 'board', boardCoords } })
+  }, [dispatchAction])
 
   const removeBoardCardStatusByOwner = useCallback((boardCoords: { row: number; col: number }, status: string, ownerId: number) => {
-    updateState(currentState => {
-      if (!currentState.isGameStarted) {
-        return currentState
-      }
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-      const card = newState.board[boardCoords.row][boardCoords.col].card
-      if (card?.statuses) {
-        const index = card.statuses.findIndex(s => s.type === status && s.addedByPlayerId === ownerId)
-        if (index > -1) {
-          card.statuses.splice(index, 1)
-        }
-      }
-      newState.board = recalculateBoardStatuses(newState)
-      return newState
-    })
-  }, [updateState])
+    dispatchAction({ type: 'REMOVE_STATUS', statusType: status, target: { target: 'board', boardCoords }, addedByPlayerId: ownerId })
+  }, [dispatchAction])
 
   const modifyBoardCardPower = useCallback((boardCoords: { row: number; col: number }, delta: number) => {
-    updateState(currentState => {
-      if (!currentState.isGameStarted) {
-        return currentState
-      }
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-      const card = newState.board[boardCoords.row][boardCoords.col].card
-      if (card) {
-        if (card.powerModifier === undefined) {
-          card.powerModifier = 0
-        }
-        card.powerModifier += delta
-      }
-      return newState
-    })
-  }, [updateState])
+    if (delta !== 0) {
+      dispatchAction({ type: 'PLAY_COUNTER', statusType: delta > 0 ? 'Power+' : 'Power-', count: Math.abs(delta), target: { target: 'board', boardCoords } })
+    }
+  }, [dispatchAction])
 
   // ... (Other status/card modification methods kept as is: addAnnouncedCardStatus, removeAnnouncedCardStatus, modifyAnnouncedCardPower, addHandCardStatus, removeHandCardStatus, flipBoardCard, flipBoardCardFaceDown, revealHandCard, revealBoardCard, requestCardReveal, respondToRevealRequest, removeRevealedStatus) ...
-  const addAnnouncedCardStatus = useCallback((playerId: number, status: string, addedByPlayerId: number) => {
-    updateState(currentState => {
-      if (!currentState.isGameStarted) {
-        return currentState
-      }
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-      const player = newState.players.find(p => p.id === playerId)
-      if (player?.announcedCard) {
-        if (['Support', 'Threat', 'Revealed'].includes(status)) {
-          const alreadyHasStatusFromPlayer = player.announcedCard.statuses?.some(s => s.type === status && s.addedByPlayerId === addedByPlayerId)
-          if (alreadyHasStatusFromPlayer) {
-            return currentState
-          }
-        }
-        if (!player.announcedCard.statuses) {
-          player.announcedCard.statuses = []
-        }
-        player.announcedCard.statuses.push({ type: status, addedByPlayerId })
-      }
-      return newState
-    })
-  }, [updateState])
+  const addAnnouncedCardStatus = useCallback((playerId: number, status: string) => {
+    dispatchAction({ type: 'PLAY_COUNTER', statusType: status, target: { target: 'announced', playerId } })
+  }, [dispatchAction])
 
   const removeAnnouncedCardStatus = useCallback((playerId: number, status: string) => {
-    updateState(currentState => {
-      if (!currentState.isGameStarted) {
-        return currentState
-      }
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-      const player = newState.players.find(p => p.id === playerId)
-      if (player?.announcedCard?.statuses) {
-        const lastIndex = player.announcedCard.statuses.map(s => s.type).lastIndexOf(status)
-        if (lastIndex > -1) {
-          player.announcedCard.statuses.splice(lastIndex, 1)
-        }
-      }
-      return newState
-    })
-  }, [updateState])
+    dispatchAction({ type: 'REMOVE_STATUS', statusType: status, target: { target: 'announced', playerId } })
+  }, [dispatchAction])
 
   const modifyAnnouncedCardPower = useCallback((playerId: number, delta: number) => {
-    updateState(currentState => {
-      if (!currentState.isGameStarted) {
-        return currentState
-      }
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-      const player = newState.players.find(p => p.id === playerId)
-      if (player?.announcedCard) {
-        if (player.announcedCard.powerModifier === undefined) {
-          player.announcedCard.powerModifier = 0
-        }
-        player.announcedCard.powerModifier += delta
-      }
-      return newState
-    })
-  }, [updateState])
+    if (delta !== 0) {
+      dispatchAction({ type: 'PLAY_COUNTER', statusType: delta > 0 ? 'Power+' : 'Power-', count: Math.abs(delta), target: { target: 'announced', playerId } })
+    }
+  }, [dispatchAction])
 
-  const addHandCardStatus = useCallback((playerId: number, cardIndex: number, status: string, addedByPlayerId: number) => {
-    updateState(currentState => {
-      if (!currentState.isGameStarted) {
-        return currentState
-      }
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-      const player = newState.players.find(p => p.id === playerId)
-      if (player?.hand[cardIndex]) {
-        const card = player.hand[cardIndex]
-        if (['Support', 'Threat', 'Revealed'].includes(status)) {
-          const alreadyHasStatusFromPlayer = card.statuses?.some(s => s.type === status && s.addedByPlayerId === addedByPlayerId)
-          if (alreadyHasStatusFromPlayer) {
-            return currentState
-          }
-        }
-        if (!card.statuses) {
-          card.statuses = []
-        }
-        card.statuses.push({ type: status, addedByPlayerId })
-      }
-      return newState
-    })
-  }, [updateState])
+  const addHandCardStatus = useCallback((playerId: number, cardIndex: number, status: string) => {
+    dispatchAction({ type: 'PLAY_COUNTER', statusType: status, target: { target: 'hand', playerId, cardIndex } })
+  }, [dispatchAction])
 
   const removeHandCardStatus = useCallback((playerId: number, cardIndex: number, status: string) => {
-    updateState(currentState => {
-      if (!currentState.isGameStarted) {
-        return currentState
-      }
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-      const player = newState.players.find(p => p.id === playerId)
-      const card = player?.hand[cardIndex]
-      if (card?.statuses) {
-        const lastIndex = card.statuses.map(s => s.type).lastIndexOf(status)
-        if (lastIndex > -1) {
-          card.statuses.splice(lastIndex, 1)
-        }
-        if (status === 'Revealed') {
-          const hasRevealed = card.statuses.some(s => s.type === 'Revealed')
-          if (!hasRevealed) {
-            delete card.revealedTo
-          }
-        }
-      }
-      return newState
-    })
-  }, [updateState])
+    dispatchAction({ type: 'REMOVE_STATUS', statusType: status, target: { target: 'hand', playerId, cardIndex } })
+  }, [dispatchAction])
 
   const flipBoardCard = useCallback((boardCoords: { row: number; col: number }) => {
     updateState(currentState => {
       if (!currentState.isGameStarted) {
         return currentState
       }
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-      const card = newState.board[boardCoords.row][boardCoords.col].card
-      if (card) {
-        card.isFaceDown = false
+      const card = currentState.board[boardCoords.row][boardCoords.col].card
+      if (!card) {
+        return currentState
       }
+      const newState = { ...currentState, board: replaceBoardCard(currentState.board, boardCoords, { ...card, isFaceDown: false }) }
       newState.board = recalculateBoardStatuses(newState)
       return newState
     })
@@ -766,72 +725,23 @@ export const useGameState = () => {
       if (!currentState.isGameStarted) {
         return currentState
       }
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-      const card = newState.board[boardCoords.row][boardCoords.col].card
-      if (card) {
-        card.isFaceDown = true
+      const card = currentState.board[boardCoords.row][boardCoords.col].card
+      if (!card) {
+        return currentState
       }
+      const newState = { ...currentState, board: replaceBoardCard(currentState.board, boardCoords, { ...card, isFaceDown: true }) }
       newState.board = recalculateBoardStatuses(newState)
       return newState
     })
   }, [updateState])
 
-  const revealHandCard = useCallback((playerId: number, cardIndex: number, revealTarget: 'all' | number[]) => {
-    updateState(currentState => {
-      const player = currentState.players.find(p => p.id === playerId)
-      if (!player?.hand[cardIndex]) {
-        return currentState
-      }
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-      const cardToReveal = newState.players.find(p => p.id === playerId)!.hand[cardIndex]
-      if (revealTarget === 'all') {
-        cardToReveal.revealedTo = 'all'
-        if (!cardToReveal.statuses) {
-          cardToReveal.statuses = []
-        }
-        if (!cardToReveal.statuses.some(s => s.type === 'Revealed' && s.addedByPlayerId === playerId)) {
-          cardToReveal.statuses.push({ type: 'Revealed', addedByPlayerId: playerId })
-        }
-      } else {
-        if (!cardToReveal.revealedTo || cardToReveal.revealedTo === 'all' || !Array.isArray(cardToReveal.revealedTo)) {
-          cardToReveal.revealedTo = []
-        }
-        const newRevealedIds = revealTarget.filter(id => !(cardToReveal.revealedTo as number[]).includes(id));
-        (cardToReveal.revealedTo).push(...newRevealedIds)
-      }
-      return newState
-    })
-  }, [updateState])
+  const revealHandCard = useCallback((playerId: number, cardIndex: number) => {
+    dispatchAction({ type: 'REVEAL_CARD', target: { target: 'hand', playerId, cardIndex } })
+  }, [dispatchAction])
 
-  const revealBoardCard = useCallback((boardCoords: { row: number, col: number }, revealTarget: 'all' | number[]) => {
-    updateState(currentState => {
-      const cardToReveal = currentState.board[boardCoords.row][boardCoords.col].card
-      if (!cardToReveal) {
-        return currentState
-      }
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-      const cardInNewState = newState.board[boardCoords.row][boardCoords.col].card!
-      const ownerId = cardInNewState.ownerId
-      if (revealTarget === 'all') {
-        cardInNewState.revealedTo = 'all'
-        if (ownerId !== undefined) {
-          if (!cardInNewState.statuses) {
-            cardInNewState.statuses = []
-          }
-          if (!cardInNewState.statuses.some(s => s.type === 'Revealed' && s.addedByPlayerId === ownerId)) {
-            cardInNewState.statuses.push({ type: 'Revealed', addedByPlayerId: ownerId })
-          }
-        }
-      } else {
-        if (!cardInNewState.revealedTo || cardInNewState.revealedTo === 'all' || !Array.isArray(cardInNewState.revealedTo)) {
-          cardInNewState.revealedTo = []
-        }
-        const newRevealedIds = revealTarget.filter(id => !(cardInNewState.revealedTo as number[]).includes(id));
-        (cardInNewState.revealedTo).push(...newRevealedIds)
-      }
-      return newState
-    })
-  }, [updateState])
+  const revealBoardCard = useCallback((boardCoords: { row: number, col: number }) => {
+    dispatchAction({ type: 'REVEAL_CARD', target: { target: 'board', boardCoords } })
+  }, [dispatchAction])
 
   const requestCardReveal = useCallback((cardIdentifier: CardIdentifier, requestingPlayerId: number) => {
     updateState(currentState => {
@@ -841,101 +751,59 @@ export const useGameState = () => {
       if (!ownerId) {
         return currentState
       }
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-      const existingRequest = newState.revealRequests.find(
+      const existingRequest = currentState.revealRequests.find(
         (req: RevealRequest) => req.fromPlayerId === requestingPlayerId && req.toPlayerId === ownerId,
       )
       if (existingRequest) {
         const cardAlreadyRequested = existingRequest.cardIdentifiers.some(ci =>
           JSON.stringify(ci) === JSON.stringify(cardIdentifier),
         )
-        if (!cardAlreadyRequested) {
-          existingRequest.cardIdentifiers.push(cardIdentifier)
+        if (cardAlreadyRequested) {
+          return currentState
+        }
+        return {
+          ...currentState,
+          revealRequests: currentState.revealRequests.map(req =>
+            req === existingRequest ? { ...req, cardIdentifiers: [...req.cardIdentifiers, cardIdentifier] } : req,
+          ),
         }
-      } else {
-        newState.revealRequests.push({
+      }
+      return {
+        ...currentState,
+        revealRequests: [...currentState.revealRequests, {
           fromPlayerId: requestingPlayerId,
           toPlayerId: ownerId,
           cardIdentifiers: [cardIdentifier],
-        })
+        }],
       }
-      return newState
     })
   }, [updateState])
 
   const respondToRevealRequest = useCallback((fromPlayerId: number, accepted: boolean) => {
+    dispatchAction({ type: 'RESPOND_REVEAL_REQUEST', fromPlayerId, accepted })
+  }, [dispatchAction])
+
+  const removeRevealedStatus = useCallback((cardIdentifier: { source: 'hand' | 'board'; playerId?: number; cardIndex?: number; boardCoords?: { row: number, col: number }}) => {
+    const target: DropTarget = cardIdentifier.source === 'board'
+      ? { target: 'board', boardCoords: cardIdentifier.boardCoords }
+      : { target: 'hand', playerId: cardIdentifier.playerId, cardIndex: cardIdentifier.cardIndex }
+    dispatchAction({ type: 'REMOVE_STATUS', statusType: 'Revealed', target, all: true })
+  }, [dispatchAction])
+
+
+  const updatePlayerName = useCallback((playerId: number, name:string) => {
     updateState(currentState => {
-      const requestIndex = currentState.revealRequests.findIndex(
-        (req: RevealRequest) => req.toPlayerId === localPlayerIdRef.current && req.fromPlayerId === fromPlayerId,
-      )
-      if (requestIndex === -1) {
+      if (currentState.isGameStarted) {
         return currentState
       }
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-      const request = newState.revealRequests[requestIndex]
-      if (accepted) {
-        const { cardIdentifiers } = request
-        for (const cardIdentifier of cardIdentifiers) {
-          let cardToUpdate: Card | null = null
-          if (cardIdentifier.source === 'board' && cardIdentifier.boardCoords) {
-            cardToUpdate = newState.board[cardIdentifier.boardCoords.row][cardIdentifier.boardCoords.col].card
-          } else if (cardIdentifier.source === 'hand' && cardIdentifier.ownerId && cardIdentifier.cardIndex !== undefined) {
-            const owner = newState.players.find(p => p.id === cardIdentifier.ownerId)
-            if (owner) {
-              cardToUpdate = owner.hand[cardIdentifier.cardIndex]
-            }
-          }
-          if (cardToUpdate) {
-            if (!cardToUpdate.statuses) {
-              cardToUpdate.statuses = []
-            }
-            if (!cardToUpdate.statuses.some(s => s.type === 'Revealed' && s.addedByPlayerId === fromPlayerId)) {
-              cardToUpdate.statuses.push({ type: 'Revealed', addedByPlayerId: fromPlayerId })
-            }
-          }
-        }
+      return {
+        ...currentState,
+        players: currentState.players.map(p => p.id === playerId ? { ...p, name } : p),
       }
-      newState.revealRequests.splice(requestIndex, 1)
-      return newState
     })
   }, [updateState])
 
-  const removeRevealedStatus = useCallback((cardIdentifier: { source: 'hand' | 'board'; playerId?: number; cardIndex?: number; boardCoords?: { row: number, col: number }}) => {
-    updateState(currentState => {
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-      let cardToUpdate: Card | null = null
-      if (cardIdentifier.source === 'board' && cardIdentifier.boardCoords) {
-        cardToUpdate = newState.board[cardIdentifier.boardCoords.row][cardIdentifier.boardCoords.col].card
-      } else if (cardIdentifier.source === 'hand' && cardIdentifier.playerId && cardIdentifier.cardIndex !== undefined) {
-        const owner = newState.players.find(p => p.id === cardIdentifier.playerId)
-        if (owner) {
-          cardToUpdate = owner.hand[cardIdentifier.cardIndex]
-        }
-      }
-      if (cardToUpdate) {
-        if (cardToUpdate.statuses) {
-          cardToUpdate.statuses = cardToUpdate.statuses.filter(s => s.type !== 'Revealed')
-        }
-        delete cardToUpdate.revealedTo
-      }
-      return newState
-    })
-  }, [updateState])
-
-
-  const updatePlayerName = useCallback((playerId: number, name:string) => {
-    updateState(currentState => {
-      if (currentState.isGameStarted) {
-        return currentState
-      }
-      return {
-        ...currentState,
-        players: currentState.players.map(p => p.id === playerId ? { ...p, name } : p),
-      }
-    })
-  }, [updateState])
-
-  const changePlayerColor = useCallback((playerId: number, color: PlayerColor) => {
+  const changePlayerColor = useCallback((playerId: number, color: PlayerColor) => {
     updateState(currentState => {
       if (currentState.isGameStarted) {
         return currentState
@@ -952,20 +820,8 @@ export const useGameState = () => {
   }, [updateState])
 
   const updatePlayerScore = useCallback((playerId: number, delta: number) => {
-    updateState(currentState => {
-      if (!currentState.isGameStarted) {
-        return currentState
-      }
-
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-      const player = newState.players.find(p => p.id === playerId)
-
-      if (player) {
-        player.score += delta
-      }
-      return newState
-    })
-  }, [updateState])
+    dispatchAction({ type: 'GAIN_POINTS', playerId, points: delta })
+  }, [dispatchAction])
 
   const changePlayerDeck = useCallback((playerId: number, deckType: DeckType) => {
     updateState(currentState => {
@@ -1019,7 +875,7 @@ export const useGameState = () => {
         ...currentState,
         players: currentState.players.map(p =>
           p.id === playerId
-            ? { ...p, deck: shuffleDeck(newDeck), selectedDeck: DeckType.Custom, hand: [], discard: [], announcedCard: null, boardHistory: [] }
+            ? { ...p, deck: newDeck, selectedDeck: DeckType.Custom, hand: [], discard: [], announcedCard: null, boardHistory: [] }
             : p,
         ),
       }
@@ -1027,742 +883,101 @@ export const useGameState = () => {
   }, [updateState])
 
   const drawCard = useCallback((playerId: number) => {
-    updateState(currentState => {
-      if (!currentState.isGameStarted) {
-        return currentState
-      }
-      const player = currentState.players.find(p => p.id === playerId)
-      if (!player || player.deck.length === 0) {
-        return currentState
-      }
-      const newState = JSON.parse(JSON.stringify(currentState))
-      const playerToUpdate = newState.players.find((p: Player) => p.id === playerId)!
-      const cardDrawn = playerToUpdate.deck.shift()
-      if (cardDrawn) {
-        playerToUpdate.hand.push(cardDrawn)
-      }
-      return newState
-    })
-  }, [updateState])
+    dispatchAction({ type: 'DRAW_CARD', playerId })
+  }, [dispatchAction])
 
   const shufflePlayerDeck = useCallback((playerId: number) => {
-    updateState(currentState => {
-      if (!currentState.isGameStarted) {
-        return currentState
-      }
-      const player = currentState.players.find(p => p.id === playerId)
-      if (!player) {
-        return currentState
-      }
-      const newState = JSON.parse(JSON.stringify(currentState))
-      const playerToUpdate = newState.players.find((p: Player) => p.id === playerId)!
-      playerToUpdate.deck = shuffleDeck(playerToUpdate.deck)
-      return newState
-    })
-  }, [updateState])
+    dispatchAction({ type: 'SHUFFLE_DECK', playerId })
+  }, [dispatchAction])
 
   const toggleActivePlayer = useCallback((playerId: number) => {
-    if (ws.current && ws.current.readyState === WebSocket.OPEN) {
-      ws.current.send(JSON.stringify({
+    if (gameStateRef.current.gameId) {
+      sendMessage({
         type: 'TOGGLE_ACTIVE_PLAYER',
         gameId: gameStateRef.current.gameId,
         playerId
-      }))
+      })
     }
-  }, [])
+  }, [sendMessage])
 
   const toggleAutoDraw = useCallback((playerId: number, enabled: boolean) => {
-    if (ws.current && ws.current.readyState === WebSocket.OPEN) {
-      ws.current.send(JSON.stringify({
+    if (gameStateRef.current.gameId) {
+      sendMessage({
         type: 'TOGGLE_AUTO_DRAW',
         gameId: gameStateRef.current.gameId,
         playerId,
         enabled
-      }))
+      })
     }
-  }, [])
+  }, [sendMessage])
 
+  // Phase and turn progression is decided by the server's turn engine, the client only asks for it
   const setPhase = useCallback((phaseIndex: number) => {
-    updateState(currentState => {
-      if (!currentState.isGameStarted) {
-        return currentState
-      }
-      return {
-        ...currentState,
-        currentPhase: Math.max(0, Math.min(phaseIndex, TURN_PHASES.length - 1)),
-      }
-    })
-  }, [updateState])
+    if (gameStateRef.current.gameId) {
+      sendMessage({ type: 'SET_PHASE', gameId: gameStateRef.current.gameId, phaseIndex })
+    }
+  }, [sendMessage])
 
   const nextPhase = useCallback(() => {
-    updateState(currentState => {
-      if (!currentState.isGameStarted) {
-        return currentState
-      }
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-
-      if (newState.isScoringStep) {
-        newState.isScoringStep = false
-        const finishingPlayerId = currentState.activePlayerId
-        if (finishingPlayerId !== undefined) {
-          newState.board.forEach(row => {
-            row.forEach(cell => {
-              if (cell.card?.ownerId === finishingPlayerId && cell.card.statuses) {
-                const stunIndex = cell.card.statuses.findIndex(s => s.type === 'Stun')
-                if (stunIndex !== -1) {
-                  cell.card.statuses.splice(stunIndex, 1)
-                }
-              }
-            })
-          })
-          // Recalculate statuses after Stun removal to ensure Support/Threat are updated
-          newState.board = recalculateBoardStatuses(newState)
-        }
-
-        let nextPlayerId = finishingPlayerId
-        if (nextPlayerId !== undefined) {
-          const sortedPlayers = [...newState.players].sort((a, b) => a.id - b.id)
-          const currentIndex = sortedPlayers.findIndex(p => p.id === nextPlayerId)
-          if (currentIndex !== -1) {
-            const nextIndex = (currentIndex + 1) % sortedPlayers.length
-            nextPlayerId = sortedPlayers[nextIndex].id
-          }
-        }
-
-        newState.currentPhase = 0
-        newState.activePlayerId = nextPlayerId
-
-        // Auto-draw for the new active player
-        // For dummy players: check if host (Player 1) has auto-draw enabled
-        // For real players: check their own auto-draw setting
-        if (nextPlayerId !== undefined && nextPlayerId !== finishingPlayerId) {
-          const newActivePlayer = newState.players.find(p => p.id === nextPlayerId)
-          if (newActivePlayer && newActivePlayer.deck.length > 0) {
-            let shouldDraw = false
-
-            if (newActivePlayer.isDummy) {
-              // Dummy players draw if host (Player 1) has auto-draw enabled
-              const hostPlayer = newState.players.find(p => p.id === 1)
-              shouldDraw = hostPlayer?.autoDrawEnabled === true
-            } else {
-              // Real players draw if they have auto-draw enabled
-              shouldDraw = newActivePlayer.autoDrawEnabled === true
-            }
-
-            if (shouldDraw) {
-              // Draw 1 card from deck to hand
-              const drawnCard = newActivePlayer.deck[0]
-              newActivePlayer.deck.splice(0, 1)
-              newActivePlayer.hand.push(drawnCard)
-            }
-          }
-        }
-
-        // Reset phase-specific ready statuses for the new active player (readySetup, readyCommit)
-        // Only for abilities that the card actually has
-        if (nextPlayerId !== undefined) {
-          newState.board.forEach(row => {
-            row.forEach(cell => {
-              const card = cell.card
-              if (card && card.ownerId === nextPlayerId) {
-                resetPhaseReadyStatuses(card, nextPlayerId)
-              }
-            })
-          })
-        }
-
-        if (newState.startingPlayerId !== undefined && nextPlayerId === newState.startingPlayerId) {
-          const currentThreshold = (newState.currentRound * 10) + 10
-          const isFinalRoundLimit = newState.currentRound === 5 && newState.turnNumber >= 10
-          let maxScore = -Infinity
-          newState.players.forEach(p => {
-            if (p.score > maxScore) {
-              maxScore = p.score
-            }
-          })
-          const thresholdMet = maxScore >= currentThreshold
-
-          if (thresholdMet || isFinalRoundLimit) {
-            const winners = newState.players.filter(p => p.score === maxScore).map(p => p.id)
-            newState.roundWinners[newState.currentRound] = winners
-            const allWins = Object.values(newState.roundWinners).flat()
-            const winCounts = allWins.reduce((acc, id) => {
-              acc[id] = (acc[id] || 0) + 1; return acc
-            }, {} as Record<number, number>)
-            const gameWinners = Object.keys(winCounts).filter(id => winCounts[Number(id)] >= 2).map(id => Number(id))
-            if (gameWinners.length > 0) {
-              newState.gameWinner = gameWinners[0]
-            }
-            newState.isRoundEndModalOpen = true
-          } else {
-            newState.turnNumber += 1
-          }
-        }
-
-        newState.board.forEach(row => {
-          row.forEach(cell => {
-            if (cell.card) {
-              delete cell.card.enteredThisTurn
-            }
-          })
-        })
-
-        newState.board.forEach(row => {
-          row.forEach(cell => {
-            if (cell.card?.statuses) {
-              const resurrectedIdx = cell.card.statuses.findIndex(s => s.type === 'Resurrected')
-              if (resurrectedIdx !== -1) {
-                const addedBy = cell.card.statuses[resurrectedIdx].addedByPlayerId
-                cell.card.statuses.splice(resurrectedIdx, 1)
-                if (cell.card.baseId !== 'luciusTheImmortal') {
-                  cell.card.statuses.push({ type: 'Stun', addedByPlayerId: addedBy })
-                  cell.card.statuses.push({ type: 'Stun', addedByPlayerId: addedBy })
-                }
-              }
-            }
-          })
-        })
-
-        // Recalculate again as Resurrected removal/Stun addition changes auras
-        newState.board = recalculateBoardStatuses(newState)
-
-        return newState
-      }
-
-      const nextPhaseIndex = currentState.currentPhase + 1
-      // Only consume deploy abilities if preserveDeployAbilities is false (new ready status system)
-      if (!currentState.preserveDeployAbilities) {
-        newState.board.forEach(row => {
-          row.forEach(cell => {
-            if (cell.card?.statuses) {
-              // Remove readyDeploy status from all cards
-              cell.card.statuses = cell.card.statuses.filter(s => s.type !== 'readyDeploy')
-            }
-          })
-        })
-      }
-
-      if (nextPhaseIndex >= TURN_PHASES.length) {
-        newState.isScoringStep = true
-        return newState
-      } else {
-        newState.board.forEach(row => {
-          row.forEach(cell => {
-            if (cell.card?.statuses) {
-              const resurrectedIdx = cell.card.statuses.findIndex(s => s.type === 'Resurrected')
-              if (resurrectedIdx !== -1) {
-                const addedBy = cell.card.statuses[resurrectedIdx].addedByPlayerId
-                cell.card.statuses.splice(resurrectedIdx, 1)
-                if (cell.card.baseId !== 'luciusTheImmortal') {
-                  cell.card.statuses.push({ type: 'Stun', addedByPlayerId: addedBy })
-                  cell.card.statuses.push({ type: 'Stun', addedByPlayerId: addedBy })
-                }
-              }
-            }
-          })
-        })
-        // Recalculate for phase transitions where Resurrected might expire
-        newState.board = recalculateBoardStatuses(newState)
-
-        newState.currentPhase = nextPhaseIndex
-        return newState
-      }
-    })
-  }, [updateState])
+    if (gameStateRef.current.gameId) {
+      sendMessage({ type: 'NEXT_PHASE', gameId: gameStateRef.current.gameId })
+    }
+  }, [sendMessage])
 
   const prevPhase = useCallback(() => {
-    updateState(currentState => {
-      if (!currentState.isGameStarted) {
-        return currentState
-      }
-      if (currentState.isScoringStep) {
-        return { ...currentState, isScoringStep: false }
-      }
-      return {
-        ...currentState,
-        currentPhase: Math.max(0, currentState.currentPhase - 1),
-      }
-    })
-  }, [updateState])
+    if (gameStateRef.current.gameId) {
+      sendMessage({ type: 'PREV_PHASE', gameId: gameStateRef.current.gameId })
+    }
+  }, [sendMessage])
 
   const confirmRoundEnd = useCallback(() => {
-    updateState(currentState => {
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-      newState.isRoundEndModalOpen = false
-      newState.players.forEach(p => p.score = 0)
-      newState.currentRound += 1
-      newState.roundEndTriggered = false
-      newState.turnNumber = 1
-      newState.gameWinner = null
-      return newState
-    })
-  }, [updateState])
+    dispatchAction({ type: 'CONFIRM_ROUND_END' })
+  }, [dispatchAction])
 
   /**
    * moveItem - Move a dragged item to a target location
    *
-   * Ready-Status Lifecycle:
-   * - Reads auto_abilities_enabled from localStorage to drive auto-transition to Main phase
-   * - Preserves card state for board-to-board moves via actualCardState (deep copy)
-   * - Blocks moving stunned allied/teammate cards unless item.isManual is true
-   * - Initializes ready statuses (readyDeploy/readySetup/readyCommit) on cards entering the board
-   * - Cleans up ready statuses with removeAllReadyStatuses when cards leave the board
-   *
-   * These behaviors ensure proper auto-ability tracking while respecting game rules.
+   * Sent to the server as a MOVE_CARD intent; the shared reducer in
+   * server/utils/gameActions handles stun blocking, ready statuses, LastPlayed
+   * tracking and the auto-transition to Main phase.
+   * Reads auto_abilities_enabled from localStorage to decide on that transition.
    */
   const moveItem = useCallback((item: DragItem, target: DropTarget) => {
-    updateState(currentState => {
-      if (!currentState.isGameStarted) {
-        return currentState
-      }
-
-      if (target.target === 'board' && target.boardCoords) {
-        const targetCell = currentState.board[target.boardCoords.row][target.boardCoords.col]
-        if (targetCell.card !== null && item.source !== 'counter_panel') {
-          return currentState
-        }
-      }
-
-      // Auto-phase transition: Setup -> Main when playing a unit or command card from hand
-      // Only if auto-abilities is enabled (check localStorage for client-side setting)
-      let autoAbilitiesEnabled = false
-      try {
-        const saved = localStorage.getItem('auto_abilities_enabled')
-        autoAbilitiesEnabled = saved === null ? true : saved === 'true'
-      } catch {
-        autoAbilitiesEnabled = true
-      }
-
-      const shouldAutoTransitionToMain = autoAbilitiesEnabled &&
-        currentState.currentPhase === 0 && // Setup phase
-        item.source === 'hand' &&
-        target.target === 'board' &&
-        (item.card.types?.includes('Unit') || item.card.types?.includes('Command'))
-
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-
-      if (item.source === 'board' && ['hand', 'deck', 'discard'].includes(target.target) && !item.bypassOwnershipCheck) {
-        const cardOwnerId = item.card.ownerId
-        const cardOwner = newState.players.find(p => p.id === cardOwnerId)
-        const isOwner = cardOwnerId === localPlayerIdRef.current
-        const isDummyCard = !!cardOwner?.isDummy
-
-        if (!isOwner && !isDummyCard) {
-          return currentState
-        }
-      }
-
-      if (newState.startingPlayerId === undefined && target.target === 'board' && item.source !== 'board') {
-        const dropperId = item.playerId || localPlayerIdRef.current
-        if (dropperId !== null) {
-          newState.startingPlayerId = dropperId
-        }
-      }
-
-      // Store the actual current card state for board-to-board moves
-      // This ensures we preserve all statuses (including ready statuses) when moving
-      let actualCardState: Card | null = null
-      if (item.source === 'board' && target.target === 'board' && item.boardCoords) {
-        // Get the actual card state from newState (after cloning)
-        // This must be done AFTER newState is created
-        const cell = newState.board[item.boardCoords.row][item.boardCoords.col]
-        if (cell.card) {
-          actualCardState = cell.card
-        }
-
-        // Also check stun status from currentState for the early return
-        const currentCell = currentState.board[item.boardCoords.row][item.boardCoords.col]
-        const currentCardState = currentCell.card || actualCardState
-        if (currentCardState) {
-          const isStunned = currentCardState.statuses?.some(s => s.type === 'Stun')
-
-          if (isStunned) {
-            const moverId = localPlayerIdRef.current
-            const ownerId = currentCardState.ownerId
-            const moverPlayer = currentState.players.find(p => p.id === moverId)
-            const ownerPlayer = currentState.players.find(p => p.id === ownerId)
-            const isOwner = moverId === ownerId
-            const isTeammate = moverPlayer?.teamId !== undefined && ownerPlayer?.teamId !== undefined && moverPlayer.teamId === ownerPlayer.teamId
-
-            if ((isOwner || isTeammate) && !item.isManual) {
-              return currentState
-            }
-          }
-        }
-      }
-
-      if (item.source === 'counter_panel' && item.statusType) {
-        const counterDef = countersDatabase[item.statusType]
-        const allowedTargets = counterDef?.allowedTargets || ['board', 'hand']
-        if (!allowedTargets.includes(target.target)) {
-          return currentState
-        }
-        let targetCard: Card | null = null
-        if (target.target === 'board' && target.boardCoords) {
-          targetCard = newState.board[target.boardCoords.row][target.boardCoords.col].card
-        } else if (target.playerId !== undefined) {
-          const targetPlayer = newState.players.find(p => p.id === target.playerId)
-          if (targetPlayer) {
-            if (target.target === 'hand' && target.cardIndex !== undefined) {
-              targetCard = targetPlayer.hand[target.cardIndex]
-            }
-            if (target.target === 'announced') {
-              targetCard = targetPlayer.announcedCard || null
-            }
-            if (target.target === 'deck' && targetPlayer.deck.length > 0) {
-              if (target.deckPosition === 'top' || !target.deckPosition) {
-                targetCard = targetPlayer.deck[0]
-              } else {
-                targetCard = targetPlayer.deck[targetPlayer.deck.length - 1]
-              }
-            } else if (target.target === 'discard' && targetPlayer.discard.length > 0) {
-              targetCard = targetPlayer.discard[targetPlayer.discard.length - 1]
-            }
-          }
-        }
-        if (targetCard) {
-          // Lucius Immunity Logic
-          if (item.statusType === 'Stun') {
-            if (targetCard.baseId === 'luciusTheImmortal') {
-              return newState
-            }
-            if (targetCard.name.includes('Lucius') && targetCard.types?.includes('Hero')) {
-              return newState
-            }
-          }
-
-          const count = item.count || 1
-          const activePlayer = newState.players.find(p => p.id === newState.activePlayerId)
-          const effectiveActorId = (activePlayer?.isDummy) ? activePlayer.id : (localPlayerIdRef.current !== null ? localPlayerIdRef.current : 0)
-          if (item.statusType === 'Power+') {
-            if (targetCard.powerModifier === undefined) {
-              targetCard.powerModifier = 0
-            }
-            targetCard.powerModifier += (1 * count)
-          } else if (item.statusType === 'Power-') {
-            if (targetCard.powerModifier === undefined) {
-              targetCard.powerModifier = 0
-            }
-            targetCard.powerModifier -= (1 * count)
-          } else {
-            if (!targetCard.statuses) {
-              targetCard.statuses = []
-            }
-            for (let i = 0; i < count; i++) {
-              if (['Support', 'Threat', 'Revealed'].includes(item.statusType)) {
-                const exists = targetCard.statuses.some(s => s.type === item.statusType && s.addedByPlayerId === effectiveActorId)
-                if (!exists) {
-                  targetCard.statuses.push({ type: item.statusType, addedByPlayerId: effectiveActorId })
-                }
-              } else {
-                targetCard.statuses.push({ type: item.statusType, addedByPlayerId: effectiveActorId })
-              }
-            }
-          }
-          if (target.target === 'board') {
-            newState.board = recalculateBoardStatuses(newState)
-          }
-          return newState
-        }
-        return currentState
-      }
-
-      const cardToMove: Card = actualCardState ? { ...actualCardState } : { ...item.card }
-
-      if (item.source === 'hand' && item.playerId !== undefined && item.cardIndex !== undefined) {
-        const player = newState.players.find(p => p.id === item.playerId)
-        if (player) {
-          player.hand.splice(item.cardIndex, 1)
-        }
-      } else if (item.source === 'board' && item.boardCoords) {
-        newState.board[item.boardCoords.row][item.boardCoords.col].card = null
-      } else if (item.source === 'discard' && item.playerId !== undefined && item.cardIndex !== undefined) {
-        const player = newState.players.find(p => p.id === item.playerId)
-        if (player) {
-          player.discard.splice(item.cardIndex, 1)
-        }
-      } else if (item.source === 'deck' && item.playerId !== undefined && item.cardIndex !== undefined) {
-        const player = newState.players.find(p => p.id === item.playerId)
-        if (player) {
-          player.deck.splice(item.cardIndex, 1)
-        }
-      } else if (item.source === 'announced' && item.playerId !== undefined) {
-        const player = newState.players.find(p => p.id === item.playerId)
-        if (player) {
-          player.announcedCard = null
-        }
-      }
-
-      const isReturningToStorage = ['hand', 'deck', 'discard'].includes(target.target)
-
-      if (isReturningToStorage) {
-        if (cardToMove.statuses) {
-          // Keep Revealed status, remove all others (including ready statuses)
-          cardToMove.statuses = cardToMove.statuses.filter(status => status.type === 'Revealed')
-        }
-        cardToMove.isFaceDown = false
-        delete cardToMove.powerModifier
-        delete cardToMove.bonusPower // Clear passive buffs
-        delete cardToMove.enteredThisTurn
-      } else if (target.target === 'board') {
-        if (!cardToMove.statuses) {
-          cardToMove.statuses = []
-        }
-        if (item.source !== 'board' && cardToMove.isFaceDown === undefined) {
-          cardToMove.isFaceDown = false
-        }
-        if (item.source !== 'board') {
-          cardToMove.enteredThisTurn = true
-          // Note: Ready statuses are initialized below, no need to delete legacy flags
-
-          // Initialize ready statuses for the new card (only for abilities it actually has)
-          // Ready statuses belong to the card owner (even if it's a dummy player)
-          // Token ownership rules:
-          // - Tokens from token_panel: owned by active player (even if it's a dummy)
-          // - Tokens from abilities (spawnToken): already have ownerId set correctly
-          // - Other cards: owned by local player who played them
-          let ownerId = cardToMove.ownerId
-          if (ownerId === undefined) {
-            if (item.source === 'token_panel') {
-              // Token from token panel gets active player as owner
-              ownerId = newState.activePlayerId ?? localPlayerIdRef.current ?? 0
-            } else {
-              // Other cards get local player as owner
-              ownerId = localPlayerIdRef.current ?? 0
-            }
-            cardToMove.ownerId = ownerId
-          }
-          initializeReadyStatuses(cardToMove, ownerId)
-
-          // Lucius, The Immortal: Bonus if entered from discard
-          if (item.source === 'discard' && (cardToMove.baseId === 'luciusTheImmortal' || cardToMove.name.includes('Lucius'))) {
-            if (cardToMove.powerModifier === undefined) {
-              cardToMove.powerModifier = 0
-            }
-            cardToMove.powerModifier += 2
-          }
-        }
-      }
-
-      if (target.target === 'hand' && target.playerId !== undefined) {
-        if (cardToMove.deck === DeckType.Tokens || cardToMove.deck === 'counter') {
-          return newState
-        }
-        // Remove ready statuses when card leaves the battlefield
-        removeAllReadyStatuses(cardToMove)
-        const player = newState.players.find(p => p.id === target.playerId)
-        if (player) {
-          player.hand.push(cardToMove)
-          // Automatic Shuffle if moving from Deck to Hand
-          if (item.source === 'deck') {
-            player.deck = shuffleDeck(player.deck)
-          }
-        }
-      } else if (target.target === 'board' && target.boardCoords) {
-        if (newState.board[target.boardCoords.row][target.boardCoords.col].card === null) {
-          if (cardToMove.ownerId === undefined && localPlayerIdRef.current !== null) {
-            const currentPlayer = newState.players.find(p => p.id === localPlayerIdRef.current)
-            if (currentPlayer) {
-              cardToMove.ownerId = currentPlayer.id
-              cardToMove.ownerName = currentPlayer.name
-            }
-          }
-
-          // --- HISTORY TRACKING: Entering Board ---
-          // Manually played cards get tracked in history for fallback 'LastPlayed' status
-          if (item.source !== 'board' && item.isManual && cardToMove.ownerId !== undefined) {
-            const player = newState.players.find(p => p.id === cardToMove.ownerId)
-            if (player) {
-              // FIX: Added initialization check for boardHistory to prevent crash if undefined.
-              if (!player.boardHistory) {
-                player.boardHistory = []
-              }
-              player.boardHistory.push(cardToMove.id)
-            }
-          }
-
-          newState.board[target.boardCoords.row][target.boardCoords.col].card = cardToMove
-        }
-      } else if (target.target === 'discard' && target.playerId !== undefined) {
-        if (cardToMove.deck === DeckType.Tokens || cardToMove.deck === 'counter') {} else {
-          // Remove ready statuses when card leaves the battlefield
-          removeAllReadyStatuses(cardToMove)
-          const player = newState.players.find(p => p.id === target.playerId)
-          if (player) {
-            if (cardToMove.ownerId === undefined) {
-              cardToMove.ownerId = target.playerId
-              cardToMove.ownerName = player.name
-            }
-            player.discard.push(cardToMove)
-          }
-        }
-      } else if (target.target === 'deck' && target.playerId !== undefined) {
-        if (cardToMove.deck === DeckType.Tokens || cardToMove.deck === 'counter') {
-          return newState
-        }
-        // Remove ready statuses when card leaves the battlefield
-        removeAllReadyStatuses(cardToMove)
-        const player = newState.players.find(p => p.id === target.playerId)
-        if (player) {
-          if (cardToMove.ownerId === undefined) {
-            cardToMove.ownerId = target.playerId
-            cardToMove.ownerName = player.name
-          }
-          if (target.deckPosition === 'top' || !target.deckPosition) {
-            player.deck.unshift(cardToMove)
-          } else {
-            player.deck.push(cardToMove)
-          }
-        }
-      } else if (target.target === 'announced' && target.playerId !== undefined) {
-        const player = newState.players.find(p => p.id === target.playerId)
-        if (player) {
-          if (player.announcedCard) {
-            if (player.announcedCard.statuses) {
-              player.announcedCard.statuses = player.announcedCard.statuses.filter(s => s.type === 'Revealed')
-            }
-            delete player.announcedCard.enteredThisTurn
-            delete player.announcedCard.powerModifier
-            delete player.announcedCard.bonusPower
-            player.hand.push(player.announcedCard)
-          }
-          player.announcedCard = cardToMove
-        }
-      }
-
-      // --- HISTORY TRACKING: Leaving Board ---
-      if (item.source === 'board' && target.target !== 'board' && cardToMove.ownerId !== undefined) {
-        const player = newState.players.find(p => p.id === cardToMove.ownerId)
-        if (player) {
-          // FIX: Added initialization check for boardHistory to prevent crash if undefined.
-          if (!player.boardHistory) {
-            player.boardHistory = []
-          }
-          player.boardHistory = player.boardHistory.filter(id => id !== cardToMove.id)
-        }
-      }
-
-      // --- Post-Move: Sync LastPlayed Status ---
-      if ((item.source === 'board' || target.target === 'board') && cardToMove.ownerId !== undefined) {
-        const player = newState.players.find(p => p.id === cardToMove.ownerId)
-        if (player) {
-          syncLastPlayed(newState.board, player)
-        }
-      }
-
-      if (item.source === 'hand' && target.target === 'board') {
-        const movingCard = cardToMove
-        const isRevealed = movingCard.revealedTo === 'all' || movingCard.statuses?.some(s => s.type === 'Revealed')
-        if (isRevealed) {
-          const gridSize = newState.board.length
-          for (let r = 0; r < gridSize; r++) {
-            for (let c = 0; c < gridSize; c++) {
-              const spotter = newState.board[r][c].card
-              if (spotter && spotter.name.toLowerCase().includes('vigilant spotter')) {
-                if (spotter.ownerId !== movingCard.ownerId) {
-                  newState.board = recalculateBoardStatuses(newState)
-                  const updatedSpotter = newState.board[r][c].card!
-                  if (updatedSpotter.statuses?.some(s => s.type === 'Support')) {
-                    const spotterOwner = newState.players.find(p => p.id === spotter.ownerId)
-                    if (spotterOwner) {
-                      spotterOwner.score += 2
-                    }
-                  }
-                }
-              }
-            }
-          }
-        }
-      }
-
-      if (item.source === 'board' || target.target === 'board') {
-        newState.board = recalculateBoardStatuses(newState)
-      }
-
-      // Apply auto-phase transition: Setup -> Main when playing a unit or command card from hand
-      if (shouldAutoTransitionToMain) {
-        newState.currentPhase = 1 // Main phase
-      }
+    let autoPhase = true
+    try {
+      const saved = localStorage.getItem('auto_abilities_enabled')
+      autoPhase = saved === null ? true : saved === 'true'
+    } catch {
+      autoPhase = true
+    }
+    dispatchAction({ type: 'MOVE_CARD', item, target, autoPhase })
+  }, [dispatchAction])
 
-      return newState
-    })
-  }, [updateState])
+  const resurrectDiscardedCard = useCallback((playerId: number, cardIndex: number, boardCoords: {row: number, col: number}) => {
+    const card = gameStateRef.current.players.find(p => p.id === playerId)?.discard[cardIndex]
+    if (!card) {
+      return
+    }
+    dispatchAction({ type: 'RESURRECT_CARD', playerId, cardIndex, cardId: card.id, boardCoords })
+  }, [dispatchAction])
 
-  const resurrectDiscardedCard = useCallback((playerId: number, cardIndex: number, boardCoords: {row: number, col: number}, statuses?: {type: string}[]) => {
+  const reorderTopDeck = useCallback((playerId: number, newTopOrder: Card[]) => {
     updateState(currentState => {
-      if (!currentState.isGameStarted) {
-        return currentState
-      }
-      if (currentState.board[boardCoords.row][boardCoords.col].card !== null) {
+      if (newTopOrder.length === 0) {
         return currentState
       }
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-      const player = newState.players.find(p => p.id === playerId)
-      if (player && player.discard.length > cardIndex) {
-        const [card] = player.discard.splice(cardIndex, 1)
-        card.enteredThisTurn = true
-
-        // Initialize ready statuses for the resurrected card
-        // This allows abilities to be used when card returns from discard
-        initializeReadyStatuses(card, playerId)
-
-        // Lucius Bonus if resurrected
-        if (card.baseId === 'luciusTheImmortal' || card.name.includes('Lucius')) {
-          if (card.powerModifier === undefined) {
-            card.powerModifier = 0
-          }
-          card.powerModifier += 2
-        }
-
-        if (!card.statuses) {
-          card.statuses = []
-        }
-        card.statuses.push({ type: 'Resurrected', addedByPlayerId: playerId })
-        if (statuses) {
-          statuses.forEach(s => {
-            if (s.type !== 'Resurrected') {
-              card.statuses?.push({ type: s.type, addedByPlayerId: playerId })
-            }
-          })
-        }
-
-        // Add to history
-        // FIX: Ensure boardHistory exists before pushing
-        if (!player.boardHistory) {
-          player.boardHistory = []
-        }
-        player.boardHistory.push(card.id)
-
-        newState.board[boardCoords.row][boardCoords.col].card = card
-
-        syncLastPlayed(newState.board, player)
-
-        newState.board = recalculateBoardStatuses(newState)
-      }
-      return newState
-    })
-  }, [updateState])
-
-  const reorderTopDeck = useCallback((playerId: number, newTopOrder: Card[]) => {
-    updateState(currentState => {
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-      const player = newState.players.find(p => p.id === playerId)
-
-      if (player && newTopOrder.length > 0) {
-        // 1. Identify which cards are being reordered (by ID)
-        const topIds = new Set(newTopOrder.map(c => c.id))
+      // Identify which cards are being reordered (by ID)
+      const topIds = new Set(newTopOrder.map(c => c.id))
 
-        // 2. Separate deck into [Cards to be moved] and [Rest of deck]
-        // Filter out the cards that are in the new top order from the current deck
-        const remainingDeck = player.deck.filter(c => !topIds.has(c.id))
-
-        // 3. Prepend the new top order
-        // This effectively moves the selected cards to the top in the specified order
-        // and keeps the rest of the deck in its original relative order.
-        player.deck = [...newTopOrder, ...remainingDeck]
+      return {
+        ...currentState,
+        players: updatePlayer(currentState, playerId, player => ({
+          ...player,
+          // Moves the selected cards to the top in the specified order
+          // and keeps the rest of the deck in its original relative order.
+          deck: [...newTopOrder, ...player.deck.filter(c => !topIds.has(c.id))],
+        })),
       }
-
-      return newState
     })
   }, [updateState])
 
@@ -1778,18 +993,10 @@ export const useGameState = () => {
    */
   const reorderCards = useCallback((playerId: number, newCards: Card[], source: 'deck' | 'discard') => {
     updateState(currentState => {
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-      const player = newState.players.find(p => p.id === playerId)
-
-      if (player) {
-        if (source === 'deck') {
-          player.deck = newCards
-        } else if (source === 'discard') {
-          player.discard = newCards
-        }
+      return {
+        ...currentState,
+        players: updatePlayer(currentState, playerId, player => ({ ...player, [source]: newCards })),
       }
-
-      return newState
     })
   }, [updateState])
 
@@ -1800,10 +1007,10 @@ export const useGameState = () => {
     setLatestHighlight(fullHighlightData)
 
     // Also broadcast to other players via WebSocket
-    if (ws.current?.readyState === WebSocket.OPEN && gameStateRef.current.gameId) {
-      ws.current.send(JSON.stringify({ type: 'TRIGGER_HIGHLIGHT', gameId: gameStateRef.current.gameId, highlightData: fullHighlightData }))
+    if (gameStateRef.current.gameId) {
+      sendMessage({ type: 'TRIGGER_HIGHLIGHT', gameId: gameStateRef.current.gameId, highlightData: fullHighlightData })
     }
-  }, [])
+  }, [sendMessage])
 
   const triggerFloatingText = useCallback((data: Omit<FloatingTextData, 'timestamp'> | Omit<FloatingTextData, 'timestamp'>[]) => {
     const items = Array.isArray(data) ? data : [data]
@@ -1814,14 +1021,14 @@ export const useGameState = () => {
     setLatestFloatingTexts(batch)
 
     // Also broadcast to other players via WebSocket
-    if (ws.current?.readyState === WebSocket.OPEN && gameStateRef.current.gameId) {
-      ws.current.send(JSON.stringify({
+    if (gameStateRef.current.gameId) {
+      sendMessage({
         type: 'TRIGGER_FLOATING_TEXT_BATCH',
         gameId: gameStateRef.current.gameId,
         batch,
-      }))
+      })
     }
-  }, [])
+  }, [sendMessage])
 
   const triggerNoTarget = useCallback((coords: { row: number, col: number }) => {
     const timestamp = Date.now()
@@ -1829,120 +1036,54 @@ export const useGameState = () => {
     setLatestNoTarget({ coords, timestamp })
 
     // Also broadcast to other players via WebSocket
-    if (ws.current?.readyState === WebSocket.OPEN && gameStateRef.current.gameId) {
-      ws.current.send(JSON.stringify({
+    if (gameStateRef.current.gameId) {
+      sendMessage({
         type: 'TRIGGER_NO_TARGET',
         gameId: gameStateRef.current.gameId,
         coords,
         timestamp,
-      }))
+      })
     }
-  }, [])
+  }, [sendMessage])
+
+  const sendChatMessage = useCallback((text: string, channel: ChatChannel = 'all') => {
+    const trimmed = text.trim()
+    if (trimmed && gameStateRef.current.gameId) {
+      sendMessage({ type: 'CHAT_MESSAGE', gameId: gameStateRef.current.gameId, text: trimmed, channel })
+    }
+  }, [sendMessage])
+
+  const requestGameLog = useCallback(() => {
+    if (gameStateRef.current.gameId) {
+      sendMessage({ type: 'GET_GAME_LOGS', gameId: gameStateRef.current.gameId })
+    }
+  }, [sendMessage])
 
   const markAbilityUsed = useCallback((boardCoords: { row: number, col: number }, _isDeployAbility?: boolean, _setDeployAttempted?: boolean, readyStatusToRemove?: string) => {
-    updateState(currentState => {
-      if (!currentState.isGameStarted) {
-        return currentState
-      }
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-      const card = newState.board[boardCoords.row][boardCoords.col].card
-      if (card) {
-        // Remove the ready status if specified (new ready status system)
-        if (readyStatusToRemove && card.statuses) {
-          card.statuses = card.statuses.filter(s => s.type !== readyStatusToRemove)
-        }
-      }
-      return newState
-    })
-  }, [updateState])
+    if (readyStatusToRemove) {
+      dispatchAction({ type: 'REMOVE_STATUS', statusType: readyStatusToRemove, target: { target: 'board', boardCoords }, all: true })
+    }
+  }, [dispatchAction])
 
   const resetDeployStatus = useCallback((boardCoords: { row: number, col: number }) => {
-    updateState(currentState => {
-      if (!currentState.isGameStarted) {
-        return currentState
-      }
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-      const card = newState.board[boardCoords.row][boardCoords.col].card
-      if (card) {
-        // New system: Add readyDeploy status back (for Command cards that restore deploy ability)
-        if (!card.statuses) {
-          card.statuses = []
-        }
-        const abilityText = card.ability || ''
-        // Only add if the card actually has a deploy: ability (case-insensitive)
-        if (abilityText.toLowerCase().includes('deploy:')) {
-          if (!card.statuses.some(s => s.type === 'readyDeploy')) {
-            // Require valid ownerId (player IDs start at 1, so 0 is invalid)
-            const ownerId = card.ownerId
-            if (ownerId === undefined || ownerId === null || ownerId === 0) {
-              console.warn('[resetDeployStatus] Card missing or invalid ownerId:', card.id)
-              return currentState
-            }
-            card.statuses.push({ type: 'readyDeploy', addedByPlayerId: ownerId })
-          }
-        }
-      }
-      return newState
-    })
-  }, [updateState])
+    dispatchAction({ type: 'RESTORE_DEPLOY', boardCoords })
+  }, [dispatchAction])
 
   const removeStatusByType = useCallback((boardCoords: { row: number, col: number }, type: string) => {
-    updateState(currentState => {
-      if (!currentState.isGameStarted) {
-        return currentState
-      }
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-      const card = newState.board[boardCoords.row][boardCoords.col].card
-      if (card?.statuses) {
-        card.statuses = card.statuses.filter(s => s.type !== type)
-      }
-      newState.board = recalculateBoardStatuses(newState)
-      return newState
-    })
-  }, [updateState])
+    dispatchAction({ type: 'REMOVE_STATUS', statusType: type, target: { target: 'board', boardCoords }, all: true })
+  }, [dispatchAction])
 
   const applyGlobalEffect = useCallback((
     _sourceCoords: { row: number, col: number },
     targetCoords: { row: number, col: number }[],
     tokenType: string,
-    addedByPlayerId: number,
     _isDeployAbility: boolean,
   ) => {
-    updateState(currentState => {
-      if (!currentState.isGameStarted) {
-        return currentState
-      }
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-      targetCoords.forEach(({ row, col }) => {
-        const card = newState.board[row][col].card
-        if (card) {
-          // Lucius Immunity
-          if (tokenType === 'Stun') {
-            if (card.baseId === 'luciusTheImmortal') {
-              return
-            }
-            if (card.name.includes('Lucius') && card.types?.includes('Hero')) {
-              return
-            }
-          }
-
-          if (!card.statuses) {
-            card.statuses = []
-          }
-          if (['Support', 'Threat', 'Revealed'].includes(tokenType)) {
-            const exists = card.statuses.some(s => s.type === tokenType && s.addedByPlayerId === addedByPlayerId)
-            if (!exists) {
-              card.statuses.push({ type: tokenType, addedByPlayerId })
-            }
-          } else {
-            card.statuses.push({ type: tokenType, addedByPlayerId })
-          }
-        }
-      })
-      // Note: Ready status is removed by markAbilityUsed before calling applyGlobalEffect
-      return newState
+    // Note: Ready status is removed by markAbilityUsed before calling applyGlobalEffect
+    targetCoords.forEach(boardCoords => {
+      dispatchAction({ type: 'PLAY_COUNTER', statusType: tokenType, target: { target: 'board', boardCoords } })
     })
-  }, [updateState])
+  }, [dispatchAction])
 
   // ... (swapCards, transferStatus, transferAllCounters, recoverDiscardedCard, spawnToken, scoreLine, scoreDiagonal kept as is) ...
   const swapCards = useCallback((coords1: {row: number, col: number}, coords2: {row: number, col: number}) => {
@@ -1950,265 +1091,57 @@ export const useGameState = () => {
       if (!currentState.isGameStarted) {
         return currentState
       }
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-      const card1 = newState.board[coords1.row][coords1.col].card
-      const card2 = newState.board[coords2.row][coords2.col].card
-      newState.board[coords1.row][coords1.col].card = card2
-      newState.board[coords2.row][coords2.col].card = card1
+      const card1 = currentState.board[coords1.row][coords1.col].card
+      const card2 = currentState.board[coords2.row][coords2.col].card
+      const board = replaceBoardCard(replaceBoardCard(currentState.board, coords1, card2), coords2, card1)
+      const newState = { ...currentState, board }
       newState.board = recalculateBoardStatuses(newState)
       return newState
     })
   }, [updateState])
 
   const transferStatus = useCallback((fromCoords: {row: number, col: number}, toCoords: {row: number, col: number}, statusType: string) => {
-    updateState(currentState => {
-      if (!currentState.isGameStarted) {
-        return currentState
-      }
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-      const fromCard = newState.board[fromCoords.row][fromCoords.col].card
-      const toCard = newState.board[toCoords.row][toCoords.col].card
-      if (fromCard && toCard && fromCard.statuses) {
-        const statusIndex = fromCard.statuses.findIndex(s => s.type === statusType)
-        if (statusIndex > -1) {
-          const [status] = fromCard.statuses.splice(statusIndex, 1)
-          if (!toCard.statuses) {
-            toCard.statuses = []
-          }
-          toCard.statuses.push(status)
-        }
-      }
-      newState.board = recalculateBoardStatuses(newState)
-      return newState
-    })
-  }, [updateState])
+    dispatchAction({ type: 'TRANSFER_STATUSES', from: fromCoords, to: toCoords, statusType })
+  }, [dispatchAction])
 
   const transferAllCounters = useCallback((fromCoords: {row: number, col: number}, toCoords: {row: number, col: number}) => {
-    updateState(currentState => {
-      if (!currentState.isGameStarted) {
-        return currentState
-      }
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-      const fromCard = newState.board[fromCoords.row][fromCoords.col].card
-      const toCard = newState.board[toCoords.row][toCoords.col].card
-      const excludedTypes = ['Support', 'Threat']
-      if (fromCard && toCard && fromCard.statuses) {
-        const statusesToMove = fromCard.statuses.filter(s => !excludedTypes.includes(s.type))
-        const statusesToKeep = fromCard.statuses.filter(s => excludedTypes.includes(s.type))
-        if (statusesToMove.length > 0) {
-          if (!toCard.statuses) {
-            toCard.statuses = []
-          }
-          toCard.statuses.push(...statusesToMove)
-          fromCard.statuses = statusesToKeep
-        }
-      }
-      newState.board = recalculateBoardStatuses(newState)
-      return newState
-    })
-  }, [updateState])
+    dispatchAction({ type: 'TRANSFER_STATUSES', from: fromCoords, to: toCoords })
+  }, [dispatchAction])
 
   const recoverDiscardedCard = useCallback((playerId: number, cardIndex: number) => {
-    updateState(currentState => {
-      if (!currentState.isGameStarted) {
-        return currentState
-      }
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-      const player = newState.players.find(p => p.id === playerId)
-      if (player && player.discard.length > cardIndex) {
-        const [card] = player.discard.splice(cardIndex, 1)
-        player.hand.push(card)
-      }
-      return newState
-    })
-  }, [updateState])
-
-  const spawnToken = useCallback((coords: {row: number, col: number}, tokenName: string, ownerId: number) => {
-    updateState(currentState => {
-      if (!currentState.isGameStarted) {
-        return currentState
-      }
-      const newState: GameState = JSON.parse(JSON.stringify(currentState))
-      if (!rawJsonData) {
-        return currentState
-      }
-      const tokenDatabase = rawJsonData.tokenDatabase
-      const tokenDefKey = Object.keys(tokenDatabase).find(key => tokenDatabase[key as keyof typeof tokenDatabase].name === tokenName)
-      if (!tokenDefKey) {
-        return currentState
-      }
-      const tokenDef = tokenDatabase[tokenDefKey as keyof typeof tokenDatabase]
-      const owner = newState.players.find(p => p.id === ownerId)
-      if (tokenDef && newState.board[coords.row][coords.col].card === null) {
-        const tokenCard: Card = {
-          id: `TKN_${tokenName.toUpperCase().replace(/\s/g, '_')}_${Date.now()}`,
-          deck: DeckType.Tokens,
-          name: tokenName,
-          baseId: tokenDef.baseId || tokenDefKey,
-          imageUrl: tokenDef.imageUrl,
-          fallbackImage: tokenDef.fallbackImage,
-          power: tokenDef.power,
-          ability: tokenDef.ability,
-          flavorText: tokenDef.flavorText,
-          color: tokenDef.color,
-          types: tokenDef.types || ['Unit'],
-          faction: 'Tokens',
-          ownerId: ownerId,
-          ownerName: owner?.name,
-          enteredThisTurn: true,
-          statuses: [],
-        }
-        // Initialize ready statuses based on token's actual abilities
-        // Ready statuses belong to the token owner (even if it's a dummy player)
-        // Control is handled by canActivateAbility checking dummy ownership
-        initializeReadyStatuses(tokenCard, ownerId)
-        newState.board[coords.row][coords.col].card = tokenCard
-      }
-      newState.board = recalculateBoardStatuses(newState)
-      return newState
-    })
-  }, [updateState])
-
-  const scoreLine = useCallback((row1: number, col1: number, row2: number, col2: number, playerId: number) => {
-    const currentState = gameStateRef.current
-    if (!currentState.isGameStarted) {
-      return
-    }
-
-    const hasActiveLiberator = currentState.board.some(row =>
-      row.some(cell =>
-        cell.card?.ownerId === playerId &&
-              cell.card.name.toLowerCase().includes('data liberator') &&
-              cell.card.statuses?.some(s => s.type === 'Support'),
-      ),
-    )
-
-    const gridSize = currentState.board.length
-    let rStart = row1, rEnd = row1, cStart = col1, cEnd = col1
-    if (row1 === row2) {
-      rStart = row1; rEnd = row1
-      cStart = 0; cEnd = gridSize - 1
-    } else if (col1 === col2) {
-      cStart = col1; cEnd = col1
-      rStart = 0; rEnd = gridSize - 1
-    } else {
+    const card = gameStateRef.current.players.find(p => p.id === playerId)?.discard[cardIndex]
+    if (!card) {
       return
     }
-
-    let totalScore = 0
-    const scoreEvents: Omit<FloatingTextData, 'timestamp'>[] = []
-
-    for (let r = rStart; r <= rEnd; r++) {
-      for (let c = cStart; c <= cEnd; c++) {
-        const cell = currentState.board[r][c]
-        const card = cell.card
-
-        if (card && !card.statuses?.some(s => s.type === 'Stun')) {
-          const isOwner = card.ownerId === playerId
-          const hasExploit = card.statuses?.some(s => s.type === 'Exploit' && s.addedByPlayerId === playerId)
-
-          if (isOwner || (hasActiveLiberator && hasExploit && card.ownerId !== playerId)) {
-            const points = Math.max(0, card.power + (card.powerModifier || 0) + (card.bonusPower || 0))
-            if (points > 0) {
-              totalScore += points
-              scoreEvents.push({
-                row: r,
-                col: c,
-                text: `+${points}`,
-                playerId: playerId,
-              })
-            }
-          }
-        }
-      }
-    }
-
-    if (scoreEvents.length > 0) {
-      triggerFloatingText(scoreEvents)
-    }
-
-    updateState(prevState => {
-      const newState: GameState = JSON.parse(JSON.stringify(prevState))
-      const player = newState.players.find(p => p.id === playerId)
-      if (player) {
-        player.score += totalScore
-      }
-      return newState
+    dispatchAction({
+      type: 'MOVE_CARD',
+      item: { card, source: 'discard', playerId, cardIndex },
+      target: { target: 'hand', playerId },
     })
-  }, [updateState, triggerFloatingText])
+  }, [dispatchAction])
 
-  const scoreDiagonal = useCallback((r1: number, c1: number, r2: number, c2: number, playerId: number, bonusType?: 'point_per_support' | 'draw_per_support') => {
-    const currentState = gameStateRef.current
-    if (!currentState.isGameStarted) {
+  const spawnToken = useCallback((coords: {row: number, col: number}, tokenName: string, ownerId: number) => {
+    const tokenId = Array.from(getTokenDatabaseMap().entries()).find(([, def]) => def.name === tokenName)?.[0]
+    if (!tokenId) {
       return
     }
+    dispatchAction({ type: 'PLAY_TOKEN', tokenId, boardCoords: coords, ownerId })
+  }, [dispatchAction])
 
-    const dRow = r2 > r1 ? 1 : -1
-    const dCol = c2 > c1 ? 1 : -1
-    const steps = Math.abs(r1 - r2)
-
-    let totalScore = 0
-    let totalBonus = 0
-    const scoreEvents: Omit<FloatingTextData, 'timestamp'>[] = []
-
-    for (let i = 0; i <= steps; i++) {
-      const r = r1 + (i * dRow)
-      const c = c1 + (i * dCol)
-
-      if (r < 0 || r >= currentState.board.length || c < 0 || c >= currentState.board.length) {
-        continue
-      }
-
-      const cell = currentState.board[r][c]
-      const card = cell.card
-
-      if (card && !card.statuses?.some(s => s.type === 'Stun')) {
-        const isOwner = card.ownerId === playerId
-
-        if (isOwner) {
-          const points = Math.max(0, card.power + (card.powerModifier || 0) + (card.bonusPower || 0))
-          if (points > 0) {
-            totalScore += points
-            scoreEvents.push({
-              row: r,
-              col: c,
-              text: `+${points}`,
-              playerId: playerId,
-            })
-          }
-
-          if (bonusType && card.statuses?.some(s => s.type === 'Support' && s.addedByPlayerId === playerId)) {
-            totalBonus += 1
-          }
-        }
-      }
-    }
-
-    if (bonusType === 'point_per_support' && totalBonus > 0) {
-      totalScore += totalBonus
-    }
-
-    if (scoreEvents.length > 0) {
-      triggerFloatingText(scoreEvents)
-    }
-
-    updateState(prevState => {
-      const newState: GameState = JSON.parse(JSON.stringify(prevState))
-      const player = newState.players.find(p => p.id === playerId)
-      if (player) {
-        player.score += totalScore
+  /**
+   * scoreLine / scoreAbility - Ask the server to score for a player
+   *
+   * Points are computed by the shared rules in server/utils/scoring, an ability's from its
+   * descriptor and the board; the server sends the per-card breakdown back to the table as
+   * floating texts.
+   */
+  const scoreLine = useCallback((row1: number, col1: number, row2: number, col2: number, playerId: number) => {
+    dispatchAction({ type: 'SCORE_LINE', playerId, start: { row: row1, col: col1 }, end: { row: row2, col: col2 } })
+  }, [dispatchAction])
 
-        if (bonusType === 'draw_per_support' && totalBonus > 0 && player.deck.length > 0) {
-          for (let i = 0; i < totalBonus; i++) {
-            if (player.deck.length > 0) {
-              player.hand.push(player.deck.shift()!)
-            }
-          }
-        }
-      }
-      return newState
-    })
-  }, [updateState, triggerFloatingText])
+  const scoreAbility = useCallback((playerId: number, selection: Omit<Extract<GameAction, { type: 'SCORE_ABILITY' }>, 'type' | 'playerId'>) => {
+    dispatchAction({ type: 'SCORE_ABILITY', playerId, ...selection })
+  }, [dispatchAction])
 
   return {
     gameState,
@@ -2221,8 +1154,13 @@ export const useGameState = () => {
     latestHighlight,
     latestFloatingTexts,
     latestNoTarget,
+    chatMessages,
+    sendChatMessage,
+    gameEvents,
+    requestGameLog,
     createGame,
     joinGame,
+    watchGame,
     requestGamesList,
     exitGame,
     startReadyCheck,
@@ -2231,8 +1169,12 @@ export const useGameState = () => {
     assignTeams,
     setGameMode,
     setGamePrivacy,
+    setSpectatorDelay,
+    setMatchRules,
+    setTimeControls,
     setActiveGridSize,
     setDummyPlayerCount,
+    setDummyAi,
     updatePlayerName,
     changePlayerColor,
     updatePlayerScore,
@@ -2260,6 +1202,9 @@ export const useGameState = () => {
     syncGame,
     removeRevealedStatus,
     resetGame,
+    undoAction,
+    redoAction,
+    respondToUndoRequest,
     toggleActivePlayer,
     toggleAutoDraw,
     forceReconnect,
@@ -2280,7 +1225,7 @@ export const useGameState = () => {
     scoreLine,
     confirmRoundEnd,
     resetDeployStatus,
-    scoreDiagonal,
+    scoreAbility,
     removeStatusByType,
     reorderTopDeck,
     reorderCards,
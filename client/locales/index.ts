@@ -156,7 +156,6 @@ const enUI = {
   untitledDeck: 'Untitled Deck',
   max1RarityHero: 'Max 1 (Rarity/Hero)',
   max2Command: 'Max 2 (Command)',
-  finalRoundMaxTurns: 'Final Round! Max 10 Turns.',
   max5Rounds: 'Max 5 Rounds.',
   selectCardFromDeck: 'Select Card from Deck',
   selectCardFromDiscard: 'Select Card from Discard',
@@ -168,8 +167,6 @@ const enUI = {
   endedOnTurn: 'Ended on Turn',
   nextRound: 'Next:',
   victoryCondition: 'Victory Condition:',
-  win2RoundsMatch: '* Win 2 rounds to win the match. ',
-  max5RoundsInfo: 'Max 5 Rounds.',
   matchComplete: 'Match Complete',
   thankYouPlaying: 'Thank you for playing New Avalon: Skirmish.',
   returnToMenu: 'Return to Menu',
@@ -185,6 +182,98 @@ const enUI = {
   empty: 'Empty',
   dragOutsideToPlaceToken: 'Drag outside to place token on the board.',
   holdRightClickViewHints: 'Hold right click to view hints',
+  chat: 'Chat',
+  chatAll: 'All',
+  chatTeam: 'Team',
+  chatPlaceholder: 'Type a message...',
+  chatSend: 'Send',
+  chatEmpty: 'No messages yet.',
+  watch: 'Watch',
+  spectators: 'Spectators',
+  spectating: 'Spectating',
+  spectatorDelay: 'Spectator delay',
+  spectatorDelayTooltip: 'Spectators see the game this many seconds behind the players',
+  off: 'Off',
+  gameLog: 'Game log',
+  gameLogEmpty: 'Nothing has happened yet.',
+  gameLogFilterAll: 'All',
+  gameLogFilterCards: 'Cards',
+  gameLogFilterGame: 'Game',
+  gameLogFilterPlayers: 'Players',
+  gameLogAllPlayers: 'All players',
+  gameLogServer: 'Server',
+  hiddenCard: 'a hidden card',
+  eventPlayerJoined: 'joined',
+  eventPlayerLeft: 'left',
+  eventPlayerDisconnected: 'disconnected',
+  eventPlayerReconnected: 'reconnected',
+  eventPlayerReplacedByDummy: 'seat taken over by a dummy',
+  eventGameStarted: 'game started',
+  eventGameReset: 'reset the game',
+  eventGameSynced: 'synchronized the game',
+  eventGameEnded: 'game ended',
+  eventCardPlayed: 'played',
+  eventCardMoved: 'moved',
+  eventCardDrawn: 'drew',
+  eventCardAnnounced: 'announced',
+  eventCardDestroyed: 'destroyed',
+  eventCardReturnedToHand: 'returned to hand',
+  eventCardResurrected: 'resurrected',
+  eventDeckShuffled: 'shuffled the deck',
+  eventTokenPlayed: 'placed a token',
+  eventCounterPlaced: 'placed',
+  eventRoundConfirmed: 'next round',
+  eventActivePlayerChanged: 'turn',
+  eventPhaseChanged: 'phase',
+  eventScoreChanged: 'score',
+  eventActionUndone: 'undid an action',
+  eventActionRedone: 'redid an action',
+  eventTurnTimedOut: 'ran out of time',
+  eventShuffleSeedCommitted: 'shuffle seed committed',
+  eventShuffleSeedRevealed: 'shuffle seed revealed',
+  eventNote: 'note',
+  replays: 'Replays',
+  noReplays: 'No replays yet',
+  replayLoadFailed: 'Failed to load the replay',
+  replayPlay: 'Play',
+  replayPause: 'Pause',
+  replayStepBack: 'Step back',
+  replayStepForward: 'Step forward',
+  replayJumpToTurn: 'Jump to turn',
+  replayShowHidden: 'Show hidden cards',
+  replayTruncated: 'The recording ends before the game did',
+  undo: 'Undo',
+  redo: 'Redo',
+  undoRequestTitle: 'Undo Request',
+  undoRequestText: 'wants to undo an action that revealed hidden cards.',
+  undoWaiting: 'Waiting for the other players to approve the undo…',
+  accept: 'Accept',
+  decline: 'Decline',
+  matchRules: 'Match Rules',
+  roundTargets: 'Score target per round',
+  maxRounds: 'Max rounds',
+  winsNeeded: 'Round wins to take the match',
+  finalRoundTurnLimit: 'Turn limit from the final round',
+  noLimit: 'No limit',
+  tieBreak: 'Tie-break',
+  tieBreakShared: 'Shared win',
+  tieBreakSuddenDeath: 'Sudden-death round',
+  finalRound: 'Final round!',
+  timeControls: 'Time controls',
+  turnTimeLimit: 'Turn limit (seconds)',
+  timeBank: 'Time bank (seconds)',
+  timeIncrement: 'Increment per turn (seconds)',
+  onTimeout: 'When time runs out',
+  timeoutAutoAdvance: 'Pass the turn',
+  timeoutWarn: 'Warn only',
+  timeoutForfeitRound: 'Forfeit the round',
+  turnTimer: 'Turn time left',
+  outOfTime: 'Out of time!',
+  aiPlayer: 'AI player',
+  aiOff: 'Human',
+  aiEasy: 'AI: Easy',
+  aiNormal: 'AI: Normal',
+  aiHard: 'AI: Hard',
 }
 
 const enRules = {
@@ -183,7 +183,6 @@ export const ru: TranslationResource = {
     untitledDeck: 'Безымянная колода',
     max1RarityHero: 'Максимум 1 (Редкость/Герой)',
     max2Command: 'Максимум 2 (Команда)',
-    finalRoundMaxTurns: 'Финальный раунд! Максимум 10 ходов.',
     max5Rounds: 'Максимум 5 раундов.',
     noTarget: 'Нет цели',
     confirmClearDeck: 'Вы уверены, что хотите очистить текущую колоду?',
@@ -195,8 +194,6 @@ export const ru: TranslationResource = {
     endedOnTurn: 'Завершено на ходу',
     nextRound: 'Далее:',
     victoryCondition: 'Условие победы:',
-    win2RoundsMatch: '* Победите в 2 раундах, чтобы выиграть матч. ',
-    max5RoundsInfo: 'Максимум 5 раундов.',
     matchComplete: 'Матч завершен',
     thankYouPlaying: 'Спасибо за игру в New Avalon: Skirmish.',
     returnToMenu: 'Вернуться в меню',
@@ -212,6 +209,98 @@ export const ru: TranslationResource = {
     empty: 'Пусто',
     dragOutsideToPlaceToken: 'Перетащите наружу, чтобы разместить токен на доске.',
     holdRightClickViewHints: 'Удерживайте правую кнопку мыши для просмотра подсказок',
+    chat: 'Чат',
+    chatAll: 'Все',
+    chatTeam: 'Команда',
+    chatPlaceholder: 'Введите сообщение...',
+    chatSend: 'Отправить',
+    chatEmpty: 'Сообщений пока нет.',
+    watch: 'Смотреть',
+    spectators: 'Зрители',
+    spectating: 'Режим зрителя',
+    spectatorDelay: 'Задержка для зрителей',
+    spectatorDelayTooltip: 'Зрители видят игру с отставанием на указанное число секунд',
+    off: 'Выкл',
+    gameLog: 'Журнал игры',
+    gameLogEmpty: 'Пока ничего не произошло.',
+    gameLogFilterAll: 'Все',
+    gameLogFilterCards: 'Карты',
+    gameLogFilterGame: 'Игра',
+    gameLogFilterPlayers: 'Игроки',
+    gameLogAllPlayers: 'Все игроки',
+    gameLogServer: 'Сервер',
+    hiddenCard: 'скрытая карта',
+    eventPlayerJoined: 'присоединился',
+    eventPlayerLeft: 'вышел',
+    eventPlayerDisconnected: 'отключился',
+    eventPlayerReconnected: 'переподключился',
+    eventPlayerReplacedByDummy: 'место занял манекен',
+    eventGameStarted: 'игра началась',
+    eventGameReset: 'сбросил игру',
+    eventGameSynced: 'синхронизировал игру',
+    eventGameEnded: 'игра окончена',
+    eventCardPlayed: 'сыграл',
+    eventCardMoved: 'переместил',
+    eventCardDrawn: 'взял карту',
+    eventCardAnnounced: 'объявил',
+    eventCardDestroyed: 'уничтожил',
+    eventCardReturnedToHand: 'вернул в руку',
+    eventCardResurrected: 'воскресил',
+    eventDeckShuffled: 'перемешал колоду',
+    eventTokenPlayed: 'выставил жетон',
+    eventCounterPlaced: 'поместил',
+    eventRoundConfirmed: 'следующий раунд',
+    eventActivePlayerChanged: 'ход',
+    eventPhaseChanged: 'фаза',
+    eventScoreChanged: 'очки',
+    eventActionUndone: 'отменил действие',
+    eventActionRedone: 'вернул действие',
+    eventTurnTimedOut: 'не уложился во время',
+    eventShuffleSeedCommitted: 'зафиксировано зерно перемешивания',
+    eventShuffleSeedRevealed: 'раскрыто зерно перемешивания',
+    eventNote: 'заметка',
+    replays: 'Повторы',
+    noReplays: 'Повторов пока нет',
+    replayLoadFailed: 'Не удалось загрузить повтор',
+    replayPlay: 'Воспроизвести',
+    replayPause: 'Пауза',
+    replayStepBack: 'Шаг назад',
+    replayStepForward: 'Шаг вперёд',
+    replayJumpToTurn: 'Перейти к ходу',
+    replayShowHidden: 'Показывать скрытые карты',
+    replayTruncated: 'Запись обрывается до конца игры',
+    undo: 'Отменить',
+    redo: 'Вернуть',
+    undoRequestTitle: 'Запрос на отмену',
+    undoRequestText: 'хочет отменить действие, открывшее скрытые карты.',
+    undoWaiting: 'Ожидание согласия других игроков на отмену…',
+    accept: 'Принять',
+    decline: 'Отклонить',
+    matchRules: 'Правила матча',
+    roundTargets: 'Очки для победы в раунде',
+    maxRounds: 'Максимум раундов',
+    winsNeeded: 'Побед в раундах для победы в матче',
+    finalRoundTurnLimit: 'Лимит ходов с финального раунда',
+    noLimit: 'Без лимита',
+    tieBreak: 'При ничьей',
+    tieBreakShared: 'Общая победа',
+    tieBreakSuddenDeath: 'Дополнительный раунд',
+    finalRound: 'Финальный раунд!',
+    timeControls: 'Контроль времени',
+    turnTimeLimit: 'Лимит хода (секунды)',
+    timeBank: 'Запас времени (секунды)',
+    timeIncrement: 'Добавка за ход (секунды)',
+    onTimeout: 'Когда время истекло',
+    timeoutAutoAdvance: 'Передать ход',
+    timeoutWarn: 'Только предупредить',
+    timeoutForfeitRound: 'Проиграть раунд',
+    turnTimer: 'Осталось времени на ход',
+    outOfTime: 'Время вышло!',
+    aiPlayer: 'ИИ-игрок',
+    aiOff: 'Человек',
+    aiEasy: 'ИИ: лёгкий',
+    aiNormal: 'ИИ: обычный',
+    aiHard: 'ИИ: сложный',
   },
   rules: {
     title: 'Правила Игры "New Avalon: Skirmish"',
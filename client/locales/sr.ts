@@ -183,7 +183,6 @@ export const sr: TranslationResource = {
     untitledDeck: 'Bezimeni špil',
     max1RarityHero: 'Maksimum 1 (Retkost/Heroj)',
     max2Command: 'Maksimum 2 (Komanda)',
-    finalRoundMaxTurns: 'Konačna runda! Maksimum 10 poteza.',
     max5Rounds: 'Maksimum 5 rundi.',
     selectCardFromDeck: 'Izaberi kartu iz špila',
     selectCardFromDiscard: 'Izaberi kartu iz bačenih',
@@ -195,8 +194,6 @@ export const sr: TranslationResource = {
     endedOnTurn: 'Završeno u potezu',
     nextRound: 'Sledeće:',
     victoryCondition: 'Uslov pobede:',
-    win2RoundsMatch: '* Pobedite u 2 rundе da biste osvojili meč. ',
-    max5RoundsInfo: 'Maksimum 5 rundi.',
     matchComplete: 'Meč završen',
     thankYouPlaying: 'Hvala što ste igrali New Avalon: Skirmish.',
     returnToMenu: 'Povratak u meni',
@@ -212,6 +209,98 @@ export const sr: TranslationResource = {
     empty: 'Prazno',
     dragOutsideToPlaceToken: 'Prevucite napolje da biste postavili token na tablu.',
     holdRightClickViewHints: 'Držite desni taster za prikaz saveta',
+    chat: 'Ćaskanje',
+    chatAll: 'Svi',
+    chatTeam: 'Tim',
+    chatPlaceholder: 'Unesite poruku...',
+    chatSend: 'Pošalji',
+    chatEmpty: 'Još nema poruka.',
+    watch: 'Gledaj',
+    spectators: 'Gledaoci',
+    spectating: 'Posmatranje',
+    spectatorDelay: 'Kašnjenje za posmatrače',
+    spectatorDelayTooltip: 'Posmatrači vide igru sa zadatim kašnjenjem u sekundama',
+    off: 'Isključeno',
+    gameLog: 'Dnevnik igre',
+    gameLogEmpty: 'Još se ništa nije dogodilo.',
+    gameLogFilterAll: 'Sve',
+    gameLogFilterCards: 'Karte',
+    gameLogFilterGame: 'Igra',
+    gameLogFilterPlayers: 'Igrači',
+    gameLogAllPlayers: 'Svi igrači',
+    gameLogServer: 'Server',
+    hiddenCard: 'skrivena karta',
+    eventPlayerJoined: 'se pridružio',
+    eventPlayerLeft: 'je napustio igru',
+    eventPlayerDisconnected: 'je prekinuo vezu',
+    eventPlayerReconnected: 'se ponovo povezao',
+    eventPlayerReplacedByDummy: 'mesto je preuzela lutka',
+    eventGameStarted: 'igra je počela',
+    eventGameReset: 'je resetovao igru',
+    eventGameSynced: 'je sinhronizovao igru',
+    eventGameEnded: 'igra je završena',
+    eventCardPlayed: 'je odigrao',
+    eventCardMoved: 'je pomerio',
+    eventCardDrawn: 'je izvukao',
+    eventCardAnnounced: 'je najavio',
+    eventCardDestroyed: 'je uništio',
+    eventCardReturnedToHand: 'je vratio u ruku',
+    eventCardResurrected: 'je vaskrsao',
+    eventDeckShuffled: 'je promešao špil',
+    eventTokenPlayed: 'je postavio žeton',
+    eventCounterPlaced: 'je postavio',
+    eventRoundConfirmed: 'sledeća runda',
+    eventActivePlayerChanged: 'potez',
+    eventPhaseChanged: 'faza',
+    eventScoreChanged: 'poeni',
+    eventActionUndone: 'poništio potez',
+    eventActionRedone: 'ponovio potez',
+    eventTurnTimedOut: 'je ostao bez vremena',
+    eventShuffleSeedCommitted: 'seme mešanja je zapečaćeno',
+    eventShuffleSeedRevealed: 'seme mešanja je otkriveno',
+    eventNote: 'beleška',
+    replays: 'Snimci',
+    noReplays: 'Još nema snimaka',
+    replayLoadFailed: 'Učitavanje snimka nije uspelo',
+    replayPlay: 'Pusti',
+    replayPause: 'Pauza',
+    replayStepBack: 'Korak nazad',
+    replayStepForward: 'Korak napred',
+    replayJumpToTurn: 'Idi na potez',
+    replayShowHidden: 'Prikaži skrivene karte',
+    replayTruncated: 'Snimak se završava pre kraja igre',
+    undo: 'Poništi',
+    redo: 'Ponovi',
+    undoRequestTitle: 'Zahtev za poništavanje',
+    undoRequestText: 'želi da poništi potez koji je otkrio skrivene karte.',
+    undoWaiting: 'Čeka se da ostali igrači odobre poništavanje…',
+    accept: 'Prihvati',
+    decline: 'Odbij',
+    matchRules: 'Pravila meča',
+    roundTargets: 'Poeni za pobedu u rundi',
+    maxRounds: 'Maksimum rundi',
+    winsNeeded: 'Pobeda u rundama za pobedu u meču',
+    finalRoundTurnLimit: 'Limit poteza od poslednje runde',
+    noLimit: 'Bez limita',
+    tieBreak: 'Kod nerešenog',
+    tieBreakShared: 'Zajednička pobeda',
+    tieBreakSuddenDeath: 'Dodatna runda',
+    finalRound: 'Poslednja runda!',
+    timeControls: 'Kontrola vremena',
+    turnTimeLimit: 'Limit poteza (sekunde)',
+    timeBank: 'Rezerva vremena (sekunde)',
+    timeIncrement: 'Dodatak po potezu (sekunde)',
+    onTimeout: 'Kada vreme istekne',
+    timeoutAutoAdvance: 'Predaj potez',
+    timeoutWarn: 'Samo upozori',
+    timeoutForfeitRound: 'Izgubi rundu',
+    turnTimer: 'Preostalo vreme poteza',
+    outOfTime: 'Vreme je isteklo!',
+    aiPlayer: 'AI igrač',
+    aiOff: 'Čovek',
+    aiEasy: 'AI: lako',
+    aiNormal: 'AI: normalno',
+    aiHard: 'AI: teško',
   },
   rules: {
     title: 'Pravila igre "New Avalon: Skirmish"',
@@ -196,7 +196,6 @@ export interface TranslationResource {
     untitledDeck: string;
     max1RarityHero: string;
     max2Command: string;
-    finalRoundMaxTurns: string;
     max5Rounds: string;
     selectCardFromDeck: string;
     selectCardFromDiscard: string;
@@ -208,8 +207,6 @@ export interface TranslationResource {
     endedOnTurn: string;
     nextRound: string;
     victoryCondition: string;
-    win2RoundsMatch: string;
-    max5RoundsInfo: string;
     matchComplete: string;
     thankYouPlaying: string;
     returnToMenu: string;
@@ -225,6 +222,98 @@ export interface TranslationResource {
     empty: string;
     dragOutsideToPlaceToken: string;
     holdRightClickViewHints: string;
+    chat: string;
+    chatAll: string;
+    chatTeam: string;
+    chatPlaceholder: string;
+    chatSend: string;
+    chatEmpty: string;
+    watch: string;
+    spectators: string;
+    spectating: string;
+    spectatorDelay: string;
+    spectatorDelayTooltip: string;
+    off: string;
+    gameLog: string;
+    gameLogEmpty: string;
+    gameLogFilterAll: string;
+    gameLogFilterCards: string;
+    gameLogFilterGame: string;
+    gameLogFilterPlayers: string;
+    gameLogAllPlayers: string;
+    gameLogServer: string;
+    hiddenCard: string;
+    eventPlayerJoined: string;
+    eventPlayerLeft: string;
+    eventPlayerDisconnected: string;
+    eventPlayerReconnected: string;
+    eventPlayerReplacedByDummy: string;
+    eventGameStarted: string;
+    eventGameReset: string;
+    eventGameSynced: string;
+    eventGameEnded: string;
+    eventCardPlayed: string;
+    eventCardMoved: string;
+    eventCardDrawn: string;
+    eventCardAnnounced: string;
+    eventCardDestroyed: string;
+    eventCardReturnedToHand: string;
+    eventCardResurrected: string;
+    eventDeckShuffled: string;
+    eventTokenPlayed: string;
+    eventCounterPlaced: string;
+    eventRoundConfirmed: string;
+    eventActivePlayerChanged: string;
+    eventPhaseChanged: string;
+    eventScoreChanged: string;
+    eventActionUndone: string;
+    eventActionRedone: string;
+    eventTurnTimedOut: string;
+    eventShuffleSeedCommitted: string;
+    eventShuffleSeedRevealed: string;
+    eventNote: string;
+    replays: string;
+    noReplays: string;
+    replayLoadFailed: string;
+    replayPlay: string;
+    replayPause: string;
+    replayStepBack: string;
+    replayStepForward: string;
+    replayJumpToTurn: string;
+    replayShowHidden: string;
+    replayTruncated: string;
+    undo: string;
+    redo: string;
+    undoRequestTitle: string;
+    undoRequestText: string;
+    undoWaiting: string;
+    accept: string;
+    decline: string;
+    matchRules: string;
+    roundTargets: string;
+    maxRounds: string;
+    winsNeeded: string;
+    finalRoundTurnLimit: string;
+    noLimit: string;
+    tieBreak: string;
+    tieBreakShared: string;
+    tieBreakSuddenDeath: string;
+    finalRound: string;
+    timeControls: string;
+    turnTimeLimit: string;
+    timeBank: string;
+    timeIncrement: string;
+    onTimeout: string;
+    timeoutAutoAdvance: string;
+    timeoutWarn: string;
+    timeoutForfeitRound: string;
+    turnTimer: string;
+    outOfTime: string;
+    aiPlayer: string;
+    aiOff: string;
+    aiEasy: string;
+    aiNormal: string;
+    aiHard: string;
   };
   rules: {
     title: string;
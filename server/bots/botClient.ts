@@ -0,0 +1,237 @@
+/**
+ * @file Bot client
+ * Connects a bot to a game server over WebSocket, like a browser client would: it takes a
+ * seat with CREATE_GAME or JOIN_GAME, keeps its redacted view of the game up to date from
+ * snapshots and patches, and whenever the seat can act asks the bot for a move and sends it.
+ *
+ * A bot only sees what its seat is allowed to see, and every move it sends is checked by
+ * the server like a player's.
+ */
+
+import WebSocket from 'ws';
+import { applyPatch } from '../utils/statePatch.js';
+import { getLegalActions } from '../utils/legalActions.js';
+import type { BotAction } from '../utils/legalActions.js';
+import type { GameState } from '../types/types.js';
+import type { ClientMessage, ServerMessage } from '../types/messages.js';
+
+// Keeps a bot within the server's per-connection message limit (60 a minute)
+const DEFAULT_ACTION_INTERVAL_MS = 1000;
+
+/**
+ * What a bot is asked to decide on
+ */
+export interface BotTurn {
+  gameId: string;
+  playerId: number;
+  view: GameState; // The seat's own, redacted view of the game
+  legalActions: BotAction[]; // Never empty; NEXT_PHASE is always there on the bot's turn
+}
+
+/**
+ * A bot: picks one of the legal actions, or null to wait for the next update
+ */
+export interface Bot {
+  name?: string;
+  chooseAction: (turn: BotTurn) => BotAction | null | Promise<BotAction | null>;
+}
+
+export interface BotClientOptions {
+  url: string; // e.g. ws://localhost:8822
+  bot: Bot;
+  actionIntervalMs?: number; // Least time between two moves
+}
+
+/**
+ * One bot seated in one game
+ */
+export class BotClient {
+  public gameId: string | null = null;
+  public playerId: number | null = null;
+  public playerToken: string | null = null;
+  public view: GameState | null = null;
+
+  private readonly options: BotClientOptions;
+  private socket: WebSocket | null = null;
+  private pendingJoin: { resolve: (gameId: string) => void; reject: (error: Error) => void } | null = null;
+  private gameOverListeners: ((view: GameState) => void)[] = [];
+  private isDeciding = false;
+  private lastActionAt = 0;
+  private decidedVersion: number | null = null;
+  private tried = new Set<string>(); // Moves sent on the current version; one turned down is not sent again
+  private hasScored = false; // A seat scores one line per scoring step, then moves on
+
+  constructor(options: BotClientOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Open the connection to the server
+   */
+  connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.options.url);
+      socket.once('open', () => resolve());
+      socket.once('error', reject);
+      socket.on('message', data => this.handleMessage(JSON.parse(data.toString())));
+      socket.on('close', () => {
+        this.pendingJoin?.reject(new Error('Connection closed'));
+        this.pendingJoin = null;
+      });
+      this.socket = socket;
+    });
+  }
+
+  /**
+   * Create a new game and take its host seat
+   * @returns The id of the new game
+   */
+  createGame(isPrivate = true): Promise<string> {
+    return this.join({ type: 'CREATE_GAME', isPrivate });
+  }
+
+  /**
+   * Take a seat in an existing game, or take back this bot's own seat with its token
+   */
+  joinGame(gameId: string, playerToken?: string): Promise<string> {
+    return this.join({ type: 'JOIN_GAME', gameId, playerToken });
+  }
+
+  /**
+   * Start the ready check; host only
+   */
+  startReadyCheck(): void {
+    this.send({ type: 'START_READY_CHECK', gameId: this.gameId! });
+  }
+
+  /**
+   * Mark the seat as ready; the game starts once every player is
+   */
+  ready(): void {
+    this.send({ type: 'PLAYER_READY', gameId: this.gameId!, playerId: this.playerId! });
+  }
+
+  /**
+   * Resolves with the final view once the match has a winner
+   */
+  waitForGameOver(): Promise<GameState> {
+    return new Promise(resolve => this.gameOverListeners.push(resolve));
+  }
+
+  /**
+   * Leave the game and close the connection
+   */
+  close(): void {
+    if (this.gameId && this.socket?.readyState === WebSocket.OPEN) {
+      this.send({ type: 'EXIT_GAME', gameId: this.gameId, playerId: this.playerId ?? undefined });
+    }
+    this.socket?.close();
+  }
+
+  send(message: ClientMessage): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private join(message: ClientMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.pendingJoin = { resolve, reject };
+      this.send(message);
+    });
+  }
+
+  private handleMessage(data: ServerMessage | GameState): void {
+    if (!('type' in data) || data.type === undefined) {
+      this.updateView(data as GameState);
+      return;
+    }
+
+    switch (data.type) {
+      case 'JOIN_SUCCESS':
+        this.gameId = data.gameId;
+        this.playerId = data.playerId;
+        this.playerToken = data.playerToken ?? null;
+        this.pendingJoin?.resolve(data.gameId);
+        this.pendingJoin = null;
+        break;
+      case 'STATE_PATCH':
+        if (this.view && this.view.gameId === data.gameId && this.view.version === data.baseVersion) {
+          this.updateView(applyPatch(this.view, data.patch));
+        } else {
+          this.send({ type: 'SYNC_GAME' });
+        }
+        break;
+      case 'ACTION_REJECTED':
+        // The server follows up with its state; the move is left out of the next choice
+        this.decidedVersion = null;
+        break;
+      case 'ERROR':
+        if (this.pendingJoin) {
+          this.pendingJoin.reject(new Error(data.message));
+          this.pendingJoin = null;
+        }
+        break;
+      default:
+        break;
+    }
+  }
+
+  private updateView(view: GameState): void {
+    if (view.version !== this.view?.version) {
+      this.tried.clear();
+      this.decidedVersion = null;
+    }
+    this.view = view;
+    if (!view.isScoringStep) {
+      this.hasScored = false;
+    }
+
+    if (view.isRoundEndModalOpen && (view.gameWinners ?? []).length > 0) {
+      const listeners = this.gameOverListeners;
+      this.gameOverListeners = [];
+      listeners.forEach(listener => listener(view));
+      return;
+    }
+    void this.decide();
+  }
+
+  /**
+   * Ask the bot for a move on the current view, at most once per version
+   */
+  private async decide(): Promise<void> {
+    const view = this.view;
+    if (!view || this.playerId === null || this.isDeciding || this.decidedVersion === view.version) {
+      return;
+    }
+    const legalActions = getLegalActions(view, this.playerId)
+      .filter(action => !this.tried.has(JSON.stringify(action)))
+      .filter(action => !this.hasScored || action.type !== 'SCORE_LINE');
+    if (legalActions.length === 0) {
+      return;
+    }
+
+    this.isDeciding = true;
+    this.decidedVersion = view.version ?? null;
+    try {
+      const wait = this.lastActionAt + (this.options.actionIntervalMs ?? DEFAULT_ACTION_INTERVAL_MS) - Date.now();
+      if (wait > 0) {
+        await new Promise(resolve => setTimeout(resolve, wait));
+      }
+      const action = await this.options.bot.chooseAction({ gameId: this.gameId!, playerId: this.playerId, view, legalActions });
+      // A newer view arrived while the bot was thinking; decide again on that one
+      if (!action || this.view !== view) {
+        return;
+      }
+      this.tried.add(JSON.stringify(action));
+      this.hasScored ||= action.type === 'SCORE_LINE';
+      this.lastActionAt = Date.now();
+      this.send({ ...action, gameId: this.gameId! } as ClientMessage);
+    } finally {
+      this.isDeciding = false;
+      if (this.view !== view) {
+        void this.decide();
+      }
+    }
+  }
+}
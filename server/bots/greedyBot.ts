@@ -0,0 +1,55 @@
+/**
+ * @file Greedy bot
+ * Example bot: plays the unit that makes the best line and scores the better line;
+ * it does not use commands
+ */
+
+import { scoreLine } from '../utils/scoring.js';
+import type { Board } from '../types/types.js';
+import type { Bot } from './botClient.js';
+import type { BotAction } from '../utils/legalActions.js';
+
+/**
+ * Points the player would score from the better of the row and the column through a cell
+ */
+const bestLineThrough = (board: Board, playerId: number, row: number, col: number): number => {
+  const size = board.length;
+  return Math.max(
+    scoreLine(board, playerId, row, 0, row, size - 1)?.points ?? 0,
+    scoreLine(board, playerId, 0, col, size - 1, col)?.points ?? 0
+  );
+};
+
+const greedyBot: Bot = {
+  name: 'greedy',
+  chooseAction: ({ view, playerId, legalActions }) => {
+    let best: BotAction | null = null;
+    let bestValue = -1;
+
+    for (const action of legalActions) {
+      let value = -1;
+      if (action.type === 'CONFIRM_ROUND_END') {
+        return action;
+      }
+      if (action.type === 'SCORE_LINE') {
+        const { start, end } = action;
+        value = scoreLine(view.board, playerId, start.row, start.col, end.row, end.col)?.points ?? 0;
+      } else if (action.type === 'PLAY_CARD') {
+        const card = view.players.find(p => p.id === playerId)?.hand[action.cardIndex];
+        const { row, col } = action.boardCoords;
+        const board = view.board.map(cells => cells.map(cell => ({ card: cell.card })));
+        board[row][col].card = card ? { ...card, ownerId: playerId, statuses: [] } : null;
+        value = bestLineThrough(board, playerId, row, col);
+      } else if (action.type === 'MOVE_CARD') {
+        value = 0; // Finishes a command announced earlier
+      }
+      if (value > bestValue) {
+        best = action;
+        bestValue = value;
+      }
+    }
+    return best ?? legalActions.find(action => action.type === 'NEXT_PHASE') ?? null;
+  }
+};
+
+export default greedyBot;
@@ -0,0 +1,16 @@
+/**
+ * @file Random bot
+ * Example bot: plays any legal move, and moves on when there is nothing else to do
+ */
+
+import type { Bot } from './botClient.js';
+
+const randomBot: Bot = {
+  name: 'random',
+  chooseAction: ({ legalActions }) => {
+    const moves = legalActions.filter(action => action.type !== 'NEXT_PHASE');
+    return moves.length > 0 ? moves[Math.floor(Math.random() * moves.length)] : legalActions[0];
+  }
+};
+
+export default randomBot;
@@ -11,6 +11,7 @@ import path from 'path';
 import { setupRoutes } from './routes/index.js';
 import { setupWebSocket } from './services/websocket.js';
 import { initializeContent } from './services/content.js';
+import { restoreGames, startGameSnapshots, stopGameSnapshots, saveGameSnapshots } from './services/gamePersistence.js';
 import { logger } from './utils/logger.js';
 import { validateConfig } from './utils/config.js';
 
@@ -50,6 +51,10 @@ async function createDevServer() {
   // Setup WebSocket handlers
   setupWebSocket(wss);
 
+  // Bring back games that were running before the last shutdown, then keep snapshotting them
+  await restoreGames(wss);
+  startGameSnapshots();
+
   // Start server
   const PORT = process.env.PORT || 8080;
   const server = app.listen(PORT, () => {
@@ -69,6 +74,8 @@ async function createDevServer() {
     }, 10000); // 10 second timeout
 
     try {
+      stopGameSnapshots();
+      await saveGameSnapshots();
       await vite.close();
       server.close(() => {
         clearTimeout(shutdownTimeout);
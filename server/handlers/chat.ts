@@ -0,0 +1,111 @@
+/**
+ * @file Chat handlers
+ * In-game chat with an all-players channel and team-only channels in team modes
+ */
+
+import { logger } from '../utils/logger.js';
+import { CONFIG } from '../utils/config.js';
+import { sanitizeString } from '../utils/security.js';
+import { getGameState, getGameIdForClient, addChatMessage, getChatHistory } from '../services/gameState.js';
+import { isChatRateLimited } from '../services/rateLimit.js';
+import { sendToGame } from '../services/websocket.js';
+import { GameMode } from '../types/types.js';
+import type { ChatMessage } from '../types/types.js';
+
+let chatMessageCounter = 0;
+
+/**
+ * Team a seat belongs to, if the game is played in teams
+ */
+function getTeamId(gameState, playerId) {
+  if (gameState.gameMode === GameMode.FreeForAll || !playerId) {
+    return undefined;
+  }
+  return gameState.players.find(p => p.id === playerId)?.teamId;
+}
+
+/**
+ * Whether the given seat may read a chat message
+ */
+function canReadMessage(gameState, playerId, message: ChatMessage) {
+  return message.channel === 'all' || getTeamId(gameState, playerId) === message.teamId;
+}
+
+/**
+ * Send a client the chat history of its game that its seat may read
+ * Called when a client joins or reconnects
+ */
+export function sendChatHistory(ws, gameId) {
+  const gameState = getGameState(gameId);
+  if (!gameState) {
+    return;
+  }
+  const messages = getChatHistory(gameId).filter(message => canReadMessage(gameState, ws.playerId, message));
+  ws.send(JSON.stringify({
+    type: 'CHAT_HISTORY',
+    gameId,
+    messages
+  }));
+}
+
+/**
+ * Handle CHAT_MESSAGE message
+ * Stores a chat message with the game and delivers it to everyone allowed to read it
+ */
+export function handleChatMessage(ws, data) {
+  try {
+    const gameId = getGameIdForClient(ws);
+    const gameState = gameId ? getGameState(gameId) : undefined;
+    const sender = gameState?.players.find(p => p.id === ws.playerId);
+    if (!gameState || !sender) {
+      ws.send(JSON.stringify({
+        type: 'ERROR',
+        message: 'Only seated players can chat'
+      }));
+      return;
+    }
+
+    const text = sanitizeString(data.text, CONFIG.MAX_CHAT_MESSAGE_LENGTH).trim();
+    if (!text) {
+      return;
+    }
+
+    if (isChatRateLimited(ws)) {
+      ws.send(JSON.stringify({
+        type: 'ERROR',
+        message: 'You are sending chat messages too quickly'
+      }));
+      return;
+    }
+
+    const channel = data.channel === 'team' ? 'team' : 'all';
+    const teamId = channel === 'team' ? getTeamId(gameState, sender.id) : undefined;
+    if (channel === 'team' && teamId === undefined) {
+      ws.send(JSON.stringify({
+        type: 'ERROR',
+        message: 'Team chat is only available in team games'
+      }));
+      return;
+    }
+
+    const message: ChatMessage = {
+      id: `${Date.now()}-${++chatMessageCounter}`,
+      playerId: sender.id,
+      playerName: sender.name,
+      text,
+      channel,
+      teamId,
+      timestamp: Date.now()
+    };
+    addChatMessage(gameId, message);
+
+    sendToGame(gameId, { type: 'CHAT_MESSAGE', message }, client => canReadMessage(gameState, client.playerId, message));
+    logger.debug(`Chat message from player ${sender.id} in game ${gameId} (${channel})`);
+  } catch (error) {
+    logger.error('Failed to handle chat message:', error);
+    ws.send(JSON.stringify({
+      type: 'ERROR',
+      message: 'Failed to send chat message'
+    }));
+  }
+}
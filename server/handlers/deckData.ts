@@ -6,6 +6,9 @@
 import { logger } from '../utils/logger.js';
 import { sanitizeString, validateMessageSize } from '../utils/security.js';
 import { setCardDatabase, setTokenDatabase, setDeckFiles } from '../services/content.js';
+import { validateAbilities } from '../utils/abilityEngine.js';
+import { validateReactions } from '../utils/cardEvents.js';
+import { validateAuras } from '../utils/auras.js';
 import { isRateLimited } from '../services/rateLimit.js';
 import type { WebSocket } from 'ws';
 
@@ -43,6 +46,16 @@ function sanitizeEntity(entityObj: any): Record<string, any> | null {
     ...(entityObj.allowedPanels && Array.isArray(entityObj.allowedPanels) && {
       allowedPanels: entityObj.allowedPanels.slice(0, 10).map((p: any) => sanitizeString(String(p), 50))
     }),
+    // Ability descriptors, reactions and auras are plain data; a list the rules layer does not accept is dropped
+    ...(entityObj.abilities !== undefined && validateAbilities(entityObj.abilities).length === 0 && {
+      abilities: entityObj.abilities
+    }),
+    ...(entityObj.reactions !== undefined && validateReactions(entityObj.reactions).length === 0 && {
+      reactions: entityObj.reactions
+    }),
+    ...(entityObj.auras !== undefined && validateAuras(entityObj.auras).length === 0 && {
+      auras: entityObj.auras
+    }),
   };
 }
 
@@ -0,0 +1,180 @@
+/**
+ * @file Game action handlers
+ * Handles intent-based card actions (play, move, draw, shuffle, ...) validated by the server
+ */
+
+import { logger } from '../utils/logger.js';
+import { getGameState, getGameIdForClient, recordGameEvent } from '../services/gameState.js';
+import { broadcastToGame, sendGameStateToClient, sendToGame } from '../services/websocket.js';
+import { isSpectatorDelayActive } from '../services/spectatorDelay.js';
+import { captureTable, recordRevision } from '../services/undoHistory.js';
+import { getTokenDefinition, getCounterDefinition } from '../services/content.js';
+import { shuffleDeck } from '../utils/deckUtils.js';
+import { applyGameAction } from '../utils/gameActions.js';
+import { resolveHiddenCardId } from '../utils/visibility.js';
+import { describeGameAction, captureTurnSnapshot, describeTurnChanges } from '../utils/gameEvents.js';
+import { planAiStep } from '../utils/dummyAi.js';
+import { removeReadyStatus } from '../utils/autoAbilities.js';
+import { advancePhase } from '../utils/turnEngine.js';
+import type { ScoreBreakdown } from '../utils/scoring.js';
+import type { Card, GameState } from '../types/types.js';
+
+/**
+ * Handle PLAY_CARD, MOVE_CARD, DRAW_CARD, SHUFFLE_DECK, ANNOUNCE_CARD, DESTROY_CARD,
+ * RETURN_CARD_TO_HAND, PLAY_TOKEN, PLAY_COUNTER, REMOVE_STATUS, TRANSFER_STATUSES,
+ * RESTORE_DEPLOY, REVEAL_CARD, RESPOND_REVEAL_REQUEST, RESURRECT_CARD, SCORE_LINE,
+ * SCORE_ABILITY, GAIN_POINTS and CONFIRM_ROUND_END messages
+ * Validates the intent against the sender's seat and applies it to the authoritative state
+ */
+export function handleGameAction(ws, data) {
+  try {
+    const { gameId } = data;
+    const gameState = getGameState(gameId);
+
+    if (!gameState) {
+      ws.send(JSON.stringify({
+        type: 'ERROR',
+        message: 'Game not found'
+      }));
+      return;
+    }
+
+    // The acting seat always comes from the connection, never from the payload
+    if (getGameIdForClient(ws) !== gameId || !ws.playerId) {
+      logger.warn(`Rejected ${data.type} for game ${gameId} from a client without a seat`);
+      ws.send(JSON.stringify({
+        type: 'ERROR',
+        message: 'Unauthorized: You are not a player in this game'
+      }));
+      return;
+    }
+
+    const state = gameState as unknown as GameState;
+
+    // Cards hidden from the sender are referenced by the positional ids of its view
+    if (data.item?.card) {
+      data.item.card.id = resolveHiddenCardId(state, data.item.card.id);
+    }
+    if (data.cardId) {
+      data.cardId = resolveHiddenCardId(state, data.cardId);
+    }
+
+    // Described up front: applying the intent moves its cards away from their source
+    const event = describeGameAction(state, data, ws.playerId);
+    const turnBefore = captureTurnSnapshot(state);
+    const tableBefore = captureTable(gameState);
+
+    const result = applyGameAction(state, data, {
+      actorId: ws.playerId,
+      shuffle: cards => shuffleDeck(state, cards),
+      getTokenDefinition,
+      getCounterDefinition
+    });
+
+    if (!result.success) {
+      logger.warn(`Rejected ${data.type} from player ${ws.playerId} in game ${gameId}: ${result.error}`);
+      ws.send(JSON.stringify({
+        type: 'ACTION_REJECTED',
+        actionType: data.type,
+        message: result.error
+      }));
+      // Roll the sender back to the authoritative state
+      sendGameStateToClient(ws, gameState);
+      return;
+    }
+
+    if (event) {
+      recordGameEvent(gameId, event);
+    }
+    describeTurnChanges(turnBefore, state, ws.playerId).forEach(change => recordGameEvent(gameId, change));
+    recordRevision(gameState, tableBefore, ws.playerId);
+
+    broadcastToGame(gameId, gameState);
+    sendScoreTexts(gameId, gameState, result.score);
+    logger.info(`Player ${ws.playerId} performed ${data.type} in game ${gameId}`);
+  } catch (error) {
+    logger.error('Failed to apply game action:', error);
+  }
+}
+
+/**
+ * Run one step of an AI seat's turn, scheduled by the AI seat scheduler
+ * Applies the planned intents as the seat itself; once the turn has run too long,
+ * only moves it on
+ */
+export function handleDummyAiStep(gameId: string, playerId: number, forceAdvance: boolean) {
+  try {
+    const gameState = getGameState(gameId);
+    const state = gameState as unknown as GameState;
+    const player = state?.players.find(p => p.id === playerId);
+    if (!state || !player?.aiDifficulty || state.activePlayerId !== playerId || !state.isGameStarted || state.isRoundEndModalOpen) {
+      return;
+    }
+
+    const ctx = { actorId: playerId, shuffle: (cards: Card[]) => shuffleDeck(state, cards), getTokenDefinition, getCounterDefinition };
+    const step = forceAdvance
+      ? { actions: [], advancePhase: true }
+      : planAiStep(state, playerId, { ...ctx, difficulty: player.aiDifficulty, random: Math.random });
+    const turnBefore = captureTurnSnapshot(state);
+    const tableBefore = captureTable(gameState);
+    let applied = 0;
+    let score: ScoreBreakdown | undefined;
+
+    for (const action of step.actions) {
+      const event = describeGameAction(state, action, playerId);
+      const result = applyGameAction(state, action, ctx);
+      if (!result.success) {
+        logger.warn(`AI seat ${playerId} planned a rejected ${action.type} in game ${gameId}: ${result.error}`);
+        continue;
+      }
+      applied += 1;
+      score = result.score ?? score;
+      if (event) {
+        recordGameEvent(gameId, event);
+      }
+    }
+
+    if (step.usedAbility) {
+      const { coords, cardId, readyStatus } = step.usedAbility;
+      const card = state.board[coords.row]?.[coords.col]?.card;
+      if (card?.id === cardId) {
+        removeReadyStatus(card, readyStatus);
+      }
+    }
+
+    // A plan the rules turned down entirely would only be planned again
+    if (step.advancePhase || (step.actions.length > 0 && applied === 0 && !step.usedAbility)) {
+      const transition = advancePhase(state);
+      if (transition.drawnForPlayerId !== null) {
+        const drawnFor = transition.drawnForPlayerId;
+        recordGameEvent(gameId, { type: 'CARD_DRAWN', actorId: null, playerId: drawnFor, from: { zone: 'deck', playerId: drawnFor }, to: { zone: 'hand', playerId: drawnFor } });
+      }
+    }
+    describeTurnChanges(turnBefore, state, playerId).forEach(change => recordGameEvent(gameId, change));
+    recordRevision(gameState, tableBefore, playerId);
+
+    broadcastToGame(gameId, gameState);
+    sendScoreTexts(gameId, gameState, score);
+  } catch (error) {
+    logger.error('Failed to run AI step:', error);
+  }
+}
+
+/**
+ * Send what each scored card added, shown as floating texts on every client
+ */
+function sendScoreTexts(gameId: string, gameState, score?: ScoreBreakdown) {
+  if (!score || score.cells.length === 0) {
+    return;
+  }
+  const timestamp = Date.now();
+  const batch = score.cells.map((cell, i) => ({
+    row: cell.row,
+    col: cell.col,
+    text: `+${cell.points}`,
+    playerId: score.playerId,
+    timestamp: timestamp + i
+  }));
+  sendToGame(gameId, { type: 'FLOATING_TEXT_BATCH_TRIGGERED', batch },
+    client => !(client.isSpectator && isSpectatorDelayActive(gameState)));
+}
@@ -4,18 +4,30 @@
  */
 
 import { logger } from '../utils/logger.js';
+import { CONFIG } from '../utils/config.js';
 import {
   getGameState,
   createGameState,
   associateClientWithGame,
   removeClientAssociation,
   getGameIdForClient,
-  getAllGameLogs,
-  updateGameState,
-  logGameAction
+  getAllGameStates,
+  recordGameEvent,
+  addSpectator,
+  removeSpectator,
+  getSpectators
 } from '../services/gameState.js';
-import { broadcastToGame } from '../services/websocket.js';
-import { createNewPlayer, generatePlayerToken } from '../utils/deckUtils.js';
+import { broadcastToGame, sendGameStateToClient } from '../services/websocket.js';
+import { captureTable, recordRevision, clearUndoHistory } from '../services/undoHistory.js';
+import { sendChatHistory } from './chat.js';
+import { getCardDefinition, getTokenDefinition } from '../services/content.js';
+import { createNewPlayer, generatePlayerToken, revealShuffleSeed } from '../utils/deckUtils.js';
+import { generateSecureGameId } from '../utils/security.js';
+import { createInitialBoard } from '../utils/boardUtils.js';
+import { mergeClientState } from '../utils/stateMerge.js';
+import { resolveHiddenCardIds } from '../utils/visibility.js';
+import { captureTurnSnapshot, describeTurnChanges } from '../utils/gameEvents.js';
+import type { GameState } from '../types/types.js';
 import {
   handlePlayerLeave,
   cancelGameTermination,
@@ -27,9 +39,23 @@ import {
 
 const MAX_PLAYERS = 4;
 
+// In-play card state that is dropped when a card is shuffled back into its deck
+const TRANSIENT_CARD_FIELDS = [
+  'statuses',
+  'powerModifier',
+  'bonusPower',
+  'isFaceDown',
+  'revealedTo',
+  'enteredThisTurn',
+  'abilityUsedInPhase',
+  'deployAbilityConsumed',
+  'deployAttempted'
+];
+
 /**
  * Handle SUBSCRIBE message
- * Associates a client with a game and sends current state
+ * Joins a game as a spectator: the client receives the game without occupying a seat
+ * and with every hand hidden
  */
 export function handleSubscribe(ws, data) {
   try {
@@ -42,22 +68,81 @@ export function handleSubscribe(ws, data) {
       return;
     }
 
-    // Associate this client with the game
+    if (ws.playerId && getGameIdForClient(ws) === data.gameId) {
+      ws.send(JSON.stringify({
+        type: 'ERROR',
+        message: 'You already have a seat in this game'
+      }));
+      return;
+    }
+
+    // Associate this client with the game as a spectator
     associateClientWithGame(ws, data.gameId);
     ws.gameId = data.gameId;
+    ws.playerId = undefined;
+    ws.isSpectator = true;
+    removeSpectator(ws);
+    addSpectator(data.gameId, ws);
 
-    // Send the current game state to the client
-    broadcastToGame(data.gameId, gameState);
+    ws.send(JSON.stringify({
+      type: 'JOIN_SUCCESS',
+      gameId: data.gameId,
+      playerId: null,
+      isSpectator: true
+    }));
+    sendChatHistory(ws, data.gameId);
+    sendGameStateToClient(ws, gameState);
 
-    logger.info(`Client subscribed to game ${data.gameId}`);
+    logger.info(`Spectator subscribed to game ${data.gameId} (${getSpectators(data.gameId).length} watching)`);
   } catch (error) {
     logger.error('Failed to subscribe client to game:', error);
   }
 }
 
+/**
+ * Handle CREATE_GAME message
+ * Creates a new game on the server and seats the sender as host (Player 1)
+ */
+export function handleCreateGame(ws, data) {
+  try {
+    if (getAllGameStates().length >= CONFIG.MAX_ACTIVE_GAMES) {
+      ws.send(JSON.stringify({
+        type: 'ERROR',
+        message: 'Server is at capacity, please try again later'
+      }));
+      return;
+    }
+
+    const gameId = generateSecureGameId();
+    const gameState = createGameState(gameId, { isPrivate: data.isPrivate !== false });
+    const host = createNewPlayer(1);
+    gameState.players.push(host);
+
+    associateClientWithGame(ws, gameId);
+    ws.gameId = gameId;
+    ws.playerId = 1; // Host is always player 1 for new games
+
+    ws.send(JSON.stringify({
+      type: 'JOIN_SUCCESS',
+      gameId,
+      playerId: host.id,
+      playerToken: host.playerToken
+    }));
+    recordGameEvent(gameId, { type: 'PLAYER_JOINED', actorId: host.id });
+    broadcastToGame(gameId, gameState);
+    logger.info(`New game created: ${gameId}, host assigned playerId=1`);
+  } catch (error) {
+    logger.error('Failed to create game:', error);
+    ws.send(JSON.stringify({
+      type: 'ERROR',
+      message: 'Failed to create game'
+    }));
+  }
+}
+
 /**
  * Handle UPDATE_STATE message
- * Updates or creates game state from client
+ * Merges the parts of a client-submitted state the sender is allowed to change
  */
 export function handleUpdateState(ws, data) {
   try {
@@ -75,31 +160,62 @@ export function handleUpdateState(ws, data) {
     }
 
     const gameIdToUpdate = updatedGameState.gameId;
+    const existingGameState = gameIdToUpdate ? getGameState(gameIdToUpdate) : undefined;
 
-    if (!gameIdToUpdate) {
+    if (!existingGameState) {
       ws.send(JSON.stringify({
         type: 'ERROR',
-        message: 'Missing gameId in game state'
+        message: 'Game not found'
       }));
       return;
     }
 
-    const existingGameState = getGameState(gameIdToUpdate);
-    if (existingGameState) {
-      // Game exists, update it
-      Object.assign(existingGameState, updatedGameState);
-      associateClientWithGame(ws, gameIdToUpdate);
-      broadcastToGame(gameIdToUpdate, existingGameState);
-      logger.info(`State updated for game ${gameIdToUpdate}`);
-    } else {
-      // Game doesn't exist, create it
-      const newGameState = createGameState(gameIdToUpdate, updatedGameState);
-      associateClientWithGame(ws, gameIdToUpdate);
-      ws.gameId = gameIdToUpdate;
-      ws.playerId = 1; // Host is always player 1 for new games
-      broadcastToGame(gameIdToUpdate, newGameState);
-      logger.info(`New game created: ${gameIdToUpdate}, host assigned playerId=1`);
+    if (getGameIdForClient(ws) !== gameIdToUpdate || !ws.playerId) {
+      logger.warn(`Rejected state update for game ${gameIdToUpdate} from a client without a seat`);
+      ws.send(JSON.stringify({
+        type: 'ERROR',
+        message: 'Unauthorized: You are not a player in this game'
+      }));
+      return;
+    }
+
+    // The update must be built on the current revision; otherwise someone else's change
+    // landed in between and merging would silently overwrite it
+    if (updatedGameState.version !== existingGameState.version) {
+      logger.info(`Stale state update from player ${ws.playerId} in game ${gameIdToUpdate} (revision ${updatedGameState.version}, current ${existingGameState.version})`);
+      ws.send(JSON.stringify({
+        type: 'STATE_CONFLICT',
+        requestId: data.requestId,
+        baseVersion: updatedGameState.version,
+        version: existingGameState.version
+      }));
+      return;
     }
+
+    // Face-down cards arrive with the masked ids of the sender's view
+    resolveHiddenCardIds(existingGameState as unknown as GameState, updatedGameState);
+
+    const turnBefore = captureTurnSnapshot(existingGameState as unknown as GameState);
+    const tableBefore = captureTable(existingGameState);
+    const result = mergeClientState(existingGameState as unknown as GameState, updatedGameState, ws.playerId);
+    if (!result.success) {
+      logger.warn(`Rejected state update from player ${ws.playerId} in game ${gameIdToUpdate}: ${result.error}`);
+      ws.send(JSON.stringify({
+        type: 'ACTION_REJECTED',
+        actionType: 'UPDATE_STATE',
+        message: result.error
+      }));
+      // Roll the sender back to the authoritative state
+      sendGameStateToClient(ws, existingGameState);
+      return;
+    }
+
+    describeTurnChanges(turnBefore, existingGameState as unknown as GameState, ws.playerId)
+      .forEach(event => recordGameEvent(gameIdToUpdate, event));
+    recordRevision(existingGameState, tableBefore, ws.playerId);
+
+    broadcastToGame(gameIdToUpdate, existingGameState);
+    logger.info(`State updated for game ${gameIdToUpdate} by player ${ws.playerId}`);
   } catch (error) {
     logger.error('Failed to update game state:', error);
   }
@@ -122,9 +238,13 @@ export function handleJoinGame(ws, data) {
       return;
     }
 
-    // Store the game ID on the WebSocket connection
+    // Store the game ID on the WebSocket connection; a spectator taking a seat stops spectating
     ws.gameId = gameId;
     associateClientWithGame(ws, gameId);
+    if (ws.isSpectator) {
+      ws.isSpectator = false;
+      removeSpectator(ws);
+    }
 
     // --- 1. Reconnection Logic ---
     if (playerToken) {
@@ -136,7 +256,7 @@ export function handleJoinGame(ws, data) {
         ws.playerId = playerToReconnect.id;
 
         // Cancel any game termination timer
-        cancelGameTermination(gameId, getAllGameLogs());
+        cancelGameTermination(gameId);
 
         // Clear pending dummy conversion timer
         const timerKey = `${gameId}-${playerToReconnect.id}`;
@@ -147,10 +267,13 @@ export function handleJoinGame(ws, data) {
 
         ws.send(JSON.stringify({
           type: 'JOIN_SUCCESS',
+          gameId,
           playerId: playerToReconnect.id,
           playerToken: playerToReconnect.playerToken
         }));
+        sendChatHistory(ws, gameId);
         logger.info(`Player ${playerToReconnect.id} (${playerToReconnect.name}) reconnected to game ${gameId}`);
+        recordGameEvent(gameId, { type: 'PLAYER_RECONNECTED', actorId: playerToReconnect.id });
         broadcastToGame(gameId, gameState);
         return;
       }
@@ -164,7 +287,7 @@ export function handleJoinGame(ws, data) {
       playerToTakeOver.playerToken = generatePlayerToken();
 
       // Cancel any game termination timer
-      cancelGameTermination(gameId, getAllGameLogs());
+      cancelGameTermination(gameId);
 
       // Clear pending dummy conversion timer for the slot being taken over
       const timerKey = `${gameId}-${playerToTakeOver.id}`;
@@ -176,10 +299,13 @@ export function handleJoinGame(ws, data) {
       ws.playerId = playerToTakeOver.id;
       ws.send(JSON.stringify({
         type: 'JOIN_SUCCESS',
+        gameId,
         playerId: playerToTakeOver.id,
         playerToken: playerToTakeOver.playerToken
       }));
+      sendChatHistory(ws, gameId);
       logger.info(`New player took over slot ${playerToTakeOver.id} in game ${gameId}`);
+      recordGameEvent(gameId, { type: 'PLAYER_JOINED', actorId: playerToTakeOver.id });
       broadcastToGame(gameId, gameState);
       return;
     }
@@ -211,10 +337,13 @@ export function handleJoinGame(ws, data) {
     ws.playerId = newPlayerId;
     ws.send(JSON.stringify({
       type: 'JOIN_SUCCESS',
+      gameId,
       playerId: newPlayerId,
       playerToken: newPlayer.playerToken
     }));
+    sendChatHistory(ws, gameId);
     logger.info(`Player ${newPlayerId} (${newPlayer.name}) joined game ${gameId}`);
+    recordGameEvent(gameId, { type: 'PLAYER_JOINED', actorId: newPlayerId });
     broadcastToGame(gameId, gameState);
   } catch (error) {
     logger.error('Failed to join game:', error);
@@ -236,6 +365,14 @@ export async function handleExitGame(ws, data) {
       return;
     }
 
+    if (ws.isSpectator) {
+      ws.isSpectator = false;
+      removeSpectator(ws);
+      removeClientAssociation(ws);
+      logger.info(`Spectator left game ${gameId}`);
+      return;
+    }
+
     const gameState = getGameState(gameId);
     if (!gameState) {
       return;
@@ -252,8 +389,7 @@ export async function handleExitGame(ws, data) {
 
     if (isLeavingPlayerActive && activePlayers.length === 1) {
       // This was the last active human player - end the game immediately
-      const gameLogs = getAllGameLogs();
-      await endGame(gameId, 'last player left', gameLogs, ws.server?.clients?.wss);
+      await endGame(gameId, 'last player left', ws.server?.clients?.wss);
       logger.info(`Player ${playerId} exited - was last active player, ending game ${gameId}`);
     } else {
       // Other active players remain, mark as disconnected
@@ -262,10 +398,9 @@ export async function handleExitGame(ws, data) {
         gameId,
         playerId,
         true, // isManualExit - prevents dummy conversion timer
-        getAllGameLogs(),
         ws.server?.clients?.wss,
         broadcastToGame,
-        () => broadcastGamesList(getAllGameLogs(), ws.server?.clients?.wss)
+        () => broadcastGamesList(ws.server?.clients?.wss)
       );
       logger.info(`Player ${playerId} manually exited game ${gameId}`);
     }
@@ -278,14 +413,15 @@ export async function handleExitGame(ws, data) {
 
 /**
  * Handle FORCE_SYNC message
- * Host-only command to force sync game state to all clients
+ * Host-only command to refresh every card from the server's content database
+ * and push the result to all clients
  */
 export function handleForceSync(ws, data) {
   try {
-    const { gameState: hostGameState } = data;
-    const gameIdToSync = hostGameState ? hostGameState.gameId : null;
+    const gameIdToSync = data.gameId;
+    const gameState = gameIdToSync ? getGameState(gameIdToSync) : undefined;
 
-    if (!gameIdToSync || !getGameState(gameIdToSync)) {
+    if (!gameState) {
       ws.send(JSON.stringify({
         type: 'ERROR',
         message: 'Game not found'
@@ -294,7 +430,7 @@ export function handleForceSync(ws, data) {
     }
 
     // Only the host (player 1) can force a sync
-    if (ws.playerId !== 1) {
+    if (ws.playerId !== 1 || getGameIdForClient(ws) !== gameIdToSync) {
       logger.warn(`Non-host player ${ws.playerId} attempted to force sync game ${gameIdToSync}`);
       ws.send(JSON.stringify({
         type: 'ERROR',
@@ -304,17 +440,122 @@ export function handleForceSync(ws, data) {
     }
 
     // Reset inactivity timer
-    resetInactivityTimer(gameIdToSync, getAllGameLogs(), ws.server?.clients?.wss);
+    resetInactivityTimer(gameIdToSync, ws.server?.clients?.wss);
 
-    // Update game state
-    updateGameState(gameIdToSync, hostGameState);
-    logGameAction(gameIdToSync, `Host (Player 1) forced a game state synchronization.`);
+    const refreshCard = (card) => {
+      if (!card?.baseId) {
+        return card;
+      }
+      const definition = getCardDefinition(card.baseId) || getTokenDefinition(card.baseId);
+      return definition ? { ...card, ...definition } : card;
+    };
+
+    gameState.players.forEach(player => {
+      player.hand = player.hand.map(refreshCard);
+      player.deck = player.deck.map(refreshCard);
+      player.discard = player.discard.map(refreshCard);
+      if (player.announcedCard) {
+        player.announcedCard = refreshCard(player.announcedCard);
+      }
+    });
+    gameState.board.forEach(row => row.forEach(cell => {
+      if (cell.card) {
+        cell.card = refreshCard(cell.card);
+      }
+    }));
 
+    recordGameEvent(gameIdToSync, { type: 'GAME_SYNCED', actorId: ws.playerId });
     logger.info(`Host forcing sync for game ${gameIdToSync}`);
 
     // Broadcast to ALL clients, including the host to confirm
-    broadcastToGame(gameIdToSync, hostGameState);
+    broadcastToGame(gameIdToSync, gameState);
   } catch (error) {
     logger.error('Failed to force sync:', error);
   }
 }
+
+/**
+ * Handle RESET_GAME message
+ * Host-only command to return every card to its owner's deck and go back to the lobby
+ */
+export function handleResetGame(ws, data) {
+  try {
+    const { gameId } = data;
+    const gameState = getGameState(gameId);
+
+    if (!gameState) {
+      ws.send(JSON.stringify({
+        type: 'ERROR',
+        message: 'Game not found'
+      }));
+      return;
+    }
+
+    if (ws.playerId !== 1 || getGameIdForClient(ws) !== gameId) {
+      logger.warn(`Non-host player ${ws.playerId} attempted to reset game ${gameId}`);
+      ws.send(JSON.stringify({
+        type: 'ERROR',
+        message: 'Unauthorized: Only host can reset the game'
+      }));
+      return;
+    }
+
+    // Gather each player's cards from every zone; tokens do not go back into decks
+    const ownedCards = new Map(gameState.players.map(p => [p.id, []]));
+    const collect = (card) => {
+      if (card && card.deck !== 'Tokens' && card.deck !== 'counter' && ownedCards.has(card.ownerId)) {
+        const cleanCard = { ...card };
+        TRANSIENT_CARD_FIELDS.forEach(field => delete cleanCard[field]);
+        ownedCards.get(card.ownerId).push(cleanCard);
+      }
+    };
+    gameState.board.forEach(row => row.forEach(cell => collect(cell.card)));
+    gameState.players.forEach(player => {
+      [...player.hand, ...player.deck, ...player.discard, player.announcedCard].forEach(collect);
+    });
+
+    gameState.players = gameState.players.map(player => ({
+      ...player,
+      hand: [],
+      deck: ownedCards.get(player.id),
+      discard: [],
+      announcedCard: null,
+      score: 0,
+      isReady: false,
+      boardHistory: []
+    }));
+    Object.assign(gameState, {
+      board: createInitialBoard(),
+      isGameStarted: false,
+      isReadyCheckActive: false,
+      revealRequests: [],
+      undoRequest: null,
+      activePlayerId: null,
+      startingPlayerId: null,
+      currentPhase: 0,
+      isScoringStep: false,
+      currentRound: 1,
+      turnNumber: 1,
+      roundEndTriggered: false,
+      roundWinners: {},
+      gameWinner: null,
+      gameWinners: [],
+      isRoundEndModalOpen: false,
+      turnClock: null,
+      shuffleCommitment: null,
+      shuffleCount: 0
+    });
+
+    clearUndoHistory(gameId);
+    recordGameEvent(gameId, { type: 'GAME_RESET', actorId: ws.playerId });
+    // The next match gets a new seed, so this one's can be checked now
+    const shuffleSeed = revealShuffleSeed(gameState as unknown as GameState);
+    if (shuffleSeed) {
+      recordGameEvent(gameId, { type: 'SHUFFLE_SEED_REVEALED', actorId: null, text: shuffleSeed });
+    }
+    broadcastToGame(gameId, gameState);
+    logger.info(`Game ${gameId} reset by host`);
+  } catch (error) {
+    logger.error('Failed to reset game:', error);
+  }
+}
@@ -1,11 +1,16 @@
 /**
  * @file Game settings handlers
- * Handles game mode, privacy, and team assignments
+ * Handles game mode, privacy, team assignments, spectator delay, match rules and time controls
  */
 
 import { logger } from '../utils/logger.js';
+import { CONFIG } from '../utils/config.js';
+import { createPlayerView } from '../utils/visibility.js';
 import { getGameState } from '../services/gameState.js';
-import { broadcastToGame } from '../services/websocket.js';
+import { broadcastToGame, sendToSpectators } from '../services/websocket.js';
+import { isSpectatorDelayActive, startSpectatorDelay, clearSpectatorDelay } from '../services/spectatorDelay.js';
+import { getMatchRulesError } from '../utils/matchRules.js';
+import type { GameState } from '../types/types.js';
 
 /**
  * Handle SET_GAME_MODE message
@@ -153,8 +158,160 @@ export function handleSetGridSize(ws, data) {
 
     gameState.activeGridSize = gridSize;
     broadcastToGame(gameId, gameState);
-    logger.info(`Grid size set to ${gridSize.rows}x${gridSize.cols} for game ${gameId}`);
+    logger.info(`Grid size set to ${gridSize}x${gridSize} for game ${gameId}`);
   } catch (error) {
     logger.error('Failed to set grid size:', error);
   }
 }
+
+/**
+ * Handle SET_SPECTATOR_DELAY message
+ * Host-only: sets how many seconds spectators watch behind real time (0 = live)
+ */
+export function handleSetSpectatorDelay(ws, data) {
+  try {
+    const { gameId, seconds } = data;
+    const gameState = getGameState(gameId);
+
+    if (!gameState) {
+      ws.send(JSON.stringify({
+        type: 'ERROR',
+        message: 'Game not found'
+      }));
+      return;
+    }
+
+    if (ws.playerId !== 1) {
+      ws.send(JSON.stringify({
+        type: 'ERROR',
+        message: 'Only the host can change the spectator delay'
+      }));
+      return;
+    }
+
+    if (seconds !== 0 && (seconds < CONFIG.MIN_SPECTATOR_DELAY_SECONDS || seconds > CONFIG.MAX_SPECTATOR_DELAY_SECONDS)) {
+      ws.send(JSON.stringify({
+        type: 'ERROR',
+        message: `Spectator delay must be 0 or between ${CONFIG.MIN_SPECTATOR_DELAY_SECONDS} and ${CONFIG.MAX_SPECTATOR_DELAY_SECONDS} seconds`
+      }));
+      return;
+    }
+
+    if (seconds === 0) {
+      // Spectators catch up with the live game on the broadcast below
+      clearSpectatorDelay(gameId);
+    } else if (!isSpectatorDelayActive(gameState)) {
+      // Spectators keep what they already saw until views older than the delay are released
+      const currentView = JSON.parse(JSON.stringify(createPlayerView(gameState as unknown as GameState, null)));
+      startSpectatorDelay(gameId, currentView, view => sendToSpectators(gameId, view));
+    }
+
+    gameState.spectatorDelay = seconds;
+    broadcastToGame(gameId, gameState);
+    logger.info(`Spectator delay set to ${seconds}s for game ${gameId}`);
+  } catch (error) {
+    logger.error('Failed to set spectator delay:', error);
+  }
+}
+
+/**
+ * Handle SET_MATCH_RULES message
+ * Host-only: sets the round targets, round count, wins needed and tie-break before the game starts
+ */
+export function handleSetMatchRules(ws, data) {
+  try {
+    const { gameId, rules } = data;
+    const gameState = getGameState(gameId);
+
+    if (!gameState) {
+      ws.send(JSON.stringify({
+        type: 'ERROR',
+        message: 'Game not found'
+      }));
+      return;
+    }
+
+    if (ws.playerId !== 1) {
+      ws.send(JSON.stringify({
+        type: 'ERROR',
+        message: 'Only the host can change the match rules'
+      }));
+      return;
+    }
+
+    if (gameState.isGameStarted) {
+      ws.send(JSON.stringify({
+        type: 'ERROR',
+        message: 'Cannot change match rules after game has started'
+      }));
+      return;
+    }
+
+    const error = getMatchRulesError(rules);
+    if (error) {
+      ws.send(JSON.stringify({
+        type: 'ERROR',
+        message: error
+      }));
+      return;
+    }
+
+    gameState.matchRules = {
+      roundTargets: rules.roundTargets,
+      maxRounds: rules.maxRounds,
+      winsNeeded: rules.winsNeeded,
+      finalRoundTurnLimit: rules.finalRoundTurnLimit,
+      tieBreak: rules.tieBreak
+    };
+    broadcastToGame(gameId, gameState);
+    logger.info(`Match rules updated for game ${gameId}`);
+  } catch (error) {
+    logger.error('Failed to set match rules:', error);
+  }
+}
+
+/**
+ * Handle SET_TIME_CONTROLS message
+ * Host-only: sets the turn limit, time bank, increment and timeout behavior before the game starts
+ */
+export function handleSetTimeControls(ws, data) {
+  try {
+    const { gameId, controls } = data;
+    const gameState = getGameState(gameId);
+
+    if (!gameState) {
+      ws.send(JSON.stringify({
+        type: 'ERROR',
+        message: 'Game not found'
+      }));
+      return;
+    }
+
+    if (ws.playerId !== 1) {
+      ws.send(JSON.stringify({
+        type: 'ERROR',
+        message: 'Only the host can change the time controls'
+      }));
+      return;
+    }
+
+    if (gameState.isGameStarted) {
+      ws.send(JSON.stringify({
+        type: 'ERROR',
+        message: 'Cannot change time controls after game has started'
+      }));
+      return;
+    }
+
+    gameState.timeControls = {
+      turnLimitSeconds: controls.turnLimitSeconds,
+      bankSeconds: controls.bankSeconds,
+      incrementSeconds: controls.incrementSeconds,
+      onTimeout: controls.onTimeout
+    };
+    broadcastToGame(gameId, gameState);
+    logger.info(`Time controls updated for game ${gameId}`);
+  } catch (error) {
+    logger.error('Failed to set time controls:', error);
+  }
+}
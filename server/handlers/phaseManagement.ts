@@ -1,11 +1,16 @@
 /**
  * @file Phase management handlers
- * Handles turn phase navigation and auto-abilities toggle
+ * Handles turn phase navigation, turn timeouts and auto-abilities toggle
  */
 
 import { logger } from '../utils/logger.js';
-import { getGameState } from '../services/gameState.js';
+import { getGameState, getGameIdForClient, recordGameEvent } from '../services/gameState.js';
 import { broadcastToGame } from '../services/websocket.js';
+import { canControlPlayer, HOST_PLAYER_ID, isActorsTurn } from '../utils/gameActions.js';
+import { captureTurnSnapshot, describeTurnChanges } from '../utils/gameEvents.js';
+import { advancePhase, autoDrawForTurn, endTurn, forfeitRound, retreatPhase, setPhase, TURN_PHASE_COUNT } from '../utils/turnEngine.js';
+import { getTimeControls, isTimed } from '../utils/turnClock.js';
+import type { GameState } from '../types/types.js';
 
 /**
  * Handle TOGGLE_AUTO_ABILITIES message
@@ -14,13 +19,8 @@ import { broadcastToGame } from '../services/websocket.js';
 export function handleToggleAutoAbilities(ws, data) {
   try {
     const { gameId, enabled } = data;
-    const gameState = getGameState(gameId);
-
+    const gameState = getSeatedGame(ws, data);
     if (!gameState) {
-      ws.send(JSON.stringify({
-        type: 'ERROR',
-        message: 'Game not found'
-      }));
       return;
     }
 
@@ -48,13 +48,8 @@ export function handleToggleAutoAbilities(ws, data) {
 export function handleToggleAutoDraw(ws, data) {
   try {
     const { gameId, playerId, enabled } = data;
-    const gameState = getGameState(gameId);
-
+    const gameState = getSeatedGame(ws, data);
     if (!gameState) {
-      ws.send(JSON.stringify({
-        type: 'ERROR',
-        message: 'Game not found'
-      }));
       return;
     }
 
@@ -77,6 +72,14 @@ export function handleToggleAutoDraw(ws, data) {
       return;
     }
 
+    if (!canControlPlayer(gameState as unknown as GameState, ws.playerId, playerId)) {
+      ws.send(JSON.stringify({
+        type: 'ERROR',
+        message: 'Unauthorized: You can only change auto-draw for your own seat or a dummy'
+      }));
+      return;
+    }
+
     player.autoDrawEnabled = enabled;
     broadcastToGame(gameId, gameState);
     logger.info(`Auto-draw ${enabled ? 'enabled' : 'disabled'} for player ${playerId} in game ${gameId}`);
@@ -92,12 +95,24 @@ export function handleToggleAutoDraw(ws, data) {
 export function handleToggleActivePlayer(ws, data) {
   try {
     const { gameId, playerId } = data;
-    const gameState = getGameState(gameId);
-
+    const gameState = getSeatedGame(ws, data);
     if (!gameState) {
+      return;
+    }
+
+    const state = gameState as unknown as GameState;
+    let error: string | null = null;
+    if (ws.playerId !== HOST_PLAYER_ID && !isActorsTurn(state, ws.playerId)) {
+      error = 'Only the host or the active player can change the active player';
+    } else if (gameState.isGameStarted && isTimed(getTimeControls(state))) {
+      // A new active player would restart the turn clock; timed turns pass through the phases
+      error = 'The active player cannot be changed in a timed game';
+    }
+    if (error) {
       ws.send(JSON.stringify({
-        type: 'ERROR',
-        message: 'Game not found'
+        type: 'ACTION_REJECTED',
+        actionType: data.type,
+        message: error
       }));
       return;
     }
@@ -110,32 +125,18 @@ export function handleToggleActivePlayer(ws, data) {
     } else {
       gameState.activePlayerId = playerId;
 
-      // Auto-draw for the new active player
-      // For dummy players: check if host (Player 1) has auto-draw enabled
-      // For real players: check their own auto-draw setting
-      const newActivePlayer = gameState.players.find(p => p.id === playerId);
-      if (newActivePlayer && newActivePlayer.deck.length > 0) {
-        let shouldDraw = false
-
-        if (newActivePlayer.isDummy) {
-          // Dummy players draw if host (Player 1) has auto-draw enabled
-          const hostPlayer = gameState.players.find(p => p.id === 1)
-          shouldDraw = hostPlayer?.autoDrawEnabled === true
-        } else {
-          // Real players draw if they have auto-draw enabled
-          shouldDraw = newActivePlayer.autoDrawEnabled === true
-        }
-
-        if (shouldDraw) {
-          // Draw 1 card from deck to hand
-          const drawnCard = newActivePlayer.deck[0];
-          newActivePlayer.deck.splice(0, 1);
-          newActivePlayer.hand.push(drawnCard);
-          logger.info(`Auto-drew card for player ${playerId} (dummy: ${newActivePlayer.isDummy}) in game ${gameId}`);
-        }
+      if (autoDrawForTurn(state, playerId)) {
+        recordGameEvent(gameId, { type: 'CARD_DRAWN', actorId: null, playerId, from: { zone: 'deck', playerId }, to: { zone: 'hand', playerId } });
+        logger.info(`Auto-drew card for player ${playerId} in game ${gameId}`);
       }
     }
 
+    recordGameEvent(gameId, {
+      type: 'ACTIVE_PLAYER_CHANGED',
+      actorId: ws.playerId ?? null,
+      before: previousActivePlayerId ?? null,
+      after: gameState.activePlayerId ?? null
+    });
     broadcastToGame(gameId, gameState);
     logger.info(`Active player changed to ${gameState.activePlayerId || 'none'} in game ${gameId}`);
   } catch (error) {
@@ -143,40 +144,90 @@ export function handleToggleActivePlayer(ws, data) {
   }
 }
 
+/**
+ * Look up a game for a request from a client seated in it
+ * @returns The game state, or null after replying with the reason
+ */
+function getSeatedGame(ws, data) {
+  const { gameId } = data;
+  const gameState = getGameState(gameId);
+
+  if (!gameState) {
+    ws.send(JSON.stringify({
+      type: 'ERROR',
+      message: 'Game not found'
+    }));
+    return null;
+  }
+
+  if (getGameIdForClient(ws) !== gameId || !ws.playerId || !gameState.players.some(p => p.id === ws.playerId)) {
+    ws.send(JSON.stringify({
+      type: 'ERROR',
+      message: 'Unauthorized: You are not a player in this game'
+    }));
+    return null;
+  }
+
+  return gameState;
+}
+
+/**
+ * Look up a started game for a turn transition requested by a seated player whose turn it is
+ * @returns The game state, or null after replying with the reason
+ */
+function getTurnGame(ws, data) {
+  const gameState = getSeatedGame(ws, data);
+  if (!gameState) {
+    return null;
+  }
+
+  let error: string | null = null;
+  if (!gameState.isGameStarted) {
+    error = 'Game has not started';
+  } else if (gameState.isRoundEndModalOpen) {
+    error = 'The round is waiting for confirmation';
+  } else if (!isActorsTurn(gameState as unknown as GameState, ws.playerId)) {
+    error = 'Only the active player can change the phase';
+  }
+  if (error) {
+    ws.send(JSON.stringify({
+      type: 'ACTION_REJECTED',
+      actionType: data.type,
+      message: error
+    }));
+    return null;
+  }
+
+  return gameState;
+}
+
 /**
  * Handle NEXT_PHASE message
- * Advances to the next turn phase
+ * Advances to the next turn phase, the scoring step or the next player's turn
  */
 export function handleNextPhase(ws, data) {
   try {
-    const { gameId } = data;
-    const gameState = getGameState(gameId);
-
+    const gameState = getTurnGame(ws, data);
     if (!gameState) {
-      ws.send(JSON.stringify({
-        type: 'ERROR',
-        message: 'Game not found'
-      }));
-      return;
-    }
-
-    if (!gameState.isGameStarted) {
-      ws.send(JSON.stringify({
-        type: 'ERROR',
-        message: 'Game has not started'
-      }));
       return;
     }
 
-    // Get current phase index or default to 0
-    const currentPhaseIndex = gameState.currentPhaseIndex || 0;
-    const maxPhases = gameState.turnPhases?.length || 5;
+    const { gameId } = data;
+    const state = gameState as unknown as GameState;
+    const turnBefore = captureTurnSnapshot(state);
+    const transition = advancePhase(state);
 
-    // Advance to next phase, wrapping around
-    gameState.currentPhaseIndex = (currentPhaseIndex + 1) % maxPhases;
+    if (transition.drawnForPlayerId !== null) {
+      const playerId = transition.drawnForPlayerId;
+      recordGameEvent(gameId, { type: 'CARD_DRAWN', actorId: null, playerId, from: { zone: 'deck', playerId }, to: { zone: 'hand', playerId } });
+    }
+    describeTurnChanges(turnBefore, state, ws.playerId).forEach(change => recordGameEvent(gameId, change));
+    if (transition.roundEnded) {
+      logger.info(`Round ${gameState.currentRound} ended in game ${gameId}`);
+    }
 
     broadcastToGame(gameId, gameState);
-    logger.info(`Phase advanced to ${gameState.currentPhaseIndex} in game ${gameId}`);
+    logger.info(`Phase advanced to ${gameState.isScoringStep ? 'scoring' : gameState.currentPhase} in game ${gameId}`);
   } catch (error) {
     logger.error('Failed to advance phase:', error);
   }
@@ -184,38 +235,23 @@ export function handleNextPhase(ws, data) {
 
 /**
  * Handle PREV_PHASE message
- * Goes back to the previous turn phase
+ * Goes back to the previous phase of the current turn
  */
 export function handlePrevPhase(ws, data) {
   try {
-    const { gameId } = data;
-    const gameState = getGameState(gameId);
-
+    const gameState = getTurnGame(ws, data);
     if (!gameState) {
-      ws.send(JSON.stringify({
-        type: 'ERROR',
-        message: 'Game not found'
-      }));
-      return;
-    }
-
-    if (!gameState.isGameStarted) {
-      ws.send(JSON.stringify({
-        type: 'ERROR',
-        message: 'Game has not started'
-      }));
       return;
     }
 
-    // Get current phase index or default to 0
-    const currentPhaseIndex = gameState.currentPhaseIndex || 0;
-    const maxPhases = gameState.turnPhases?.length || 5;
-
-    // Go to previous phase, wrapping around
-    gameState.currentPhaseIndex = (currentPhaseIndex - 1 + maxPhases) % maxPhases;
+    const { gameId } = data;
+    const state = gameState as unknown as GameState;
+    const turnBefore = captureTurnSnapshot(state);
+    retreatPhase(state);
+    describeTurnChanges(turnBefore, state, ws.playerId).forEach(change => recordGameEvent(gameId, change));
 
     broadcastToGame(gameId, gameState);
-    logger.info(`Phase retreated to ${gameState.currentPhaseIndex} in game ${gameId}`);
+    logger.info(`Phase retreated to ${gameState.currentPhase} in game ${gameId}`);
   } catch (error) {
     logger.error('Failed to retreat phase:', error);
   }
@@ -223,53 +259,67 @@ export function handlePrevPhase(ws, data) {
 
 /**
  * Handle SET_PHASE message
- * Sets the turn phase to a specific index
+ * Jumps to a phase of the current turn
  */
 export function handleSetPhase(ws, data) {
   try {
-    const { gameId, phaseIndex } = data;
-    const gameState = getGameState(gameId);
-
+    const gameState = getTurnGame(ws, data);
     if (!gameState) {
-      ws.send(JSON.stringify({
-        type: 'ERROR',
-        message: 'Game not found'
-      }));
       return;
     }
 
-    if (!gameState.isGameStarted) {
+    const { gameId, phaseIndex } = data;
+    const state = gameState as unknown as GameState;
+    const turnBefore = captureTurnSnapshot(state);
+
+    if (!setPhase(state, phaseIndex)) {
       ws.send(JSON.stringify({
         type: 'ERROR',
-        message: 'Game has not started'
+        message: `Invalid phase index. Must be between 0 and ${TURN_PHASE_COUNT - 1}`
       }));
       return;
     }
+    describeTurnChanges(turnBefore, state, ws.playerId).forEach(change => recordGameEvent(gameId, change));
 
-    // Validate phaseIndex is numeric
-    const numericPhaseIndex = Number(phaseIndex);
-    if (!Number.isInteger(numericPhaseIndex) || Number.isNaN(numericPhaseIndex)) {
-      ws.send(JSON.stringify({
-        type: 'ERROR',
-        message: 'Invalid phase index; must be an integer'
-      }));
+    broadcastToGame(gameId, gameState);
+    logger.info(`Phase set to ${phaseIndex} in game ${gameId}`);
+  } catch (error) {
+    logger.error('Failed to set phase:', error);
+  }
+}
+
+/**
+ * Handle a turn clock running out
+ * Called by the turn timer rather than a client; applies the game's timeout behavior
+ */
+export function handleTurnTimeout(gameId: string, playerId: number, startedAt: number) {
+  try {
+    const gameState = getGameState(gameId);
+    const state = gameState as unknown as GameState;
+    const clock = state?.turnClock;
+    if (!clock || clock.playerId !== playerId || clock.startedAt !== startedAt || clock.isExpired) {
       return;
     }
 
-    const maxPhases = gameState.turnPhases?.length || 5;
+    clock.isExpired = true;
+    const { onTimeout } = getTimeControls(state);
+    recordGameEvent(gameId, { type: 'TURN_TIMED_OUT', actorId: null, playerId, text: onTimeout });
 
-    if (numericPhaseIndex < 0 || numericPhaseIndex >= maxPhases) {
-      ws.send(JSON.stringify({
-        type: 'ERROR',
-        message: `Invalid phase index. Must be between 0 and ${maxPhases - 1}`
-      }));
-      return;
+    if (onTimeout === 'autoAdvance') {
+      const turnBefore = captureTurnSnapshot(state);
+      const transition = endTurn(state);
+      if (transition.drawnForPlayerId !== null) {
+        const drawnFor = transition.drawnForPlayerId;
+        recordGameEvent(gameId, { type: 'CARD_DRAWN', actorId: null, playerId: drawnFor, from: { zone: 'deck', playerId: drawnFor }, to: { zone: 'hand', playerId: drawnFor } });
+      }
+      describeTurnChanges(turnBefore, state, null).forEach(change => recordGameEvent(gameId, change));
+    } else if (onTimeout === 'forfeitRound') {
+      forfeitRound(state, playerId);
     }
 
-    gameState.currentPhaseIndex = numericPhaseIndex;
     broadcastToGame(gameId, gameState);
-    logger.info(`Phase set to ${numericPhaseIndex} in game ${gameId}`);
+    logger.info(`Player ${playerId} ran out of time in game ${gameId} (${onTimeout})`);
   } catch (error) {
-    logger.error('Failed to set phase:', error);
+    logger.error('Failed to handle turn timeout:', error);
   }
 }
@@ -4,8 +4,9 @@
  */
 
 import { logger } from '../utils/logger.js';
-import { getGameState } from '../services/gameState.js';
-import { sanitizePlayerName } from '../utils/security.js';
+import { getGameState, getGameIdForClient, getGameLogs, getSpectators, recordGameEvent } from '../services/gameState.js';
+import { isSpectatorDelayActive } from '../services/spectatorDelay.js';
+import { sanitizePlayerName, sanitizeString } from '../utils/security.js';
 import { broadcastToGame } from '../services/websocket.js';
 
 /**
@@ -90,52 +91,6 @@ export function handleChangePlayerColor(ws, data) {
   }
 }
 
-/**
- * Handle UPDATE_PLAYER_SCORE message
- * Updates a player's score
- */
-export function handleUpdatePlayerScore(ws, data) {
-  try {
-    const { gameId, playerId, score } = data;
-    const gameState = getGameState(gameId);
-
-    if (!gameState) {
-      ws.send(JSON.stringify({
-        type: 'ERROR',
-        message: 'Game not found'
-      }));
-      return;
-    }
-
-    const player = gameState.players.find(p => p.id === playerId);
-    if (!player) {
-      logger.warn(`Player ${playerId} not found in game ${gameId}`);
-      ws.send(JSON.stringify({
-        type: 'ERROR',
-        message: 'Player not found'
-      }));
-      return;
-    }
-
-    // Validate score is a finite number and non-negative
-    const numericScore = Number(score);
-    if (!Number.isFinite(numericScore) || numericScore < 0) {
-      logger.warn(`Invalid score value ${score} for player ${playerId} in game ${gameId}`);
-      ws.send(JSON.stringify({
-        type: 'ERROR',
-        message: 'Invalid score value'
-      }));
-      return;
-    }
-
-    player.score = numericScore;
-    broadcastToGame(gameId, gameState);
-    logger.info(`Player ${playerId} score updated to ${numericScore} in game ${gameId}`);
-  } catch (error) {
-    logger.error('Failed to update player score:', error);
-  }
-}
-
 /**
  * Handle CHANGE_PLAYER_DECK message
  * Changes a player's selected deck (before game starts)
@@ -275,9 +230,55 @@ export function handleSetDummyPlayerCount(ws, data) {
   }
 }
 
+/**
+ * Handle SET_DUMMY_AI message
+ * Hands a dummy seat to the built-in AI at the given difficulty, or takes it back with null
+ */
+export function handleSetDummyAi(ws, data) {
+  try {
+    const { gameId, playerId, difficulty } = data;
+    const gameState = getGameState(gameId);
+
+    if (!gameState) {
+      ws.send(JSON.stringify({
+        type: 'ERROR',
+        message: 'Game not found'
+      }));
+      return;
+    }
+
+    if (ws.playerId !== 1) {
+      ws.send(JSON.stringify({
+        type: 'ERROR',
+        message: 'Only the host can assign the AI to dummy players'
+      }));
+      return;
+    }
+
+    const player = gameState.players.find(p => p.id === playerId);
+    if (!player?.isDummy) {
+      ws.send(JSON.stringify({
+        type: 'ERROR',
+        message: 'The AI can only play dummy players'
+      }));
+      return;
+    }
+
+    if (difficulty) {
+      player.aiDifficulty = difficulty;
+    } else {
+      delete player.aiDifficulty;
+    }
+    logger.info(`AI ${difficulty || 'off'} for player ${playerId} in game ${gameId}`);
+    broadcastToGame(gameId, gameState);
+  } catch (error) {
+    logger.error('Failed to set dummy AI:', error);
+  }
+}
+
 /**
  * Handle LOG_GAME_ACTION message
- * Logs a game action to the game log
+ * Adds a free-text note from a player to the game's event log
  */
 export function handleLogGameAction(ws, data) {
   try {
@@ -288,30 +289,47 @@ export function handleLogGameAction(ws, data) {
       return;
     }
 
-    logger.info(`Game action logged for ${gameId}: ${action}`);
-    // Game logs are stored in the gameState.gameLog array
-    if (!gameState.gameLog) {
-      gameState.gameLog = [];
-    }
-    gameState.gameLog.push({
-      timestamp: Date.now(),
-      action
-    });
-
-    // Keep only last 1000 log entries to prevent unbounded memory growth
-    if (gameState.gameLog.length > 1000) {
-      gameState.gameLog = gameState.gameLog.slice(-1000);
+    const text = sanitizeString(action).trim();
+    if (!text) {
+      return;
     }
 
+    logger.info(`Game action logged for ${gameId}: ${text}`);
+    recordGameEvent(gameId, { type: 'NOTE', actorId: ws.playerId ?? null, text });
+
     broadcastToGame(gameId, gameState);
   } catch (error) {
     logger.error('Failed to log game action:', error);
   }
 }
 
+/**
+ * Whether a client is seated in or watching the game
+ */
+function isInGame(ws, gameId, gameState) {
+  if (getGameIdForClient(ws) !== gameId) {
+    return false;
+  }
+  return ws.isSpectator
+    ? getSpectators(gameId).includes(ws)
+    : gameState.players.some(p => p.id === ws.playerId);
+}
+
+/**
+ * Whether a client may read an event of the game's log
+ * The log only names cards every player can see, so seats read all of it; spectators of a
+ * delayed game only read events older than the delay
+ */
+function canReadEvent(ws, gameState, event, now) {
+  if (!ws.isSpectator || !isSpectatorDelayActive(gameState)) {
+    return true;
+  }
+  return event.timestamp <= now - gameState.spectatorDelay * 1000;
+}
+
 /**
  * Handle GET_GAME_LOGS message
- * Returns the game log for the specified game
+ * Returns the event log of the specified game to its players and spectators, each getting the events they may read
  */
 export function handleGetGameLogs(ws, data) {
   try {
@@ -326,10 +344,21 @@ export function handleGetGameLogs(ws, data) {
       return;
     }
 
+    if (!isInGame(ws, gameId, gameState)) {
+      ws.send(JSON.stringify({
+        type: 'ERROR',
+        message: 'Only players and spectators of this game can read its log'
+      }));
+      return;
+    }
+
+    const now = Date.now();
+    const logs = getGameLogs(gameId).filter(event => canReadEvent(ws, gameState, event, now));
+
     ws.send(JSON.stringify({
       type: 'GAME_LOGS',
       gameId,
-      logs: gameState.gameLog || []
+      logs
     }));
   } catch (error) {
     logger.error('Failed to get game logs:', error);
@@ -4,8 +4,11 @@
  */
 
 import { logger } from '../utils/logger.js';
-import { getGameState } from '../services/gameState.js';
+import { getGameState, recordGameEvent } from '../services/gameState.js';
 import { broadcastToGame } from '../services/websocket.js';
+import { resetTimeBanks } from '../utils/turnClock.js';
+import { shuffleDeck, startShuffleSeed } from '../utils/deckUtils.js';
+import type { GameState } from '../types/types.js';
 
 /**
  * Handle START_READY_CHECK message
@@ -137,6 +140,15 @@ export function handlePlayerReady(ws, data) {
       gameState.isGameStarted = true;
       gameState.startingPlayerId = activePlayers[0].id;
       gameState.activePlayerId = activePlayers[0].id;
+      resetTimeBanks(gameState as unknown as GameState);
+
+      // Decks come from the lobby in any order; sorted by card id first, the opening
+      // shuffles can be redone from the seed alone
+      const shuffleCommitment = startShuffleSeed(gameState as unknown as GameState);
+      for (const player of gameState.players) {
+        const sortedDeck = [...player.deck].sort((a, b) => a.id.localeCompare(b.id));
+        player.deck = shuffleDeck(gameState as unknown as GameState, sortedDeck);
+      }
 
       // Draw starting hands for players with auto-draw enabled
       // First player (active) draws 7 cards, others draw 6
@@ -183,6 +195,8 @@ export function handlePlayerReady(ws, data) {
         logger.info(`Auto-drew ${cardsToDraw} cards for player ${player.id} (dummy: ${player.isDummy})`);
       }
 
+      recordGameEvent(data.gameId, { type: 'GAME_STARTED', actorId: null });
+      recordGameEvent(data.gameId, { type: 'SHUFFLE_SEED_COMMITTED', actorId: null, text: shuffleCommitment });
       logger.info(`All players ready! Starting game ${data.gameId}`);
     }
 
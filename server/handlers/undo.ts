@@ -0,0 +1,167 @@
+/**
+ * @file Undo handlers
+ * Lets the active player take back and redo their own actions within the current phase
+ */
+
+import { logger } from '../utils/logger.js';
+import { getGameState, getGameIdForClient, recordGameEvent } from '../services/gameState.js';
+import { broadcastToGame } from '../services/websocket.js';
+import { getUndoError, getUndoApprovers, undoRevision, getRedoError, redoRevision } from '../services/undoHistory.js';
+
+/**
+ * Find the game of a seated sender, replying with an error if there is none
+ */
+function getSeatedGame(ws, gameId) {
+  const gameState = getGameState(gameId);
+
+  if (!gameState) {
+    ws.send(JSON.stringify({
+      type: 'ERROR',
+      message: 'Game not found'
+    }));
+    return null;
+  }
+
+  if (getGameIdForClient(ws) !== gameId || !ws.playerId) {
+    ws.send(JSON.stringify({
+      type: 'ERROR',
+      message: 'Unauthorized: You are not a player in this game'
+    }));
+    return null;
+  }
+
+  return gameState;
+}
+
+function rejectUndo(ws, actionType, message) {
+  ws.send(JSON.stringify({
+    type: 'ACTION_REJECTED',
+    actionType,
+    message
+  }));
+}
+
+/**
+ * Undo the newest revision and tell the table
+ */
+function applyUndo(gameId, gameState, playerId) {
+  undoRevision(gameState);
+  gameState.undoRequest = null;
+  recordGameEvent(gameId, { type: 'ACTION_UNDONE', actorId: playerId });
+  broadcastToGame(gameId, gameState);
+  logger.info(`Player ${playerId} undid their last action in game ${gameId}`);
+}
+
+/**
+ * Handle UNDO_ACTION message
+ * Takes back the sender's last action, or asks the other players first if it revealed hidden cards
+ */
+export function handleUndoAction(ws, data) {
+  try {
+    const { gameId } = data;
+    const gameState = getSeatedGame(ws, gameId);
+    if (!gameState) {
+      return;
+    }
+
+    if (gameState.undoRequest) {
+      rejectUndo(ws, 'UNDO_ACTION', 'An undo is already waiting for approval');
+      return;
+    }
+
+    const error = getUndoError(gameState, ws.playerId);
+    if (error) {
+      rejectUndo(ws, 'UNDO_ACTION', error);
+      return;
+    }
+
+    const approvers = getUndoApprovers(gameState, ws.playerId);
+    if (approvers.length === 0) {
+      applyUndo(gameId, gameState, ws.playerId);
+      return;
+    }
+
+    gameState.undoRequest = { fromPlayerId: ws.playerId, pendingPlayerIds: approvers };
+    broadcastToGame(gameId, gameState);
+    logger.info(`Player ${ws.playerId} asked to undo in game ${gameId}, waiting for ${approvers.join(', ')}`);
+  } catch (error) {
+    logger.error('Failed to undo action:', error);
+  }
+}
+
+/**
+ * Handle RESPOND_UNDO_REQUEST message
+ * One of the other players accepts or declines a pending undo; it is applied once everyone accepted
+ */
+export function handleRespondUndoRequest(ws, data) {
+  try {
+    const { gameId, accepted } = data;
+    const gameState = getSeatedGame(ws, gameId);
+    if (!gameState) {
+      return;
+    }
+
+    const request = gameState.undoRequest;
+    if (!request || !request.pendingPlayerIds.includes(ws.playerId)) {
+      rejectUndo(ws, 'RESPOND_UNDO_REQUEST', 'There is no undo waiting for your answer');
+      return;
+    }
+
+    if (!accepted) {
+      gameState.undoRequest = null;
+      broadcastToGame(gameId, gameState);
+      logger.info(`Player ${ws.playerId} declined the undo of player ${request.fromPlayerId} in game ${gameId}`);
+      return;
+    }
+
+    request.pendingPlayerIds = request.pendingPlayerIds.filter(id => id !== ws.playerId);
+    if (request.pendingPlayerIds.length > 0) {
+      broadcastToGame(gameId, gameState);
+      return;
+    }
+
+    // The table may have moved on while the request was open
+    const error = getUndoError(gameState, request.fromPlayerId);
+    if (error) {
+      gameState.undoRequest = null;
+      broadcastToGame(gameId, gameState);
+      logger.info(`Approved undo in game ${gameId} is no longer possible: ${error}`);
+      return;
+    }
+    applyUndo(gameId, gameState, request.fromPlayerId);
+  } catch (error) {
+    logger.error('Failed to respond to undo request:', error);
+  }
+}
+
+/**
+ * Handle REDO_ACTION message
+ * Puts back the sender's last undone action if nothing happened since the undo
+ */
+export function handleRedoAction(ws, data) {
+  try {
+    const { gameId } = data;
+    const gameState = getSeatedGame(ws, gameId);
+    if (!gameState) {
+      return;
+    }
+
+    if (gameState.undoRequest) {
+      rejectUndo(ws, 'REDO_ACTION', 'An undo is waiting for approval');
+      return;
+    }
+
+    const error = getRedoError(gameState, ws.playerId);
+    if (error) {
+      rejectUndo(ws, 'REDO_ACTION', error);
+      return;
+    }
+
+    redoRevision(gameState);
+    recordGameEvent(gameId, { type: 'ACTION_REDONE', actorId: ws.playerId });
+    broadcastToGame(gameId, gameState);
+    logger.info(`Player ${ws.playerId} redid an action in game ${gameId}`);
+  } catch (error) {
+    logger.error('Failed to redo action:', error);
+  }
+}
@@ -6,12 +6,14 @@
 import { logger } from '../utils/logger.js';
 import { getGameState } from '../services/gameState.js';
 import { sanitizeString, validateMessageSize } from '../utils/security.js';
+import { isSpectatorDelayActive } from '../services/spectatorDelay.js';
 import type { WebSocket } from 'ws';
 
 interface ExtendedWebSocket extends WebSocket {
   server?: any;
   playerId?: number;
   gameId?: string;
+  isSpectator?: boolean;
   clientGameMap?: Map<any, string>;
 }
 
@@ -33,11 +35,15 @@ function broadcastVisualEffect(
     ...payload
   });
 
+  // Effects are live; spectators of a delayed game would see them ahead of the board
+  const skipSpectators = isSpectatorDelayActive(getGameState(gameId));
+
   const wss = ws.server;
   if (wss && wss.clients) {
     wss.clients.forEach((client: ExtendedWebSocket) => {
       // Send to all clients in the game EXCEPT the sender (who already shows the effect locally)
-      if (client !== ws && client.readyState === 1 && wss.clientGameMap && wss.clientGameMap.get(client) === gameId) {
+      if (client !== ws && client.readyState === 1 && wss.clientGameMap && wss.clientGameMap.get(client) === gameId &&
+          !(skipSpectators && client.isSpectator)) {
         try {
           client.send(message);
         } catch (err: any) {
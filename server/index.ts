@@ -12,6 +12,7 @@ import path from 'path';
 import { setupRoutes } from './routes/index.js';
 import { setupWebSocket } from './services/websocket.js';
 import { initializeContent } from './services/content.js';
+import { restoreGames, startGameSnapshots, stopGameSnapshots, saveGameSnapshots } from './services/gamePersistence.js';
 import { logger } from './utils/logger.js';
 import { validateConfig } from './utils/config.js';
 
@@ -72,26 +73,33 @@ server.on('upgrade', (request, socket, head) => {
 // Setup WebSocket handlers
 setupWebSocket(wss);
 
+// Bring back games that were running before the last shutdown, then keep snapshotting them
+await restoreGames(wss);
+startGameSnapshots();
+
 server.listen(PORT, () => {
   logger.info(`Server running on port ${PORT}`);
   logger.info(`WebSocket server ready`);
 });
 
-// Graceful shutdown
-process.on('SIGTERM', () => {
-  logger.info('SIGTERM received, shutting down gracefully');
-  server.close(() => {
-    logger.info('Process terminated');
-    process.exit(0);
-  });
-});
+// Graceful shutdown: save every running game before the process goes away
+const gracefulShutdown = async (signal: string) => {
+  logger.info(`${signal} received, shutting down gracefully`);
+
+  stopGameSnapshots();
+  try {
+    await saveGameSnapshots();
+  } catch (error) {
+    logger.error('Failed to save games on shutdown:', error);
+  }
 
-process.on('SIGINT', () => {
-  logger.info('SIGINT received, shutting down gracefully');
   server.close(() => {
     logger.info('Process terminated');
     process.exit(0);
   });
-});
+};
+
+process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
+process.on('SIGINT', () => gracefulShutdown('SIGINT'));
 
 export { app, wss };
\ No newline at end of file
@@ -5,6 +5,7 @@
 import { gameRoutes } from './game.js';
 import { contentRoutes } from './content.js';
 import { healthRoutes } from './health.js';
+import { replayRoutes } from './replays.js';
 
 /**
  * Setup all API routes
@@ -18,6 +19,9 @@ export function setupRoutes(app: any) {
   // Game management routes
   app.use('/api/games', gameRoutes);
 
+  // Replays of finished games
+  app.use('/api/replays', replayRoutes);
+
   // Content routes
   app.use('/api/content', contentRoutes);
 
@@ -0,0 +1,43 @@
+/**
+ * @file Replay API routes
+ */
+
+import express from 'express';
+import { listReplays, loadReplay } from '../services/replayRecorder.js';
+import { logger } from '../utils/logger.js';
+
+const router = express.Router();
+
+/**
+ * Get the list of saved replays
+ */
+router.get('/', async (req, res) => {
+  try {
+    const replays = await listReplays();
+    res.json({ replays });
+  } catch (error) {
+    logger.error('Failed to list replays:', error);
+    res.status(500).json({ error: 'Failed to retrieve replays' });
+  }
+});
+
+/**
+ * Get a replay by ID
+ */
+router.get('/:replayId', async (req, res) => {
+  try {
+    const replay = await loadReplay(req.params.replayId);
+
+    if (!replay) {
+      res.status(404).json({ error: 'Replay not found' });
+      return;
+    }
+
+    res.json(replay);
+  } catch (error) {
+    logger.error('Failed to get replay:', error);
+    res.status(500).json({ error: 'Failed to retrieve replay' });
+  }
+});
+
+export { router as replayRoutes };
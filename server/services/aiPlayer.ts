@@ -0,0 +1,73 @@
+/**
+ * @file AI seat scheduler
+ * Paces the turns of dummy seats played by the built-in AI: while such a seat is active,
+ * one step of its turn is scheduled after every broadcast
+ */
+
+import { logger } from '../utils/logger.js';
+import type { GameState, Player } from '../types/types.js';
+
+// Pause before each AI step, so players can follow what it does
+const AI_STEP_DELAY_MS = 800;
+// Steps after which the AI's turn is moved on regardless of what it planned
+const MAX_AI_STEPS_PER_TURN = 40;
+
+type StepFn = (gameId: string, playerId: number, forceAdvance: boolean) => void;
+
+interface ScheduledStep {
+  turnKey: string;
+  steps: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const aiSteps = new Map<string, ScheduledStep>();
+
+/**
+ * The AI seat whose turn it is, if the game is running and waiting on it
+ */
+const getActiveAiPlayer = (state: GameState): Player | undefined => {
+  if (!state.isGameStarted || state.isRoundEndModalOpen) {
+    return undefined;
+  }
+  const player = state.players.find(p => p.id === state.activePlayerId);
+  return player?.isDummy && player.aiDifficulty ? player : undefined;
+};
+
+/**
+ * Schedule the next step of an AI seat's turn, or cancel it when no AI seat is active.
+ * Called before every broadcast, so each applied step schedules the one after it.
+ */
+export function syncDummyAi(gameId: string, gameState, onStep: StepFn): void {
+  const state = gameState as GameState;
+  const player = getActiveAiPlayer(state);
+  const scheduled = aiSteps.get(gameId);
+  if (scheduled) {
+    clearTimeout(scheduled.timer);
+  }
+  if (!player) {
+    aiSteps.delete(gameId);
+    return;
+  }
+
+  const turnKey = `${state.currentRound}:${state.turnNumber}:${player.id}`;
+  const steps = scheduled?.turnKey === turnKey ? scheduled.steps + 1 : 1;
+  const timer = setTimeout(() => {
+    try {
+      onStep(gameId, player.id, steps > MAX_AI_STEPS_PER_TURN);
+    } catch (error) {
+      logger.error(`Failed to run AI step for game ${gameId}:`, error);
+    }
+  }, AI_STEP_DELAY_MS);
+  aiSteps.set(gameId, { turnKey, steps, timer });
+}
+
+/**
+ * Cancel the pending AI step of a game (game reset or deleted)
+ */
+export function clearDummyAi(gameId: string): void {
+  const scheduled = aiSteps.get(gameId);
+  if (scheduled) {
+    clearTimeout(scheduled.timer);
+  }
+  aiSteps.delete(gameId);
+}
@@ -6,6 +6,10 @@ import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { logger } from '../utils/logger.js';
+import { setAbilityDefinitions } from '../utils/abilityEngine.js';
+import { setReactionDefinitions } from '../utils/cardEvents.js';
+import { setAuraDefinitions } from '../utils/auras.js';
+import { setExpiryEffectDefinitions } from '../utils/statusDurations.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -16,6 +20,25 @@ let tokenDatabase = {};
 let deckFiles = [];
 let countersDatabase = {};
 
+/**
+ * Hand the abilities, reactions and auras of the current cards and tokens, and the expiry
+ * effects of the current counters, to the rules layer
+ */
+function registerCardRules() {
+  for (const problem of setAbilityDefinitions(cardDatabase, tokenDatabase)) {
+    logger.warn(`Ignoring abilities of ${problem}`);
+  }
+  for (const problem of setReactionDefinitions(cardDatabase, tokenDatabase)) {
+    logger.warn(`Ignoring reactions of ${problem}`);
+  }
+  for (const problem of setAuraDefinitions(cardDatabase, tokenDatabase)) {
+    logger.warn(`Ignoring auras of ${problem}`);
+  }
+  for (const problem of setExpiryEffectDefinitions(countersDatabase)) {
+    logger.warn(`Ignoring expiry effects of ${problem}`);
+  }
+}
+
 /**
  * Initialize content database from JSON file
  */
@@ -77,6 +100,7 @@ export async function initializeContent() {
     tokenDatabase = processCardAbilities(data.tokenDatabase || data.tokens || {});
     deckFiles = data.deckFiles || [];
     countersDatabase = data.countersDatabase || data.counters || {};
+    registerCardRules();
 
     logger.info(`Loaded content from ${contentPath}: ${Object.keys(cardDatabase).length} cards, ${Object.keys(tokenDatabase).length} tokens, ${deckFiles.length} deck files`);
   } catch (error) {
@@ -141,6 +165,7 @@ export async function updateContent(newContent) {
     tokenDatabase = processCardAbilities(newContent.tokens || {});
     deckFiles = newContent.deckFiles || [];
     countersDatabase = newContent.counters || {};
+    registerCardRules();
 
     logger.info('Content database updated');
   } catch (error) {
@@ -175,6 +200,7 @@ export function getAllCounters() {
  */
 export function setCardDatabase(cards) {
   cardDatabase = cards;
+  registerCardRules();
 }
 
 /**
@@ -182,6 +208,7 @@ export function setCardDatabase(cards) {
  */
 export function setTokenDatabase(tokens) {
   tokenDatabase = tokens;
+  registerCardRules();
 }
 
 /**
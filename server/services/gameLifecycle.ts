@@ -7,7 +7,10 @@ import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { logger } from '../utils/logger.js';
-import { getGameState, deleteGameState, getPublicGames } from './gameState.js';
+import { getGameState, deleteGameState, getPublicGames, getGameLogs, recordGameEvent } from './gameState.js';
+import { saveReplay } from './replayRecorder.js';
+import { revealShuffleSeed } from '../utils/deckUtils.js';
+import type { GameState } from '../types/types.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -32,48 +35,45 @@ async function ensureLogsDir() {
 }
 
 /**
- * Adds a timestamped message to a game's log
- */
-export function logToGame(gameId: string, message: string, gameLogs: Map<string, string[]>) {
-  if (!gameId) return;
-  if (!gameLogs.has(gameId)) {
-    gameLogs.set(gameId, []);
-  }
-  const logMessages = gameLogs.get(gameId);
-  if (logMessages) {
-    logMessages.push(`[${new Date().toISOString()}] ${message}`);
-  }
-}
-
-/**
- * Ends a game, saves its log, and cleans up all associated data
+ * Ends a game, saves its event log, and cleans up all associated data
  */
 export async function endGame(
   gameId: string,
   reason: string,
-  gameLogs: Map<string, string[]>,
   wss: any
 ) {
-  logToGame(gameId, `Game ending due to: ${reason}.`, gameLogs);
+  recordGameEvent(gameId, { type: 'GAME_ENDED', actorId: null, text: reason });
+  const gameState = getGameState(gameId);
+  const shuffleSeed = gameState ? revealShuffleSeed(gameState as unknown as GameState) : null;
+  if (shuffleSeed) {
+    recordGameEvent(gameId, { type: 'SHUFFLE_SEED_REVEALED', actorId: null, text: shuffleSeed });
+  }
   logger.info(`Ending game ${gameId} due to: ${reason}.`);
 
-  // 1. Save the log file
+  // 1. Save the event log, one JSON event per line, and the replay next to it
   await ensureLogsDir();
-  const logData = gameLogs.get(gameId);
-  if (logData && logData.length > 0) {
-    const timestamp = new Date().toISOString().replace(/:/g, '-');
-    const filename = path.join(LOGS_DIR, `game-${gameId}-${timestamp}.log`);
+  const events = getGameLogs(gameId);
+  const timestamp = new Date().toISOString().replace(/:/g, '-');
+  if (events.length > 0) {
+    const filename = path.join(LOGS_DIR, `game-${gameId}-${timestamp}.jsonl`);
     try {
-      await fs.writeFile(filename, logData.join('\n'));
+      await fs.writeFile(filename, events.map(event => JSON.stringify(event)).join('\n') + '\n');
       logger.info(`Log for game ${gameId} saved to ${filename}`);
     } catch (error) {
       logger.error(`Failed to write log for game ${gameId}:`, error);
     }
   }
+  try {
+    const replayId = await saveReplay(gameId, reason, events, timestamp);
+    if (replayId) {
+      logger.info(`Replay for game ${gameId} saved as ${replayId}`);
+    }
+  } catch (error) {
+    logger.error(`Failed to write replay for game ${gameId}:`, error);
+  }
 
   // 2. Clean up all in-memory data
   deleteGameState(gameId);
-  gameLogs.delete(gameId);
 
   const timerId = gameTerminationTimers.get(gameId);
   if (timerId) {
@@ -106,7 +106,7 @@ export async function endGame(
   }
 
   // 4. Update the public games list for all clients
-  broadcastGamesList(gameLogs, wss);
+  broadcastGamesList(wss);
 }
 
 /**
@@ -115,7 +115,6 @@ export async function endGame(
  */
 export function resetInactivityTimer(
   gameId: string,
-  gameLogs: Map<string, string[]>,
   wss: any
 ) {
   if (!gameId) return;
@@ -129,8 +128,7 @@ export function resetInactivityTimer(
   const timerId = setTimeout(() => {
     const gameState = getGameState(gameId);
     if (gameState) {
-      logToGame(gameId, 'Game terminated due to inactivity (20 minutes without action).', gameLogs);
-      endGame(gameId, '20 minutes inactivity', gameLogs, wss);
+      endGame(gameId, '20 minutes inactivity', wss);
     }
   }, INACTIVITY_TIMEOUT_MS);
 
@@ -143,7 +141,6 @@ export function resetInactivityTimer(
 export function convertPlayerToDummy(
   gameId: string,
   playerId: number,
-  gameLogs: Map<string, string[]>,
   broadcastState: (gameId: string, gameState: any) => void
 ) {
   const gameState = getGameState(gameId);
@@ -151,10 +148,11 @@ export function convertPlayerToDummy(
 
   const player = gameState.players.find((p: any) => p.id === playerId);
   if (player && player.isDisconnected) {
-    logToGame(gameId, `Player ${playerId} (${player.name}) failed to reconnect and is now a Dummy.`, gameLogs);
+    recordGameEvent(gameId, { type: 'PLAYER_REPLACED_BY_DUMMY', actorId: null, playerId });
     logger.info(`Converting Player ${playerId} in game ${gameId} to Dummy.`);
 
     player.isDummy = true;
+    player.replacedByDummy = true; // Unlike a seat created as a dummy, its cards stay hidden
     player.isDisconnected = false; // Dummies are "connected" but not human
     player.name = `Dummy ${player.id}`;
     player.playerToken = null; // Prevent reconnection as this player
@@ -171,12 +169,10 @@ export function convertPlayerToDummy(
  */
 export function scheduleGameTermination(
   gameId: string,
-  gameLogs: Map<string, string[]>,
   wss: any
 ) {
   if (gameTerminationTimers.has(gameId)) return; // Timer already scheduled
 
-  logToGame(gameId, 'Last real player disconnected. Starting 1-minute shutdown timer.', gameLogs);
   logger.info(`Scheduling termination for game ${gameId} in 1 minute.`);
 
   const timerId = setTimeout(() => {
@@ -184,7 +180,7 @@ export function scheduleGameTermination(
     // An active player is one who is not a dummy and not disconnected
     const activePlayers = gameState ? gameState.players.filter((p: any) => !p.isDummy && !p.isDisconnected) : [];
     if (activePlayers.length === 0) {
-      endGame(gameId, 'inactivity timeout (empty game)', gameLogs, wss);
+      endGame(gameId, 'inactivity timeout (empty game)', wss);
     } else {
       gameTerminationTimers.delete(gameId); // A player reconnected
     }
@@ -196,11 +192,10 @@ export function scheduleGameTermination(
 /**
  * Cancels a scheduled game termination, usually because a player has reconnected
  */
-export function cancelGameTermination(gameId: string, gameLogs: Map<string, string[]>) {
+export function cancelGameTermination(gameId: string) {
   if (gameTerminationTimers.has(gameId)) {
     clearTimeout(gameTerminationTimers.get(gameId));
     gameTerminationTimers.delete(gameId);
-    logToGame(gameId, 'Shutdown timer cancelled due to player activity.', gameLogs);
     logger.info(`Termination cancelled for game ${gameId}.`);
   }
 }
@@ -213,7 +208,6 @@ export function handlePlayerLeave(
   gameId: string,
   playerId: number,
   isManualExit: boolean,
-  gameLogs: Map<string, string[]>,
   wss: any,
   broadcastState: (gameId: string, gameState: any) => void,
   broadcastGamesListFn: () => void
@@ -234,6 +228,7 @@ export function handlePlayerLeave(
   if (typeof gameState.players !== 'undefined') {
     gameState.players = updatedPlayers;
   }
+  recordGameEvent(gameId, { type: isManualExit ? 'PLAYER_LEFT' : 'PLAYER_DISCONNECTED', actorId: playerId });
 
   // Clear existing conversion timer for this player if any
   const timerKey = `${gameId}-${playerId}`;
@@ -246,7 +241,7 @@ export function handlePlayerLeave(
   if (!isManualExit) {
     logger.info(`Scheduling conversion to Dummy for Player ${playerId} in game ${gameId} in 60s.`);
     const timerId = setTimeout(() => {
-      convertPlayerToDummy(gameId, playerId, gameLogs, broadcastState);
+      convertPlayerToDummy(gameId, playerId, broadcastState);
     }, 60 * 1000); // 1 minute
     playerDisconnectTimers.set(timerKey, timerId);
   }
@@ -255,7 +250,7 @@ export function handlePlayerLeave(
   const activePlayers = updatedPlayers.filter((p: any) => !p.isDummy && !p.isDisconnected);
 
   if (activePlayers.length === 0) {
-    scheduleGameTermination(gameId, gameLogs, wss);
+    scheduleGameTermination(gameId, wss);
   }
 
   broadcastState(gameId, gameState);
@@ -265,7 +260,7 @@ export function handlePlayerLeave(
 /**
  * Sends the list of all active games to every connected client
  */
-export function broadcastGamesList(gameLogs: Map<string, string[]>, wss: any) {
+export function broadcastGamesList(wss: any) {
   const gamesList = getPublicGames();
 
   const message = JSON.stringify({ type: 'GAMES_LIST', games: gamesList });
@@ -0,0 +1,167 @@
+/**
+ * @file Game persistence service
+ * Snapshots running games into the configured game store and restores them on boot
+ */
+
+import { logger } from '../utils/logger.js';
+import { CONFIG } from '../utils/config.js';
+import {
+  getAllGameStates,
+  getGameLogs,
+  getChatHistory,
+  restoreGameState
+} from './gameState.js';
+import { scheduleGameTermination } from './gameLifecycle.js';
+import { getReplayRecording } from './replayRecorder.js';
+import { FileGameStore } from './gameStore.js';
+import type { GameStore } from './gameStore.js';
+
+let gameStore: GameStore | null = createConfiguredGameStore();
+let snapshotTimer: ReturnType<typeof setInterval> | null = null;
+let snapshotInProgress: Promise<void> | null = null;
+
+// What each stored game looked like when it was last saved, to skip unchanged games
+const savedSignatures = new Map<string, string>();
+
+/**
+ * Create the game store selected by CONFIG.GAME_STORE
+ */
+function createConfiguredGameStore(): GameStore | null {
+  switch (CONFIG.GAME_STORE) {
+  case 'file':
+    return new FileGameStore(CONFIG.GAME_STORE_DIR);
+  case 'none':
+    return null;
+  default:
+    logger.warn(`Unknown game store "${CONFIG.GAME_STORE}", games will not be persisted`);
+    return null;
+  }
+}
+
+/**
+ * Replace the game store (null disables persistence)
+ */
+export function setGameStore(store: GameStore | null): void {
+  gameStore = store;
+  savedSignatures.clear();
+}
+
+/**
+ * Cheap fingerprint of everything that gets stored for a game
+ */
+function getSnapshotSignature(gameState, logs, chat): string {
+  return [
+    gameState.version,
+    gameState.lastActivity,
+    logs[logs.length - 1]?.seq,
+    chat.length,
+    chat[chat.length - 1]?.id
+  ].join('|');
+}
+
+/**
+ * Load all stored games into memory
+ * Restored games end like any other empty game unless a player reconnects within the usual grace period
+ * @returns Number of games restored
+ */
+export async function restoreGames(wss): Promise<number> {
+  if (!gameStore) {
+    return 0;
+  }
+
+  let storedGames;
+  try {
+    storedGames = await gameStore.loadAll();
+  } catch (error) {
+    logger.error('Failed to load stored games:', error);
+    return 0;
+  }
+
+  for (const storedGame of storedGames) {
+    try {
+      const gameState = restoreGameState(storedGame);
+      savedSignatures.set(gameState.gameId, getSnapshotSignature(gameState, getGameLogs(gameState.gameId), getChatHistory(gameState.gameId)));
+      scheduleGameTermination(gameState.gameId, wss);
+    } catch (error) {
+      logger.error(`Failed to restore game ${storedGame.gameState?.gameId}:`, error);
+    }
+  }
+
+  logger.info(`Restored ${storedGames.length} game(s) from the game store`);
+  return storedGames.length;
+}
+
+/**
+ * Save every game that changed since its last snapshot and drop games that have ended
+ */
+export async function saveGameSnapshots(): Promise<void> {
+  // Never run two passes at once; a caller arriving mid-pass waits for it and then saves again
+  while (snapshotInProgress) {
+    await snapshotInProgress;
+  }
+  snapshotInProgress = writeSnapshots();
+  try {
+    await snapshotInProgress;
+  } finally {
+    snapshotInProgress = null;
+  }
+}
+
+async function writeSnapshots(): Promise<void> {
+  if (!gameStore) {
+    return;
+  }
+
+  const liveGameIds = new Set<string>();
+  for (const gameState of getAllGameStates()) {
+    liveGameIds.add(gameState.gameId);
+    const logs = getGameLogs(gameState.gameId);
+    const chat = getChatHistory(gameState.gameId);
+    const signature = getSnapshotSignature(gameState, logs, chat);
+    if (savedSignatures.get(gameState.gameId) === signature) {
+      continue;
+    }
+
+    try {
+      await gameStore.save({ gameState, logs, chat, replay: getReplayRecording(gameState.gameId), savedAt: Date.now() });
+      savedSignatures.set(gameState.gameId, signature);
+    } catch (error) {
+      logger.error(`Failed to save snapshot of game ${gameState.gameId}:`, error);
+    }
+  }
+
+  for (const gameId of Array.from(savedSignatures.keys())) {
+    if (liveGameIds.has(gameId)) {
+      continue;
+    }
+    try {
+      await gameStore.remove(gameId);
+      savedSignatures.delete(gameId);
+    } catch (error) {
+      logger.error(`Failed to remove snapshot of game ${gameId}:`, error);
+    }
+  }
+}
+
+/**
+ * Start saving snapshots periodically
+ */
+export function startGameSnapshots(): void {
+  if (!gameStore || snapshotTimer) {
+    return;
+  }
+  snapshotTimer = setInterval(() => {
+    saveGameSnapshots().catch(error => logger.error('Failed to save game snapshots:', error));
+  }, CONFIG.GAME_SNAPSHOT_INTERVAL_MS);
+  snapshotTimer.unref();
+}
+
+/**
+ * Stop the periodic snapshots
+ */
+export function stopGameSnapshots(): void {
+  if (snapshotTimer) {
+    clearInterval(snapshotTimer);
+    snapshotTimer = null;
+  }
+}
@@ -5,8 +5,18 @@
 import { logger } from '../utils/logger.js';
 import { CONFIG } from '../utils/config.js';
 import { validateGameStateSize } from '../utils/security.js';
+import { createInitialBoard } from '../utils/boardUtils.js';
+import { DEFAULT_MATCH_RULES } from '../utils/matchRules.js';
+import { DEFAULT_TIME_CONTROLS } from '../utils/turnClock.js';
+import type { ChatMessage, GameEvent, GameEventInput } from '../types/types.js';
+import type { StoredGame } from './gameStore.js';
 import type { WebSocket } from 'ws';
 import { gameTerminationTimers, gameInactivityTimers, playerDisconnectTimers } from './gameLifecycle.js';
+import { clearSpectatorDelay } from './spectatorDelay.js';
+import { clearReplayRecording, restoreReplayRecording } from './replayRecorder.js';
+import { clearUndoHistory } from './undoHistory.js';
+import { clearTurnTimer } from './turnTimer.js';
+import { clearDummyAi } from './aiPlayer.js';
 
 // Type definitions
 interface Player {
@@ -22,21 +32,15 @@ interface Player {
   [key: string]: any;
 }
 
-interface Board {
-  row: number;
-  col: number;
+interface Cell {
   card: any | null;
 }
 
-interface GridSize {
-  rows: number;
-  cols: number;
-}
-
 interface GameState {
   id: string;
+  gameId: string;
   players: Player[];
-  board: Board[][];
+  board: Cell[][];
   isGameStarted: boolean;
   activePlayerId: number | null;
   currentPhase: number;
@@ -44,10 +48,11 @@ interface GameState {
   currentRound: number;
   isPrivate: boolean;
   gameMode: string;
-  activeGridSize: GridSize;
+  activeGridSize: number;
   isReadyCheckActive: boolean;
   created: number;
   lastActivity: number;
+  version: number;
   [key: string]: any;
 }
 
@@ -60,7 +65,10 @@ interface GameOptions {
 // In-memory storage for game states
 const gameStates = new Map<string, GameState>();
 const clientGameMap = new Map<WebSocket, string>();
-const gameLogs = new Map<string, string[]>();
+const gameLogs = new Map<string, GameEvent[]>();
+const gameChats = new Map<string, ChatMessage[]>();
+const gameSpectators = new Map<string, Set<WebSocket>>();
+const broadcastEventSeqs = new Map<string, number>(); // Last event already pushed to clients, per game
 
 /**
  * Create new game state
@@ -68,19 +76,34 @@ const gameLogs = new Map<string, string[]>();
 export function createGameState(gameId: string, options: GameOptions = {}): GameState {
   const gameState: GameState = {
     id: gameId,
+    gameId,
     players: [],
-    board: Array(8).fill(null).map(() => Array(8).fill(null)),
+    board: createInitialBoard(),
     isGameStarted: false,
     activePlayerId: null,
+    startingPlayerId: null,
     currentPhase: 0,
+    isScoringStep: false,
     turnNumber: 1,
     currentRound: 1,
+    roundEndTriggered: false,
+    roundWinners: {},
+    gameWinner: null,
+    gameWinners: [],
+    isRoundEndModalOpen: false,
+    matchRules: { ...DEFAULT_MATCH_RULES, roundTargets: [...DEFAULT_MATCH_RULES.roundTargets] },
+    timeControls: { ...DEFAULT_TIME_CONTROLS },
+    turnClock: null,
     isPrivate: (options && options.isPrivate) || false,
-    gameMode: (options && options.gameMode) || 'skirmish',
-    activeGridSize: { rows: 8, cols: 8 },
+    gameMode: (options && options.gameMode) || 'FFA',
+    activeGridSize: 7,
+    dummyPlayerCount: 0,
+    spectatorDelay: 0, // Seconds spectators watch behind real time; 0 = live
+    revealRequests: [],
     isReadyCheckActive: false,
     created: Date.now(),
     lastActivity: Date.now(),
+    version: 0,
     // Game-level auto flags: authoritative server flags for auto-transitions
     // These control server-side behavior, while client-side localStorage stores UI preferences
     // autoAbilitiesEnabled: if true, server triggers auto-transitions between phases
@@ -94,11 +117,35 @@ export function createGameState(gameId: string, options: GameOptions = {}): Game
 
   gameStates.set(gameId, gameState);
   gameLogs.set(gameId, []);
+  gameChats.set(gameId, []);
 
   logger.info(`Created game ${gameId}`);
   return gameState;
 }
 
+/**
+ * Put a game loaded from the game store back into memory
+ * Every human seat starts out disconnected, so its owner can reclaim it with their player token
+ */
+export function restoreGameState(storedGame: StoredGame): GameState {
+  const gameState: GameState = {
+    ...storedGame.gameState,
+    players: storedGame.gameState.players.map(p => (p.isDummy ? p : { ...p, isDisconnected: true, isReady: false })),
+    lastActivity: Date.now()
+  };
+
+  gameStates.set(gameState.gameId, gameState);
+  gameLogs.set(gameState.gameId, storedGame.logs || []);
+  gameChats.set(gameState.gameId, storedGame.chat || []);
+  broadcastEventSeqs.set(gameState.gameId, storedGame.logs?.[storedGame.logs.length - 1]?.seq || 0);
+  if (storedGame.replay) {
+    restoreReplayRecording(gameState.gameId, storedGame.replay);
+  }
+
+  logger.info(`Restored game ${gameState.gameId}`);
+  return gameState;
+}
+
 /**
  * Get game state by ID
  */
@@ -136,6 +183,14 @@ export function deleteGameState(gameId: string): void {
 
     gameStates.delete(gameId);
     gameLogs.delete(gameId);
+    gameChats.delete(gameId);
+    gameSpectators.delete(gameId);
+    broadcastEventSeqs.delete(gameId);
+    clearSpectatorDelay(gameId);
+    clearReplayRecording(gameId);
+    clearUndoHistory(gameId);
+    clearTurnTimer(gameId);
+    clearDummyAi(gameId);
 
     // Remove client mappings
     for (const [client, clientGameId] of clientGameMap.entries()) {
@@ -170,7 +225,7 @@ export function addPlayerToGame(gameId: string, player: Player): Player {
   const newPlayers = [...gameState.players, player];
   updateGameState(gameId, { players: newPlayers });
 
-  logGameAction(gameId, `Player ${player.name} joined`);
+  recordGameEvent(gameId, { type: 'PLAYER_JOINED', actorId: player.id });
   return player;
 }
 
@@ -193,7 +248,7 @@ export function removePlayerFromGame(gameId: string, playerId: number): Player {
   const newPlayers = gameState.players.filter(p => p.id !== playerId);
   updateGameState(gameId, { players: newPlayers });
 
-  logGameAction(gameId, `Player ${removedPlayer.name} left`);
+  recordGameEvent(gameId, { type: 'PLAYER_LEFT', actorId: removedPlayer.id });
   return removedPlayer;
 }
 
@@ -207,12 +262,13 @@ export function getAllGameStates(): GameState[] {
 /**
  * Get public games list
  */
-export function getPublicGames(): Array<{gameId: string, playerCount: number, maxPlayers: number, isGameStarted: boolean, gameMode: string}> {
+export function getPublicGames(): Array<{gameId: string, playerCount: number, spectatorCount: number, maxPlayers: number, isGameStarted: boolean, gameMode: string}> {
   return Array.from(gameStates.values())
     .filter(game => !game.isPrivate)
     .map(game => ({
       gameId: game.id,
       playerCount: game.players.length,
+      spectatorCount: getSpectators(game.id).length,
       maxPlayers: CONFIG.MAX_PLAYERS,
       isGameStarted: game.isGameStarted,
       gameMode: game.gameMode
@@ -240,6 +296,32 @@ export function removeClientAssociation(client: WebSocket): void {
   clientGameMap.delete(client);
 }
 
+/**
+ * Register a client as a spectator of a game
+ * Spectators are associated with the game but do not occupy a seat
+ */
+export function addSpectator(gameId: string, client: WebSocket): void {
+  const spectators = gameSpectators.get(gameId) || new Set<WebSocket>();
+  spectators.add(client);
+  gameSpectators.set(gameId, spectators);
+}
+
+/**
+ * Remove a client from the spectators of every game
+ */
+export function removeSpectator(client: WebSocket): void {
+  for (const spectators of gameSpectators.values()) {
+    spectators.delete(client);
+  }
+}
+
+/**
+ * Get the clients spectating a game
+ */
+export function getSpectators(gameId: string): WebSocket[] {
+  return Array.from(gameSpectators.get(gameId) || []);
+}
+
 /**
  * Get client game map (for broadcasting)
  */
@@ -248,36 +330,75 @@ export function getClientGameMap() {
 }
 
 /**
- * Log game action
+ * Append an event to a game's event log
+ * Stamps it with the time and the game's current turn, phase and round
  */
-export function logGameAction(gameId: string, action: string): void {
-  const timestamp = new Date().toISOString();
-  const logEntry = `[${timestamp}] ${action}`;
+export function recordGameEvent(gameId: string, event: GameEventInput): GameEvent | undefined {
+  const gameState = gameStates.get(gameId);
+  if (!gameState) {
+    return undefined;
+  }
 
   const logs = gameLogs.get(gameId) || [];
-  logs.push(logEntry);
-  gameLogs.set(gameId, logs);
+  const recorded: GameEvent = {
+    ...event,
+    seq: logs.length > 0 ? logs[logs.length - 1].seq + 1 : 1,
+    timestamp: Date.now(),
+    turn: gameState.turnNumber,
+    phase: gameState.currentPhase,
+    round: gameState.currentRound
+  };
+  logs.push(recorded);
 
-  // Keep only last 1000 log entries
-  if (logs.length > 1000) {
-    gameLogs.set(gameId, logs.slice(-1000));
-  }
+  // Keep only the most recent events
+  gameLogs.set(gameId, logs.length > CONFIG.MAX_GAME_LOG_EVENTS ? logs.slice(-CONFIG.MAX_GAME_LOG_EVENTS) : logs);
+  return recorded;
 }
 
 /**
- * Get game logs
+ * Get a game's event log, oldest first
  */
-export function getGameLogs(gameId: string): string[] {
+export function getGameLogs(gameId: string): GameEvent[] {
   return gameLogs.get(gameId) || [];
 }
 
+/**
+ * Get the events of a game that have not been pushed to its clients yet, and mark them as pushed
+ */
+export function takeUnbroadcastGameEvents(gameId: string): GameEvent[] {
+  const logs = gameLogs.get(gameId) || [];
+  const lastSeq = logs.length > 0 ? logs[logs.length - 1].seq : 0;
+  // Sequence numbers are consecutive, so the new events are the last (lastSeq - pushed) entries
+  const newCount = lastSeq - (broadcastEventSeqs.get(gameId) || 0);
+  broadcastEventSeqs.set(gameId, lastSeq);
+  return newCount > 0 ? logs.slice(-newCount) : [];
+}
+
 /**
  * Get all game logs (for use by lifecycle functions)
  */
-export function getAllGameLogs(): Map<string, string[]> {
+export function getAllGameLogs(): Map<string, GameEvent[]> {
   return gameLogs;
 }
 
+/**
+ * Store a chat message with its game
+ */
+export function addChatMessage(gameId: string, message: ChatMessage): void {
+  const messages = gameChats.get(gameId) || [];
+  messages.push(message);
+
+  // Keep only the most recent messages
+  gameChats.set(gameId, messages.length > CONFIG.MAX_CHAT_HISTORY ? messages.slice(-CONFIG.MAX_CHAT_HISTORY) : messages);
+}
+
+/**
+ * Get chat history of a game, oldest first
+ */
+export function getChatHistory(gameId: string): ChatMessage[] {
+  return gameChats.get(gameId) || [];
+}
+
 /**
  * Clear game timers
  *
@@ -0,0 +1,81 @@
+/**
+ * @file Game store
+ * Pluggable persistence for running games, so matches survive a server restart
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { logger } from '../utils/logger.js';
+import type { ChatMessage, GameEvent } from '../types/types.js';
+import type { ReplayRecording } from './replayRecorder.js';
+
+/**
+ * Everything needed to bring a game back after a restart
+ */
+export interface StoredGame {
+  gameState: any;
+  logs: GameEvent[];
+  chat: ChatMessage[];
+  replay?: ReplayRecording;
+  savedAt: number;
+}
+
+/**
+ * Storage backend for game snapshots
+ */
+export interface GameStore {
+  /** Load every stored game */
+  loadAll(): Promise<StoredGame[]>;
+  /** Save a game, replacing any earlier snapshot of it */
+  save(game: StoredGame): Promise<void>;
+  /** Forget a game that has ended */
+  remove(gameId: string): Promise<void>;
+}
+
+/**
+ * Stores each game as a JSON file in a directory
+ */
+export class FileGameStore implements GameStore {
+  private readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = path.resolve(process.cwd(), dir);
+  }
+
+  async loadAll(): Promise<StoredGame[]> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const files = (await fs.readdir(this.dir)).filter(file => file.endsWith('.json'));
+
+    const games: StoredGame[] = [];
+    for (const file of files) {
+      try {
+        const game = JSON.parse(await fs.readFile(path.join(this.dir, file), 'utf8'));
+        if (game?.gameState?.gameId) {
+          games.push(game);
+        }
+      } catch (error) {
+        // One corrupt snapshot must not keep the other games from loading
+        logger.error(`Failed to read game snapshot ${file}:`, error);
+      }
+    }
+    return games;
+  }
+
+  async save(game: StoredGame): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const filePath = this.getFilePath(game.gameState.gameId);
+
+    // Write to a temporary file first so a crash mid-write leaves the previous snapshot intact
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(game));
+    await fs.rename(tempPath, filePath);
+  }
+
+  async remove(gameId: string): Promise<void> {
+    await fs.rm(this.getFilePath(gameId), { force: true });
+  }
+
+  private getFilePath(gameId: string): string {
+    return path.join(this.dir, `${gameId.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+  }
+}
@@ -8,6 +8,7 @@ import type { WebSocket } from 'ws';
 
 // Rate limiting maps
 const messageCounts = new Map<WebSocket, number[]>(); // Connection -> [timestamps]
+const chatMessageCounts = new Map<WebSocket, number[]>(); // Connection -> [chat timestamps]
 
 /**
  * Rate limit status interface
@@ -44,11 +45,33 @@ export function isRateLimited(client: WebSocket): boolean {
   return false;
 }
 
+/**
+ * Check if connection is sending chat messages too fast
+ * Chat has its own, stricter window on top of the general message limit
+ */
+export function isChatRateLimited(client: WebSocket): boolean {
+  const now = Date.now();
+  const timestamps = (chatMessageCounts.get(client) || []).filter(
+    timestamp => now - timestamp < CONFIG.CHAT_RATE_LIMIT_WINDOW
+  );
+
+  if (timestamps.length >= CONFIG.CHAT_RATE_LIMIT) {
+    chatMessageCounts.set(client, timestamps);
+    return true;
+  }
+
+  timestamps.push(now);
+  chatMessageCounts.set(client, timestamps);
+
+  return false;
+}
+
 /**
  * Clean up rate limiting data for disconnected client
  */
 export function cleanupRateLimitData(client: WebSocket): void {
   messageCounts.delete(client);
+  chatMessageCounts.delete(client);
 }
 
 /**
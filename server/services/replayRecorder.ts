@@ -0,0 +1,207 @@
+/**
+ * @file Replay recorder
+ * Records every started game as its initial state plus one patch per broadcast,
+ * and saves the recording next to the game log when the game ends
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { logger } from '../utils/logger.js';
+import { CONFIG } from '../utils/config.js';
+import { createPatch } from '../utils/statePatch.js';
+import { buildReplayStates } from '../utils/replay.js';
+import type { GameReplay, ReplayFrame, ReplaySummary } from '../utils/replay.js';
+import type { GameEvent, GameState } from '../types/types.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Replays are kept in the same directory as the logs written by endGame
+const REPLAYS_DIR = path.join(__dirname, '../../logs');
+const REPLAY_ID_PATTERN = /^replay-[\w.-]+$/;
+
+/**
+ * A replay that is still being recorded
+ */
+export interface ReplayRecording {
+  startedAt: number;
+  initialState: GameState;
+  initialEventSeq: number;
+  frames: ReplayFrame[];
+  truncated: boolean;
+}
+
+const recordings = new Map<string, ReplayRecording>();
+
+// Last recorded state per game, the base of the next frame's patch
+const lastRecordedStates = new Map<string, GameState>();
+
+/**
+ * Plain copy of the state without connections, reconnection tokens and the shuffle seed
+ */
+function toReplayState(gameState): GameState {
+  const state = JSON.parse(JSON.stringify({ ...gameState, players: gameState.players.map(p => ({ ...p, ws: undefined })) }));
+  state.players.forEach(player => delete player.playerToken);
+  delete state.lastActivity;
+  delete state.shuffleSeed;
+  return state;
+}
+
+/**
+ * Record a new revision of a game
+ * Recording starts with the first revision in which the game has started
+ * @param lastEventSeq Sequence number of the last event recorded so far
+ */
+export function recordReplayFrame(gameState, lastEventSeq: number): void {
+  const gameId = gameState.gameId;
+  const recording = recordings.get(gameId);
+
+  if (!recording) {
+    if (!gameState.isGameStarted) {
+      return;
+    }
+    const initialState = toReplayState(gameState);
+    recordings.set(gameId, { startedAt: Date.now(), initialState, initialEventSeq: lastEventSeq, frames: [], truncated: false });
+    lastRecordedStates.set(gameId, initialState);
+    return;
+  }
+
+  if (recording.truncated) {
+    return;
+  }
+  if (recording.frames.length >= CONFIG.MAX_REPLAY_FRAMES) {
+    recording.truncated = true;
+    logger.warn(`Replay of game ${gameId} reached ${CONFIG.MAX_REPLAY_FRAMES} frames, recording stopped`);
+    return;
+  }
+
+  const state = toReplayState(gameState);
+  recording.frames.push({
+    version: gameState.version,
+    timestamp: Date.now(),
+    eventSeq: lastEventSeq,
+    patch: createPatch(lastRecordedStates.get(gameId), state)
+  });
+  lastRecordedStates.set(gameId, state);
+}
+
+/**
+ * Get the recording of a game, e.g. to persist it
+ */
+export function getReplayRecording(gameId: string): ReplayRecording | undefined {
+  return recordings.get(gameId);
+}
+
+/**
+ * Continue a recording that was persisted before a restart
+ */
+export function restoreReplayRecording(gameId: string, recording: ReplayRecording): void {
+  // Rebuild the latest recorded state so new frames patch on top of it
+  const states = buildReplayStates(recording);
+  recordings.set(gameId, recording);
+  lastRecordedStates.set(gameId, states[states.length - 1]);
+}
+
+/**
+ * Stop recording a game without saving it
+ */
+export function clearReplayRecording(gameId: string): void {
+  recordings.delete(gameId);
+  lastRecordedStates.delete(gameId);
+}
+
+/**
+ * Save the recording of an ending game
+ * @param timestamp The timestamp used for the game's log file, so both files sort together
+ * @returns The id of the saved replay, or null if the game never started
+ */
+export async function saveReplay(gameId: string, endReason: string, events: GameEvent[], timestamp: string): Promise<string | null> {
+  const recording = recordings.get(gameId);
+  if (!recording) {
+    return null;
+  }
+
+  const replayId = `replay-${gameId}-${timestamp}`;
+  const replay: GameReplay = {
+    replayId,
+    gameId,
+    startedAt: recording.startedAt,
+    endedAt: Date.now(),
+    endReason,
+    initialState: recording.initialState,
+    initialEventSeq: recording.initialEventSeq,
+    frames: recording.frames,
+    events,
+    truncated: recording.truncated || undefined
+  };
+
+  await fs.mkdir(REPLAYS_DIR, { recursive: true });
+  await fs.writeFile(path.join(REPLAYS_DIR, `${replayId}.json`), JSON.stringify(replay));
+  return replayId;
+}
+
+/**
+ * List the saved replays of public games, newest first
+ */
+export async function listReplays(): Promise<ReplaySummary[]> {
+  let files: string[];
+  try {
+    files = (await fs.readdir(REPLAYS_DIR)).filter(file => file.startsWith('replay-') && file.endsWith('.json'));
+  } catch {
+    return [];
+  }
+
+  const dated = await Promise.all(files.map(async file => ({ file, mtime: (await fs.stat(path.join(REPLAYS_DIR, file))).mtimeMs })));
+  dated.sort((a, b) => b.mtime - a.mtime);
+
+  const summaries: ReplaySummary[] = [];
+  for (const { file } of dated) {
+    if (summaries.length >= CONFIG.MAX_LISTED_REPLAYS) {
+      break;
+    }
+    try {
+      const replay: GameReplay = JSON.parse(await fs.readFile(path.join(REPLAYS_DIR, file), 'utf8'));
+      if (replay.initialState.isPrivate) {
+        continue;
+      }
+      summaries.push({
+        replayId: replay.replayId,
+        gameId: replay.gameId,
+        startedAt: replay.startedAt,
+        endedAt: replay.endedAt,
+        playerNames: replay.initialState.players.map(p => p.name),
+        gameWinner: getWinnerName(replay)
+      });
+    } catch (error) {
+      logger.error(`Failed to read replay ${file}:`, error);
+    }
+  }
+  return summaries;
+}
+
+/**
+ * Names of the game's winners, if it was played to the end
+ */
+function getWinnerName(replay: GameReplay): string | null {
+  const states = buildReplayStates(replay);
+  const finalState = states[states.length - 1];
+  const winnerIds = finalState.gameWinners?.length ? finalState.gameWinners : [finalState.gameWinner];
+  const names = finalState.players.filter(p => winnerIds.includes(p.id)).map(p => p.name);
+  return names.length > 0 ? names.join(', ') : null;
+}
+
+/**
+ * Load a saved replay
+ * @returns The replay, or null if there is none with that id
+ */
+export async function loadReplay(replayId: string): Promise<GameReplay | null> {
+  if (!REPLAY_ID_PATTERN.test(replayId)) {
+    return null;
+  }
+  try {
+    return JSON.parse(await fs.readFile(path.join(REPLAYS_DIR, `${replayId}.json`), 'utf8'));
+  } catch {
+    return null;
+  }
+}
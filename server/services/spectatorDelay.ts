@@ -0,0 +1,100 @@
+/**
+ * @file Delayed game views for spectators
+ * Holds each broadcast's spectator view for the game's configured delay before releasing it,
+ * so observers watch behind real time and cannot relay live information to players
+ */
+
+import { CONFIG } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+
+type ReleaseFn = (view: any) => void;
+
+interface PendingView {
+  releaseAt: number;
+  view: any;
+}
+
+interface DelayBuffer {
+  pending: PendingView[];
+  released: any | null; // Newest view that is old enough to show
+  timer: ReturnType<typeof setTimeout> | null;
+  release: ReleaseFn;
+}
+
+const delayBuffers = new Map<string, DelayBuffer>();
+
+/**
+ * Whether spectators of the game currently watch with a delay
+ */
+export function isSpectatorDelayActive(gameState): boolean {
+  return (gameState?.spectatorDelay || 0) > 0;
+}
+
+/**
+ * Start delaying a game's spectator views
+ * @param currentView The view spectators already have; shown to new spectators until newer views are released
+ */
+export function startSpectatorDelay(gameId: string, currentView: any, release: ReleaseFn): void {
+  clearSpectatorDelay(gameId);
+  delayBuffers.set(gameId, { pending: [], released: currentView, timer: null, release });
+}
+
+/**
+ * Hold a spectator view until the delay has passed, then hand it to the release callback
+ */
+export function queueSpectatorView(gameId: string, view: any, delayMs: number, release: ReleaseFn): void {
+  const buffer = delayBuffers.get(gameId) || { pending: [], released: null, timer: null, release };
+  buffer.release = release;
+  buffer.pending.push({ releaseAt: Date.now() + delayMs, view });
+
+  // Under heavy traffic skip intermediate views rather than hold unbounded history
+  if (buffer.pending.length > CONFIG.MAX_SPECTATOR_DELAY_SNAPSHOTS) {
+    buffer.pending.splice(0, buffer.pending.length - CONFIG.MAX_SPECTATOR_DELAY_SNAPSHOTS);
+  }
+
+  delayBuffers.set(gameId, buffer);
+  scheduleRelease(gameId, buffer);
+}
+
+/**
+ * Get the newest spectator view that may be shown, or null if none is old enough yet
+ */
+export function getReleasedSpectatorView(gameId: string): any | null {
+  return delayBuffers.get(gameId)?.released ?? null;
+}
+
+/**
+ * Drop all held views of a game (delay turned off or game deleted)
+ */
+export function clearSpectatorDelay(gameId: string): void {
+  const buffer = delayBuffers.get(gameId);
+  if (buffer?.timer) {
+    clearTimeout(buffer.timer);
+  }
+  delayBuffers.delete(gameId);
+}
+
+function scheduleRelease(gameId: string, buffer: DelayBuffer): void {
+  if (buffer.timer || buffer.pending.length === 0) {
+    return;
+  }
+
+  buffer.timer = setTimeout(() => {
+    buffer.timer = null;
+    const now = Date.now();
+    let due: PendingView | undefined;
+    while (buffer.pending.length > 0 && buffer.pending[0].releaseAt <= now) {
+      due = buffer.pending.shift();
+    }
+
+    if (due) {
+      buffer.released = due.view;
+      try {
+        buffer.release(due.view);
+      } catch (error) {
+        logger.error(`Failed to release spectator view for game ${gameId}:`, error);
+      }
+    }
+    scheduleRelease(gameId, buffer);
+  }, Math.max(0, buffer.pending[0].releaseAt - Date.now()));
+}
@@ -0,0 +1,72 @@
+/**
+ * @file Turn timers
+ * Keeps each timed game's turn clock in step with whose turn it is and fires a callback
+ * when the active player's time runs out
+ */
+
+import { logger } from '../utils/logger.js';
+import { getClockedPlayerId, startTurnClock, stopTurnClock } from '../utils/turnClock.js';
+import type { GameState } from '../types/types.js';
+
+type TimeoutFn = (gameId: string, playerId: number, startedAt: number) => void;
+
+interface ScheduledTimeout {
+  playerId: number;
+  startedAt: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const turnTimers = new Map<string, ScheduledTimeout>();
+
+/**
+ * Start, stop or keep the game's turn clock to match whose turn it is.
+ * Called before every broadcast, so the clock follows any change of the active player;
+ * a clock restored from a snapshot is picked up again with its original deadline.
+ */
+export function syncTurnClock(gameId: string, gameState, onTimeout: TimeoutFn): void {
+  const state = gameState as GameState;
+  const clockedPlayerId = getClockedPlayerId(state);
+  const now = Date.now();
+
+  if (state.turnClock && state.turnClock.playerId !== clockedPlayerId) {
+    stopTurnClock(state, now);
+  }
+
+  const player = clockedPlayerId === null ? undefined : state.players.find(p => p.id === clockedPlayerId);
+  if (!player) {
+    clearTurnTimer(gameId);
+    return;
+  }
+
+  const clock = state.turnClock || startTurnClock(state, player, now);
+  const scheduled = turnTimers.get(gameId);
+  if (scheduled && scheduled.playerId === clock.playerId && scheduled.startedAt === clock.startedAt) {
+    return;
+  }
+
+  clearTurnTimer(gameId);
+  if (clock.isExpired) {
+    return;
+  }
+
+  const timer = setTimeout(() => {
+    turnTimers.delete(gameId);
+    try {
+      onTimeout(gameId, clock.playerId, clock.startedAt);
+    } catch (error) {
+      logger.error(`Failed to handle turn timeout for game ${gameId}:`, error);
+    }
+  }, Math.max(0, clock.deadline - now));
+  turnTimers.set(gameId, { playerId: clock.playerId, startedAt: clock.startedAt, timer });
+}
+
+/**
+ * Cancel the pending timeout of a game (game untimed, reset or deleted)
+ */
+export function clearTurnTimer(gameId: string): void {
+  const scheduled = turnTimers.get(gameId);
+  if (scheduled) {
+    clearTimeout(scheduled.timer);
+  }
+  turnTimers.delete(gameId);
+}
@@ -0,0 +1,234 @@
+/**
+ * @file Undo history
+ * Keeps the last revisions of each game's table so the active player can take back
+ * their own actions within the current phase
+ */
+
+import { CONFIG } from '../utils/config.js';
+import { isDeepEqual } from '../utils/statePatch.js';
+import { getVisibleCardIds } from '../utils/visibility.js';
+import type { GameState } from '../types/types.js';
+
+const TURN_FIELDS = [
+  'activePlayerId',
+  'currentPhase',
+  'isScoringStep',
+  'currentRound',
+  'turnNumber',
+  'roundEndTriggered',
+  'roundWinners',
+  'gameWinner',
+  'gameWinners',
+  'isRoundEndModalOpen'
+] as const;
+
+const SEAT_FIELDS = ['hand', 'deck', 'discard', 'announcedCard', 'score', 'boardHistory'] as const;
+
+/**
+ * Everything an action can change on the table; seat settings and connections are left out
+ */
+interface TableSnapshot {
+  board: GameState['board'];
+  players: Record<string, any>[];
+  [field: string]: any;
+}
+
+/**
+ * One action, as the table looked before and after it
+ */
+interface Revision {
+  actorId: number;
+  before: TableSnapshot;
+  after: TableSnapshot;
+}
+
+const undoStacks = new Map<string, Revision[]>();
+const redoStacks = new Map<string, Revision[]>();
+
+function peek(stacks: Map<string, Revision[]>, gameId: string): Revision | undefined {
+  const stack = stacks.get(gameId);
+  return stack?.[stack.length - 1];
+}
+
+/**
+ * Copy the parts of the state that undo restores
+ */
+export function captureTable(gameState): TableSnapshot {
+  const table: TableSnapshot = {
+    board: gameState.board,
+    players: gameState.players.map(player => {
+      const seat: Record<string, any> = { id: player.id };
+      SEAT_FIELDS.forEach(field => {
+        seat[field] = player[field];
+      });
+      return seat;
+    })
+  };
+  TURN_FIELDS.forEach(field => {
+    table[field] = gameState[field];
+  });
+  return JSON.parse(JSON.stringify(table));
+}
+
+function restoreTable(gameState, table: TableSnapshot): void {
+  const copy: TableSnapshot = JSON.parse(JSON.stringify(table));
+  gameState.board = copy.board;
+  TURN_FIELDS.forEach(field => {
+    gameState[field] = copy[field];
+  });
+  copy.players.forEach(seat => {
+    const player = gameState.players.find(p => p.id === seat.id);
+    if (player) {
+      SEAT_FIELDS.forEach(field => {
+        player[field] = seat[field];
+      });
+    }
+  });
+}
+
+/**
+ * Record an applied action
+ * A new action makes everything that was undone before it impossible to redo and
+ * cancels a pending undo request
+ * @param before The table captured with captureTable before the action was applied
+ */
+export function recordRevision(gameState, before: TableSnapshot, actorId: number): void {
+  const after = captureTable(gameState);
+  if (isDeepEqual(before, after)) {
+    return;
+  }
+
+  const stack = undoStacks.get(gameState.gameId) || [];
+  stack.push({ actorId, before, after });
+  if (stack.length > CONFIG.MAX_UNDO_HISTORY) {
+    stack.shift();
+  }
+  undoStacks.set(gameState.gameId, stack);
+  redoStacks.delete(gameState.gameId);
+  // An undo waiting for approval would now take back a different action
+  gameState.undoRequest = null;
+}
+
+/**
+ * Check that the player may undo the newest revision
+ * @returns An error message, or null if the revision can be undone
+ */
+export function getUndoError(gameState, playerId: number): string | null {
+  const revision = peek(undoStacks, gameState.gameId);
+  if (gameState.activePlayerId !== playerId) {
+    return 'Only the active player can undo';
+  }
+  if (!revision || revision.actorId !== playerId) {
+    return 'There is no action of yours to undo';
+  }
+  if (!isDeepEqual(revision.after, captureTable(gameState))) {
+    return 'The table has changed since your last action';
+  }
+  if (revision.before.currentPhase !== gameState.currentPhase ||
+      revision.before.activePlayerId !== gameState.activePlayerId ||
+      revision.before.currentRound !== gameState.currentRound) {
+    return 'Only actions from the current phase can be undone';
+  }
+  return null;
+}
+
+/**
+ * The seats that must agree before the newest revision is undone: every other connected
+ * human player, if the action showed anyone a card they had not seen before it
+ */
+export function getUndoApprovers(gameState, playerId: number): number[] {
+  const revision = peek(undoStacks, gameState.gameId);
+  if (!revision) {
+    return [];
+  }
+
+  const withTable = (table: TableSnapshot) => {
+    const state = { ...gameState, board: table.board, players: gameState.players.map(p => ({ ...p })) };
+    TURN_FIELDS.forEach(field => {
+      state[field] = table[field];
+    });
+    table.players.forEach(seat => {
+      const player = state.players.find(p => p.id === seat.id);
+      if (player) {
+        Object.assign(player, seat);
+      }
+    });
+    return state as unknown as GameState;
+  };
+  const beforeState = withTable(revision.before);
+  const afterState = withTable(revision.after);
+
+  // Only cards that already existed can have been hidden; new tokens reveal nothing
+  const revealed = gameState.players.some(player => {
+    const seenBefore = getVisibleCardIds(beforeState, player.id);
+    return Array.from(getVisibleCardIds(afterState, player.id)).some(id => !seenBefore.has(id) && cardExists(beforeState, id));
+  });
+
+  if (!revealed) {
+    return [];
+  }
+  return gameState.players
+    .filter(p => p.id !== playerId && !p.isDummy && !p.isDisconnected)
+    .map(p => p.id);
+}
+
+function cardExists(gameState: GameState, cardId: string): boolean {
+  return gameState.board.some(row => row.some(cell => cell.card?.id === cardId)) ||
+    gameState.players.some(player =>
+      [...player.hand, ...player.deck, ...player.discard].some(card => card.id === cardId) ||
+      player.announcedCard?.id === cardId);
+}
+
+/**
+ * Undo the newest revision; call getUndoError first
+ */
+export function undoRevision(gameState): void {
+  const revision = undoStacks.get(gameState.gameId)?.pop();
+  if (!revision) {
+    return;
+  }
+  restoreTable(gameState, revision.before);
+  const redoStack = redoStacks.get(gameState.gameId) || [];
+  redoStack.push(revision);
+  redoStacks.set(gameState.gameId, redoStack);
+}
+
+/**
+ * Check that the player may redo the last undone revision
+ * @returns An error message, or null if the revision can be redone
+ */
+export function getRedoError(gameState, playerId: number): string | null {
+  const revision = peek(redoStacks, gameState.gameId);
+  if (gameState.activePlayerId !== playerId) {
+    return 'Only the active player can redo';
+  }
+  if (!revision || revision.actorId !== playerId) {
+    return 'There is no undone action of yours to redo';
+  }
+  if (!isDeepEqual(revision.before, captureTable(gameState))) {
+    return 'The table has changed since the undo';
+  }
+  return null;
+}
+
+/**
+ * Redo the last undone revision; call getRedoError first
+ */
+export function redoRevision(gameState): void {
+  const revision = redoStacks.get(gameState.gameId)?.pop();
+  if (!revision) {
+    return;
+  }
+  restoreTable(gameState, revision.after);
+  const undoStack = undoStacks.get(gameState.gameId) || [];
+  undoStack.push(revision);
+  undoStacks.set(gameState.gameId, undoStack);
+}
+
+/**
+ * Forget a game's history
+ */
+export function clearUndoHistory(gameId: string): void {
+  undoStacks.delete(gameId);
+  redoStacks.delete(gameId);
+}
@@ -4,29 +4,58 @@
 
 import { logger } from '../utils/logger.js';
 import { validateMessageSize } from '../utils/security.js';
+import { createPlayerView } from '../utils/visibility.js';
+import { createPatch } from '../utils/statePatch.js';
+import { validateClientMessage } from '../utils/messageSchemas.js';
 import { isRateLimited, cleanupRateLimitData } from './rateLimit.js';
 import {
   getGameState,
   updateGameState,
   removeClientAssociation,
   getGameIdForClient,
-  logGameAction,
+  recordGameEvent,
+  takeUnbroadcastGameEvents,
+  getGameLogs,
   getClientGameMap,
   getPublicGames,
-  deleteGameState
+  deleteGameState,
+  removeSpectator,
+  getSpectators
 } from './gameState.js';
+import { isSpectatorDelayActive, queueSpectatorView, getReleasedSpectatorView } from './spectatorDelay.js';
+import { recordReplayFrame } from './replayRecorder.js';
+import { syncTurnClock } from './turnTimer.js';
+import { syncDummyAi } from './aiPlayer.js';
+import { handlePlayerLeave, broadcastGamesList } from './gameLifecycle.js';
 
 // Store wss instance for broadcasting
 let wssInstance = null;
 
+// Last state view sent to each client, used as the base of the next patch
+const lastSentViews = new WeakMap();
+
+// Messages a spectator may send; everything else would change the game
+const SPECTATOR_MESSAGE_TYPES = new Set([
+  'GET_GAMES_LIST',
+  'SUBSCRIBE',
+  'JOIN_GAME',
+  'EXIT_GAME',
+  'SYNC_GAME',
+  'GET_GAME_LOGS'
+]);
+
 // Import handler modules
 import {
   handleSubscribe,
+  handleCreateGame,
   handleUpdateState,
   handleJoinGame,
   handleExitGame,
-  handleForceSync
+  handleForceSync,
+  handleResetGame
 } from '../handlers/gameManagement.js';
+import { handleGameAction, handleDummyAiStep } from '../handlers/gameActions.js';
+import { handleUndoAction, handleRedoAction, handleRespondUndoRequest } from '../handlers/undo.js';
 import {
   handleStartReadyCheck,
   handleCancelReadyCheck,
@@ -36,8 +65,12 @@ import {
   handleSetGameMode,
   handleSetGamePrivacy,
   handleAssignTeams,
-  handleSetGridSize
+  handleSetGridSize,
+  handleSetSpectatorDelay,
+  handleSetMatchRules,
+  handleSetTimeControls
 } from '../handlers/gameSettings.js';
+import { handleChatMessage } from '../handlers/chat.js';
 import {
   handleTriggerHighlight,
   handleTriggerNoTarget,
@@ -50,10 +83,10 @@ import {
 import {
   handleUpdatePlayerName,
   handleChangePlayerColor,
-  handleUpdatePlayerScore,
   handleChangePlayerDeck,
   handleLoadCustomDeck,
   handleSetDummyPlayerCount,
+  handleSetDummyAi,
   handleLogGameAction,
   handleGetGameLogs
 } from '../handlers/playerSettings.js';
@@ -63,7 +96,8 @@ import {
   handleToggleActivePlayer,
   handleNextPhase,
   handlePrevPhase,
-  handleSetPhase
+  handleSetPhase,
+  handleTurnTimeout
 } from '../handlers/phaseManagement.js';
 
 /**
@@ -168,9 +202,8 @@ function routeMessage(ws, data) {
     'SUBSCRIBE': handleSubscribe,
     'CREATE_GAME': handleCreateGame,
     'JOIN_GAME': handleJoinGame,
-    'PLAY_CARD': handlePlayCard,
-    'MOVE_CARD': handleMoveCard,
-    'END_TURN': handleEndTurn,
+    'PLAY_CARD': handleGameAction,
+    'MOVE_CARD': handleGameAction,
     'CHAT_MESSAGE': handleChatMessage,
     'GET_GAMES_LIST': handleGetGamesList,
     'UPDATE_DECK_DATA': handleUpdateDeckData,
@@ -180,16 +213,26 @@ function routeMessage(ws, data) {
     'SET_GAME_MODE': handleSetGameMode,
     'SET_GAME_PRIVACY': handleSetGamePrivacy,
     'SET_GRID_SIZE': handleSetGridSize,
-    'DRAW_CARD': handleDrawCard,
-    'SHUFFLE_DECK': handleShuffleDeck,
-    'ANNOUNCE_CARD': handleAnnounceCard,
-    'PLAY_COUNTER': handlePlayCounter,
-    'PLAY_TOKEN': handlePlayToken,
-    'DESTROY_CARD': handleDestroyCard,
-    'RETURN_CARD_TO_HAND': handleReturnCardToHand,
-    'ADD_COMMAND': handleAddCommand,
-    'CANCEL_PENDING_COMMAND': handleCancelPendingCommand,
-    'EXECUTE_PENDING_COMMAND': handleExecutePendingCommand,
+    'SET_SPECTATOR_DELAY': handleSetSpectatorDelay,
+    'SET_MATCH_RULES': handleSetMatchRules,
+    'SET_TIME_CONTROLS': handleSetTimeControls,
+    'DRAW_CARD': handleGameAction,
+    'SHUFFLE_DECK': handleGameAction,
+    'ANNOUNCE_CARD': handleGameAction,
+    'PLAY_COUNTER': handleGameAction,
+    'REMOVE_STATUS': handleGameAction,
+    'TRANSFER_STATUSES': handleGameAction,
+    'RESTORE_DEPLOY': handleGameAction,
+    'REVEAL_CARD': handleGameAction,
+    'RESPOND_REVEAL_REQUEST': handleGameAction,
+    'PLAY_TOKEN': handleGameAction,
+    'DESTROY_CARD': handleGameAction,
+    'RETURN_CARD_TO_HAND': handleGameAction,
+    'RESURRECT_CARD': handleGameAction,
+    'SCORE_LINE': handleGameAction,
+    'SCORE_ABILITY': handleGameAction,
+    'GAIN_POINTS': handleGameAction,
+    'CONFIRM_ROUND_END': handleGameAction,
     'START_READY_CHECK': handleStartReadyCheck,
     'CANCEL_READY_CHECK': handleCancelReadyCheck,
     'TRIGGER_HIGHLIGHT': handleTriggerHighlight,
@@ -198,6 +241,7 @@ function routeMessage(ws, data) {
     'TRIGGER_NO_TARGET': handleTriggerNoTarget,
     'EXIT_GAME': handleExitGame,
     'FORCE_SYNC': handleForceSync,
+    'RESET_GAME': handleResetGame,
     'SYNC_GAME': handleSyncGame,
     'TOGGLE_AUTO_ABILITIES': handleToggleAutoAbilities,
     'TOGGLE_AUTO_DRAW': handleToggleAutoDraw,
@@ -206,17 +250,40 @@ function routeMessage(ws, data) {
     'PREV_PHASE': handlePrevPhase,
     'SET_PHASE': handleSetPhase,
     'SET_DUMMY_PLAYER_COUNT': handleSetDummyPlayerCount,
+    'SET_DUMMY_AI': handleSetDummyAi,
     'UPDATE_PLAYER_NAME': handleUpdatePlayerName,
     'CHANGE_PLAYER_COLOR': handleChangePlayerColor,
-    'UPDATE_PLAYER_SCORE': handleUpdatePlayerScore,
     'CHANGE_PLAYER_DECK': handleChangePlayerDeck,
     'LOAD_CUSTOM_DECK': handleLoadCustomDeck,
     'LOG_GAME_ACTION': handleLogGameAction,
-    'GET_GAME_LOGS': handleGetGameLogs
+    'GET_GAME_LOGS': handleGetGameLogs,
+    'UNDO_ACTION': handleUndoAction,
+    'REDO_ACTION': handleRedoAction,
+    'RESPOND_UNDO_REQUEST': handleRespondUndoRequest
   };
 
   const handler = handlers[data.type];
   if (handler) {
+    const issues = validateClientMessage(data);
+    if (issues.length > 0) {
+      logger.warn(`Rejected invalid ${data.type} message: ${issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')}`);
+      ws.send(JSON.stringify({
+        type: 'ERROR',
+        code: 'INVALID_MESSAGE',
+        messageType: data.type,
+        message: `Invalid ${data.type} message`,
+        issues
+      }));
+      return;
+    }
+    if (ws.isSpectator && !SPECTATOR_MESSAGE_TYPES.has(data.type)) {
+      logger.warn(`Rejected ${data.type} from a spectator`);
+      ws.send(JSON.stringify({
+        type: 'ERROR',
+        message: 'Spectators cannot change the game'
+      }));
+      return;
+    }
     handler(ws, data);
   } else {
     logger.warn(`Unknown message type: ${data.type}`);
@@ -234,22 +301,19 @@ function handleDisconnection(ws) {
   try {
     const gameId = getGameIdForClient(ws);
 
-    if (gameId) {
+    // Spectators hold no seat, so nothing in the game changes when they leave
+    if (gameId && !ws.isSpectator) {
       const gameState = getGameState(gameId);
       if (gameState) {
         // Find the player and handle disconnection (use playerId for reliability)
         const player = gameState.players.find(p => p.id === ws.playerId);
         if (player) {
-          logGameAction(gameId, `Player ${player.name} disconnected`);
-
-          // Convert to dummy player if game is active
+          // Hold the seat for its owner if the game is active; it goes to the table as a dummy
+          // only if they do not reconnect in time
           if (gameState.isGameStarted) {
-            updateGameState(gameId, {
-              players: gameState.players.map(p =>
-                p.id === ws.playerId ? { ...p, isDummy: true, ws: null } : p
-              )
-            });
+            handlePlayerLeave(gameId, player.id, false, wssInstance, broadcastToGame, () => broadcastGamesList(wssInstance));
           } else {
+            recordGameEvent(gameId, { type: 'PLAYER_DISCONNECTED', actorId: player.id });
             // Remove player if game hasn't started
             const remainingPlayers = gameState.players.filter(p => p.id !== ws.playerId);
             if (remainingPlayers.length === 0) {
@@ -280,6 +344,8 @@ function handleDisconnection(ws) {
     // Clean up rate limiting data
     cleanupRateLimitData(ws);
 
+    removeSpectator(ws);
+
     // Remove client association
     removeClientAssociation(ws);
 
@@ -294,20 +360,28 @@ function handleDisconnection(ws) {
  */
 export function broadcastToGame(gameId, gameState, excludeClient = null) {
   try {
-    const sanitizedGameState = sanitizeGameState(gameState);
-    const message = JSON.stringify(sanitizedGameState);
+    // Every broadcast is a new version; clients use it to detect missed patches
+    gameState.version = (gameState.version || 0) + 1;
+
+    // The turn clock follows whoever the state being sent says is active
+    syncTurnClock(gameId, gameState, handleTurnTimeout);
+    // So does the AI, when the active seat is one it plays
+    syncDummyAi(gameId, gameState, handleDummyAiStep);
 
     // Get the client game map to find all clients associated with this game
     const clientGameMap = getClientGameMap();
+    const isDelayed = isSpectatorDelayActive(gameState);
 
-    // Send to all connected clients associated with this game
+    // Send to all connected clients associated with this game, each with its own view;
+    // spectators of a delayed game get theirs later from the delay buffer
     if (wssInstance && wssInstance.clients) {
       wssInstance.clients.forEach(client => {
         if (client !== excludeClient &&
             client.readyState === 1 && // WebSocket.OPEN
-            clientGameMap.get(client) === gameId) {
+            clientGameMap.get(client) === gameId &&
+            !(isDelayed && client.isSpectator)) {
           try {
-            client.send(message);
+            sendStateUpdate(client, gameId, createClientView(gameState, client));
           } catch (error) {
             logger.error('Error sending to client:', error);
           }
@@ -315,11 +389,98 @@ export function broadcastToGame(gameId, gameState, excludeClient = null) {
       });
     }
 
+    // Events recorded since the last broadcast go out with the state they led to;
+    // delayed spectators only see them in the log once the delay has passed
+    const events = takeUnbroadcastGameEvents(gameId);
+    if (events.length > 0) {
+      sendToGame(gameId, { type: 'GAME_EVENTS', gameId, events }, client => !(isDelayed && client.isSpectator));
+    }
+
+    const logs = getGameLogs(gameId);
+    recordReplayFrame(gameState, logs[logs.length - 1]?.seq || 0);
+
+    // Buffer even without spectators so late joiners also start behind real time
+    if (isDelayed) {
+      queueSpectatorView(gameId, JSON.parse(JSON.stringify(createPlayerView(gameState, null))), gameState.spectatorDelay * 1000,
+        view => sendToSpectators(gameId, view));
+    }
+
   } catch (error) {
     logger.error('Error broadcasting to game:', error);
   }
 }
 
+/**
+ * Send a message to every connected client in a game
+ * @param canReceive Optional filter, e.g. to limit team chat to the team's seats
+ */
+export function sendToGame(gameId, message, canReceive = null) {
+  const clientGameMap = getClientGameMap();
+  if (wssInstance && wssInstance.clients) {
+    wssInstance.clients.forEach(client => {
+      if (clientGameMap.get(client) === gameId && (!canReceive || canReceive(client))) {
+        sendToClient(client, message);
+      }
+    });
+  }
+}
+
+/**
+ * Send a released delayed view to every spectator of a game
+ */
+export function sendToSpectators(gameId, view) {
+  getSpectators(gameId).forEach(client => {
+    if (client.readyState === 1) {
+      sendStateUpdate(client, gameId, view);
+    }
+  });
+}
+
+/**
+ * Build the plain (detached) view of the game state a client may see
+ */
+function createClientView(gameState, client) {
+  return JSON.parse(JSON.stringify(sanitizeGameState(gameState, client)));
+}
+
+/**
+ * Send a client the changes since the last view it received, or a full snapshot
+ * if it has none for this game
+ */
+function sendStateUpdate(client, gameId, view) {
+  const lastSent = lastSentViews.get(client);
+  lastSentViews.set(client, { gameId, view });
+
+  if (!lastSent || lastSent.gameId !== gameId) {
+    client.send(JSON.stringify(view));
+    return;
+  }
+
+  client.send(JSON.stringify({
+    type: 'STATE_PATCH',
+    gameId,
+    baseVersion: lastSent.view.version,
+    version: view.version,
+    patch: createPatch(lastSent.view, view)
+  }));
+}
+
+/**
+ * Send the full current game state to a single client (e.g. to roll back a rejected
+ * action or answer SYNC_GAME); later broadcasts are patches against this snapshot
+ */
+export function sendGameStateToClient(client, gameState) {
+  // Spectators of a delayed game only ever get views that have aged past the delay
+  const view = client.isSpectator && isSpectatorDelayActive(gameState)
+    ? getReleasedSpectatorView(gameState.gameId)
+    : createClientView(gameState, client);
+  if (!view) {
+    return;
+  }
+  lastSentViews.set(client, { gameId: gameState.gameId, view });
+  sendToClient(client, view);
+}
+
 /**
  * Send message to specific client
  */
@@ -335,15 +496,10 @@ export function sendToClient(client, message) {
 
 /**
  * Sanitize game state for client transmission
+ * Strips WebSocket references and everything the client's seat is not allowed to see
  */
-function sanitizeGameState(gameState) {
-  return {
-    ...gameState,
-    players: gameState.players.map(player => ({
-      ...player,
-      ws: undefined // Remove WebSocket references
-    }))
-  };
+function sanitizeGameState(gameState, client) {
+  return createPlayerView(gameState, client.playerId ?? null);
 }
 
 // ============================================================================
@@ -363,68 +519,7 @@ function handleSyncGame(ws) {
   if (gameId) {
     const gameState = getGameState(gameId);
     if (gameState) {
-      sendToClient(ws, gameState);
+      sendGameStateToClient(ws, gameState);
     }
   }
 }
-
-// Card action handlers - primarily client-side, logged here for tracking
-function handleCreateGame() {
-  logger.info('CREATE_GAME - handled via UPDATE_STATE');
-}
-
-function handlePlayCard() {
-  logger.info('PLAY_CARD - handled via UPDATE_STATE');
-}
-
-function handleMoveCard() {
-  logger.info('MOVE_CARD - handled via UPDATE_STATE');
-}
-
-function handleEndTurn() {
-  logger.info('END_TURN - handled via UPDATE_STATE');
-}
-
-function handleChatMessage() {
-  logger.info('CHAT_MESSAGE not yet implemented');
-}
-
-function handleDrawCard() {
-  logger.info('DRAW_CARD - handled via UPDATE_STATE');
-}
-
-function handleShuffleDeck() {
-  logger.info('SHUFFLE_DECK - handled via UPDATE_STATE');
-}
-
-function handleAnnounceCard() {
-  logger.info('ANNOUNCE_CARD - handled via UPDATE_STATE');
-}
-
-function handlePlayCounter() {
-  logger.info('PLAY_COUNTER - handled via UPDATE_STATE');
-}
-
-function handlePlayToken() {
-  logger.info('PLAY_TOKEN - handled via UPDATE_STATE');
-}
-
-function handleDestroyCard() {
-  logger.info('DESTROY_CARD - handled via UPDATE_STATE');
-}
-
-function handleReturnCardToHand() {
-  logger.info('RETURN_CARD_TO_HAND - handled via UPDATE_STATE');
-}
-
-function handleAddCommand() {
-  logger.info('ADD_COMMAND - handled via UPDATE_STATE');
-}
-
-function handleCancelPendingCommand() {
-  logger.info('CANCEL_PENDING_COMMAND - handled via UPDATE_STATE');
-}
-
-function handleExecutePendingCommand() {
-  logger.info('EXECUTE_PENDING_COMMAND - handled via UPDATE_STATE');
-}
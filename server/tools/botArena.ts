@@ -0,0 +1,137 @@
+/**
+ * @file Bot arena CLI
+ * Starts a game server in this process and plays matches between two bots over WebSocket,
+ * the same way bots would play on a real server.
+ *
+ * Usage:
+ *   npm run arena -- --bot-a greedy --bot-b ./bots/my-bot.js [--games 10] [--port 0]
+ *
+ * A bot is random or greedy (the examples in server/bots), or the path of a module whose
+ * default export is a Bot.
+ */
+
+import path from 'path';
+import { createServer } from 'http';
+import { pathToFileURL } from 'url';
+import { parseArgs } from 'util';
+import { WebSocketServer } from 'ws';
+import type { AddressInfo } from 'net';
+import { setupWebSocket } from '../services/websocket.js';
+import { initializeContent } from '../services/content.js';
+import { CONFIG } from '../utils/config.js';
+import { BotClient } from '../bots/botClient.js';
+import type { Bot } from '../bots/botClient.js';
+import randomBot from '../bots/randomBot.js';
+import greedyBot from '../bots/greedyBot.js';
+
+const BUILT_IN_BOTS: Record<string, Bot> = { random: randomBot, greedy: greedyBot };
+const MAX_GAMES = 1000;
+// A match that has not ended by then is counted as unfinished
+const MATCH_TIMEOUT_MS = 5 * 60 * 1000;
+
+const USAGE = 'Usage: npm run arena -- --bot-a random|greedy|<module> --bot-b random|greedy|<module> [--games N] [--port P]';
+
+/**
+ * Resolve a bot argument to a built-in bot or a bot module
+ */
+async function loadBot(source: string): Promise<Bot> {
+  if (BUILT_IN_BOTS[source]) {
+    return BUILT_IN_BOTS[source];
+  }
+  const botModule = await import(pathToFileURL(path.resolve(source)).href);
+  if (typeof botModule.default?.chooseAction !== 'function') {
+    throw new Error(`${source}: a bot module must export a Bot as its default export`);
+  }
+  return botModule.default;
+}
+
+/**
+ * Play one match between two bots
+ * @returns The seats that won, or null when the match did not end in time
+ */
+async function playMatch(url: string, host: Bot, guest: Bot): Promise<number[] | null> {
+  const clients = [new BotClient({ url, bot: host, actionIntervalMs: 0 }), new BotClient({ url, bot: guest, actionIntervalMs: 0 })];
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    await Promise.all(clients.map(client => client.connect()));
+    const gameId = await clients[0].createGame();
+    await clients[1].joinGame(gameId);
+
+    const gameOver = clients[0].waitForGameOver();
+    clients[0].startReadyCheck();
+    clients.forEach(client => client.ready());
+
+    const timeout = new Promise<null>(resolve => {
+      timer = setTimeout(() => resolve(null), MATCH_TIMEOUT_MS);
+    });
+    const finalView = await Promise.race([gameOver, timeout]);
+    return finalView ? finalView.gameWinners ?? [] : null;
+  } finally {
+    clearTimeout(timer);
+    clients.forEach(client => client.close());
+  }
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      'bot-a': { type: 'string' },
+      'bot-b': { type: 'string' },
+      games: { type: 'string', default: '10' },
+      port: { type: 'string', default: '0' }
+    }
+  });
+
+  const games = Number(values.games);
+  const port = Number(values.port);
+  if (!values['bot-a'] || !values['bot-b'] || !Number.isInteger(games) || games < 1 || games > MAX_GAMES ||
+      !Number.isInteger(port) || port < 0) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const botNames = [values['bot-a'], values['bot-b']];
+  const bots = await Promise.all(botNames.map(loadBot));
+
+  await initializeContent();
+  // Bots here move as fast as the server answers
+  CONFIG.MESSAGE_RATE_LIMIT = Number.MAX_SAFE_INTEGER;
+
+  const server = createServer();
+  const wss = new WebSocketServer({ noServer: true });
+  server.on('upgrade', (request, socket, head) => {
+    wss.handleUpgrade(request, socket, head, (ws) => {
+      wss.emit('connection', ws, request);
+    });
+  });
+  setupWebSocket(wss);
+  await new Promise<void>(resolve => server.listen(port, resolve));
+  const url = `ws://localhost:${(server.address() as AddressInfo).port}`;
+
+  const wins = [0, 0];
+  let draws = 0;
+  let unfinished = 0;
+  const startedAt = Date.now();
+  for (let i = 0; i < games; i++) {
+    // Bots take turns at the host seat, which moves first
+    const seats = i % 2 === 0 ? [0, 1] : [1, 0];
+    const winners = await playMatch(url, bots[seats[0]], bots[seats[1]]);
+    if (winners === null) {
+      unfinished++;
+    } else if (winners.length === 1) {
+      wins[seats[winners[0] - 1]]++;
+    } else {
+      draws++;
+    }
+  }
+
+  console.log(`Played ${games} matches in ${((Date.now() - startedAt) / 1000).toFixed(1)}s: ` +
+    botNames.map((name, i) => `${bots[i].name ?? name} (${i === 0 ? 'A' : 'B'}) ${wins[i]} wins`).join(', ') +
+    `, ${draws} draws` + (unfinished > 0 ? `, ${unfinished} unfinished` : ''));
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
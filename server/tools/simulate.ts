@@ -0,0 +1,125 @@
+/**
+ * @file Headless match simulator CLI
+ * Plays many matches between two decks with bots and writes win rates, round lengths and
+ * per-card stats as JSON or CSV.
+ *
+ * Usage:
+ *   npm run simulate -- --deck-a SynchroTech --deck-b ./decks/my-deck.json \
+ *     [--bot-a hard] [--bot-b ./bots/my-bot.js] [--games 200] [--seed avalon] [--format csv] [--out report.csv]
+ *
+ * A deck is a deck id from the content database or the path of a custom deck file
+ * (the JSON the deck builder saves). A bot is easy, normal or hard, or the path of a
+ * module whose default export is a BotPolicy.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { parseArgs } from 'util';
+import { initializeContent, getCardDefinition, getCounterDefinition, getDeckFiles, getTokenDefinition } from '../services/content.js';
+import { getBuiltInPolicy, reportToCsv, simulateMatches } from '../utils/matchSimulator.js';
+import type { BotPolicy, SimulationSide } from '../utils/matchSimulator.js';
+import type { AiDifficulty, CustomDeckCard } from '../types/types.js';
+
+const BUILT_IN_BOTS: AiDifficulty[] = ['easy', 'normal', 'hard'];
+const MAX_GAMES = 100000;
+
+const USAGE = 'Usage: npm run simulate -- --deck-a <deck id | deck.json> --deck-b <deck id | deck.json> ' +
+  '[--bot-a easy|normal|hard|<module>] [--bot-b ...] [--games N] [--seed S] [--format json|csv] [--out file]';
+
+/**
+ * Resolve a deck argument to a name and card list
+ */
+function loadDeck(source: string): { name: string; cards: CustomDeckCard[] } {
+  const deckFile = getDeckFiles().find(deck => deck.id === source);
+  if (deckFile) {
+    return { name: deckFile.name || deckFile.id, cards: deckFile.cards };
+  }
+
+  if (!fs.existsSync(source)) {
+    throw new Error(`"${source}" is neither a deck id nor a deck file`);
+  }
+  const data = JSON.parse(fs.readFileSync(source, 'utf8'));
+  if (typeof data.deckName !== 'string' || !Array.isArray(data.cards)) {
+    throw new Error(`${source}: a deck file must have 'deckName' (string) and 'cards' (array)`);
+  }
+  for (const card of data.cards) {
+    if (typeof card.cardId !== 'string' || !Number.isInteger(card.quantity) || card.quantity < 1) {
+      throw new Error(`${source}: invalid card entry ${JSON.stringify(card)}`);
+    }
+    if (!getCardDefinition(card.cardId)) {
+      throw new Error(`${source}: card with ID '${card.cardId}' does not exist`);
+    }
+  }
+  return { name: data.deckName, cards: data.cards.map(card => ({ cardId: card.cardId, quantity: card.quantity })) };
+}
+
+/**
+ * Resolve a bot argument to a built-in difficulty or a policy module
+ */
+async function loadPolicy(source: string): Promise<BotPolicy> {
+  if (BUILT_IN_BOTS.includes(source as AiDifficulty)) {
+    return getBuiltInPolicy(source as AiDifficulty);
+  }
+  const botModule = await import(pathToFileURL(path.resolve(source)).href);
+  if (typeof botModule.default !== 'function') {
+    throw new Error(`${source}: a bot module must export a policy function as its default export`);
+  }
+  return botModule.default;
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      'deck-a': { type: 'string' },
+      'deck-b': { type: 'string' },
+      'bot-a': { type: 'string', default: 'normal' },
+      'bot-b': { type: 'string', default: 'normal' },
+      games: { type: 'string', default: '100' },
+      seed: { type: 'string', default: 'avalon' },
+      format: { type: 'string', default: 'json' },
+      out: { type: 'string' }
+    }
+  });
+
+  const games = Number(values.games);
+  if (!values['deck-a'] || !values['deck-b'] || !Number.isInteger(games) || games < 1 || games > MAX_GAMES ||
+      (values.format !== 'json' && values.format !== 'csv')) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  await initializeContent();
+
+  const deckNames = [values['deck-a'], values['deck-b']];
+  const botNames = [values['bot-a'], values['bot-b']];
+  const sides = await Promise.all(deckNames.map(async (source, i): Promise<SimulationSide> => {
+    const deck = loadDeck(source);
+    return {
+      // The same deck on both sides still needs two names in the report
+      name: deckNames[0] === deckNames[1] ? `${deck.name} (${i === 0 ? 'A' : 'B'})` : deck.name,
+      cards: deck.cards,
+      policyName: botNames[i],
+      policy: await loadPolicy(botNames[i])
+    };
+  }));
+
+  const startedAt = Date.now();
+  const report = simulateMatches({ sides: [sides[0], sides[1]], games, seed: values.seed }, {
+    getCardDefinition,
+    getTokenDefinition,
+    getCounterDefinition
+  });
+  const output = values.format === 'csv' ? reportToCsv(report) : JSON.stringify(report, null, 2) + '\n';
+
+  const outPath = values.out || `simulation-${values.seed}.${values.format}`;
+  fs.writeFileSync(outPath, output);
+  console.log(`Simulated ${games} matches in ${((Date.now() - startedAt) / 1000).toFixed(1)}s: ` +
+    report.sides.map(side => `${side.name} ${Math.round(side.winRate * 100)}%`).join(', ') +
+    `, ${report.draws} draws. Report written to ${outPath}`);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,111 @@
+/**
+ * @file WebSocket message contract between client and server.
+ * Every message the client may send (ClientMessage) and every message the server
+ * sends back (ServerMessage). Runtime schemas for inbound messages live in
+ * server/utils/messageSchemas.ts and are type-checked against these definitions.
+ */
+
+import type { AiDifficulty, ChatChannel, ChatMessage, FloatingTextData, GameEvent, GameMode, GameState, GridSize, HighlightData, MatchRules, PlayerColor, DeckType, TimeControls } from './types.js';
+import type { GameAction } from '../utils/gameActions.js';
+import type { PatchOperation } from '../utils/statePatch.js';
+import type { ValidationIssue } from '../utils/schema.js';
+
+/**
+ * Card database pushed by the host with UPDATE_DECK_DATA.
+ */
+export interface DeckDataPayload {
+  cardDatabase?: Record<string, unknown>;
+  tokenDatabase?: Record<string, unknown>;
+  deckFiles?: unknown[];
+}
+
+/**
+ * Game intents (see server/utils/gameActions.ts), scoped to a game.
+ */
+export type GameActionMessage = GameAction & { gameId: string };
+
+/**
+ * Messages sent from the client to the server.
+ */
+export type ClientMessage =
+  // Connection and lobby
+  | { type: 'GET_GAMES_LIST' }
+  | { type: 'CREATE_GAME'; isPrivate?: boolean }
+  | { type: 'JOIN_GAME'; gameId: string; playerToken?: string }
+  | { type: 'SUBSCRIBE'; gameId: string }
+  | { type: 'EXIT_GAME'; gameId: string; playerId?: number }
+  | { type: 'SYNC_GAME' }
+  | { type: 'FORCE_SYNC'; gameId: string }
+  | { type: 'RESET_GAME'; gameId: string }
+  | { type: 'UPDATE_STATE'; gameState: GameState; requestId?: number }
+  | { type: 'UPDATE_DECK_DATA'; deckData: DeckDataPayload }
+  // Ready check
+  | { type: 'START_READY_CHECK'; gameId: string }
+  | { type: 'CANCEL_READY_CHECK'; gameId: string }
+  | { type: 'PLAYER_READY'; gameId: string; playerId: number }
+  // Game settings
+  | { type: 'ASSIGN_TEAMS'; gameId: string; assignments: Record<string, number[]> }
+  | { type: 'SET_GAME_MODE'; gameId: string; mode: GameMode }
+  | { type: 'SET_GAME_PRIVACY'; gameId: string; isPrivate: boolean }
+  | { type: 'SET_GRID_SIZE'; gameId: string; gridSize: GridSize }
+  | { type: 'SET_DUMMY_PLAYER_COUNT'; gameId: string; count: number }
+  | { type: 'SET_DUMMY_AI'; gameId: string; playerId: number; difficulty: AiDifficulty | null }
+  | { type: 'SET_SPECTATOR_DELAY'; gameId: string; seconds: number }
+  | { type: 'SET_MATCH_RULES'; gameId: string; rules: MatchRules }
+  | { type: 'SET_TIME_CONTROLS'; gameId: string; controls: TimeControls }
+  // Player settings
+  | { type: 'UPDATE_PLAYER_NAME'; gameId: string; playerId: number; playerName: string }
+  | { type: 'CHANGE_PLAYER_COLOR'; gameId: string; playerId: number; color: PlayerColor }
+  | { type: 'CHANGE_PLAYER_DECK'; gameId: string; playerId: number; deckType: DeckType }
+  | { type: 'LOAD_CUSTOM_DECK'; gameId: string; playerId: number }
+  // Phases
+  | { type: 'TOGGLE_AUTO_ABILITIES'; gameId: string; enabled: boolean }
+  | { type: 'TOGGLE_AUTO_DRAW'; gameId: string; playerId: number; enabled: boolean }
+  | { type: 'TOGGLE_ACTIVE_PLAYER'; gameId: string; playerId: number }
+  | { type: 'NEXT_PHASE'; gameId: string }
+  | { type: 'PREV_PHASE'; gameId: string }
+  | { type: 'SET_PHASE'; gameId: string; phaseIndex: number }
+  // Undo
+  | { type: 'UNDO_ACTION'; gameId: string }
+  | { type: 'REDO_ACTION'; gameId: string }
+  | { type: 'RESPOND_UNDO_REQUEST'; gameId: string; accepted: boolean }
+  // Chat
+  | { type: 'CHAT_MESSAGE'; gameId?: string; text: string; channel?: ChatChannel }
+  // Logs
+  | { type: 'LOG_GAME_ACTION'; gameId: string; action: string }
+  | { type: 'GET_GAME_LOGS'; gameId: string }
+  // Visual effects
+  | { type: 'TRIGGER_HIGHLIGHT'; gameId: string; highlightData: HighlightData }
+  | { type: 'TRIGGER_NO_TARGET'; gameId: string; coords: { row: number; col: number }; timestamp: number }
+  | { type: 'TRIGGER_FLOATING_TEXT'; gameId: string; floatingTextData: FloatingTextData }
+  | { type: 'TRIGGER_FLOATING_TEXT_BATCH'; gameId: string; batch: FloatingTextData[] }
+  | GameActionMessage;
+
+export type ClientMessageType = ClientMessage['type'];
+
+export type ClientMessageOf<T extends ClientMessageType> = Extract<ClientMessage, { type: T }>;
+
+/**
+ * Messages sent from the server to the client.
+ * Full game state snapshots are sent without a `type` field.
+ */
+export type ServerMessage =
+  | { type: 'CONNECTION_ESTABLISHED'; timestamp: number }
+  | { type: 'GAMES_LIST'; games: { gameId: string; playerCount: number; spectatorCount?: number }[] }
+  | { type: 'JOIN_SUCCESS'; gameId: string; playerId: number | null; playerToken?: string; isSpectator?: boolean }
+  | { type: 'ERROR'; message: string; code?: 'INVALID_MESSAGE'; messageType?: string; issues?: ValidationIssue[] }
+  | { type: 'ACTION_REJECTED'; actionType: string; message: string }
+  | { type: 'STATE_PATCH'; gameId: string; baseVersion: number; version: number; patch: PatchOperation[] }
+  | { type: 'STATE_CONFLICT'; requestId?: number; baseVersion?: number; version: number }
+  | { type: 'DECK_DATA_UPDATED'; success: boolean }
+  | { type: 'CUSTOM_DECK_LOADED'; playerId: number; success: boolean }
+  | { type: 'GAME_LOGS'; gameId: string; logs: GameEvent[] }
+  | { type: 'GAME_EVENTS'; gameId: string; events: GameEvent[] }
+  | { type: 'CHAT_MESSAGE'; message: ChatMessage }
+  | { type: 'CHAT_HISTORY'; gameId: string; messages: ChatMessage[] }
+  | { type: 'HIGHLIGHT_TRIGGERED'; highlightData: HighlightData }
+  | { type: 'NO_TARGET_TRIGGERED'; coords: { row: number; col: number }; timestamp: number }
+  | { type: 'FLOATING_TEXT_TRIGGERED'; floatingTextData: FloatingTextData }
+  | { type: 'FLOATING_TEXT_BATCH_TRIGGERED'; batch: FloatingTextData[] };
+
+export type ServerMessageType = ServerMessage['type'];
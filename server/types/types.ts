@@ -41,8 +41,26 @@ export type PlayerColor = 'blue' | 'purple' | 'red' | 'green' | 'yellow' | 'oran
 export interface CardStatus {
   type: string;
   addedByPlayerId: number;
+  duration?: StatusDuration; // Absent for statuses that stay until something removes them
 }
 
+/**
+ * How long a status lasts; expired by the turn engine (server/utils/statusDurations.ts).
+ * `rounds` counts the current round: 1 lasts until the end of this round.
+ */
+export type StatusDuration =
+  | { until: 'nextPhase' } // The start of the next phase
+  | { until: 'endOfTurn' } // The end of the current turn
+  | { until: 'ownersNextTurn' } // The start of the card owner's next turn
+  | { until: 'leavesBoard' } // The card leaves the board; other statuses are dropped then anyway
+  | { rounds: number };
+
+/**
+ * What happens to a card when a status of this counter type runs out
+ */
+export type StatusExpiryEffect =
+  | { do: 'addStatus'; status: string }; // Puts a status on the card, unless a reaction prevents it
+
 /**
  * Represents the definition of a counter/status in the database.
  */
@@ -54,6 +72,8 @@ export interface CounterDefinition {
     sortOrder: number;
     allowedPanels?: string[]; // Controls visibility in UI panels (e.g. 'COUNTER_PANEL')
     allowedTargets?: ('board' | 'hand' | 'deck' | 'discard' | 'announced')[]; // Controls where this counter can be placed
+    duration?: StatusDuration; // Placed counters of this type expire after it
+    onExpire?: StatusExpiryEffect[]; // Applied to the card when such a counter runs out
 }
 
 
@@ -81,6 +101,9 @@ export interface Card {
   types?: string[]; // The types associated with the card (e.g. ["Unit", "SynchroTech"], ["Command"]).
   faction?: string; // The faction this card belongs to (for deck building colors).
   allowedPanels?: string[]; // Controls visibility in UI panels (e.g. 'DECK_BUILDER', 'TOKEN_PANEL')
+  abilities?: AbilityDescriptor[]; // Ability descriptors of the card's definition in the content database
+  reactions?: CardReaction[]; // Card reactions of the card's definition in the content database
+  auras?: CardAura[]; // Passive auras of the card's definition in the content database
   enteredThisTurn?: boolean; // True if the card entered the battlefield during the current turn
   abilityUsedInPhase?: number; // Stores the phase index where the ability was last used
   deployAbilityConsumed?: boolean; // True if the card's Deploy ability has already been used while on the board
@@ -102,11 +125,14 @@ export interface Player {
   color: PlayerColor;
   isDummy?: boolean; // True if this is a dummy player.
   isDisconnected?: boolean; // True if the player has disconnected but can rejoin.
+  replacedByDummy?: boolean; // True if a human seat was handed to the table as a dummy; its cards stay hidden.
   playerToken?: string; // A secret token for reconnecting to this player slot.
   isReady?: boolean; // For the pre-game ready check.
   teamId?: number; // The team this player belongs to.
   boardHistory: string[]; // Stack of card IDs currently on the board, used to track 'LastPlayed' status fallback.
   autoDrawEnabled?: boolean; // Whether this player has auto-draw enabled.
+  timeBankMs?: number; // Time left in the player's bank when the game uses one
+  aiDifficulty?: AiDifficulty; // Set when the built-in AI plays this dummy seat
 }
 
 /**
@@ -145,6 +171,69 @@ export interface RevealRequest {
     cardIdentifiers: CardIdentifier[];
 }
 
+/**
+ * An undo that waits for the other players to agree, because the undone action revealed hidden cards.
+ */
+export interface UndoRequest {
+    fromPlayerId: number;
+    pendingPlayerIds: number[]; // Seats that have not accepted yet
+}
+
+/**
+ * How a match is decided when players are tied for the most round wins.
+ * - shared: every tied player wins
+ * - suddenDeath: further rounds are played until one player is ahead
+ */
+export type TieBreakPolicy = 'shared' | 'suddenDeath';
+
+/**
+ * Per-game rules for winning rounds and the match, set by the host in the lobby.
+ */
+export interface MatchRules {
+    roundTargets: number[]; // Score that ends each round; the last one also applies to later rounds
+    maxRounds: number; // After this round the match goes to the player with the most round wins
+    winsNeeded: number; // Round wins that take the match early
+    finalRoundTurnLimit: number; // Turns after which rounds from the final one on end without a target score; 0 = no limit
+    tieBreak: TieBreakPolicy;
+}
+
+/**
+ * How strongly the built-in AI plays a dummy seat.
+ * - easy: random legal plays
+ * - normal: the play that scores best right away
+ * - hard: looks one play ahead, Deploy abilities included, and weighs the opponents' lines
+ */
+export type AiDifficulty = 'easy' | 'normal' | 'hard';
+
+/**
+ * What happens when the active player runs out of time.
+ * - autoAdvance: the turn passes to the next player
+ * - warn: everyone is shown that the player is over time
+ * - forfeitRound: the player loses the round to the other players
+ */
+export type TimeoutBehavior = 'autoAdvance' | 'warn' | 'forfeitRound';
+
+/**
+ * Optional per-game time controls, set by the host in the lobby.
+ * With both a turn limit and a bank, a turn ends at whichever runs out first.
+ */
+export interface TimeControls {
+    turnLimitSeconds: number; // Longest a single turn may take; 0 = no limit
+    bankSeconds: number; // Time each player starts with for all their turns; 0 = no bank
+    incrementSeconds: number; // Added to a player's bank after each of their turns
+    onTimeout: TimeoutBehavior;
+}
+
+/**
+ * The running clock of the active player's turn, in server time.
+ */
+export interface TurnClock {
+    playerId: number;
+    startedAt: number;
+    deadline: number;
+    isExpired: boolean;
+}
+
 /**
  * Data structure for sharing board highlights between players.
  */
@@ -168,6 +257,94 @@ export interface FloatingTextData {
     timestamp: number;
 }
 
+/**
+ * Who can read a chat message: everyone in the game, or only the sender's team.
+ */
+export type ChatChannel = 'all' | 'team';
+
+/**
+ * A chat message as stored with the game and delivered to clients.
+ */
+export interface ChatMessage {
+    id: string;
+    playerId: number;
+    playerName: string;
+    text: string;
+    channel: ChatChannel;
+    teamId?: number; // Set for team messages; only members of this team receive them
+    timestamp: number;
+}
+
+/**
+ * Kinds of entries in a game's event log.
+ */
+export type GameEventType =
+  | 'PLAYER_JOINED'
+  | 'PLAYER_LEFT'
+  | 'PLAYER_DISCONNECTED'
+  | 'PLAYER_RECONNECTED'
+  | 'PLAYER_REPLACED_BY_DUMMY'
+  | 'GAME_STARTED'
+  | 'GAME_RESET'
+  | 'GAME_SYNCED'
+  | 'GAME_ENDED'
+  | 'CARD_PLAYED'
+  | 'CARD_MOVED'
+  | 'CARD_DRAWN'
+  | 'CARD_ANNOUNCED'
+  | 'CARD_DESTROYED'
+  | 'CARD_RETURNED_TO_HAND'
+  | 'CARD_RESURRECTED'
+  | 'DECK_SHUFFLED'
+  | 'TOKEN_PLAYED'
+  | 'COUNTER_PLACED'
+  | 'ROUND_CONFIRMED'
+  | 'ACTIVE_PLAYER_CHANGED'
+  | 'PHASE_CHANGED'
+  | 'SCORE_CHANGED'
+  | 'ACTION_UNDONE'
+  | 'ACTION_REDONE'
+  | 'TURN_TIMED_OUT'
+  | 'SHUFFLE_SEED_COMMITTED'
+  | 'SHUFFLE_SEED_REVEALED'
+  | 'NOTE';
+
+/**
+ * Where a card was taken from or put to.
+ */
+export interface GameEventLocation {
+    zone: 'board' | 'hand' | 'deck' | 'discard' | 'announced' | 'token_panel' | 'counter_panel';
+    playerId?: number; // Owner of the zone (not set for the board)
+    coords?: { row: number; col: number }; // Board cell
+}
+
+/**
+ * One entry of a game's event log, appended by the server as actions are applied.
+ * Cards are only identified (cardBaseIds) when they are visible to every player.
+ */
+export interface GameEvent {
+    seq: number; // Increases by one per event within a game
+    timestamp: number;
+    type: GameEventType;
+    actorId: number | null; // Seat that caused the event; null for the server itself
+    playerId?: number; // Seat the event is about, when it differs from the actor
+    cardBaseIds?: string[];
+    from?: GameEventLocation;
+    to?: GameEventLocation;
+    statusType?: string; // Counter or status involved
+    before?: number | null; // Score, phase, round or active seat before the change
+    after?: number | null; // ...and after it; for counters, how many were placed
+    text?: string; // Free text of notes and end reasons; the commitment or seed of shuffle seed events
+    turn: number;
+    phase: number;
+    round: number;
+}
+
+/**
+ * An event as handlers describe it; the log fills in its sequence number, time and turn position.
+ */
+export type GameEventInput = Omit<GameEvent, 'seq' | 'timestamp' | 'turn' | 'phase' | 'round'>;
+
 /**
  * Represents the complete state of the game at any given moment.
  */
@@ -186,6 +363,7 @@ export interface GameState {
   startingPlayerId: number | null; // The ID of the player who started the game (Turn 1 Player 1)
   currentPhase: number; // 0 to 4 representing the index in TURN_PHASES
   isScoringStep: boolean; // True when waiting for the active player to score a line after Commit phase
+  turnScores?: string[]; // Scored this turn: 'line' for the scoring step, the card id of each scoring ability
 
   // Auto-abilities settings
   autoAbilitiesEnabled: boolean; // If true, auto-activate card abilities
@@ -198,7 +376,19 @@ export interface GameState {
   roundEndTriggered: boolean; // True if someone hit the score threshold
   roundWinners: Record<number, number[]>; // Map of Round Number -> Winner Player IDs
   gameWinner: number | null; // Player ID if game is over
+  gameWinners?: number[]; // Every winner of the match; more than one after a shared win
   isRoundEndModalOpen: boolean; // Controls visibility of inter-round modal
+
+  version?: number; // Server state revision, incremented on every broadcast; UPDATE_STATE must be built on the current one
+  spectatorDelay?: number; // Seconds spectators watch behind real time; 0 = live
+  undoRequest?: UndoRequest | null; // Pending undo that needs the other players' approval
+  matchRules?: MatchRules; // Missing in games saved before match rules existed
+  timeControls?: TimeControls; // Missing when the game is played without a clock
+  turnClock?: TurnClock | null; // Set while the active player's turn is timed
+  shuffleSeed?: string; // Server only: secret seed of the match's shuffles, never sent to clients
+  shuffleCommitment?: string | null; // SHA-256 of the match's shuffle seed, published when it starts
+  shuffleCount?: number; // Shuffles drawn from the seed so far; the next one has this number
+  tokenCount?: number; // Tokens created so far; numbers the ids of new token cards
 }
 
 /**
@@ -308,6 +498,177 @@ export interface CommandContext {
 export interface CounterSelectionData {
     card: Card;
     callbackAction: 'DRAW_REMOVED' | 'SCORE_REMOVED';
+    step?: 'main' | number; // The command step being resolved
+}
+
+/**
+ * When a card ability can be used: deploy, setup and commit abilities belong to units on
+ * the board, command steps to command cards.
+ */
+export type AbilityTrigger = 'deploy' | 'setup' | 'commit' | 'command';
+
+/**
+ * Which cards an ability may target, relative to the ability's owner and source card.
+ * Stacks take a single status and neither notSource nor onBoard; 'movedCardOwner' (the
+ * owner of the card the previous step moved) only applies to stacks.
+ */
+export interface AbilityTargetSelector {
+    owner?: 'self' | 'other' | 'opponent' | 'movedCardOwner'; // 'other' is anyone else, 'opponent' also leaves out teammates
+    status?: string | string[]; // Target must carry one of these statuses...
+    statusBy?: 'self' | 'anyone'; // ...added by the ability's owner (default) or by anyone
+    type?: string; // Card type the target must have, e.g. Unit
+    faceDown?: boolean;
+    adjacentToSource?: boolean;
+    inLineWithSource?: boolean;
+    notSource?: boolean; // The source card cannot target itself
+    onBoard?: boolean; // Only cards on the board, not in hand
+}
+
+/**
+ * How many counters a stack holds: a number, the owner's counters of a kind on the board
+ * counted when the ability is used (no action if there are none), or counted when the
+ * stack starts.
+ */
+export type AbilityCount = number | { ownCounters: string } | { countersOf: string };
+
+/**
+ * What a step scores, counted by the server from the board when the player resolves it
+ * (SCORE_ABILITY):
+ * - line: the chosen row or column, scored like the scoring step
+ * - diagonal: the chosen diagonal; `bonus` adds a point or a draw per supported card
+ * - countersInLine: a point per `counter` of the owner in the chosen row or column
+ * - revealed: a point per Revealed of the owner on other players' cards, in hand or on the board
+ * - targetPower: the power of the chosen unit of the owner
+ * - removedCounters: a point per counter removed from the chosen unit of the owner
+ */
+export type AbilityScore =
+    | { count: 'line' }
+    | { count: 'diagonal'; bonus?: 'point_per_support' | 'draw_per_support' }
+    | { count: 'countersInLine'; counter: string }
+    | { count: 'revealed' }
+    | { count: 'targetPower' }
+    | { count: 'removedCounters' };
+
+/**
+ * One step of an ability, interpreted by the ability engine (server/utils/abilityEngine.ts):
+ * - stack: place counters on targets (CREATE_STACK)
+ * - mode: a targeting mode of the table, e.g. SELECT_TARGET with params.actionType (ENTER_MODE)
+ * - modal: a modal such as SEARCH_DECK (OPEN_MODAL)
+ * - applyAll: an effect applied without targeting (GLOBAL_AUTO_APPLY)
+ * String params equal to "$owner" are replaced with the ability owner's id.
+ */
+export interface AbilityEffect {
+    do: 'stack' | 'mode' | 'modal' | 'applyAll';
+    counter?: string; // stack: counter type
+    count?: AbilityCount; // stack
+    allAtOnce?: boolean; // stack: all counters go on one target
+    mode?: string; // mode, modal
+    params?: Record<string, unknown>; // Payload of the mode, modal or effect
+    target?: AbilityTargetSelector;
+    cells?: AbilityTargetSelector; // modal: board cells it may pick, by position only
+    recordTarget?: boolean; // Remember the target (or moved card) for the following steps
+    withSource?: boolean; // Chained steps: carry the source card, like the first step does
+    score?: AbilityScore; // mode, applyAll: points the step is worth
+    then?: AbilityEffect; // Step that follows this one
+}
+
+/**
+ * An ability of a card as stored in the content database.
+ */
+export interface AbilityDescriptor {
+    trigger: AbilityTrigger;
+    step?: 'main' | number; // Commands: the common step, or the index of an option
+    requires?: string; // Status the source card must carry from its owner, e.g. Support
+    effect: AbilityEffect;
+}
+
+/**
+ * Game events card reactions and rules subscribe to (server/utils/cardEvents.ts).
+ */
+export type CardEventType =
+    | 'onEnterBoard'
+    | 'onLeaveBoard'
+    | 'onDestroyed'
+    | 'onMoved'
+    | 'onStatusAdded'
+    | 'onPhaseStart'
+    | 'onPhaseEnd'
+    | 'onScored';
+
+/**
+ * What a card reaction does, to the reacting card or its owner:
+ * - preventStatus: the status of an onStatusAdded event is not added
+ * - addPower: the reacting card gets `amount` power
+ * - gainPoints: the reacting card's owner scores `amount` points
+ */
+export type CardReactionEffect =
+    | { do: 'preventStatus' }
+    | { do: 'addPower'; amount: number }
+    | { do: 'gainPoints'; amount: number };
+
+/**
+ * A passive effect of a card as stored in the content database: the card reacts to an
+ * event about itself (subject 'self', the default) or about any card, while it is on the
+ * board or is the card the event is about. Every condition that is set must hold.
+ */
+export interface CardReaction {
+    on: CardEventType;
+    subject?: 'self' | 'any';
+    owner?: 'self' | 'other' | 'opponent'; // Owner of the subject card, relative to the reacting card's owner
+    from?: string; // onEnterBoard: zone the subject came from, e.g. discard
+    status?: string; // onStatusAdded: status type being added
+    revealed?: boolean; // The subject card is revealed
+    requires?: string; // Status the reacting card must carry from its owner, e.g. Support
+    effect: CardReactionEffect;
+}
+
+/**
+ * Board cells a passive aura covers, relative to the card that emits it: its row, its
+ * column, the four cells next to it, its two diagonals, or the whole board.
+ */
+export type AuraArea = 'row' | 'column' | 'adjacent' | 'diagonal' | 'global';
+
+/**
+ * What an aura does to each card it covers:
+ * - bonusPower: `amount` power until the aura stops (bonusPower)
+ * - grantStatus: the status, from the aura owner, if the card does not carry it yet
+ * - suppressStatus: the card loses the status; suppression wins over grants
+ * Only statuses the board recomputes (Support, Threat) can be granted or suppressed.
+ */
+export type CardAuraEffect =
+    | { do: 'bonusPower'; amount: number }
+    | { do: 'grantStatus'; status: string }
+    | { do: 'suppressStatus'; status: string };
+
+/**
+ * A passive aura of a card as stored in the content database, computed by the aura pass
+ * of recalculateBoardStatuses (server/utils/auras.ts). A face-up, unstunned card on the
+ * board emits it to the face-up cards in its area, never to itself.
+ */
+export interface CardAura {
+    area: AuraArea[]; // Cells covered by any of the areas, each counted once
+    affects: 'own' | 'team' | 'enemy'; // Cards of the aura owner, of the owner or a teammate, or of anyone else
+    effect: CardAuraEffect;
+}
+
+/**
+ * A condition on the cards an ability may pick, as plain data (AbilityAction payload.filter),
+ * so pending abilities can be stored in the game state, sent, saved and replayed. Every
+ * field that is set must hold; player ids and cells are fixed when the ability starts.
+ * Evaluated by matchesTargetFilter in server/utils/targeting.ts.
+ */
+export interface TargetFilter {
+    ownerId?: number; // The target belongs to this player
+    notOwnerId?: number; // The target does not belong to this player
+    opponentOf?: number; // The target belongs to neither this player nor a teammate
+    statuses?: string[]; // The target carries one of these statuses...
+    statusAddedBy?: number; // ...added by this player
+    type?: string; // Card type, e.g. Unit
+    faceDown?: boolean;
+    adjacentTo?: { row: number, col: number }; // On the board, next to this cell
+    inLineWith?: { row: number, col: number }; // On the board, in this cell's row or column
+    notCardId?: string; // Any card but this one
+    location?: 'board' | 'hand';
 }
 
 /**
@@ -326,7 +687,7 @@ export type AbilityAction = {
     targetType?: string; // Optional: Restrict target by card Type
     sourceCard?: Card;
     sourceCoords?: { row: number, col: number };
-    payload?: any;
+    payload?: any; // Mode parameters; payload.filter, if set, is a TargetFilter
     isDeployAbility?: boolean;
     recordContext?: boolean; // If true, the result of this action (e.g. move destination) is saved
     contextCheck?: 'ADJACENT_TO_LAST_MOVE'; // If set, validates targets based on saved context
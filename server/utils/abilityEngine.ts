@@ -0,0 +1,301 @@
+/**
+ * @file Ability engine
+ * Shared between client and server
+ *
+ * Card abilities are data: every card and token definition in the content database lists
+ * its abilities as AbilityDescriptor objects (trigger, cost, target selector and a chain of
+ * effects). This module keeps the descriptors of the loaded content by card id and turns a
+ * descriptor into the AbilityAction the ability modes carry out, resolving its selectors
+ * into target filters for the player and cell it is used from.
+ *
+ * The actions are plain data, filters included, so they can be stored and sent as they are.
+ */
+
+import type { AbilityAction, AbilityDescriptor, AbilityEffect, AbilityScore, AbilityTargetSelector, Card, GameState, TargetFilter } from '../types/types.js'
+import { array, boolean, literal, number, object, optional, record, string, union, unknown, validate } from './schema.js'
+import type { Schema } from './schema.js'
+
+// Params with this value get the ability owner's id
+const OWNER_PLACEHOLDER = '$owner'
+// targetOwnerId of a stack that goes to the owner of the card moved by the previous step
+const TARGET_MOVED_OWNER = -2
+const MAX_ABILITIES_PER_CARD = 20
+
+type Coords = { row: number, col: number }
+
+/**
+ * The card an ability belongs to and who uses it
+ */
+export interface AbilitySource {
+  card: Card
+  ownerId: number
+  coords?: Coords // Absent for cards that are not on the board, e.g. commands
+  step?: 'main' | number // Commands: the step being resolved
+}
+
+// ============================================================================
+// DESCRIPTOR VALIDATION
+// ============================================================================
+
+const selectorSchema: Schema<AbilityTargetSelector> = object({
+  owner: optional(literal('self', 'other', 'opponent', 'movedCardOwner')),
+  status: optional(union(string(), array(string()))),
+  statusBy: optional(literal('self', 'anyone')),
+  type: optional(string()),
+  faceDown: optional(boolean()),
+  adjacentToSource: optional(boolean()),
+  inLineWithSource: optional(boolean()),
+  notSource: optional(boolean()),
+  onBoard: optional(boolean()),
+})
+
+const scoreSchema: Schema<AbilityScore> = union(
+  object({ count: literal('line', 'revealed', 'targetPower', 'removedCounters') }),
+  object({ count: literal('diagonal'), bonus: optional(literal('point_per_support', 'draw_per_support')) }),
+  object({ count: literal('countersInLine'), counter: string() }),
+)
+
+const effectFields = object({
+  do: literal('stack', 'mode', 'modal', 'applyAll'),
+  counter: optional(string()),
+  count: optional(union(
+    number({ integer: true, min: 1 }),
+    object({ ownCounters: string() }),
+    object({ countersOf: string() }),
+  )),
+  allAtOnce: optional(boolean()),
+  mode: optional(string()),
+  params: optional(record(unknown())),
+  target: optional(selectorSchema),
+  cells: optional(selectorSchema),
+  recordTarget: optional(boolean()),
+  withSource: optional(boolean()),
+  score: optional(scoreSchema),
+  then: optional(unknown()), // Checked by effectSchema itself
+})
+
+const effectSchema: Schema<AbilityEffect> = {
+  check: (value, path, issues) => {
+    const before = issues.length
+    effectFields.check(value, path, issues)
+    if (issues.length > before) {
+      return
+    }
+    const effect = value as AbilityEffect
+    if (effect.do === 'stack') {
+      if (!effect.counter) {
+        issues.push({ path: `${path}.counter`, message: 'A stack needs a counter' })
+      }
+      if (Array.isArray(effect.target?.status) || effect.target?.notSource || effect.target?.onBoard) {
+        issues.push({ path: `${path}.target`, message: 'A stack takes a single status and neither notSource nor onBoard' })
+      }
+      if (effect.score) {
+        issues.push({ path: `${path}.score`, message: 'A stack scores nothing' })
+      }
+    } else {
+      if (effect.do !== 'applyAll' && !effect.mode) {
+        issues.push({ path: `${path}.mode`, message: `A ${effect.do} effect needs a mode` })
+      }
+      if (effect.target?.owner === 'movedCardOwner') {
+        issues.push({ path: `${path}.target.owner`, message: 'movedCardOwner only applies to stacks' })
+      }
+    }
+    if (effect.then !== undefined) {
+      effectSchema.check(effect.then, `${path}.then`, issues)
+    }
+  },
+}
+
+const descriptorSchema: Schema<AbilityDescriptor> = object({
+  trigger: literal('deploy', 'setup', 'commit', 'command'),
+  step: optional(union(literal('main'), number({ integer: true, min: 0 }))),
+  requires: optional(string()),
+  effect: effectSchema,
+})
+
+const abilitiesSchema = array(descriptorSchema, { maxLength: MAX_ABILITIES_PER_CARD })
+
+/**
+ * Checks the abilities of a card or token definition.
+ * @returns The problems found, one line each; empty if the abilities are valid
+ */
+export const validateAbilities = (abilities: unknown): string[] =>
+  validate(abilitiesSchema, abilities).map(issue => `abilities${issue.path}: ${issue.message}`)
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+// Keyed by lower-case card id, as command cards only know their id in upper case
+let abilityDefinitions = new Map<string, AbilityDescriptor[]>()
+
+/**
+ * Replaces the registered abilities with those of the given card and token databases.
+ * A definition whose abilities do not validate gets none.
+ * @returns One line per problem, prefixed with the card id
+ */
+export const setAbilityDefinitions = (...databases: Record<string, { abilities?: unknown }>[]): string[] => {
+  const definitions = new Map<string, AbilityDescriptor[]>()
+  const problems: string[] = []
+  for (const database of databases) {
+    for (const [id, definition] of Object.entries(database)) {
+      if (definition?.abilities === undefined) {
+        continue
+      }
+      const issues = validateAbilities(definition.abilities)
+      if (issues.length > 0) {
+        problems.push(...issues.map(issue => `${id}: ${issue}`))
+        continue
+      }
+      definitions.set(id.toLowerCase(), definition.abilities as AbilityDescriptor[])
+    }
+  }
+  abilityDefinitions = definitions
+  return problems
+}
+
+/**
+ * The abilities of a card or token definition
+ */
+export const getAbilities = (baseId: string): AbilityDescriptor[] =>
+  abilityDefinitions.get(baseId.toLowerCase()) ?? []
+
+// ============================================================================
+// INTERPRETER
+// ============================================================================
+
+const countOwnCounters = (gameState: GameState, counter: string, ownerId: number): number =>
+  gameState.board.reduce((sum, row) => sum + row.reduce((rowSum, cell) =>
+    rowSum + (cell.card?.statuses?.filter(s => s.type === counter && s.addedByPlayerId === ownerId).length ?? 0), 0), 0)
+
+const fillOwner = (value: unknown, ownerId: number): unknown => {
+  if (value === OWNER_PLACEHOLDER) {
+    return ownerId
+  }
+  if (Array.isArray(value)) {
+    return value.map(entry => fillOwner(entry, ownerId))
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, fillOwner(entry, ownerId)]))
+  }
+  return value
+}
+
+/**
+ * The target filter that expresses a selector for one use of the ability.
+ * Position rules need the source on the board; they are left out for other sources.
+ */
+const getTargetFilter = (selector: AbilityTargetSelector, source: AbilitySource): TargetFilter => {
+  const { card, ownerId, coords } = source
+  return {
+    ...(selector.owner === 'self' && { ownerId }),
+    ...(selector.owner === 'other' && { notOwnerId: ownerId }),
+    ...(selector.owner === 'opponent' && { opponentOf: ownerId }),
+    ...(selector.status !== undefined && { statuses: Array.isArray(selector.status) ? selector.status : [selector.status] }),
+    ...(selector.status !== undefined && selector.statusBy !== 'anyone' && { statusAddedBy: ownerId }),
+    ...(selector.type && { type: selector.type }),
+    ...(selector.faceDown !== undefined && { faceDown: selector.faceDown }),
+    ...(selector.adjacentToSource && coords && { adjacentTo: coords }),
+    ...(selector.inLineWithSource && coords && { inLineWith: coords }),
+    ...(selector.notSource && { notCardId: card.id }),
+    ...(selector.onBoard && { location: 'board' as const }),
+  }
+}
+
+/**
+ * The CREATE_STACK constraints that express a selector
+ */
+const getStackConstraints = (selector: AbilityTargetSelector, ownerId: number): Partial<AbilityAction> => ({
+  ...(selector.owner === 'self' && { targetOwnerId: ownerId }),
+  ...(selector.owner === 'other' && { excludeOwnerId: ownerId }),
+  ...(selector.owner === 'opponent' && { onlyOpponents: true }),
+  ...(selector.owner === 'movedCardOwner' && { targetOwnerId: TARGET_MOVED_OWNER, excludeOwnerId: ownerId }),
+  ...(typeof selector.status === 'string' && {
+    requiredTargetStatus: selector.status,
+    ...(selector.statusBy !== 'anyone' && { requireStatusFromSourceOwner: true }),
+  }),
+  ...(selector.type && { targetType: selector.type }),
+  ...(selector.faceDown && { onlyFaceDown: true }),
+  ...(selector.adjacentToSource && { mustBeAdjacentToSource: true }),
+  ...(selector.inLineWithSource && { mustBeInLineWithSource: true }),
+})
+
+/**
+ * Builds the action of one effect and the steps chained after it.
+ * The first step always carries its source card; chained steps only with withSource.
+ * @returns null if the effect has nothing to do, e.g. a stack of the owner's counters when there are none
+ */
+export const buildAbilityAction = (effect: AbilityEffect, source: AbilitySource, gameState: GameState, isChained = false): AbilityAction | null => {
+  const { card, ownerId, coords, step } = source
+  const chainedAction = effect.then ? buildAbilityAction(effect.then, source, gameState, true) : null
+  const sourceFields = !isChained || effect.withSource ? { sourceCard: card, ...(coords && { sourceCoords: coords }) } : {}
+  const recordFields = effect.recordTarget ? { recordContext: true } : {}
+
+  if (effect.do === 'stack') {
+    const count = effect.count ?? 1
+    let countFields: Partial<AbilityAction>
+    if (typeof count === 'number') {
+      countFields = { count }
+    } else if ('ownCounters' in count) {
+      const ownCount = countOwnCounters(gameState, count.ownCounters, ownerId)
+      if (ownCount === 0) {
+        return null
+      }
+      countFields = { count: ownCount }
+    } else {
+      countFields = { dynamicCount: { factor: count.countersOf, ownerId } }
+    }
+    return {
+      type: 'CREATE_STACK',
+      tokenType: effect.counter,
+      ...countFields,
+      ...getStackConstraints(effect.target ?? {}, ownerId),
+      ...(effect.allAtOnce && { placeAllAtOnce: true }),
+      ...recordFields,
+      ...(chainedAction && { chainedAction }),
+      ...sourceFields,
+    }
+  }
+
+  const { target, cells } = effect
+  const payload: Record<string, unknown> = {
+    ...(fillOwner(effect.params ?? {}, ownerId) as Record<string, unknown>),
+    ...(target && { filter: getTargetFilter(target, source) }),
+    ...(cells && { filter: getTargetFilter(cells, source) }),
+    ...(effect.score && { score: effect.score, ...(step !== undefined && { step }) }),
+    ...(chainedAction && { chainedAction }),
+  }
+  const type = effect.do === 'mode' ? 'ENTER_MODE' : effect.do === 'modal' ? 'OPEN_MODAL' : 'GLOBAL_AUTO_APPLY'
+  return {
+    type,
+    ...(effect.mode && { mode: effect.mode }),
+    ...recordFields,
+    payload,
+    ...sourceFields,
+  }
+}
+
+/**
+ * Whether the source card pays an ability's (or reaction's) cost, e.g. carries Support from its owner
+ */
+export const meetsRequirement = (ability: Pick<AbilityDescriptor, 'requires'>, card: Card, ownerId: number | undefined): boolean =>
+  !ability.requires || !!card.statuses?.some(s => s.type === ability.requires && s.addedByPlayerId === ownerId)
+
+/**
+ * The scoring step of a card's abilities and the effect it belongs to: for a command card,
+ * in the abilities of the given step; for a unit, in the first ability whose cost it pays.
+ */
+export const findAbilityScore = (card: Card, ownerId: number, step?: 'main' | number): { effect: AbilityEffect, score: AbilityScore } | null => {
+  const baseId = card.baseId || card.id.split('_')[1] || card.id
+  const abilities = getAbilities(baseId).filter(ability => step === undefined
+    ? ability.trigger !== 'command' && meetsRequirement(ability, card, ownerId)
+    : ability.trigger === 'command' && (ability.step ?? 'main') === step)
+  for (const ability of abilities) {
+    for (let effect: AbilityEffect | undefined = ability.effect; effect; effect = effect.then) {
+      if (effect.score) {
+        return { effect, score: effect.score }
+      }
+    }
+  }
+  return null
+}
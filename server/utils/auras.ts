@@ -0,0 +1,179 @@
+/**
+ * @file Passive auras
+ * Shared between client and server
+ *
+ * Passives that hold while a card is on the board are auras: every card and token
+ * definition may list them in the content database (area, which cards they affect, and
+ * the effect). recalculateBoardStatuses runs the aura pass after Support and Threat, so
+ * a new hero only needs its definition, e.g. Mr. Pearl gives +1 power to his owner's
+ * other units in his row and column.
+ *
+ * Auras stack predictably: the emitting cards are fixed before any aura applies, power
+ * bonuses add up, a granted status is added once, and suppressions are applied last.
+ */
+
+import type { Board, Card, CardAura, GameState } from '../types/types.js'
+import { array, literal, number, object, union, validate } from './schema.js'
+import type { Schema } from './schema.js'
+
+const MAX_AURAS_PER_CARD = 10
+
+/**
+ * Statuses the board recomputes on every change. Auras only grant or suppress these, so
+ * their effects end with the aura instead of staying on the card.
+ */
+export const BOARD_STATUSES = ['Support', 'Threat']
+
+// ============================================================================
+// AURA VALIDATION
+// ============================================================================
+
+const auraSchema: Schema<CardAura> = object({
+  area: array(literal('row', 'column', 'adjacent', 'diagonal', 'global'), { maxLength: 5 }),
+  affects: literal('own', 'team', 'enemy'),
+  effect: union(
+    object({ do: literal('bonusPower'), amount: number({ integer: true }) }),
+    object({ do: literal('grantStatus'), status: literal(...BOARD_STATUSES) }),
+    object({ do: literal('suppressStatus'), status: literal(...BOARD_STATUSES) }),
+  ),
+})
+
+const aurasSchema = array(auraSchema, { maxLength: MAX_AURAS_PER_CARD })
+
+/**
+ * Checks the auras of a card or token definition.
+ * @returns The problems found, one line each; empty if the auras are valid
+ */
+export const validateAuras = (auras: unknown): string[] =>
+  validate(aurasSchema, auras).map(issue => `auras${issue.path}: ${issue.message}`)
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+let auraDefinitions = new Map<string, CardAura[]>()
+
+/**
+ * Replaces the registered auras with those of the given card and token databases.
+ * A definition whose auras do not validate gets none.
+ * @returns One line per problem, prefixed with the card id
+ */
+export const setAuraDefinitions = (...databases: Record<string, { auras?: unknown }>[]): string[] => {
+  const definitions = new Map<string, CardAura[]>()
+  const problems: string[] = []
+  for (const database of databases) {
+    for (const [id, definition] of Object.entries(database)) {
+      if (definition?.auras === undefined) {
+        continue
+      }
+      const issues = validateAuras(definition.auras)
+      if (issues.length > 0) {
+        problems.push(...issues.map(issue => `${id}: ${issue}`))
+        continue
+      }
+      definitions.set(id.toLowerCase(), definition.auras as CardAura[])
+    }
+  }
+  auraDefinitions = definitions
+  return problems
+}
+
+/**
+ * The auras of a card or token definition
+ */
+export const getAuras = (baseId: string | undefined): CardAura[] =>
+  (baseId && auraDefinitions.get(baseId.toLowerCase())) || []
+
+// ============================================================================
+// AURA PASS
+// ============================================================================
+
+/**
+ * The cells of an aura's areas around (row, col), each once, without the cell itself
+ */
+const getAreaCells = (area: CardAura['area'], row: number, col: number, size: number): { row: number, col: number }[] => {
+  const covered = new Set<number>()
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
+      const dr = Math.abs(r - row)
+      const dc = Math.abs(c - col)
+      const isCovered = area.some(kind =>
+        kind === 'global' ||
+        (kind === 'row' && r === row) ||
+        (kind === 'column' && c === col) ||
+        (kind === 'adjacent' && dr + dc === 1) ||
+        (kind === 'diagonal' && dr === dc))
+      if (isCovered && (dr > 0 || dc > 0)) {
+        covered.add(r * size + c)
+      }
+    }
+  }
+  return [...covered].map(index => ({ row: Math.floor(index / size), col: index % size }))
+}
+
+const isAffected = (aura: CardAura, ownerId: number, target: Card, teamOf: Map<number, number | undefined>): boolean => {
+  if (target.ownerId === undefined) {
+    return false
+  }
+  const teamId = teamOf.get(ownerId)
+  const isTeam = target.ownerId === ownerId || (teamId !== undefined && teamId === teamOf.get(target.ownerId))
+  if (aura.affects === 'own') {
+    return target.ownerId === ownerId
+  }
+  return aura.affects === 'team' ? isTeam : !isTeam
+}
+
+/**
+ * Applies the auras of the cards on the board to the board in place.
+ * Expects bonusPower to be reset and Support/Threat to be computed.
+ */
+export const applyAuras = (board: Board, players: Pick<GameState['players'][number], 'id' | 'teamId'>[]): void => {
+  const size = board.length
+  const teamOf = new Map(players.map(p => [p.id, p.teamId]))
+
+  // Stunned and face-down cards emit nothing; a status an aura grants cannot change that
+  const emitters: { card: Card, ownerId: number, row: number, col: number, auras: CardAura[] }[] = []
+  board.forEach((cells, row) => cells.forEach((cell, col) => {
+    const card = cell.card
+    if (!card || card.isFaceDown || card.ownerId === undefined || card.statuses?.some(s => s.type === 'Stun')) {
+      return
+    }
+    const auras = getAuras(card.baseId)
+    if (auras.length > 0) {
+      emitters.push({ card, ownerId: card.ownerId, row, col, auras })
+    }
+  }))
+
+  const grants: { target: Card, status: string, ownerId: number }[] = []
+  const suppressions: { target: Card, status: string }[] = []
+  for (const { card, ownerId, row, col, auras } of emitters) {
+    for (const aura of auras) {
+      for (const cellCoords of getAreaCells(aura.area, row, col, size)) {
+        const target = board[cellCoords.row][cellCoords.col].card
+        if (!target || target.isFaceDown || target.id === card.id || !isAffected(aura, ownerId, target, teamOf)) {
+          continue
+        }
+        const { effect } = aura
+        if (effect.do === 'bonusPower') {
+          target.bonusPower = (target.bonusPower || 0) + effect.amount
+        } else if (effect.do === 'grantStatus') {
+          grants.push({ target, status: effect.status, ownerId })
+        } else {
+          suppressions.push({ target, status: effect.status })
+        }
+      }
+    }
+  }
+
+  for (const { target, status, ownerId } of grants) {
+    if (!target.statuses) {
+      target.statuses = []
+    }
+    if (!target.statuses.some(s => s.type === status)) {
+      target.statuses.push({ type: status, addedByPlayerId: ownerId })
+    }
+  }
+  for (const { target, status } of suppressions) {
+    target.statuses = target.statuses?.filter(s => s.type !== status)
+  }
+}
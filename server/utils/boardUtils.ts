@@ -2,19 +2,15 @@
  * @file Board utilities for game state management
  * Shared between client and server
  *
- * Card IDs for Hero passives:
- * - Mr. Pearl (mrPearlDoF): +1 Power to other own units in lines
- * - Reverend of The Choir (reverendOfTheChoir): Support to all own units in lines
+ * Hero passives such as Mr. Pearl's bonus power are auras declared with the cards in
+ * the content database and applied by the aura pass (auras.ts).
  */
 
 import type { Board, GameState } from '../types/types.js'
+import { applyAuras, BOARD_STATUSES } from './auras.js'
 
 const GRID_MAX_SIZE = 7
 
-// Hero card baseIds for passive abilities (direct ID matching)
-const HERO_MR_PEARL_ID = 'mrPearlDoF'
-const HERO_REVEREND_ID = 'reverendOfTheChoir'
-
 /**
  * Creates an empty game board of the maximum possible size.
  * @returns {Board} An empty board.
@@ -24,7 +20,7 @@ export const createInitialBoard = (): Board =>
 
 /**
  * Recalculates "Support" and "Threat" statuses for all cards on the board.
- * Also calculates passive buffs like Mr. Pearl's bonus power and Reverend's Support.
+ * Then applies the passive auras of the cards, like Mr. Pearl's bonus power and Reverend's Support.
  * This function is computationally intensive and should be called only when the board changes.
  * @param {GameState} gameState The entire current game state.
  * @returns {Board} A new board object with updated statuses.
@@ -45,7 +41,7 @@ export const recalculateBoardStatuses = (gameState: GameState): Board => {
       if (card) {
         // Remove auto statuses
         if (card.statuses) {
-          card.statuses = card.statuses.filter((s: {type: string}) => s.type !== 'Support' && s.type !== 'Threat')
+          card.statuses = card.statuses.filter((s: {type: string}) => !BOARD_STATUSES.includes(s.type))
         }
         // Reset bonus power
         delete card.bonusPower
@@ -153,69 +149,8 @@ export const recalculateBoardStatuses = (gameState: GameState): Board => {
     }
   }
 
-  // 3. Hero Passives (Reverend & Mr. Pearl)
-  // We iterate again to find Heroes and apply their effects to OTHERS.
-  for (let r = 0; r < GRID_SIZE; r++) {
-    for (let c = 0; c < GRID_SIZE; c++) {
-      const card = newBoard[r][c].card
-
-      // Stunned Heroes do not emit passive auras
-      const isStunned = card?.statuses?.some((s: {type: string}) => s.type === 'Stun')
-
-      if (!card?.baseId || card.isFaceDown || card.ownerId === undefined || isStunned) {
-        continue
-      }
-
-      const cardBaseId = card.baseId
-      const ownerId = card.ownerId
-
-      // 3.1 Reverend of The Choir: Support to all own units in lines
-      if (cardBaseId === HERO_REVEREND_ID) {
-        // Row
-        for (let i = 0; i < GRID_SIZE; i++) {
-          const target = newBoard[r][i].card
-          if (target && target.ownerId === ownerId && !target.isFaceDown && target.id !== card.id) {
-            if (!target.statuses) {
-              target.statuses = []
-            }
-            if (!target.statuses.some((s: {type: string}) => s.type === 'Support')) {
-              target.statuses.push({ type: 'Support', addedByPlayerId: ownerId })
-            }
-          }
-        }
-        // Col
-        for (let i = 0; i < GRID_SIZE; i++) {
-          const target = newBoard[i][c].card
-          if (target && target.ownerId === ownerId && !target.isFaceDown && target.id !== card.id) {
-            if (!target.statuses) {
-              target.statuses = []
-            }
-            if (!target.statuses.some((s: {type: string}) => s.type === 'Support')) {
-              target.statuses.push({ type: 'Support', addedByPlayerId: ownerId })
-            }
-          }
-        }
-      }
-
-      // 3.2 Mr. Pearl: +1 Power to other own units in lines
-      if (cardBaseId === HERO_MR_PEARL_ID) {
-        // Row
-        for (let i = 0; i < GRID_SIZE; i++) {
-          const target = newBoard[r][i].card
-          if (target && target.ownerId === ownerId && !target.isFaceDown && target.id !== card.id) {
-            target.bonusPower = (target.bonusPower || 0) + 1
-          }
-        }
-        // Col
-        for (let i = 0; i < GRID_SIZE; i++) {
-          const target = newBoard[i][c].card
-          if (target && target.ownerId === ownerId && !target.isFaceDown && target.id !== card.id) {
-            target.bonusPower = (target.bonusPower || 0) + 1
-          }
-        }
-      }
-    }
-  }
+  // 3. Passive auras
+  applyAuras(newBoard, players)
 
   return newBoard
 }
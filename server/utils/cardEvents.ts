@@ -0,0 +1,233 @@
+/**
+ * @file Card event bus
+ * Shared between client and server
+ *
+ * The rules layer announces what happens to cards and turns as events: a card enters,
+ * leaves or moves on the board, is destroyed, gets a status, a phase starts or ends, a
+ * player scores. Rules subscribe in code (subscribeToCardEvent); cards subscribe with the
+ * reactions of their definition in the content database, e.g. Lucius, The Immortal
+ * prevents Stun and Vigilant Spotter scores when a revealed opponent card enters.
+ *
+ * Like the action reducers, handlers mutate the state they are given.
+ */
+
+import type { Card, CardEventType, CardReaction, CardStatus, GameState, TargetFilter } from '../types/types.js'
+import { meetsRequirement } from './abilityEngine.js'
+import { matchesTargetFilter } from './targeting.js'
+import { array, boolean, literal, number, object, optional, string, union, validate } from './schema.js'
+import type { Schema } from './schema.js'
+
+const MAX_REACTIONS_PER_CARD = 20
+
+type Coords = { row: number, col: number }
+
+/**
+ * An event of the rules layer. Zones are those of DragItem and DropTarget, e.g. hand or discard.
+ */
+export type CardEvent =
+  | { type: 'onEnterBoard', card: Card, coords: Coords, from: string }
+  | { type: 'onLeaveBoard', card: Card, coords: Coords, to: string }
+  | { type: 'onDestroyed', card: Card, coords: Coords }
+  | { type: 'onMoved', card: Card, coords: Coords, from: Coords }
+  | { type: 'onStatusAdded', card: Card, coords?: Coords, status: CardStatus } // Emitted before the status is added
+  | { type: 'onPhaseStart' | 'onPhaseEnd', phase: number, playerId: number | null }
+  | { type: 'onScored', playerId: number, points: number }
+
+/**
+ * A rule subscribed to an event. Returning false prevents what the event announces;
+ * only onStatusAdded can be prevented.
+ */
+export type CardEventHandler<E extends CardEvent = CardEvent> = (event: E, state: GameState) => void | false
+
+type EventOf<T extends CardEventType> = Extract<CardEvent, { type: T }>
+
+// ============================================================================
+// REACTION VALIDATION
+// ============================================================================
+
+const reactionSchema: Schema<CardReaction> = object({
+  on: literal('onEnterBoard', 'onLeaveBoard', 'onDestroyed', 'onMoved', 'onStatusAdded', 'onPhaseStart', 'onPhaseEnd', 'onScored'),
+  subject: optional(literal('self', 'any')),
+  owner: optional(literal('self', 'other', 'opponent')),
+  from: optional(string()),
+  status: optional(string()),
+  revealed: optional(boolean()),
+  requires: optional(string()),
+  effect: union(
+    object({ do: literal('preventStatus') }),
+    object({ do: literal('addPower'), amount: number({ integer: true }) }),
+    object({ do: literal('gainPoints'), amount: number({ integer: true }) }),
+  ),
+})
+
+const reactionsSchema = array(reactionSchema, { maxLength: MAX_REACTIONS_PER_CARD })
+
+/**
+ * Checks the reactions of a card or token definition.
+ * @returns The problems found, one line each; empty if the reactions are valid
+ */
+export const validateReactions = (reactions: unknown): string[] =>
+  validate(reactionsSchema, reactions).map(issue => `reactions${issue.path}: ${issue.message}`)
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+let reactionDefinitions = new Map<string, CardReaction[]>()
+
+/**
+ * Replaces the registered reactions with those of the given card and token databases.
+ * A definition whose reactions do not validate gets none.
+ * @returns One line per problem, prefixed with the card id
+ */
+export const setReactionDefinitions = (...databases: Record<string, { reactions?: unknown }>[]): string[] => {
+  const definitions = new Map<string, CardReaction[]>()
+  const problems: string[] = []
+  for (const database of databases) {
+    for (const [id, definition] of Object.entries(database)) {
+      if (definition?.reactions === undefined) {
+        continue
+      }
+      const issues = validateReactions(definition.reactions)
+      if (issues.length > 0) {
+        problems.push(...issues.map(issue => `${id}: ${issue}`))
+        continue
+      }
+      definitions.set(id.toLowerCase(), definition.reactions as CardReaction[])
+    }
+  }
+  reactionDefinitions = definitions
+  return problems
+}
+
+/**
+ * The reactions of a card or token definition
+ */
+export const getReactions = (baseId: string | undefined): CardReaction[] =>
+  (baseId && reactionDefinitions.get(baseId.toLowerCase())) || []
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+const rules: { [T in CardEventType]?: CardEventHandler<EventOf<T>>[] } = {}
+
+/**
+ * Subscribes a rule to an event.
+ * @returns A function that removes the subscription
+ */
+export const subscribeToCardEvent = <T extends CardEventType>(type: T, handler: CardEventHandler<EventOf<T>>): () => void => {
+  const handlers = (rules[type] ??= []) as CardEventHandler<EventOf<T>>[]
+  handlers.push(handler)
+  return () => {
+    const index = handlers.indexOf(handler)
+    if (index !== -1) {
+      handlers.splice(index, 1)
+    }
+  }
+}
+
+/**
+ * Puts a status on a card unless a rule or reaction prevents it.
+ * @param coords - The card's cell, or undefined for a card that is not on the board
+ * @returns Whether the status was added
+ */
+export const addCardStatus = (state: GameState, card: Card, status: CardStatus, coords?: Coords): boolean => {
+  if (!emitCardEvent(state, { type: 'onStatusAdded', card, ...(coords && { coords }), status })) {
+    return false
+  }
+  if (!card.statuses) {
+    card.statuses = []
+  }
+  card.statuses.push({ ...status })
+  return true
+}
+
+// ============================================================================
+// DISPATCH
+// ============================================================================
+
+const OWNER_FILTERS: Record<NonNullable<CardReaction['owner']>, (ownerId: number | undefined) => TargetFilter> = {
+  self: ownerId => ({ ownerId }),
+  other: ownerId => ({ notOwnerId: ownerId }),
+  opponent: ownerId => ({ opponentOf: ownerId }),
+}
+
+const isRevealed = (card: Card): boolean =>
+  card.revealedTo === 'all' || !!card.statuses?.some(s => s.type === 'Revealed')
+
+const reactionApplies = (reaction: CardReaction, reactor: Card, event: CardEvent, state: GameState): boolean => {
+  if (reaction.on !== event.type || !meetsRequirement(reaction, reactor, reactor.ownerId)) {
+    return false
+  }
+  if (!('card' in event)) {
+    return true
+  }
+  const subject = event.card
+  if ((reaction.subject ?? 'self') === 'self' && subject.id !== reactor.id) {
+    return false
+  }
+  if (reaction.owner && !matchesTargetFilter(OWNER_FILTERS[reaction.owner](reactor.ownerId), subject, state.players)) {
+    return false
+  }
+  if (reaction.from !== undefined && (event.type !== 'onEnterBoard' || event.from !== reaction.from)) {
+    return false
+  }
+  if (reaction.status !== undefined && (event.type !== 'onStatusAdded' || event.status.type !== reaction.status)) {
+    return false
+  }
+  return reaction.revealed === undefined || isRevealed(subject) === reaction.revealed
+}
+
+/**
+ * Carries out a reaction.
+ * @returns False if the reaction prevents the event
+ */
+const applyReaction = (reaction: CardReaction, reactor: Card, state: GameState): boolean => {
+  const { effect } = reaction
+  if (effect.do === 'preventStatus') {
+    return false
+  }
+  if (effect.do === 'addPower') {
+    reactor.powerModifier = (reactor.powerModifier || 0) + effect.amount
+  } else {
+    const owner = state.players.find(p => p.id === reactor.ownerId)
+    if (owner) {
+      owner.score += effect.amount
+    }
+  }
+  return true
+}
+
+/**
+ * Cards that may react to an event: every card on the board, in reading order, and the
+ * card the event is about if it is not on the board.
+ */
+const getReactors = (event: CardEvent, state: GameState): Card[] => {
+  const reactors = state.board.flatMap(row => row.map(cell => cell.card).filter((card): card is Card => !!card))
+  if ('card' in event && !reactors.some(card => card.id === event.card.id)) {
+    reactors.push(event.card)
+  }
+  return reactors
+}
+
+/**
+ * Announces an event to the rules, then to the reactions of the cards.
+ * @returns False if a rule or reaction prevented it
+ */
+export const emitCardEvent = (state: GameState, event: CardEvent): boolean => {
+  let allowed = true
+  for (const handler of [...(rules[event.type] ?? [])] as CardEventHandler[]) {
+    if (handler(event, state) === false) {
+      allowed = false
+    }
+  }
+  for (const reactor of getReactors(event, state)) {
+    for (const reaction of getReactions(reactor.baseId)) {
+      if (reactionApplies(reaction, reactor, event, state) && !applyReaction(reaction, reactor, state)) {
+        allowed = false
+      }
+    }
+  }
+  return allowed
+}
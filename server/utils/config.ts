@@ -14,6 +14,20 @@ export const CONFIG = {
   RATE_LIMIT_WINDOW: 60000, // 1 minute
   MESSAGE_RATE_LIMIT: 60, // Max messages per minute
   MAX_STRING_LENGTH: 1000, // Max string length for user input
+  MAX_CHAT_MESSAGE_LENGTH: 500, // Max characters per chat message
+  MAX_CHAT_HISTORY: 200, // Chat messages kept per game
+  MAX_GAME_LOG_EVENTS: 1000, // Event log entries kept in memory per game
+  CHAT_RATE_LIMIT_WINDOW: 10000, // 10 seconds
+  CHAT_RATE_LIMIT: 5, // Max chat messages per window
+  MIN_SPECTATOR_DELAY_SECONDS: 30, // Shortest non-zero spectator delay
+  MAX_SPECTATOR_DELAY_SECONDS: 120, // Longest spectator delay
+  MAX_SPECTATOR_DELAY_SNAPSHOTS: 500, // Views held per game while delaying
+  GAME_STORE: process.env.GAME_STORE || 'file', // 'file' keeps games across restarts, 'none' disables it
+  GAME_STORE_DIR: process.env.GAME_STORE_DIR || 'data/games',
+  GAME_SNAPSHOT_INTERVAL_MS: 30 * 1000, // 30 seconds
+  MAX_REPLAY_FRAMES: 5000, // Recorded revisions per game before the replay is cut off
+  MAX_LISTED_REPLAYS: 50, // Newest replays offered in the replay list
+  MAX_UNDO_HISTORY: 20, // Actions per game that can be undone
   DECKS_FILE_PATH: 'server/content/contentDatabase.json',
   LOGS_DIR: 'logs'
 };
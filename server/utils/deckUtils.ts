@@ -1,11 +1,18 @@
 /**
  * @file Deck utilities
  * Handles deck creation, shuffling, and card initialization
+ *
+ * Every shuffle happens on the server and draws from the game's secret shuffle seed. The
+ * seed's SHA-256 hash is published when a match starts and the seed itself once the match
+ * is over, so anyone can check that the seed was fixed in advance and redo each shuffle.
  */
 
+import { createHash, createHmac, randomBytes } from 'crypto';
 import { getDeckFiles, getCardDefinition } from '../services/content.js';
 import { logger } from './logger.js';
+import { shuffleWith } from './random.js';
 import { PLAYER_COLORS } from '../constants/playerColors.js';
+import type { GameState } from '../types/types.js';
 
 // Command card IDs that get special treatment
 export const COMMAND_CARD_IDS = new Set([
@@ -19,15 +26,52 @@ export const COMMAND_CARD_IDS = new Set([
 ]);
 
 /**
- * Shuffles an array using the Fisher-Yates algorithm
+ * Hash of a shuffle seed, published before the seed is used
  */
-export function shuffleDeck<T>(deck: T[]): T[] {
-  const shuffled = [...deck];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+export function getShuffleCommitment(seed: string): string {
+  return createHash('sha256').update(seed).digest('hex');
+}
+
+/**
+ * Gives the game a new secret shuffle seed; called when a match starts
+ * @returns The commitment to the new seed
+ */
+export function startShuffleSeed(gameState: GameState): string {
+  gameState.shuffleSeed = randomBytes(32).toString('hex');
+  gameState.shuffleCommitment = getShuffleCommitment(gameState.shuffleSeed);
+  gameState.shuffleCount = 0;
+  return gameState.shuffleCommitment;
+}
+
+/**
+ * Takes the shuffle seed out of the game once it may be made public
+ * @returns The seed, or null if the game has none
+ */
+export function revealShuffleSeed(gameState: GameState): string | null {
+  const seed = gameState.shuffleSeed ?? null;
+  delete gameState.shuffleSeed;
+  return seed;
+}
+
+/**
+ * Numbers for the given shuffle of a seed, in [0, 1): the k-th number is taken from
+ * HMAC-SHA256(seed, "<shuffle>:<k>")
+ */
+export function createShuffleRandom(seed: string, shuffle: number): () => number {
+  let k = 0;
+  return () => createHmac('sha256', seed).update(`${shuffle}:${k++}`).digest().readUInt32BE(0) / 4294967296;
+}
+
+/**
+ * Shuffles a deck of the game (Fisher-Yates) with the next numbered shuffle of its seed
+ */
+export function shuffleDeck<T>(gameState: GameState, deck: T[]): T[] {
+  if (!gameState.shuffleSeed) {
+    startShuffleSeed(gameState);
   }
-  return shuffled;
+  const shuffle = gameState.shuffleCount ?? 0;
+  gameState.shuffleCount = shuffle + 1;
+  return shuffleWith(deck, createShuffleRandom(gameState.shuffleSeed!, shuffle));
 }
 
 /**
@@ -38,7 +82,8 @@ export function generatePlayerToken(): string {
 }
 
 /**
- * Creates a new, shuffled deck for a player, assigning ownership to each card
+ * Creates a new deck for a player, assigning ownership to each card; decks are shuffled
+ * when the game starts
  * @param deckType - The type of deck to create (e.g., 'SynchroTech')
  * @param playerId - The ID of the player who will own the deck
  * @param playerName - The name of the player
@@ -91,7 +136,43 @@ export function createDeck(deckType: string, playerId: number, playerName: strin
     }
   }
 
-  return shuffleDeck(deckList);
+  return deckList;
+}
+
+/**
+ * Rebuilds a custom deck from the card ids of a submitted one, taking every card from the
+ * content database
+ * @param cardIds - The base id of each card, in deck order
+ * @param playerId - The ID of the player who will own the deck
+ * @param playerName - The name of the player
+ * @returns The rebuilt deck, or null if the content database does not know one of the cards
+ */
+export function createCustomDeck(cardIds: unknown[], playerId: number, playerName: string): any[] | null {
+  const instanceCounts = new Map<string, number>();
+  const deckList = [];
+
+  for (const cardId of cardIds) {
+    const cardDef = typeof cardId === 'string' ? getCardDefinition(cardId) : null;
+    if (!cardDef) {
+      return null;
+    }
+
+    const isCommandCard = COMMAND_CARD_IDS.has(cardId as string);
+    const cardKey = (cardId as string).toUpperCase().replace(/-/g, '_');
+    const instance = (instanceCounts.get(cardKey) || 0) + 1;
+    instanceCounts.set(cardKey, instance);
+
+    deckList.push({
+      ...cardDef,
+      deck: isCommandCard ? 'Command' : 'Custom',
+      id: `${isCommandCard ? 'CMD' : 'CUS'}_${cardKey}_${instance}`,
+      baseId: cardId,
+      ownerId: playerId,
+      ownerName: playerName,
+    });
+  }
+
+  return deckList;
 }
 
 /**
@@ -0,0 +1,409 @@
+/**
+ * @file Dummy seat AI
+ * Decides what a dummy seat played by the built-in AI does next. Each call plans one
+ * step of the turn (an ability, a card, a score or a phase change) as reducer intents,
+ * so the server applies AI moves through the same rules as a player's.
+ *
+ * Abilities are resolved through `getCardAbilityAction`, `getCommandAction` and
+ * `calculateValidTargets`. Only abilities that map onto intents are carried out: counter
+ * stacks, destroying a target and drawing cards. Any other ability burns as if it had
+ * no target, and commands that need one are not played.
+ */
+
+import type { AbilityAction, AiDifficulty, Board, Card, GameState } from '../types/types.js'
+import { applyGameAction } from './gameActions.js'
+import type { BoardCoords, GameAction, GameActionContext } from './gameActions.js'
+import { canActivateAbility, getCardAbilityAction } from './autoAbilities.js'
+import { calculateValidTargets } from './targeting.js'
+import { getCommandAction } from './commandLogic.js'
+import { getCardScore, scoreLine } from './scoring.js'
+
+// Counters that hurt the card they are put on; the AI puts them on opponents' cards
+const HARMFUL_COUNTERS = ['Stun', 'Aim', 'Exploit', 'Revealed', 'Threat', 'Power-']
+// Placements the hard AI simulates in full, picked from the best by line score
+const HARD_CANDIDATES = 4
+// Chance that the easy AI passes its Main phase without playing a unit
+const EASY_PASS_CHANCE = 0.25
+
+/**
+ * Rules environment and randomness for planning; the same as the reducers get, minus the actor
+ */
+export interface AiOptions extends Omit<GameActionContext, 'actorId'> {
+  difficulty: AiDifficulty;
+  random: () => number;
+}
+
+/**
+ * One step of an AI turn: intents to apply in order, the ready ability they use up and
+ * whether the phase advances afterwards
+ */
+export interface AiStep {
+  actions: GameAction[];
+  usedAbility?: { coords: BoardCoords; cardId: string; readyStatus: string };
+  advancePhase: boolean;
+}
+
+type Ctx = GameActionContext & { difficulty: AiDifficulty; random: () => number }
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value))
+
+const pickRandom = <T>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)]
+
+const cellsOf = (board: Board): BoardCoords[] =>
+  board.flatMap((row, r) => row.map((_, c) => ({ row: r, col: c })))
+
+const getActiveCells = (state: GameState): BoardCoords[] => {
+  const offset = Math.floor((state.board.length - state.activeGridSize) / 2)
+  return cellsOf(state.board).filter(({ row, col }) =>
+    row >= offset && row < offset + state.activeGridSize && col >= offset && col < offset + state.activeGridSize)
+}
+
+/**
+ * Points the player would score from the better of the row and the column through a cell
+ */
+const bestLineThrough = (board: Board, playerId: number, { row, col }: BoardCoords): { points: number; end: BoardCoords } => {
+  const size = board.length
+  const rowScore = scoreLine(board, playerId, row, 0, row, size - 1)?.points ?? 0
+  const colScore = scoreLine(board, playerId, 0, col, size - 1, col)?.points ?? 0
+  return rowScore >= colScore
+    ? { points: rowScore, end: { row, col: col === 0 ? size - 1 : 0 } }
+    : { points: colScore, end: { row: row === 0 ? size - 1 : 0, col } }
+}
+
+const bestLineForPlayer = (board: Board, playerId: number): number =>
+  Math.max(0, ...cellsOf(board)
+    .filter(({ row, col }) => board[row][col].card?.ownerId === playerId)
+    .map(coords => bestLineThrough(board, playerId, coords).points))
+
+/**
+ * How good the table looks for the player: their best line, against the opponents' best
+ */
+const evaluate = (state: GameState, playerId: number): number => {
+  const own = bestLineForPlayer(state.board, playerId)
+  const opponents = state.players.filter(p => p.id !== playerId).map(p => bestLineForPlayer(state.board, p.id))
+  return own - (0.5 * Math.max(0, ...opponents))
+}
+
+const findCardCoords = (board: Board, cardId: string): BoardCoords | null =>
+  cellsOf(board).find(({ row, col }) => board[row][col].card?.id === cardId) ?? null
+
+/**
+ * Orders targets for an effect: opponents' strongest cards first for harmful effects,
+ * the player's own strongest first for helpful ones; easy picks at random.
+ */
+const rankTargets = (board: Board, targets: BoardCoords[], playerId: number, harmful: boolean, ctx: Ctx): BoardCoords[] => {
+  if (ctx.difficulty === 'easy') {
+    return [...targets].sort(() => ctx.random() - 0.5)
+  }
+  const value = ({ row, col }: BoardCoords): number => {
+    const card = board[row][col].card!
+    const isOwn = card.ownerId === playerId
+    return (harmful !== isOwn ? 100 : 0) + getCardScore(card)
+  }
+  return [...targets].sort((a, b) => value(b) - value(a))
+}
+
+const countStatuses = (board: Board, type: string, ownerId: number): number =>
+  board.flat().reduce((sum, cell) =>
+    sum + (cell.card?.statuses?.filter(s => s.type === type && s.addedByPlayerId === ownerId).length ?? 0), 0)
+
+/**
+ * Applies an intent to the planning copy and keeps it if the reducers accept it
+ */
+const tryApply = (state: GameState, action: GameAction, ctx: Ctx, planned: GameAction[]): boolean => {
+  const result = applyGameAction(state, action, ctx)
+  if (result.success) {
+    planned.push(action)
+  }
+  return result.success
+}
+
+/**
+ * True for the ability shapes the AI knows how to carry out
+ */
+const isResolvable = (action: AbilityAction): boolean => {
+  if (action.chainedAction && !isResolvable(action.chainedAction)) {
+    return false
+  }
+  switch (action.type) {
+    case 'CREATE_STACK':
+      return !!action.tokenType
+    case 'ENTER_MODE':
+      return action.mode === 'SELECT_TARGET' && action.payload?.actionType === 'DESTROY'
+    case 'GLOBAL_AUTO_APPLY':
+      return !!action.payload?.cleanupCommand || action.payload?.dynamicResource?.type === 'draw' ||
+        (!!action.payload?.resourceChange?.draw && !action.payload.resourceChange.score)
+    case 'ABILITY_COMPLETE':
+      return true
+    default:
+      return false
+  }
+}
+
+/**
+ * Carries out an ability on the planning copy, collecting the intents it took.
+ * Abilities without legal targets burn and add nothing.
+ */
+const resolveAbility = (state: GameState, action: AbilityAction, playerId: number, ctx: Ctx, planned: GameAction[]): void => {
+  if (action.type === 'CREATE_STACK' && action.tokenType) {
+    const statusType = action.tokenType
+    const count = action.dynamicCount
+      ? countStatuses(state.board, action.dynamicCount.factor, action.dynamicCount.ownerId)
+      : action.count ?? 1
+    const harmful = HARMFUL_COUNTERS.includes(statusType)
+    const placements = action.placeAllAtOnce ? 1 : count
+    for (let i = 0; i < placements; i++) {
+      const targets = rankTargets(state.board, calculateValidTargets(action, state, playerId), playerId, harmful, ctx)
+      if (targets.length === 0) {
+        break
+      }
+      tryApply(state, {
+        type: 'PLAY_COUNTER',
+        statusType,
+        count: action.placeAllAtOnce ? count : 1,
+        target: { target: 'board', boardCoords: targets[0] },
+      }, ctx, planned)
+    }
+  } else if (action.type === 'ENTER_MODE' && action.payload?.actionType === 'DESTROY') {
+    // Destroying a shielded card only removes a Shield, which no intent expresses
+    const targets = calculateValidTargets(action, state, playerId)
+      .filter(({ row, col }) => !state.board[row][col].card?.statuses?.some(s => s.type === 'Shield'))
+    const target = rankTargets(state.board, targets, playerId, true, ctx)[0]
+    const card = target ? state.board[target.row][target.col].card : null
+    if (target && card) {
+      tryApply(state, { type: 'DESTROY_CARD', boardCoords: target, cardId: card.id }, ctx, planned)
+    }
+  } else if (action.type === 'GLOBAL_AUTO_APPLY' && !action.payload?.cleanupCommand) {
+    const { dynamicResource, resourceChange } = action.payload ?? {}
+    const drawFor = dynamicResource ? dynamicResource.ownerId : playerId
+    const draws = dynamicResource
+      ? countStatuses(state.board, dynamicResource.factor, dynamicResource.ownerId)
+      : typeof resourceChange?.draw === 'number' ? resourceChange.draw : 1
+    for (let i = 0; i < draws; i++) {
+      if (!tryApply(state, { type: 'DRAW_CARD', playerId: drawFor }, ctx, planned)) {
+        break
+      }
+    }
+  }
+
+  if (action.chainedAction) {
+    resolveAbility(state, action.chainedAction, playerId, ctx, planned)
+  }
+}
+
+/**
+ * The first of the player's cards with an ability ready in this phase, and what it does
+ */
+const findReadyAbility = (state: GameState, playerId: number): { coords: BoardCoords; card: Card; action: AbilityAction } | null => {
+  for (const coords of cellsOf(state.board)) {
+    const card = state.board[coords.row][coords.col].card
+    if (!card || card.ownerId !== playerId || card.isFaceDown || !canActivateAbility(card, state.currentPhase, playerId, state)) {
+      continue
+    }
+    const action = getCardAbilityAction(card, state, playerId, coords)
+    if (action?.readyStatusToRemove) {
+      return { coords, card, action }
+    }
+  }
+  return null
+}
+
+const planAbility = (state: GameState, playerId: number, ctx: Ctx): AiStep | null => {
+  const ready = findReadyAbility(state, playerId)
+  if (!ready) {
+    return null
+  }
+  const actions: GameAction[] = []
+  if (isResolvable(ready.action)) {
+    resolveAbility(clone(state), ready.action, playerId, ctx, actions)
+  }
+  return {
+    actions,
+    usedAbility: { coords: ready.coords, cardId: ready.card.id, readyStatus: ready.action.readyStatusToRemove! },
+    advancePhase: false,
+  }
+}
+
+/**
+ * Plays a command card on a copy: announce it, carry out its main part and the chosen
+ * option, then discard it.
+ * @returns The intents and the resulting state, or null if the AI cannot carry it out
+ */
+const simulateCommand = (state: GameState, playerId: number, cardIndex: number, optionIndex: number | null, ctx: Ctx): { actions: GameAction[]; state: GameState } | null => {
+  const card = state.players.find(p => p.id === playerId)!.hand[cardIndex]
+  const steps = [
+    ...getCommandAction(card.id, -1, card, state, playerId),
+    ...(optionIndex === null ? [] : getCommandAction(card.id, optionIndex, card, state, playerId)),
+  ]
+  if (steps.length === 0 || !steps.every(isResolvable)) {
+    return null
+  }
+
+  const copy = clone(state)
+  const actions: GameAction[] = []
+  if (!tryApply(copy, { type: 'ANNOUNCE_CARD', playerId, cardIndex, cardId: card.id }, ctx, actions)) {
+    return null
+  }
+  const before = actions.length
+  steps.forEach(step => resolveAbility(copy, step, playerId, ctx, actions))
+  if (actions.length === before) {
+    return null // Nothing would happen; keep the card
+  }
+  const announced = copy.players.find(p => p.id === playerId)?.announcedCard
+  if (announced) {
+    tryApply(copy, {
+      type: 'MOVE_CARD',
+      item: { card: announced, source: 'announced', playerId },
+      target: { target: 'discard', playerId },
+    }, ctx, actions)
+  }
+  return { actions, state: copy }
+}
+
+/**
+ * Picks a command worth playing now; normal takes the first that does something,
+ * hard compares every option by the table it leaves behind
+ */
+const planCommand = (state: GameState, playerId: number, ctx: Ctx): AiStep | null => {
+  if (ctx.difficulty === 'easy') {
+    return null
+  }
+  const hand = state.players.find(p => p.id === playerId)?.hand ?? []
+  const baseline = evaluate(state, playerId)
+  let best: { actions: GameAction[]; value: number } | null = null
+
+  for (let cardIndex = 0; cardIndex < hand.length; cardIndex++) {
+    const card = hand[cardIndex]
+    if (!card.types?.includes('Command')) {
+      continue
+    }
+    const hasOptions = getCommandAction(card.id, 0, card, state, playerId).length > 0
+    const options = hasOptions ? [0, 1] : [null]
+    for (const option of options) {
+      const played = simulateCommand(state, playerId, cardIndex, option, ctx)
+      if (!played) {
+        continue
+      }
+      const value = evaluate(played.state, playerId)
+      if (ctx.difficulty === 'normal') {
+        return { actions: played.actions, advancePhase: false }
+      }
+      if (value >= baseline && (!best || value > best.value)) {
+        best = { actions: played.actions, value }
+      }
+    }
+  }
+  return best ? { actions: best.actions, advancePhase: false } : null
+}
+
+const hasPlayedUnitThisTurn = (state: GameState, playerId: number): boolean =>
+  state.board.some(row => row.some(cell =>
+    cell.card?.ownerId === playerId && cell.card.enteredThisTurn && cell.card.types?.includes('Unit')))
+
+/**
+ * Chooses a unit and a free cell. Easy plays at random; normal takes the placement whose
+ * line would score most; hard plays the best few out, Deploy included, and keeps the one
+ * that leaves the best table.
+ */
+const planUnit = (state: GameState, playerId: number, ctx: Ctx): AiStep | null => {
+  const hand = state.players.find(p => p.id === playerId)?.hand ?? []
+  const units = hand.map((card, index) => ({ card, index })).filter(({ card }) => card.types?.includes('Unit'))
+  const cells = getActiveCells(state).filter(({ row, col }) => !state.board[row][col].card)
+  if (units.length === 0 || cells.length === 0) {
+    return null
+  }
+
+  const playOf = ({ card, index }: { card: Card; index: number }, cell: BoardCoords): GameAction =>
+    ({ type: 'PLAY_CARD', playerId, cardIndex: index, cardId: card.id, boardCoords: cell })
+
+  if (ctx.difficulty === 'easy') {
+    if (ctx.random() < EASY_PASS_CHANCE) {
+      return null
+    }
+    return { actions: [playOf(pickRandom(units, ctx.random), pickRandom(cells, ctx.random))], advancePhase: false }
+  }
+
+  const board = state.board.map(row => row.map(cell => ({ card: cell.card })))
+  const candidates = units.flatMap(unit => cells.map(cell => {
+    board[cell.row][cell.col].card = { ...unit.card, ownerId: playerId, statuses: [] }
+    const points = bestLineThrough(board, playerId, cell).points
+    board[cell.row][cell.col].card = null
+    return { unit, cell, points }
+  })).sort((a, b) => b.points - a.points)
+
+  if (ctx.difficulty === 'normal') {
+    return { actions: [playOf(candidates[0].unit, candidates[0].cell)], advancePhase: false }
+  }
+
+  let best = candidates[0]
+  let bestValue = -Infinity
+  for (const candidate of candidates.slice(0, HARD_CANDIDATES)) {
+    const copy = clone(state)
+    const planned: GameAction[] = []
+    if (!tryApply(copy, playOf(candidate.unit, candidate.cell), ctx, planned)) {
+      continue
+    }
+    const deploy = findReadyAbility(copy, playerId)
+    if (deploy?.card.id === candidate.unit.card.id && isResolvable(deploy.action)) {
+      resolveAbility(copy, deploy.action, playerId, ctx, planned)
+    }
+    const placed = findCardCoords(copy.board, candidate.unit.card.id)
+    const value = (placed ? bestLineThrough(copy.board, playerId, placed).points : 0) + (0.5 * evaluate(copy, playerId))
+    if (value > bestValue) {
+      best = candidate
+      bestValue = value
+    }
+  }
+  return { actions: [playOf(best.unit, best.cell)], advancePhase: false }
+}
+
+/**
+ * Scores the row or column through the card the player played last
+ */
+const planScoring = (state: GameState, playerId: number, ctx: Ctx): AiStep => {
+  const lastPlayed = cellsOf(state.board).find(({ row, col }) =>
+    state.board[row][col].card?.statuses?.some(s => s.type === 'LastPlayed' && s.addedByPlayerId === playerId))
+  if (!lastPlayed) {
+    return { actions: [], advancePhase: true }
+  }
+
+  const size = state.board.length
+  const row = { row: lastPlayed.row, col: lastPlayed.col === 0 ? size - 1 : 0 }
+  const col = { row: lastPlayed.row === 0 ? size - 1 : 0, col: lastPlayed.col }
+  const end = ctx.difficulty === 'easy'
+    ? pickRandom([row, col], ctx.random)
+    : bestLineThrough(state.board, playerId, lastPlayed).end
+  return { actions: [{ type: 'SCORE_LINE', playerId, start: lastPlayed, end }], advancePhase: true }
+}
+
+/**
+ * Plans the next step of the AI seat's turn: ready abilities first, then in the Main
+ * phase commands and one unit, the line in the scoring step, and otherwise the next phase.
+ */
+export const planAiStep = (state: GameState, playerId: number, options: AiOptions): AiStep => {
+  const ctx: Ctx = { ...options, actorId: playerId }
+
+  if (state.isScoringStep) {
+    return planScoring(state, playerId, ctx)
+  }
+
+  const ability = planAbility(state, playerId, ctx)
+  if (ability) {
+    return ability
+  }
+
+  if (state.currentPhase === 1) {
+    const command = planCommand(state, playerId, ctx)
+    if (command) {
+      return command
+    }
+    if (!hasPlayedUnitThisTurn(state, playerId)) {
+      const unit = planUnit(state, playerId, ctx)
+      if (unit) {
+        return unit
+      }
+    }
+  }
+
+  return { actions: [], advancePhase: true }
+}
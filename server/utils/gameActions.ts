@@ -0,0 +1,1124 @@
+/**
+ * @file Game action reducers
+ * Shared between client and server
+ *
+ * Card movement is expressed as small intents (PLAY_CARD, MOVE_CARD, DRAW_CARD, ...)
+ * instead of whole-state uploads. The server validates each intent against the acting
+ * player's seat and applies it authoritatively; the client runs the same reducers on a
+ * copy of its state to show the result before the server broadcast arrives.
+ *
+ * Every reducer validates first and only then mutates, so a rejected intent never leaves
+ * a partially applied state behind.
+ */
+
+import type { Card, CardStatus, DragItem, DropTarget, GameState, Player, StatusDuration } from '../types/types.js'
+import { DeckType } from '../types/types.js'
+import { recalculateBoardStatuses } from './boardUtils.js'
+import { addReadyStatus, getCardAbilityTypes, initializeReadyStatuses, READY_STATUS_DEPLOY, removeAllReadyStatuses } from './autoAbilities.js'
+import { addCardStatus, emitCardEvent } from './cardEvents.js'
+import { keepsStatusOffBoard } from './statusDurations.js'
+import { findAbilityScore } from './abilityEngine.js'
+import { countCountersInLine, countRevealedCards, getCardScore, scoreDiagonal, scoreLine } from './scoring.js'
+import type { ScoreBreakdown } from './scoring.js'
+
+// The seat that created the game
+export const HOST_PLAYER_ID = 1
+const MAX_COUNTERS_PER_ACTION = 99
+// turnScores entry of the scoring step's line
+const SCORING_STEP_LINE = 'line'
+
+// Units and commands are played from the hand in Setup and Main
+export const PLAY_PHASES = [0, 1]
+const DEFAULT_COUNTER_TARGETS = ['board', 'hand']
+// Statuses the board recalculates from adjacency; they stay with their card
+const AURA_STATUSES = ['Support', 'Threat']
+
+export interface BoardCoords {
+  row: number;
+  col: number;
+}
+
+/**
+ * Intents a seated player may send instead of a full state.
+ * `autoPhase` carries the client's auto-abilities preference (Setup -> Main on deploy).
+ */
+export type GameAction =
+  | { type: 'PLAY_CARD'; playerId: number; cardIndex: number; cardId: string; boardCoords: BoardCoords; faceDown?: boolean; autoPhase?: boolean }
+  | { type: 'MOVE_CARD'; item: DragItem; target: DropTarget; autoPhase?: boolean }
+  | { type: 'DRAW_CARD'; playerId: number }
+  | { type: 'SHUFFLE_DECK'; playerId: number }
+  | { type: 'ANNOUNCE_CARD'; playerId: number; cardIndex: number; cardId: string }
+  | { type: 'DESTROY_CARD'; boardCoords: BoardCoords; cardId: string }
+  | { type: 'RETURN_CARD_TO_HAND'; boardCoords: BoardCoords; cardId: string }
+  | { type: 'PLAY_TOKEN'; tokenId: string; boardCoords: BoardCoords; ownerId?: number }
+  | { type: 'PLAY_COUNTER'; statusType: string; count?: number; target: DropTarget }
+  | { type: 'REMOVE_STATUS'; statusType: string; target: DropTarget; addedByPlayerId?: number; all?: boolean }
+  | { type: 'TRANSFER_STATUSES'; from: BoardCoords; to: BoardCoords; statusType?: string }
+  | { type: 'RESTORE_DEPLOY'; boardCoords: BoardCoords }
+  | { type: 'REVEAL_CARD'; target: DropTarget }
+  | { type: 'RESPOND_REVEAL_REQUEST'; fromPlayerId: number; accepted: boolean }
+  | { type: 'RESURRECT_CARD'; playerId: number; cardIndex: number; cardId: string; boardCoords: BoardCoords }
+  | { type: 'SCORE_LINE'; playerId: number; start: BoardCoords; end: BoardCoords }
+  | { type: 'SCORE_ABILITY'; playerId: number; sourceCoords?: BoardCoords; step?: 'main' | number; start?: BoardCoords; end?: BoardCoords; target?: BoardCoords; remove?: Record<string, number> }
+  | { type: 'GAIN_POINTS'; playerId: number; points: number }
+  | { type: 'CONFIRM_ROUND_END' }
+
+export type GameActionType = GameAction['type']
+
+export const GAME_ACTION_TYPES: GameActionType[] = [
+  'PLAY_CARD',
+  'MOVE_CARD',
+  'DRAW_CARD',
+  'SHUFFLE_DECK',
+  'ANNOUNCE_CARD',
+  'DESTROY_CARD',
+  'RETURN_CARD_TO_HAND',
+  'PLAY_TOKEN',
+  'PLAY_COUNTER',
+  'REMOVE_STATUS',
+  'TRANSFER_STATUSES',
+  'RESTORE_DEPLOY',
+  'REVEAL_CARD',
+  'RESPOND_REVEAL_REQUEST',
+  'RESURRECT_CARD',
+  'SCORE_LINE',
+  'SCORE_ABILITY',
+  'GAIN_POINTS',
+  'CONFIRM_ROUND_END',
+]
+
+export interface TokenDefinition {
+  name: string;
+  imageUrl: string;
+  fallbackImage: string;
+  power: number;
+  ability: string;
+  baseId?: string;
+  flavorText?: string;
+  color?: string;
+  types?: string[];
+}
+
+/**
+ * Environment the reducers run in. The server passes its content database and
+ * shuffle; the client passes the locally loaded content for prediction.
+ */
+export interface GameActionContext {
+  actorId: number;
+  shuffle: (cards: Card[]) => Card[];
+  getTokenDefinition: (tokenId: string) => TokenDefinition | null;
+  getCounterDefinition: (statusType: string) => { allowedTargets?: string[]; duration?: StatusDuration } | null;
+}
+
+export interface GameActionResult {
+  success: boolean;
+  error?: string;
+  score?: ScoreBreakdown; // Set by SCORE_LINE and SCORE_ABILITY
+}
+
+type SourceZone = 'hand' | 'deck' | 'discard'
+
+const ok = (): GameActionResult => ({ success: true })
+const fail = (error: string): GameActionResult => ({ success: false, error })
+
+const findPlayer = (state: GameState, playerId: number | undefined): Player | undefined =>
+  playerId === undefined ? undefined : state.players.find(p => p.id === playerId)
+
+/**
+ * A player controls their own seat and every dummy seat at the table.
+ */
+export const canControlPlayer = (state: GameState, actorId: number, playerId: number | undefined): boolean => {
+  if (playerId === undefined) {
+    return false
+  }
+  if (playerId === actorId) {
+    return true
+  }
+  return !!findPlayer(state, playerId)?.isDummy
+}
+
+/**
+ * True when the actor may take turn-scoped actions: it is their turn, a dummy's turn,
+ * or nobody's turn yet.
+ */
+export const isActorsTurn = (state: GameState, actorId: number): boolean => {
+  if (state.activePlayerId === null || state.activePlayerId === undefined) {
+    return true
+  }
+  return canControlPlayer(state, actorId, state.activePlayerId)
+}
+
+/**
+ * The host or a winner of the finished round starts the next one.
+ */
+export const canConfirmRoundEnd = (state: GameState, actorId: number): boolean =>
+  actorId === HOST_PLAYER_ID || (state.roundWinners[state.currentRound] ?? []).includes(actorId)
+
+const isOnBoard = (state: GameState, coords: BoardCoords | undefined): coords is BoardCoords =>
+  !!coords &&
+  Number.isInteger(coords.row) && Number.isInteger(coords.col) &&
+  coords.row >= 0 && coords.row < state.board.length &&
+  coords.col >= 0 && coords.col < state.board.length
+
+const isInActiveGrid = (state: GameState, coords: BoardCoords | undefined): coords is BoardCoords => {
+  if (!isOnBoard(state, coords)) {
+    return false
+  }
+  const offset = Math.floor((state.board.length - state.activeGridSize) / 2)
+  return coords.row >= offset && coords.row < offset + state.activeGridSize &&
+    coords.col >= offset && coords.col < offset + state.activeGridSize
+}
+
+const isTokenOrCounter = (card: Card): boolean => card.deck === DeckType.Tokens || card.deck === 'counter'
+
+const hasStatus = (card: Card, type: string): boolean => !!card.statuses?.some(s => s.type === type)
+
+/**
+ * Moves up to `count` cards from the top of a player's deck into their hand.
+ */
+export const drawCards = (player: Player, count = 1): number => {
+  let drawn = 0
+  while (drawn < count && player.deck.length > 0) {
+    player.hand.push(player.deck.shift()!)
+    drawn++
+  }
+  return drawn
+}
+
+/**
+ * Whether a player draws automatically at the start of their turn.
+ * Dummy players follow the host's (Player 1) setting, real players their own.
+ */
+export const shouldAutoDraw = (state: GameState, player: Player): boolean => {
+  if (player.isDummy) {
+    return findPlayer(state, 1)?.autoDrawEnabled === true
+  }
+  return player.autoDrawEnabled === true
+}
+
+/**
+ * Builds a fresh token card instance from its content definition. Ids are numbered by the
+ * game's token counter, so the client's prediction and the server agree on them.
+ */
+export const createTokenCard = (state: GameState, tokenId: string, definition: TokenDefinition): Card => ({
+  id: `TKN_${definition.name.toUpperCase().replace(/\s/g, '_')}_${(state.tokenCount ?? 0) + 1}`,
+  deck: DeckType.Tokens,
+  name: definition.name,
+  baseId: definition.baseId || tokenId,
+  imageUrl: definition.imageUrl,
+  fallbackImage: definition.fallbackImage,
+  power: definition.power,
+  ability: definition.ability,
+  flavorText: definition.flavorText,
+  color: definition.color,
+  types: definition.types ? [...definition.types] : ['Unit'],
+  faction: 'Tokens',
+  statuses: [],
+})
+
+/**
+ * Re-applies the LastPlayed marker to the most recent card of `player` still on the board.
+ */
+export const syncLastPlayed = (state: GameState, player: Player): void => {
+  state.board.forEach(row => row.forEach(cell => {
+    if (cell.card?.statuses) {
+      cell.card.statuses = cell.card.statuses.filter(s => !(s.type === 'LastPlayed' && s.addedByPlayerId === player.id))
+    }
+  }))
+
+  if (!player.boardHistory) {
+    player.boardHistory = []
+  }
+
+  while (player.boardHistory.length > 0) {
+    const lastId = player.boardHistory[player.boardHistory.length - 1]
+    for (const row of state.board) {
+      for (const cell of row) {
+        if (cell.card?.id === lastId) {
+          if (!cell.card.statuses) {
+            cell.card.statuses = []
+          }
+          cell.card.statuses.push({ type: 'LastPlayed', addedByPlayerId: player.id })
+          return
+        }
+      }
+    }
+    player.boardHistory.pop()
+  }
+}
+
+/**
+ * Looks up the card an intent refers to in the authoritative state.
+ * The dragged copy sent by the client is only used for its id.
+ */
+const resolveSourceCard = (state: GameState, item: DragItem, ctx: GameActionContext): { card: Card } | { error: string } => {
+  if (item.source === 'token_panel') {
+    const tokenId = item.card?.baseId
+    const definition = tokenId ? ctx.getTokenDefinition(tokenId) : null
+    if (!tokenId || !definition) {
+      return { error: 'Unknown token' }
+    }
+    return { card: createTokenCard(state, tokenId, definition) }
+  }
+
+  if (item.source === 'board') {
+    if (!isOnBoard(state, item.boardCoords)) {
+      return { error: 'Invalid board coordinates' }
+    }
+    const card = state.board[item.boardCoords.row][item.boardCoords.col].card
+    if (!card || card.id !== item.card?.id) {
+      return { error: 'Card is no longer at its source location' }
+    }
+    return { card }
+  }
+
+  const player = findPlayer(state, item.playerId)
+  if (!player) {
+    return { error: 'Unknown player' }
+  }
+  if (!canControlPlayer(state, ctx.actorId, player.id)) {
+    return { error: `You cannot take cards from another player's ${item.source}` }
+  }
+
+  if (item.source === 'announced') {
+    const card = player.announcedCard
+    if (!card || card.id !== item.card?.id) {
+      return { error: 'Card is no longer at its source location' }
+    }
+    return { card }
+  }
+
+  if (item.source !== 'hand' && item.source !== 'deck' && item.source !== 'discard') {
+    return { error: 'Invalid card source' }
+  }
+  const index = item.cardIndex
+  const card = Number.isInteger(index) ? player[item.source][index as number] : undefined
+  if (!card || card.id !== item.card?.id) {
+    return { error: 'Card is no longer at its source location' }
+  }
+  return { card }
+}
+
+/**
+ * Finds the card at a counter or status target: a board cell, a hand slot, an announced
+ * card or the top (or bottom) card of a deck or discard pile.
+ */
+const findTargetCard = (state: GameState, target: DropTarget): Card | null => {
+  if (target.target === 'board') {
+    return isOnBoard(state, target.boardCoords) ? state.board[target.boardCoords.row][target.boardCoords.col].card : null
+  }
+  const targetPlayer = findPlayer(state, target.playerId)
+  if (!targetPlayer) {
+    return null
+  }
+  if (target.target === 'hand' && target.cardIndex !== undefined) {
+    return targetPlayer.hand[target.cardIndex] || null
+  } else if (target.target === 'announced') {
+    return targetPlayer.announcedCard || null
+  } else if (target.target === 'deck' && targetPlayer.deck.length > 0) {
+    return target.deckPosition === 'bottom' ? targetPlayer.deck[targetPlayer.deck.length - 1] : targetPlayer.deck[0]
+  } else if (target.target === 'discard' && targetPlayer.discard.length > 0) {
+    return targetPlayer.discard[targetPlayer.discard.length - 1]
+  }
+  return null
+}
+
+/**
+ * Places counters/statuses from the counter panel onto a card, on the actor's turn.
+ * Cards in hands and decks only take counters from their own side.
+ */
+const placeCounter = (state: GameState, statusType: string | undefined, count: number | undefined, target: DropTarget, ctx: GameActionContext): GameActionResult => {
+  if (!isActorsTurn(state, ctx.actorId)) {
+    return fail('You can only place counters on your turn')
+  }
+  const counterDef = statusType ? ctx.getCounterDefinition(statusType) : null
+  if (!statusType || !counterDef) {
+    return fail('Unknown counter type')
+  }
+  const amount = count ?? 1
+  if (!Number.isInteger(amount) || amount < 1 || amount > MAX_COUNTERS_PER_ACTION) {
+    return fail('Invalid counter count')
+  }
+  const allowedTargets = counterDef.allowedTargets || DEFAULT_COUNTER_TARGETS
+  if (!allowedTargets.includes(target?.target)) {
+    return fail('This counter cannot be placed there')
+  }
+
+  if (target.target === 'board' && !isOnBoard(state, target.boardCoords)) {
+    return fail('Invalid board coordinates')
+  }
+  if ((target.target === 'hand' || target.target === 'deck') && !canControlPlayer(state, ctx.actorId, target.playerId)) {
+    return fail(`You cannot place counters on another player's ${target.target}`)
+  }
+  const targetCard = findTargetCard(state, target)
+  if (!targetCard) {
+    return fail('No card at the target location')
+  }
+
+  // Counters placed while a dummy is active belong to the dummy
+  const activePlayer = findPlayer(state, state.activePlayerId ?? undefined)
+  const effectiveActorId = activePlayer?.isDummy ? activePlayer.id : ctx.actorId
+
+  if (statusType === 'Power+' || statusType === 'Power-') {
+    targetCard.powerModifier = (targetCard.powerModifier || 0) + (statusType === 'Power+' ? amount : -amount)
+  } else {
+    if (!targetCard.statuses) {
+      targetCard.statuses = []
+    }
+    const coords = target.target === 'board' ? target.boardCoords : undefined
+    for (let i = 0; i < amount; i++) {
+      const isUnique = ['Support', 'Threat', 'Revealed'].includes(statusType)
+      if (!isUnique || !targetCard.statuses.some(s => s.type === statusType && s.addedByPlayerId === effectiveActorId)) {
+        addCardStatus(state, targetCard, { type: statusType, addedByPlayerId: effectiveActorId, ...(counterDef.duration && { duration: counterDef.duration }) }, coords)
+      }
+    }
+  }
+
+  if (target.target === 'board') {
+    state.board = recalculateBoardStatuses(state)
+  }
+  return ok()
+}
+
+/**
+ * Takes a status (the last one of its type, optionally only one added by a given player,
+ * or all of them) off a card on the actor's turn. Cards in hands only lose statuses on
+ * their own side.
+ */
+const removeStatus = (state: GameState, action: Extract<GameAction, { type: 'REMOVE_STATUS' }>, ctx: GameActionContext): GameActionResult => {
+  if (!isActorsTurn(state, ctx.actorId)) {
+    return fail('You can only remove counters on your turn')
+  }
+  const { target } = action
+  if (!['board', 'hand', 'announced'].includes(target?.target)) {
+    return fail('Invalid status target')
+  }
+  if (target.target === 'hand' && !canControlPlayer(state, ctx.actorId, target.playerId)) {
+    return fail('You cannot remove counters from another player\'s hand')
+  }
+  const card = findTargetCard(state, target)
+  if (!card) {
+    return fail('No card at the target location')
+  }
+
+  const matches = (status: CardStatus) => status.type === action.statusType &&
+    (action.addedByPlayerId === undefined || status.addedByPlayerId === action.addedByPlayerId)
+  const statuses = card.statuses || []
+  if (action.all) {
+    card.statuses = statuses.filter(status => !matches(status))
+  } else {
+    const index = statuses.map(matches).lastIndexOf(true)
+    if (index > -1) {
+      statuses.splice(index, 1)
+    }
+  }
+  if (action.statusType === 'Revealed' && !card.statuses?.some(status => status.type === 'Revealed')) {
+    delete card.revealedTo
+  }
+
+  if (target.target === 'board') {
+    state.board = recalculateBoardStatuses(state)
+  }
+  return ok()
+}
+
+/**
+ * Moves statuses between two board cards on the actor's turn: the first one of
+ * `statusType`, or every counter except the Support and Threat auras.
+ */
+const transferStatuses = (state: GameState, action: Extract<GameAction, { type: 'TRANSFER_STATUSES' }>, ctx: GameActionContext): GameActionResult => {
+  if (!isActorsTurn(state, ctx.actorId)) {
+    return fail('You can only move counters on your turn')
+  }
+  if (!isOnBoard(state, action.from) || !isOnBoard(state, action.to)) {
+    return fail('Invalid board coordinates')
+  }
+  const fromCard = state.board[action.from.row][action.from.col].card
+  const toCard = state.board[action.to.row][action.to.col].card
+  if (!fromCard || !toCard || fromCard === toCard) {
+    return fail('Counters can only move between two cards')
+  }
+
+  const statuses = fromCard.statuses || []
+  const moving = action.statusType !== undefined
+    ? statuses.filter((status, index) => status.type === action.statusType && index === statuses.findIndex(s => s.type === action.statusType))
+    : statuses.filter(status => !AURA_STATUSES.includes(status.type))
+  fromCard.statuses = statuses.filter(status => !moving.includes(status))
+  toCard.statuses = [...(toCard.statuses || []), ...moving]
+
+  state.board = recalculateBoardStatuses(state)
+  return ok()
+}
+
+/**
+ * Gives a board card its deploy ability back on the actor's turn, if it has one.
+ */
+const restoreDeploy = (state: GameState, action: Extract<GameAction, { type: 'RESTORE_DEPLOY' }>, ctx: GameActionContext): GameActionResult => {
+  if (!isActorsTurn(state, ctx.actorId)) {
+    return fail('You can only restore abilities on your turn')
+  }
+  if (!isOnBoard(state, action.boardCoords)) {
+    return fail('Invalid board coordinates')
+  }
+  const card = state.board[action.boardCoords.row][action.boardCoords.col].card
+  if (!card || card.ownerId === undefined) {
+    return fail('No card at the target location')
+  }
+  if (getCardAbilityTypes(card).includes('deploy')) {
+    addReadyStatus(card, READY_STATUS_DEPLOY, card.ownerId)
+  }
+  return ok()
+}
+
+/**
+ * Reveals one of the actor's own (or a dummy's) hand or board cards to everyone, at any time.
+ */
+const revealCard = (state: GameState, action: Extract<GameAction, { type: 'REVEAL_CARD' }>, ctx: GameActionContext): GameActionResult => {
+  const { target } = action
+  if (target?.target !== 'board' && target?.target !== 'hand') {
+    return fail('Invalid reveal target')
+  }
+  const card = findTargetCard(state, target)
+  const ownerId = target.target === 'hand' ? target.playerId : card?.ownerId
+  if (!card || ownerId === undefined) {
+    return fail('No card at the target location')
+  }
+  if (!canControlPlayer(state, ctx.actorId, ownerId)) {
+    return fail('You can only reveal your own cards')
+  }
+
+  card.revealedTo = 'all'
+  if (!card.statuses) {
+    card.statuses = []
+  }
+  if (!card.statuses.some(status => status.type === 'Revealed' && status.addedByPlayerId === ownerId)) {
+    card.statuses.push({ type: 'Revealed', addedByPlayerId: ownerId })
+  }
+  return ok()
+}
+
+/**
+ * Answers a reveal request made to the actor: on acceptance the requested cards that are
+ * still the actor's get a Revealed status for the requester. The request is closed either way.
+ */
+const respondToRevealRequest = (state: GameState, action: Extract<GameAction, { type: 'RESPOND_REVEAL_REQUEST' }>, ctx: GameActionContext): GameActionResult => {
+  const request = state.revealRequests.find(r => r.fromPlayerId === action.fromPlayerId && r.toPlayerId === ctx.actorId)
+  if (!request) {
+    return fail('No reveal request from this player')
+  }
+
+  if (action.accepted) {
+    for (const identifier of request.cardIdentifiers) {
+      const card = identifier.source === 'board'
+        ? findTargetCard(state, { target: 'board', boardCoords: identifier.boardCoords })
+        : findTargetCard(state, { target: 'hand', playerId: identifier.ownerId, cardIndex: identifier.cardIndex })
+      if (!card || card.ownerId !== ctx.actorId) {
+        continue
+      }
+      if (!card.statuses) {
+        card.statuses = []
+      }
+      if (!card.statuses.some(status => status.type === 'Revealed' && status.addedByPlayerId === request.fromPlayerId)) {
+        card.statuses.push({ type: 'Revealed', addedByPlayerId: request.fromPlayerId })
+      }
+    }
+  }
+  state.revealRequests = state.revealRequests.filter(r => r !== request)
+  return ok()
+}
+
+/**
+ * Moves a card between any two zones (hand, deck, discard, announced, board),
+ * or brings a token from the token panel onto the board.
+ */
+const moveCard = (state: GameState, item: DragItem, target: DropTarget, ctx: GameActionContext, options: { faceDown?: boolean; autoPhase?: boolean; ownerId?: number } = {}): GameActionResult => {
+  if (!item || !target) {
+    return fail('Invalid move')
+  }
+  if (item.source === 'counter_panel') {
+    return placeCounter(state, item.statusType, item.count, target, ctx)
+  }
+
+  const resolved = resolveSourceCard(state, item, ctx)
+  if ('error' in resolved) {
+    return fail(resolved.error)
+  }
+  const sourceCard = resolved.card
+  const actorId = ctx.actorId
+
+  // --- Source legality ---
+  if ((item.source === 'hand' || item.source === 'deck') && target.target === 'board' &&
+    (!isActorsTurn(state, actorId) || !PLAY_PHASES.includes(state.currentPhase))) {
+    return fail('Cards can only be played on your turn, in the Setup and Main phases')
+  }
+  if (item.source === 'board') {
+    const ownsCard = canControlPlayer(state, actorId, sourceCard.ownerId)
+    if (target.target === 'board') {
+      if (!ownsCard && !isActorsTurn(state, actorId)) {
+        return fail('You cannot move another player\'s card outside your turn')
+      }
+      // Stunned units cannot be repositioned by their own side unless moved by hand
+      if (hasStatus(sourceCard, 'Stun') && !item.isManual) {
+        const mover = findPlayer(state, actorId)
+        const owner = findPlayer(state, sourceCard.ownerId)
+        const isTeammate = mover?.teamId !== undefined && owner?.teamId !== undefined && mover.teamId === owner.teamId
+        if (actorId === sourceCard.ownerId || isTeammate) {
+          return fail('Stunned cards cannot be moved')
+        }
+      }
+    } else if (!ownsCard && !(item.bypassOwnershipCheck && isActorsTurn(state, actorId))) {
+      return fail('You can only remove your own cards from the board')
+    }
+  }
+
+  if (item.source === 'token_panel') {
+    const tokenOwnerId = options.ownerId ?? state.activePlayerId ?? actorId
+    if (!findPlayer(state, tokenOwnerId)) {
+      return fail('Unknown player')
+    }
+    if (!canControlPlayer(state, actorId, tokenOwnerId) && !isActorsTurn(state, actorId)) {
+      return fail('You cannot create tokens for another player outside your turn')
+    }
+  }
+
+  // --- Target legality ---
+  let targetPlayer: Player | undefined
+  if (target.target === 'board') {
+    if (!isInActiveGrid(state, target.boardCoords)) {
+      return fail('Invalid board coordinates')
+    }
+    if (state.board[target.boardCoords.row][target.boardCoords.col].card !== null) {
+      return fail('Target cell is occupied')
+    }
+  } else if (['hand', 'deck', 'discard', 'announced'].includes(target.target)) {
+    targetPlayer = findPlayer(state, target.playerId)
+    if (!targetPlayer) {
+      return fail('Unknown player')
+    }
+    if (target.playerId !== sourceCard.ownerId && !canControlPlayer(state, actorId, target.playerId)) {
+      return fail(`You cannot put cards into another player's ${target.target}`)
+    }
+  } else {
+    return fail('Invalid move target')
+  }
+
+  // --- Apply ---
+  const shouldAutoTransitionToMain = !!options.autoPhase &&
+    state.currentPhase === 0 &&
+    item.source === 'hand' &&
+    target.target === 'board' &&
+    (sourceCard.types?.includes('Unit') || sourceCard.types?.includes('Command'))
+
+  if (state.startingPlayerId === undefined && target.target === 'board' && item.source !== 'board') {
+    state.startingPlayerId = item.playerId || actorId
+  }
+
+  const cardToMove: Card = { ...sourceCard }
+
+  if (item.source === 'board' && item.boardCoords) {
+    state.board[item.boardCoords.row][item.boardCoords.col].card = null
+  } else if (item.source === 'announced') {
+    findPlayer(state, item.playerId)!.announcedCard = null
+  } else if (item.source === 'token_panel') {
+    state.tokenCount = (state.tokenCount ?? 0) + 1
+  } else {
+    findPlayer(state, item.playerId)![item.source as SourceZone].splice(item.cardIndex!, 1)
+  }
+
+  const isReturningToStorage = ['hand', 'deck', 'discard'].includes(target.target)
+
+  if (isReturningToStorage) {
+    // Keep Revealed status, remove all others (including ready statuses)
+    if (cardToMove.statuses) {
+      cardToMove.statuses = cardToMove.statuses.filter(keepsStatusOffBoard)
+    }
+    cardToMove.isFaceDown = false
+    delete cardToMove.powerModifier
+    delete cardToMove.bonusPower
+    delete cardToMove.enteredThisTurn
+  } else if (target.target === 'board') {
+    if (!cardToMove.statuses) {
+      cardToMove.statuses = []
+    }
+    if (options.faceDown) {
+      cardToMove.isFaceDown = true
+    } else if (item.source !== 'board' && cardToMove.isFaceDown === undefined) {
+      cardToMove.isFaceDown = false
+    }
+    if (item.source !== 'board') {
+      cardToMove.enteredThisTurn = true
+
+      // Tokens from the panel belong to the active player (even a dummy), other cards to the actor
+      if (cardToMove.ownerId === undefined) {
+        const ownerId = item.source === 'token_panel'
+          ? (options.ownerId ?? state.activePlayerId ?? actorId)
+          : actorId
+        cardToMove.ownerId = ownerId
+        cardToMove.ownerName = findPlayer(state, ownerId)?.name
+      }
+      initializeReadyStatuses(cardToMove, cardToMove.ownerId)
+    }
+  }
+
+  if (target.target === 'board' && target.boardCoords) {
+    // Manually played cards are tracked in history for the fallback LastPlayed status
+    if (item.source !== 'board' && item.isManual && cardToMove.ownerId !== undefined) {
+      const owner = findPlayer(state, cardToMove.ownerId)
+      if (owner) {
+        if (!owner.boardHistory) {
+          owner.boardHistory = []
+        }
+        owner.boardHistory.push(cardToMove.id)
+      }
+    }
+    state.board[target.boardCoords.row][target.boardCoords.col].card = cardToMove
+  } else if (targetPlayer && isTokenOrCounter(cardToMove)) {
+    // Tokens and counters cease to exist when they leave the board
+  } else if (targetPlayer && target.target === 'hand') {
+    removeAllReadyStatuses(cardToMove)
+    targetPlayer.hand.push(cardToMove)
+    // Automatic shuffle when a card is taken from the deck
+    if (item.source === 'deck') {
+      targetPlayer.deck = ctx.shuffle(targetPlayer.deck)
+    }
+  } else if (targetPlayer && (target.target === 'discard' || target.target === 'deck')) {
+    removeAllReadyStatuses(cardToMove)
+    if (cardToMove.ownerId === undefined) {
+      cardToMove.ownerId = targetPlayer.id
+      cardToMove.ownerName = targetPlayer.name
+    }
+    if (target.target === 'discard') {
+      targetPlayer.discard.push(cardToMove)
+    } else if (target.deckPosition === 'bottom') {
+      targetPlayer.deck.push(cardToMove)
+    } else {
+      targetPlayer.deck.unshift(cardToMove)
+    }
+  } else if (targetPlayer && target.target === 'announced') {
+    if (targetPlayer.announcedCard) {
+      const previous = targetPlayer.announcedCard
+      if (previous.statuses) {
+        previous.statuses = previous.statuses.filter(keepsStatusOffBoard)
+      }
+      delete previous.enteredThisTurn
+      delete previous.powerModifier
+      delete previous.bonusPower
+      targetPlayer.hand.push(previous)
+    }
+    targetPlayer.announcedCard = cardToMove
+  }
+
+  // --- History tracking: leaving the board ---
+  if (item.source === 'board' && target.target !== 'board' && cardToMove.ownerId !== undefined) {
+    const owner = findPlayer(state, cardToMove.ownerId)
+    if (owner) {
+      owner.boardHistory = (owner.boardHistory || []).filter(id => id !== cardToMove.id)
+    }
+  }
+
+  if ((item.source === 'board' || target.target === 'board') && cardToMove.ownerId !== undefined) {
+    const owner = findPlayer(state, cardToMove.ownerId)
+    if (owner) {
+      syncLastPlayed(state, owner)
+    }
+  }
+
+  if (item.source === 'board' || target.target === 'board') {
+    state.board = recalculateBoardStatuses(state)
+  }
+
+  // --- Card events, once the board and its auras are settled ---
+  if (target.target === 'board' && target.boardCoords) {
+    const placedCard = state.board[target.boardCoords.row][target.boardCoords.col].card!
+    if (item.source === 'board' && item.boardCoords) {
+      emitCardEvent(state, { type: 'onMoved', card: placedCard, coords: target.boardCoords, from: item.boardCoords })
+    } else {
+      emitCardEvent(state, { type: 'onEnterBoard', card: placedCard, coords: target.boardCoords, from: item.source })
+    }
+  } else if (item.source === 'board' && item.boardCoords) {
+    emitCardEvent(state, { type: 'onLeaveBoard', card: cardToMove, coords: item.boardCoords, to: target.target })
+    if (target.target === 'discard') {
+      emitCardEvent(state, { type: 'onDestroyed', card: cardToMove, coords: item.boardCoords })
+    }
+  }
+
+  if (shouldAutoTransitionToMain) {
+    state.currentPhase = 1
+  }
+
+  return ok()
+}
+
+/**
+ * Returns a discarded card to the board with the Resurrected status.
+ */
+const resurrectCard = (state: GameState, action: Extract<GameAction, { type: 'RESURRECT_CARD' }>, ctx: GameActionContext): GameActionResult => {
+  const player = findPlayer(state, action.playerId)
+  if (!player) {
+    return fail('Unknown player')
+  }
+  if (!canControlPlayer(state, ctx.actorId, player.id)) {
+    return fail('You cannot resurrect another player\'s cards')
+  }
+  const card = player.discard[action.cardIndex]
+  if (!card || card.id !== action.cardId) {
+    return fail('Card is no longer at its source location')
+  }
+  if (!isInActiveGrid(state, action.boardCoords)) {
+    return fail('Invalid board coordinates')
+  }
+  if (state.board[action.boardCoords.row][action.boardCoords.col].card !== null) {
+    return fail('Target cell is occupied')
+  }
+
+  const { row, col } = action.boardCoords
+  player.discard.splice(action.cardIndex, 1)
+  card.enteredThisTurn = true
+  initializeReadyStatuses(card, player.id)
+  state.board[row][col].card = card
+
+  // The counter definition sets how long the card stays Resurrected and what it turns into then
+  const resurrectedDef = ctx.getCounterDefinition('Resurrected')
+  addCardStatus(state, card, { type: 'Resurrected', addedByPlayerId: player.id, ...(resurrectedDef?.duration && { duration: resurrectedDef.duration }) }, action.boardCoords)
+
+  if (!player.boardHistory) {
+    player.boardHistory = []
+  }
+  player.boardHistory.push(card.id)
+
+  syncLastPlayed(state, player)
+  state.board = recalculateBoardStatuses(state)
+  emitCardEvent(state, { type: 'onEnterBoard', card: state.board[row][col].card!, coords: action.boardCoords, from: 'discard' })
+  return ok()
+}
+
+const addScore = (state: GameState, player: Player, score: ScoreBreakdown): void => {
+  player.score += score.points
+  drawCards(player, score.cardsToDraw)
+  emitCardEvent(state, { type: 'onScored', playerId: player.id, points: score.points })
+}
+
+const findLastPlayed = (state: GameState, playerId: number): BoardCoords | null => {
+  for (let row = 0; row < state.board.length; row++) {
+    for (let col = 0; col < state.board[row].length; col++) {
+      if (state.board[row][col].card?.statuses?.some(s => s.type === 'LastPlayed' && s.addedByPlayerId === playerId)) {
+        return { row, col }
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Scores the scoring step's line: once a turn, a row or column through the card the
+ * player played last.
+ */
+const applyScore = (state: GameState, action: Extract<GameAction, { type: 'SCORE_LINE' }>, ctx: GameActionContext): GameActionResult => {
+  const player = findPlayer(state, action.playerId)
+  if (!player) {
+    return fail('Unknown player')
+  }
+  if (!canControlPlayer(state, ctx.actorId, player.id) || !isActorsTurn(state, ctx.actorId)) {
+    return fail('You can only score for yourself on your turn')
+  }
+  if (!state.isScoringStep || state.turnScores?.includes(SCORING_STEP_LINE)) {
+    return fail('A line is scored once a turn, in the scoring step')
+  }
+  if (!isOnBoard(state, action.start) || !isOnBoard(state, action.end)) {
+    return fail('Invalid board coordinates')
+  }
+
+  const { start, end } = action
+  const lastPlayed = findLastPlayed(state, player.id)
+  const throughLastPlayed = !!lastPlayed &&
+    ((start.row === end.row && lastPlayed.row === start.row) || (start.col === end.col && lastPlayed.col === start.col))
+  if (!throughLastPlayed) {
+    return fail('The line must go through the card you played last')
+  }
+  const score = scoreLine(state.board, player.id, start.row, start.col, end.row, end.col)
+  if (!score) {
+    return fail('The cells are not on one line')
+  }
+
+  addScore(state, player, score)
+  state.turnScores = [...(state.turnScores ?? []), SCORING_STEP_LINE]
+  return { success: true, score }
+}
+
+/**
+ * Counts what a scoring step of an ability is worth for the player's selection.
+ * @returns A successful result with the score, or why the selection does not fit the step
+ */
+const countAbilityScore = (
+  state: GameState,
+  player: Player,
+  found: NonNullable<ReturnType<typeof findAbilityScore>>,
+  action: Extract<GameAction, { type: 'SCORE_ABILITY' }>,
+): GameActionResult => {
+  const { score } = found
+  const at = action.target ?? action.sourceCoords
+  const breakdown = (points: number): GameActionResult => ({
+    success: true,
+    score: { playerId: player.id, points, cells: at && points > 0 ? [{ ...at, points }] : [], cardsToDraw: 0 },
+  })
+
+  if (score.count === 'revealed') {
+    return breakdown(countRevealedCards(state.board, state.players, player.id))
+  }
+
+  if (score.count === 'targetPower' || score.count === 'removedCounters') {
+    const card = isOnBoard(state, action.target) ? state.board[action.target.row][action.target.col].card : null
+    if (!card || card.ownerId !== player.id) {
+      return fail('Choose one of your units on the board')
+    }
+    if (score.count === 'targetPower') {
+      return breakdown(getCardScore(card))
+    }
+    const remove = Object.entries(action.remove ?? {})
+    const valid = remove.every(([type, count]) => !AURA_STATUSES.includes(type) && Number.isInteger(count) && count >= 0 &&
+      count <= (card.statuses?.filter(s => s.type === type).length ?? 0))
+    if (!valid) {
+      return fail('The unit does not carry those counters')
+    }
+    return breakdown(remove.reduce((sum, [, count]) => sum + count, 0))
+  }
+
+  const { start, end } = action
+  if (!isOnBoard(state, start) || !isOnBoard(state, end)) {
+    return fail('Invalid board coordinates')
+  }
+  if (score.count === 'countersInLine') {
+    // The line goes through the source, unless the step anchors it on a recorded target
+    const source = action.sourceCoords
+    if (found.effect.params?.anchor !== 'recordedTarget' && source &&
+      !((start.row === end.row && source.row === start.row) || (start.col === end.col && source.col === start.col))) {
+      return fail('The line must go through the card')
+    }
+    const counters = countCountersInLine(state.board, player.id, score.counter, start.row, start.col, end.row, end.col)
+    return counters === null ? fail('The cells are not on one line') : breakdown(counters)
+  }
+
+  const lineScore = score.count === 'line'
+    ? scoreLine(state.board, player.id, start.row, start.col, end.row, end.col)
+    : scoreDiagonal(state.board, player.id, start.row, start.col, end.row, end.col, score.bonus)
+  if (!lineScore) {
+    return fail(score.count === 'line' ? 'The cells are not on one line' : 'The cells are not on one diagonal')
+  }
+  return { success: true, score: lineScore }
+}
+
+/**
+ * Scores an ability or command the player is resolving. What it is worth comes from the
+ * source card's ability and the board; each card's ability scores once a turn.
+ */
+const scoreAbility = (state: GameState, action: Extract<GameAction, { type: 'SCORE_ABILITY' }>, ctx: GameActionContext): GameActionResult => {
+  const player = findPlayer(state, action.playerId)
+  if (!player) {
+    return fail('Unknown player')
+  }
+  if (!canControlPlayer(state, ctx.actorId, player.id) || !isActorsTurn(state, ctx.actorId)) {
+    return fail('You can only score for yourself on your turn')
+  }
+  if (action.sourceCoords && !isOnBoard(state, action.sourceCoords)) {
+    return fail('Invalid board coordinates')
+  }
+
+  // Units score from the board, commands while they are announced
+  const card = action.sourceCoords ? state.board[action.sourceCoords.row][action.sourceCoords.col].card : player.announcedCard
+  if (!card || card.ownerId !== player.id) {
+    return fail('The ability is not on one of your cards')
+  }
+  const found = findAbilityScore(card, player.id, action.sourceCoords ? undefined : action.step ?? 'main')
+  if (!found) {
+    return fail('The card has no ability that scores')
+  }
+  if (state.turnScores?.includes(card.id)) {
+    return fail('The ability has already scored this turn')
+  }
+
+  const result = countAbilityScore(state, player, found, action)
+  if (!result.success || !result.score) {
+    return result
+  }
+
+  if (found.score.count === 'removedCounters') {
+    const target = state.board[action.target!.row][action.target!.col].card!
+    Object.entries(action.remove ?? {}).forEach(([type, count]) => {
+      for (let i = 0; i < count; i++) {
+        const index = target.statuses!.map(s => s.type === type).lastIndexOf(true)
+        target.statuses!.splice(index, 1)
+      }
+    })
+    state.board = recalculateBoardStatuses(state)
+  }
+  addScore(state, player, result.score)
+  state.turnScores = [...(state.turnScores ?? []), card.id]
+  return result
+}
+
+/**
+ * Adjusts a player's score by a point, the manual correction of the score buttons.
+ */
+const gainPoints = (state: GameState, action: Extract<GameAction, { type: 'GAIN_POINTS' }>, ctx: GameActionContext): GameActionResult => {
+  const player = findPlayer(state, action.playerId)
+  if (!player) {
+    return fail('Unknown player')
+  }
+  if (!canControlPlayer(state, ctx.actorId, player.id) || !isActorsTurn(state, ctx.actorId)) {
+    return fail('You can only gain points for yourself on your turn')
+  }
+  if (action.points !== 1 && action.points !== -1) {
+    return fail('Scores are adjusted a point at a time')
+  }
+  if (player.score + action.points < 0) {
+    return fail('A score cannot go below zero')
+  }
+
+  player.score += action.points
+  if (action.points > 0) {
+    emitCardEvent(state, { type: 'onScored', playerId: player.id, points: action.points })
+  }
+  return ok()
+}
+
+/**
+ * Closes the round-end summary and starts the next round.
+ */
+const confirmRoundEnd = (state: GameState, ctx: GameActionContext): GameActionResult => {
+  if (!state.isRoundEndModalOpen) {
+    return fail('No round is waiting for confirmation')
+  }
+  if (!canConfirmRoundEnd(state, ctx.actorId)) {
+    return fail('Only the host or the round winner can start the next round')
+  }
+  state.isRoundEndModalOpen = false
+  state.players.forEach(p => {
+    p.score = 0
+  })
+  state.currentRound += 1
+  state.roundEndTriggered = false
+  state.turnNumber = 1
+  state.gameWinner = null
+  state.gameWinners = []
+  return ok()
+}
+
+/**
+ * Validates and applies a single intent to `state` in place.
+ * @param state The game state to mutate (pass a copy to keep the original)
+ * @param action The intent received from a player
+ * @param ctx The acting player and content lookups
+ * @returns Whether the intent was applied, with a reason if it was rejected
+ */
+export const applyGameAction = (state: GameState, action: GameAction, ctx: GameActionContext): GameActionResult => {
+  if (!state.isGameStarted) {
+    return fail('Game has not started')
+  }
+  if (!findPlayer(state, ctx.actorId)) {
+    return fail('You are not seated in this game')
+  }
+
+  switch (action.type) {
+    case 'PLAY_CARD': {
+      const card = findPlayer(state, action.playerId)?.hand[action.cardIndex]
+      if (!card || card.id !== action.cardId) {
+        return fail('Card is no longer at its source location')
+      }
+      return moveCard(state,
+        { card, source: 'hand', playerId: action.playerId, cardIndex: action.cardIndex, isManual: true },
+        { target: 'board', boardCoords: action.boardCoords },
+        ctx,
+        { faceDown: action.faceDown, autoPhase: action.autoPhase },
+      )
+    }
+    case 'MOVE_CARD':
+      return moveCard(state, action.item, action.target, ctx, { autoPhase: action.autoPhase })
+    case 'ANNOUNCE_CARD': {
+      const card = findPlayer(state, action.playerId)?.hand[action.cardIndex]
+      if (!card || card.id !== action.cardId) {
+        return fail('Card is no longer at its source location')
+      }
+      return moveCard(state,
+        { card, source: 'hand', playerId: action.playerId, cardIndex: action.cardIndex },
+        { target: 'announced', playerId: action.playerId },
+        ctx,
+      )
+    }
+    case 'DESTROY_CARD':
+    case 'RETURN_CARD_TO_HAND': {
+      if (!isOnBoard(state, action.boardCoords)) {
+        return fail('Invalid board coordinates')
+      }
+      const card = state.board[action.boardCoords.row][action.boardCoords.col].card
+      if (!card || card.id !== action.cardId) {
+        return fail('Card is no longer at its source location')
+      }
+      return moveCard(state,
+        { card, source: 'board', boardCoords: action.boardCoords, bypassOwnershipCheck: true },
+        { target: action.type === 'DESTROY_CARD' ? 'discard' : 'hand', playerId: card.ownerId },
+        ctx,
+      )
+    }
+    case 'PLAY_TOKEN': {
+      const definition = ctx.getTokenDefinition(action.tokenId)
+      if (!definition) {
+        return fail('Unknown token')
+      }
+      return moveCard(state,
+        { card: createTokenCard(state, action.tokenId, definition), source: 'token_panel' },
+        { target: 'board', boardCoords: action.boardCoords },
+        ctx,
+        { ownerId: action.ownerId },
+      )
+    }
+    case 'PLAY_COUNTER':
+      return placeCounter(state, action.statusType, action.count, action.target, ctx)
+    case 'REMOVE_STATUS':
+      return removeStatus(state, action, ctx)
+    case 'TRANSFER_STATUSES':
+      return transferStatuses(state, action, ctx)
+    case 'RESTORE_DEPLOY':
+      return restoreDeploy(state, action, ctx)
+    case 'REVEAL_CARD':
+      return revealCard(state, action, ctx)
+    case 'RESPOND_REVEAL_REQUEST':
+      return respondToRevealRequest(state, action, ctx)
+    case 'DRAW_CARD': {
+      const player = findPlayer(state, action.playerId)
+      if (!player) {
+        return fail('Unknown player')
+      }
+      if (!canControlPlayer(state, ctx.actorId, player.id)) {
+        return fail('You cannot draw for another player')
+      }
+      if (player.deck.length === 0) {
+        return fail('Deck is empty')
+      }
+      drawCards(player, 1)
+      return ok()
+    }
+    case 'SHUFFLE_DECK': {
+      const player = findPlayer(state, action.playerId)
+      if (!player) {
+        return fail('Unknown player')
+      }
+      if (!canControlPlayer(state, ctx.actorId, player.id)) {
+        return fail('You cannot shuffle another player\'s deck')
+      }
+      player.deck = ctx.shuffle(player.deck)
+      return ok()
+    }
+    case 'RESURRECT_CARD':
+      return resurrectCard(state, action, ctx)
+    case 'SCORE_LINE':
+      return applyScore(state, action, ctx)
+    case 'SCORE_ABILITY':
+      return scoreAbility(state, action, ctx)
+    case 'GAIN_POINTS':
+      return gainPoints(state, action, ctx)
+    case 'CONFIRM_ROUND_END':
+      return confirmRoundEnd(state, ctx)
+    default:
+      return fail('Unknown action')
+  }
+}
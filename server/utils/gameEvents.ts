@@ -0,0 +1,221 @@
+/**
+ * @file Event log entries for applied actions
+ *
+ * Turns intents and state changes into structured GameEvents for the game's event log.
+ * The log is shared by everyone at the table, so a card is only identified when it is
+ * visible to all players at its source or its destination; drawing, shuffling and moves
+ * between hidden zones are logged without card ids.
+ */
+
+import type { Card, DragItem, DropTarget, GameEventInput, GameEventLocation, GameState } from '../types/types.js';
+import type { GameAction } from './gameActions.js';
+
+/**
+ * The parts of a state that are compared to log turn, phase and score changes
+ */
+export interface TurnSnapshot {
+  isGameStarted: boolean;
+  activePlayerId: number | null;
+  currentPhase: number;
+  currentRound: number;
+  scores: Map<number, number>;
+}
+
+const PUBLIC_ZONES = ['board', 'discard', 'announced', 'token_panel'];
+
+const toLocation = (zone: string, playerId?: number, coords?: { row: number; col: number }): GameEventLocation => {
+  const location: GameEventLocation = { zone: zone as GameEventLocation['zone'] };
+  if (playerId !== undefined && zone !== 'board') {
+    location.playerId = playerId;
+  }
+  if (coords && zone === 'board') {
+    location.coords = { row: coords.row, col: coords.col };
+  }
+  return location;
+};
+
+const fromItem = (item: DragItem): GameEventLocation => toLocation(item.source, item.playerId, item.boardCoords);
+
+const fromTarget = (target: DropTarget): GameEventLocation => toLocation(target.target, target.playerId, target.boardCoords);
+
+/**
+ * Whether everyone at the table can see a card at the location
+ */
+const isPublicAt = (card: Card | null | undefined, location: GameEventLocation, faceDown = false): boolean => {
+  if (!card || !PUBLIC_ZONES.includes(location.zone)) {
+    return false;
+  }
+  return location.zone !== 'board' || !(faceDown || card.isFaceDown);
+};
+
+const getCardAt = (state: GameState, location: GameEventLocation, cardIndex?: number): Card | null => {
+  if (location.zone === 'board') {
+    const { row, col } = location.coords || { row: -1, col: -1 };
+    return state.board[row]?.[col]?.card || null;
+  }
+  const player = state.players.find(p => p.id === location.playerId);
+  if (!player) {
+    return null;
+  }
+  if (location.zone === 'announced') {
+    return player.announcedCard || null;
+  }
+  if (location.zone === 'hand' || location.zone === 'deck' || location.zone === 'discard') {
+    return cardIndex !== undefined ? player[location.zone][cardIndex] || null : null;
+  }
+  return null;
+};
+
+/**
+ * Describe a card moving between two locations, naming it only if it is public at either end
+ */
+const describeMove = (
+  type: GameEventInput['type'],
+  card: Card | null | undefined,
+  from: GameEventLocation,
+  to: GameEventLocation,
+  actorId: number,
+  faceDown = false
+): GameEventInput => {
+  const event: GameEventInput = { type, actorId, from, to };
+  if (card?.baseId && (isPublicAt(card, from) || isPublicAt(card, to, faceDown))) {
+    event.cardBaseIds = [card.baseId];
+  }
+  const ownerId = card?.ownerId ?? from.playerId ?? to.playerId;
+  if (ownerId !== undefined && ownerId !== actorId) {
+    event.playerId = ownerId;
+  }
+  return event;
+};
+
+/**
+ * Describe a counter placed on a card
+ */
+const describeCounter = (state: GameState, statusType: string | undefined, count: number | undefined, target: DropTarget, actorId: number): GameEventInput => {
+  const to = fromTarget(target);
+  const player = state.players.find(p => p.id === target.playerId);
+  let card: Card | null = null;
+  if (to.zone === 'deck' && player) {
+    card = target.deckPosition === 'bottom' ? player.deck[player.deck.length - 1] : player.deck[0];
+  } else if (to.zone === 'discard' && player) {
+    card = player.discard[player.discard.length - 1];
+  } else {
+    card = getCardAt(state, to, target.cardIndex);
+  }
+
+  const event: GameEventInput = { type: 'COUNTER_PLACED', actorId, to, statusType, after: count ?? 1 };
+  if (card?.baseId && isPublicAt(card, to)) {
+    event.cardBaseIds = [card.baseId];
+  }
+  if (card?.ownerId !== undefined && card.ownerId !== actorId) {
+    event.playerId = card.ownerId;
+  }
+  return event;
+};
+
+/**
+ * Describe an intent for the event log
+ * Must be called before the intent is applied, while its cards are still at their source
+ * @returns The event, or null if the intent is logged only through the changes it causes
+ */
+export function describeGameAction(state: GameState, action: GameAction, actorId: number): GameEventInput | null {
+  switch (action.type) {
+  case 'PLAY_CARD': {
+    const from = toLocation('hand', action.playerId);
+    return describeMove('CARD_PLAYED', getCardAt(state, from, action.cardIndex), from, toLocation('board', undefined, action.boardCoords), actorId, action.faceDown);
+  }
+  case 'MOVE_CARD': {
+    const { item, target } = action;
+    if (item.source === 'counter_panel') {
+      return describeCounter(state, item.statusType, item.count, target, actorId);
+    }
+    const from = fromItem(item);
+    const to = fromTarget(target);
+    if (item.source === 'token_panel') {
+      return { type: 'TOKEN_PLAYED', actorId, cardBaseIds: item.card?.baseId ? [item.card.baseId] : undefined, from, to };
+    }
+    return describeMove('CARD_MOVED', getCardAt(state, from, item.cardIndex), from, to, actorId);
+  }
+  case 'DRAW_CARD':
+    return { type: 'CARD_DRAWN', actorId, playerId: action.playerId !== actorId ? action.playerId : undefined, from: toLocation('deck', action.playerId), to: toLocation('hand', action.playerId) };
+  case 'SHUFFLE_DECK':
+    return { type: 'DECK_SHUFFLED', actorId, playerId: action.playerId !== actorId ? action.playerId : undefined, to: toLocation('deck', action.playerId) };
+  case 'ANNOUNCE_CARD': {
+    const from = toLocation('hand', action.playerId);
+    return describeMove('CARD_ANNOUNCED', getCardAt(state, from, action.cardIndex), from, toLocation('announced', action.playerId), actorId);
+  }
+  case 'DESTROY_CARD':
+  case 'RETURN_CARD_TO_HAND': {
+    const from = toLocation('board', undefined, action.boardCoords);
+    const card = getCardAt(state, from);
+    const to = toLocation(action.type === 'DESTROY_CARD' ? 'discard' : 'hand', card?.ownerId);
+    return describeMove(action.type === 'DESTROY_CARD' ? 'CARD_DESTROYED' : 'CARD_RETURNED_TO_HAND', card, from, to, actorId);
+  }
+  case 'PLAY_TOKEN':
+    return { type: 'TOKEN_PLAYED', actorId, cardBaseIds: [action.tokenId], from: toLocation('token_panel'), to: toLocation('board', undefined, action.boardCoords) };
+  case 'PLAY_COUNTER':
+    return describeCounter(state, action.statusType, action.count, action.target, actorId);
+  case 'RESURRECT_CARD': {
+    const from = toLocation('discard', action.playerId);
+    return describeMove('CARD_RESURRECTED', getCardAt(state, from, action.cardIndex), from, toLocation('board', undefined, action.boardCoords), actorId);
+  }
+  case 'REMOVE_STATUS':
+  case 'TRANSFER_STATUSES':
+  case 'RESTORE_DEPLOY':
+  case 'REVEAL_CARD':
+  case 'RESPOND_REVEAL_REQUEST':
+    // Status bookkeeping of abilities and reveals; not logged on its own
+    return null;
+  case 'SCORE_LINE':
+  case 'SCORE_ABILITY':
+  case 'GAIN_POINTS':
+    // Logged as the SCORE_CHANGED it leads to
+    return null;
+  case 'CONFIRM_ROUND_END':
+    return { type: 'ROUND_CONFIRMED', actorId, before: state.currentRound, after: state.currentRound + 1 };
+  default:
+    return { type: 'NOTE', actorId, text: 'Unknown action' };
+  }
+}
+
+/**
+ * Remember the turn position and scores of a state, to be compared after a change
+ */
+export function captureTurnSnapshot(state: GameState): TurnSnapshot {
+  return {
+    isGameStarted: state.isGameStarted,
+    activePlayerId: state.activePlayerId ?? null,
+    currentPhase: state.currentPhase,
+    currentRound: state.currentRound,
+    scores: new Map(state.players.map(p => [p.id, p.score || 0]))
+  };
+}
+
+/**
+ * Describe how the turn position and scores changed since a snapshot
+ */
+export function describeTurnChanges(before: TurnSnapshot, state: GameState, actorId: number | null): GameEventInput[] {
+  const events: GameEventInput[] = [];
+
+  if (!before.isGameStarted && state.isGameStarted) {
+    events.push({ type: 'GAME_STARTED', actorId });
+  }
+  if (before.activePlayerId !== (state.activePlayerId ?? null)) {
+    events.push({ type: 'ACTIVE_PLAYER_CHANGED', actorId, before: before.activePlayerId, after: state.activePlayerId ?? null });
+  }
+  if (before.currentPhase !== state.currentPhase) {
+    events.push({ type: 'PHASE_CHANGED', actorId, before: before.currentPhase, after: state.currentPhase });
+  }
+  // Scores going back to zero for a new round are not individual score changes
+  if (before.currentRound !== state.currentRound) {
+    return events;
+  }
+  state.players.forEach(player => {
+    const previousScore = before.scores.get(player.id);
+    if (previousScore !== undefined && previousScore !== (player.score || 0)) {
+      events.push({ type: 'SCORE_CHANGED', actorId, playerId: player.id, before: previousScore, after: player.score || 0 });
+    }
+  });
+
+  return events;
+}
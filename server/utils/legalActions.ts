@@ -0,0 +1,126 @@
+/**
+ * @file Legal actions
+ * Shared between client and server
+ *
+ * Lists the moves a seat can make from its own view of the game, for bots. Candidates are
+ * checked by running them through the reducers on a copy of the view, so the list only
+ * holds intents the server would accept (as far as the view shows).
+ *
+ * Only the moves of a plain turn are listed: playing a unit or a command, finishing an
+ * announced command, scoring and moving on. Abilities are carried out by sending the
+ * intents they consist of (PLAY_COUNTER, DESTROY_CARD, ...), which bots build themselves.
+ */
+
+import type { GameState } from '../types/types.js'
+import { applyGameAction, canConfirmRoundEnd, PLAY_PHASES } from './gameActions.js'
+import type { BoardCoords, GameAction, GameActionContext } from './gameActions.js'
+
+/**
+ * A move a bot can send: an intent, or NEXT_PHASE to move the turn on
+ */
+export type BotAction = GameAction | { type: 'NEXT_PHASE' }
+
+// Lookups are not needed to check the listed intents
+const CHECK_CONTEXT: Omit<GameActionContext, 'actorId'> = {
+  shuffle: cards => cards,
+  getTokenDefinition: () => null,
+  getCounterDefinition: () => null,
+}
+
+const isAccepted = (view: GameState, action: GameAction, playerId: number): boolean =>
+  applyGameAction(JSON.parse(JSON.stringify(view)), action, { ...CHECK_CONTEXT, actorId: playerId }).success
+
+const getFreeCells = (view: GameState): BoardCoords[] => {
+  const offset = Math.floor((view.board.length - view.activeGridSize) / 2)
+  const cells: BoardCoords[] = []
+  for (let row = offset; row < offset + view.activeGridSize; row++) {
+    for (let col = offset; col < offset + view.activeGridSize; col++) {
+      if (!view.board[row][col].card) {
+        cells.push({ row, col })
+      }
+    }
+  }
+  return cells
+}
+
+/**
+ * The row and the column through the card the player played last, as SCORE_LINE intents
+ */
+const getScoringLines = (view: GameState, playerId: number): GameAction[] => {
+  const size = view.board.length
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      const card = view.board[row][col].card
+      if (card?.statuses?.some(s => s.type === 'LastPlayed' && s.addedByPlayerId === playerId)) {
+        const start = { row, col }
+        return [
+          { type: 'SCORE_LINE', playerId, start, end: { row, col: col === 0 ? size - 1 : 0 } },
+          { type: 'SCORE_LINE', playerId, start, end: { row: row === 0 ? size - 1 : 0, col } },
+        ]
+      }
+    }
+  }
+  return []
+}
+
+/**
+ * Moves of the player's Setup or Main phase: one unit per turn onto a free cell (one
+ * candidate per kind of card), a command from hand, or discarding an announced command
+ */
+const getPlayActions = (view: GameState, playerId: number): GameAction[] => {
+  const player = view.players.find(p => p.id === playerId)
+  if (!player) {
+    return []
+  }
+
+  if (player.announcedCard) {
+    return [{
+      type: 'MOVE_CARD',
+      item: { card: player.announcedCard, source: 'announced', playerId },
+      target: { target: 'discard', playerId },
+    }]
+  }
+
+  const hasPlayedUnit = view.board.some(row => row.some(cell =>
+    cell.card?.ownerId === playerId && cell.card.enteredThisTurn && cell.card.types?.includes('Unit')))
+  const freeCells = getFreeCells(view)
+  const seen = new Set<string>()
+  const actions: GameAction[] = []
+
+  player.hand.forEach((card, cardIndex) => {
+    const kind = card.baseId ?? card.id
+    if (seen.has(kind)) {
+      return
+    }
+    seen.add(kind)
+    if (card.types?.includes('Command')) {
+      actions.push({ type: 'ANNOUNCE_CARD', playerId, cardIndex, cardId: card.id })
+    } else if (card.types?.includes('Unit') && !hasPlayedUnit) {
+      freeCells.forEach(boardCoords => actions.push({ type: 'PLAY_CARD', playerId, cardIndex, cardId: card.id, boardCoords }))
+    }
+  })
+  return actions
+}
+
+/**
+ * Everything the player can do now; empty while it is someone else's turn
+ */
+export const getLegalActions = (view: GameState, playerId: number): BotAction[] => {
+  if (!view.isGameStarted || !view.players.some(p => p.id === playerId)) {
+    return []
+  }
+  if (view.isRoundEndModalOpen) {
+    return (view.gameWinners ?? []).length > 0 || !canConfirmRoundEnd(view, playerId) ? [] : [{ type: 'CONFIRM_ROUND_END' }]
+  }
+  if (view.activePlayerId !== playerId) {
+    return []
+  }
+
+  const candidates = view.isScoringStep
+    ? getScoringLines(view, playerId)
+    : PLAY_PHASES.includes(view.currentPhase) ? getPlayActions(view, playerId) : []
+  return [
+    ...candidates.filter(action => isAccepted(view, action, playerId)),
+    { type: 'NEXT_PHASE' },
+  ]
+}
@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { MatchRules } from '../types/types.js'
+import { DEFAULT_MATCH_RULES, findMatchWinners, getMatchRulesError, getRoundTarget, isFinalRound } from './matchRules.js'
+
+const rules = (overrides: Partial<MatchRules> = {}): MatchRules => ({ ...DEFAULT_MATCH_RULES, ...overrides })
+
+describe('round targets', () => {
+  it('uses the last target for rounds beyond the list', () => {
+    const short = rules({ roundTargets: [15, 25] })
+
+    assert.equal(getRoundTarget(short, 1), 15)
+    assert.equal(getRoundTarget(short, 2), 25)
+    assert.equal(getRoundTarget(short, 4), 25)
+    assert.equal(getRoundTarget(short, 0), 15)
+  })
+
+  it('treats every round from the last one on as final', () => {
+    assert.equal(isFinalRound(DEFAULT_MATCH_RULES, 4), false)
+    assert.equal(isFinalRound(DEFAULT_MATCH_RULES, 5), true)
+    assert.equal(isFinalRound(DEFAULT_MATCH_RULES, 6), true)
+  })
+
+  it('rejects rules that cannot be played', () => {
+    assert.equal(getMatchRulesError(DEFAULT_MATCH_RULES), null)
+    assert.notEqual(getMatchRulesError(rules({ roundTargets: [] })), null)
+    assert.notEqual(getMatchRulesError(rules({ maxRounds: 3 })), null)
+    assert.notEqual(getMatchRulesError(rules({ maxRounds: 5, winsNeeded: 6 })), null)
+  })
+})
+
+describe('findMatchWinners', () => {
+  it('goes on until a player has the round wins needed', () => {
+    assert.deepEqual(findMatchWinners(DEFAULT_MATCH_RULES, {}, 1), [])
+    assert.deepEqual(findMatchWinners(DEFAULT_MATCH_RULES, { 1: [1], 2: [2] }, 2), [])
+    assert.deepEqual(findMatchWinners(DEFAULT_MATCH_RULES, { 1: [1], 2: [2], 3: [2] }, 3), [2])
+  })
+
+  it('counts a shared round win for every winner', () => {
+    assert.deepEqual(findMatchWinners(DEFAULT_MATCH_RULES, { 1: [1, 2], 2: [1, 2] }, 2), [1, 2])
+  })
+
+  it('decides by the most round wins after the final round', () => {
+    const threeRounds = rules({ roundTargets: [20], maxRounds: 3, winsNeeded: 3 })
+
+    assert.deepEqual(findMatchWinners(threeRounds, { 1: [1], 2: [2], 3: [1] }, 3), [1])
+  })
+
+  it('shares a tied match or plays another round in sudden death', () => {
+    const roundWinners = { 1: [1], 2: [2], 3: [3] }
+    const threeRounds = rules({ roundTargets: [20], maxRounds: 3, winsNeeded: 2 })
+
+    assert.deepEqual(findMatchWinners(threeRounds, roundWinners, 3), [1, 2, 3])
+    assert.deepEqual(findMatchWinners({ ...threeRounds, tieBreak: 'suddenDeath' }, roundWinners, 3), [])
+    assert.deepEqual(findMatchWinners({ ...threeRounds, tieBreak: 'suddenDeath' }, { ...roundWinners, 4: [2] }, 4), [2])
+  })
+})
@@ -0,0 +1,83 @@
+/**
+ * @file Match rules
+ * Shared between client and server
+ *
+ * Round targets, round count, wins needed and tie-breaks of a game. The server applies
+ * them when a round ends; the client shows them in the lobby and the round-end summary.
+ */
+
+import type { GameState, MatchRules } from '../types/types.js'
+
+// Upper bounds for what the host may configure
+export const MAX_MATCH_ROUNDS = 9
+export const MAX_ROUND_TARGET = 999
+export const MAX_FINAL_ROUND_TURN_LIMIT = 99
+
+/**
+ * The rules the game has always been played with: 20 points in round 1 and 10 more per
+ * round, two round wins out of at most five rounds, and 10 turns in the fifth round.
+ */
+export const DEFAULT_MATCH_RULES: MatchRules = {
+  roundTargets: [20, 30, 40, 50, 60],
+  maxRounds: 5,
+  winsNeeded: 2,
+  finalRoundTurnLimit: 10,
+  tieBreak: 'shared',
+}
+
+/**
+ * The rules of a game, falling back to the defaults for games saved without them
+ */
+export const getMatchRules = (state: Pick<GameState, 'matchRules'>): MatchRules => state.matchRules ?? DEFAULT_MATCH_RULES
+
+/**
+ * Score that ends the given round
+ */
+export const getRoundTarget = (rules: MatchRules, round: number): number =>
+  rules.roundTargets[Math.min(Math.max(round, 1), rules.roundTargets.length) - 1]
+
+/**
+ * True from the final round on, including any sudden-death rounds after it
+ */
+export const isFinalRound = (rules: MatchRules, round: number): boolean => round >= rules.maxRounds
+
+/**
+ * Checks the rules for consistency beyond the ranges of each field
+ * @returns An error message, or null if the rules can be used
+ */
+export const getMatchRulesError = (rules: MatchRules): string | null => {
+  if (rules.roundTargets.length === 0) {
+    return 'At least one round target is required'
+  }
+  if (rules.roundTargets.length > rules.maxRounds) {
+    return 'There are more round targets than rounds'
+  }
+  if (rules.winsNeeded > rules.maxRounds) {
+    return 'More round wins are needed than there are rounds'
+  }
+  return null
+}
+
+/**
+ * Decides the match after a round: a player with enough round wins takes it, and after
+ * the final round the most round wins do. Ties are shared or lead to another round.
+ * @param roundWinners Winners of every round played so far, including the one that just ended
+ * @returns The winners, or an empty list if the match goes on
+ */
+export const findMatchWinners = (rules: MatchRules, roundWinners: Record<number, number[]>, round: number): number[] => {
+  const winCounts = new Map<number, number>()
+  Object.values(roundWinners).flat().forEach(id => winCounts.set(id, (winCounts.get(id) || 0) + 1))
+  if (winCounts.size === 0) {
+    return []
+  }
+
+  const mostWins = Math.max(...winCounts.values())
+  if (mostWins < rules.winsNeeded && !isFinalRound(rules, round)) {
+    return []
+  }
+  const leaders = [...winCounts.keys()].filter(id => winCounts.get(id) === mostWins)
+  if (leaders.length > 1 && rules.tieBreak === 'suddenDeath') {
+    return []
+  }
+  return leaders
+}
@@ -0,0 +1,359 @@
+/**
+ * @file Match simulator
+ * Plays whole matches between two decks without clients, for balance testing. Both seats
+ * are driven by bot policies and every move goes through the shared reducers and turn
+ * engine, so simulated games follow the same rules as real ones.
+ *
+ * Everything random (deck order, bot choices) comes from the seed, so a run with the same
+ * decks, bots and seed always gives the same report.
+ */
+
+import { DeckType, GameMode } from '../types/types.js'
+import type { AiDifficulty, Card, CustomDeckCard, GameState, MatchRules, Player } from '../types/types.js'
+import { createInitialBoard } from './boardUtils.js'
+import { removeReadyStatus } from './autoAbilities.js'
+import { applyGameAction, drawCards } from './gameActions.js'
+import type { GameAction, GameActionContext, TokenDefinition } from './gameActions.js'
+import { DEFAULT_MATCH_RULES } from './matchRules.js'
+import { advancePhase } from './turnEngine.js'
+import { planAiStep } from './dummyAi.js'
+import type { AiOptions, AiStep } from './dummyAi.js'
+import { createSeededRandom, hashSeed, shuffleWith } from './random.js'
+
+// Steps after which a bot's turn is moved on regardless of what it planned
+const MAX_STEPS_PER_TURN = 40
+// Turns over all rounds after which a match that found no winner counts as a draw
+const MAX_TURNS_PER_MATCH = 150
+const STARTING_HAND = 6
+
+/**
+ * Decides a seat's next step; the built-in ones are the dummy seat AI at each difficulty
+ */
+export type BotPolicy = (state: GameState, playerId: number, options: Omit<AiOptions, 'difficulty'>) => AiStep
+
+/**
+ * Content lookups the simulator builds decks and resolves effects with
+ */
+export interface SimulationContent {
+  getCardDefinition: (cardId: string) => Omit<Card, 'id' | 'deck'> | null;
+  getTokenDefinition: (tokenId: string) => TokenDefinition | null;
+  getCounterDefinition: GameActionContext['getCounterDefinition'];
+}
+
+/**
+ * One side of the simulated matchup
+ */
+export interface SimulationSide {
+  name: string; // Deck name shown in the report
+  cards: CustomDeckCard[];
+  policyName: string;
+  policy: BotPolicy;
+}
+
+export interface SimulationOptions {
+  sides: [SimulationSide, SimulationSide];
+  games: number;
+  seed: string;
+  matchRules?: MatchRules;
+}
+
+export interface SideSummary {
+  name: string;
+  policy: string;
+  wins: number;
+  winRate: number;
+  winsGoingFirst: number;
+}
+
+/**
+ * How a card did for one side over all matches it was played in
+ */
+export interface CardImpact {
+  side: string;
+  cardId: string;
+  timesPlayed: number;
+  matchesPlayed: number;
+  winRateWhenPlayed: number;
+  pointsScored: number; // Points the card added to scored lines
+  pointsPerPlay: number;
+}
+
+export interface MatchSummary {
+  seed: number;
+  firstSide: number; // Index of the side that took the first turn
+  winnerSide: number | null; // Null for a draw
+  rounds: number;
+  turns: number; // Turns over all rounds
+}
+
+export interface SimulationReport {
+  seed: string;
+  games: number;
+  sides: SideSummary[];
+  draws: number;
+  averageRoundsPerMatch: number;
+  averageRoundTurns: number; // Turns of either seat per finished round
+  cards: CardImpact[];
+  matches: MatchSummary[];
+}
+
+interface CardTally {
+  timesPlayed: number;
+  matches: Set<number>;
+  wins: number;
+  pointsScored: number;
+}
+
+/**
+ * The built-in bot at a difficulty
+ */
+export const getBuiltInPolicy = (difficulty: AiDifficulty): BotPolicy =>
+  (state, playerId, options) => planAiStep(state, playerId, { ...options, difficulty })
+
+const round2 = (value: number): number => Math.round(value * 100) / 100
+
+/**
+ * The hand card an intent plays, before it is applied: every move from the hand to the
+ * board or the announced slot counts, whichever intent carries it
+ */
+const getPlayedCard = (state: GameState, action: GameAction): Card | undefined => {
+  if (action.type === 'PLAY_CARD' || action.type === 'ANNOUNCE_CARD') {
+    return state.players.find(p => p.id === action.playerId)?.hand[action.cardIndex]
+  }
+  if (action.type === 'MOVE_CARD' && action.item?.source === 'hand' && ['board', 'announced'].includes(action.target?.target)) {
+    return state.players.find(p => p.id === action.item.playerId)?.hand[action.item.cardIndex ?? -1]
+  }
+  return undefined
+}
+
+/**
+ * Builds a side's shuffled deck like the server does for a seated player
+ */
+const buildDeck = (side: SimulationSide, playerId: number, content: SimulationContent, random: () => number): Card[] => {
+  const cards: Card[] = []
+  side.cards.forEach(({ cardId, quantity }) => {
+    const definition = content.getCardDefinition(cardId)
+    if (!definition) {
+      return
+    }
+    const isCommand = !!definition.types?.includes('Command')
+    const key = cardId.toUpperCase().replace(/-/g, '_')
+    for (let i = 0; i < quantity; i++) {
+      cards.push({
+        ...definition,
+        id: `${isCommand ? 'CMD' : `P${playerId}`}_${key}_${i + 1}`,
+        deck: isCommand ? DeckType.Command : DeckType.Custom,
+        baseId: cardId,
+        ownerId: playerId,
+        ownerName: side.name,
+      })
+    }
+  })
+  return shuffleWith(cards, random)
+}
+
+const createSeat = (id: number, side: SimulationSide, content: SimulationContent, random: () => number): Player => ({
+  id,
+  name: side.name,
+  score: 0,
+  hand: [],
+  deck: buildDeck(side, id, content, random),
+  discard: [],
+  selectedDeck: DeckType.Custom,
+  color: id === 1 ? 'blue' : 'red',
+  boardHistory: [],
+  autoDrawEnabled: true,
+})
+
+/**
+ * A started two-seat game; seat 1 takes the first turn and draws one card more
+ */
+const createMatchState = (seats: [SimulationSide, SimulationSide], content: SimulationContent, random: () => number, matchRules: MatchRules): GameState => {
+  const players = seats.map((side, i) => createSeat(i + 1, side, content, random))
+  players.forEach(player => drawCards(player, player.id === 1 ? STARTING_HAND + 1 : STARTING_HAND))
+  return {
+    players,
+    board: createInitialBoard(),
+    activeGridSize: 7,
+    gameId: null,
+    dummyPlayerCount: 0,
+    isGameStarted: true,
+    gameMode: GameMode.FreeForAll,
+    isPrivate: true,
+    isReadyCheckActive: false,
+    revealRequests: [],
+    activePlayerId: 1,
+    startingPlayerId: 1,
+    currentPhase: 0,
+    isScoringStep: false,
+    autoAbilitiesEnabled: true,
+    autoDrawEnabled: true,
+    preserveDeployAbilities: false,
+    currentRound: 1,
+    turnNumber: 1,
+    roundEndTriggered: false,
+    roundWinners: {},
+    gameWinner: null,
+    gameWinners: [],
+    isRoundEndModalOpen: false,
+    matchRules,
+  }
+}
+
+/**
+ * Plays one match to its end; sides[firstSide] sits in seat 1
+ */
+const playMatch = (options: SimulationOptions, content: SimulationContent, matchIndex: number, tallies: Map<string, CardTally>[]): MatchSummary => {
+  const seed = hashSeed(`${options.seed}:${matchIndex}`)
+  const random = createSeededRandom(seed)
+  const firstSide = matchIndex % 2
+  const sideOfSeat = (playerId: number): number => (playerId === 1 ? firstSide : 1 - firstSide)
+  const seats: [SimulationSide, SimulationSide] = [options.sides[firstSide], options.sides[1 - firstSide]]
+  const state = createMatchState(seats, content, random, options.matchRules ?? DEFAULT_MATCH_RULES)
+
+  const env = { ...content, shuffle: (cards: Card[]) => shuffleWith(cards, random), random }
+  const playedIn = [new Set<string>(), new Set<string>()]
+  let rounds = 0
+  let turns = 0
+  let stepsThisTurn = 0
+
+  const tally = (side: number, cardId: string): CardTally => {
+    const existing = tallies[side].get(cardId)
+    if (existing) {
+      return existing
+    }
+    const created: CardTally = { timesPlayed: 0, matches: new Set(), wins: 0, pointsScored: 0 }
+    tallies[side].set(cardId, created)
+    return created
+  }
+
+  while (turns < MAX_TURNS_PER_MATCH) {
+    if (state.isRoundEndModalOpen) {
+      rounds += 1
+      if ((state.gameWinners ?? []).length > 0) {
+        break
+      }
+      applyGameAction(state, { type: 'CONFIRM_ROUND_END' }, { ...env, actorId: 1 })
+      continue
+    }
+
+    const playerId = state.activePlayerId!
+    const side = sideOfSeat(playerId)
+    const ctx: GameActionContext = { ...env, actorId: playerId }
+    stepsThisTurn += 1
+    const step = stepsThisTurn > MAX_STEPS_PER_TURN
+      ? { actions: [], advancePhase: true }
+      : options.sides[side].policy(state, playerId, env)
+
+    for (const action of step.actions) {
+      const played = getPlayedCard(state, action)
+      const result = applyGameAction(state, action, ctx)
+      if (!result.success) {
+        continue
+      }
+      if (played?.baseId) {
+        tally(side, played.baseId).timesPlayed += 1
+        playedIn[side].add(played.baseId)
+      }
+      // Only the scorer's own cards are credited; Data Liberator also scores opponents' cards
+      result.score?.cells.forEach(cell => {
+        const card = state.board[cell.row][cell.col].card
+        if (card?.baseId && card.ownerId === result.score!.playerId) {
+          tally(side, card.baseId).pointsScored += cell.points
+        }
+      })
+    }
+
+    if (step.usedAbility) {
+      const { coords, cardId, readyStatus } = step.usedAbility
+      const card = state.board[coords.row][coords.col].card
+      if (card?.id === cardId) {
+        removeReadyStatus(card, readyStatus)
+      }
+    }
+    if (step.advancePhase) {
+      const wasScoringStep = state.isScoringStep
+      advancePhase(state)
+      if (wasScoringStep) {
+        turns += 1
+        stepsThisTurn = 0
+      }
+    }
+  }
+
+  const winnerSides = new Set((state.gameWinners ?? []).map(sideOfSeat))
+  const winnerSide = winnerSides.size === 1 ? [...winnerSides][0] : null
+  playedIn.forEach((cardIds, side) => cardIds.forEach(cardId => {
+    const cardTally = tally(side, cardId)
+    cardTally.matches.add(matchIndex)
+    if (winnerSide === side) {
+      cardTally.wins += 1
+    }
+  }))
+
+  return { seed, firstSide, winnerSide, rounds, turns }
+}
+
+/**
+ * Plays the requested number of matches, alternating which side goes first, and sums
+ * them up per side and per card
+ */
+export const simulateMatches = (options: SimulationOptions, content: SimulationContent): SimulationReport => {
+  const tallies = [new Map<string, CardTally>(), new Map<string, CardTally>()]
+  const matches: MatchSummary[] = []
+  for (let i = 0; i < options.games; i++) {
+    matches.push(playMatch(options, content, i, tallies))
+  }
+
+  const games = Math.max(1, matches.length)
+  const rounds = matches.reduce((sum, match) => sum + match.rounds, 0)
+  const sides: SideSummary[] = options.sides.map((side, index) => {
+    const won = matches.filter(match => match.winnerSide === index)
+    return {
+      name: side.name,
+      policy: side.policyName,
+      wins: won.length,
+      winRate: round2(won.length / games),
+      winsGoingFirst: won.filter(match => match.firstSide === index).length,
+    }
+  })
+
+  const cards: CardImpact[] = tallies.flatMap((sideTallies, index) =>
+    [...sideTallies.entries()].map(([cardId, t]) => ({
+      side: options.sides[index].name,
+      cardId,
+      timesPlayed: t.timesPlayed,
+      matchesPlayed: t.matches.size,
+      winRateWhenPlayed: t.matches.size > 0 ? round2(t.wins / t.matches.size) : 0,
+      pointsScored: t.pointsScored,
+      pointsPerPlay: t.timesPlayed > 0 ? round2(t.pointsScored / t.timesPlayed) : 0,
+    })))
+    .sort((a, b) => a.side.localeCompare(b.side) || b.pointsScored - a.pointsScored)
+
+  return {
+    seed: options.seed,
+    games: matches.length,
+    sides,
+    draws: matches.filter(match => match.winnerSide === null).length,
+    averageRoundsPerMatch: round2(rounds / games),
+    averageRoundTurns: round2(matches.reduce((sum, match) => sum + match.turns, 0) / Math.max(1, rounds)),
+    cards,
+    matches,
+  }
+}
+
+const csvRow = (values: (string | number)[]): string =>
+  values.map(value => (typeof value === 'string' && /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : String(value))).join(',')
+
+/**
+ * The report as CSV: a table of the sides, then a table of the cards
+ */
+export const reportToCsv = (report: SimulationReport): string => [
+  csvRow(['side', 'policy', 'wins', 'winRate', 'winsGoingFirst', 'draws', 'games', 'averageRoundsPerMatch', 'averageRoundTurns']),
+  ...report.sides.map(side => csvRow([side.name, side.policy, side.wins, side.winRate, side.winsGoingFirst,
+    report.draws, report.games, report.averageRoundsPerMatch, report.averageRoundTurns])),
+  '',
+  csvRow(['side', 'cardId', 'timesPlayed', 'matchesPlayed', 'winRateWhenPlayed', 'pointsScored', 'pointsPerPlay']),
+  ...report.cards.map(card => csvRow([card.side, card.cardId, card.timesPlayed, card.matchesPlayed,
+    card.winRateWhenPlayed, card.pointsScored, card.pointsPerPlay])),
+].join('\n') + '\n'
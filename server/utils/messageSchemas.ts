@@ -0,0 +1,241 @@
+/**
+ * @file Runtime schemas for client-to-server WebSocket messages
+ *
+ * One schema per ClientMessage type. The mapped type below makes the build fail if a
+ * schema stops matching its declared message, so the two cannot drift apart.
+ */
+
+import { DeckType, GameMode } from '../types/types.js';
+import type { AiDifficulty, Card, DragItem, DropTarget, FloatingTextData, GameState, HighlightData, PlayerColor, TieBreakPolicy, TimeoutBehavior } from '../types/types.js';
+import type { ClientMessageOf, ClientMessageType, DeckDataPayload } from '../types/messages.js';
+import { array, boolean, literal, nullable, number, object, optional, record, string, union, unknown, validate } from './schema.js';
+import type { Schema, ValidationIssue } from './schema.js';
+import { MAX_FINAL_ROUND_TURN_LIMIT, MAX_MATCH_ROUNDS, MAX_ROUND_TARGET } from './matchRules.js';
+import { MAX_TIME_BANK_SECONDS, MAX_TIME_INCREMENT_SECONDS, MAX_TURN_LIMIT_SECONDS } from './turnClock.js';
+
+const MAX_ID_LENGTH = 200;
+const MAX_TEXT_LENGTH = 2000;
+const MAX_BATCH_SIZE = 100;
+
+const PLAYER_COLORS: PlayerColor[] = ['blue', 'purple', 'red', 'green', 'yellow', 'orange', 'pink', 'brown'];
+
+const gameId = string({ maxLength: MAX_ID_LENGTH });
+const playerId = number({ integer: true, min: 1 });
+const cardId = string({ maxLength: MAX_ID_LENGTH });
+const index = number({ integer: true, min: 0 });
+
+const coords = object({
+  row: number({ integer: true, min: 0 }),
+  col: number({ integer: true, min: 0 })
+});
+
+// Only the fields reducers rely on; the server re-reads cards from its own state
+const card: Schema<Card> = object({
+  id: cardId,
+  deck: literal<DeckType | 'counter'>(...Object.values(DeckType), 'counter'),
+  name: string(),
+  imageUrl: string(),
+  fallbackImage: string(),
+  power: number(),
+  ability: string(),
+  baseId: optional(string({ maxLength: MAX_ID_LENGTH }))
+});
+
+const dragItem: Schema<DragItem> = object({
+  card,
+  source: literal('hand', 'board', 'discard', 'token_panel', 'counter_panel', 'deck', 'announced'),
+  playerId: optional(playerId),
+  boardCoords: optional(coords),
+  cardIndex: optional(index),
+  statusType: optional(string({ maxLength: MAX_ID_LENGTH })),
+  count: optional(number({ integer: true, min: 1 })),
+  bypassOwnershipCheck: optional(boolean()),
+  isManual: optional(boolean())
+});
+
+const dropTarget: Schema<DropTarget> = object({
+  target: literal('hand', 'board', 'deck', 'discard', 'announced'),
+  playerId: optional(playerId),
+  boardCoords: optional(coords),
+  deckPosition: optional(literal('top', 'bottom')),
+  cardIndex: optional(index)
+});
+
+const highlightData: Schema<HighlightData> = object({
+  type: literal('row', 'col', 'cell'),
+  row: optional(number({ integer: true })),
+  col: optional(number({ integer: true })),
+  playerId: number({ integer: true }),
+  timestamp: number()
+});
+
+const floatingTextData: Schema<FloatingTextData> = object({
+  id: optional(string({ maxLength: MAX_ID_LENGTH })),
+  row: number({ integer: true }),
+  col: number({ integer: true }),
+  text: string({ maxLength: 100 }),
+  playerId: number({ integer: true }),
+  timestamp: number()
+});
+
+const deckData: Schema<DeckDataPayload> = object({
+  cardDatabase: optional(record(unknown())),
+  tokenDatabase: optional(record(unknown())),
+  deckFiles: optional(array(unknown()))
+});
+
+// The submitted state is only checked shallowly here; the state merge validates every card
+const submittedGameState = object({
+  gameId,
+  version: optional(number({ integer: true, min: 0 })),
+  players: array(unknown()),
+  board: array(array(unknown()))
+}) as Schema<unknown> as Schema<GameState>;
+
+const gameScoped = object({ gameId });
+const empty = object({});
+
+type ClientMessageSchemas = { [T in ClientMessageType]: Schema<Omit<ClientMessageOf<T>, 'type'>> };
+
+export const CLIENT_MESSAGE_SCHEMAS: ClientMessageSchemas = {
+  GET_GAMES_LIST: empty,
+  CREATE_GAME: object({ isPrivate: optional(boolean()) }),
+  JOIN_GAME: object({ gameId, playerToken: optional(string({ maxLength: MAX_ID_LENGTH })) }),
+  SUBSCRIBE: gameScoped,
+  EXIT_GAME: object({ gameId, playerId: optional(playerId) }),
+  SYNC_GAME: empty,
+  FORCE_SYNC: gameScoped,
+  RESET_GAME: gameScoped,
+  UPDATE_STATE: object({ gameState: submittedGameState, requestId: optional(number({ integer: true, min: 0 })) }),
+  UPDATE_DECK_DATA: object({ deckData }),
+
+  START_READY_CHECK: gameScoped,
+  CANCEL_READY_CHECK: gameScoped,
+  PLAYER_READY: object({ gameId, playerId }),
+
+  ASSIGN_TEAMS: object({ gameId, assignments: record(array(playerId)) }),
+  SET_GAME_MODE: object({ gameId, mode: literal(...Object.values(GameMode)) }),
+  SET_GAME_PRIVACY: object({ gameId, isPrivate: boolean() }),
+  SET_GRID_SIZE: object({ gameId, gridSize: literal(4, 5, 6, 7) }),
+  SET_DUMMY_PLAYER_COUNT: object({ gameId, count: number({ integer: true, min: 0, max: 3 }) }),
+  SET_DUMMY_AI: object({ gameId, playerId, difficulty: nullable(literal<AiDifficulty>('easy', 'normal', 'hard')) }),
+  SET_SPECTATOR_DELAY: object({ gameId, seconds: number({ integer: true, min: 0, max: 120 }) }),
+  SET_MATCH_RULES: object({
+    gameId,
+    rules: object({
+      roundTargets: array(number({ integer: true, min: 1, max: MAX_ROUND_TARGET }), { maxLength: MAX_MATCH_ROUNDS }),
+      maxRounds: number({ integer: true, min: 1, max: MAX_MATCH_ROUNDS }),
+      winsNeeded: number({ integer: true, min: 1, max: MAX_MATCH_ROUNDS }),
+      finalRoundTurnLimit: number({ integer: true, min: 0, max: MAX_FINAL_ROUND_TURN_LIMIT }),
+      tieBreak: literal<TieBreakPolicy>('shared', 'suddenDeath')
+    })
+  }),
+  SET_TIME_CONTROLS: object({
+    gameId,
+    controls: object({
+      turnLimitSeconds: number({ integer: true, min: 0, max: MAX_TURN_LIMIT_SECONDS }),
+      bankSeconds: number({ integer: true, min: 0, max: MAX_TIME_BANK_SECONDS }),
+      incrementSeconds: number({ integer: true, min: 0, max: MAX_TIME_INCREMENT_SECONDS }),
+      onTimeout: literal<TimeoutBehavior>('autoAdvance', 'warn', 'forfeitRound')
+    })
+  }),
+
+  UPDATE_PLAYER_NAME: object({ gameId, playerId, playerName: string({ maxLength: 100 }) }),
+  CHANGE_PLAYER_COLOR: object({ gameId, playerId, color: literal(...PLAYER_COLORS) }),
+  CHANGE_PLAYER_DECK: object({ gameId, playerId, deckType: literal(...Object.values(DeckType)) }),
+  LOAD_CUSTOM_DECK: object({ gameId, playerId }),
+
+  TOGGLE_AUTO_ABILITIES: object({ gameId, enabled: boolean() }),
+  TOGGLE_AUTO_DRAW: object({ gameId, playerId, enabled: boolean() }),
+  TOGGLE_ACTIVE_PLAYER: object({ gameId, playerId }),
+  NEXT_PHASE: gameScoped,
+  PREV_PHASE: gameScoped,
+  SET_PHASE: object({ gameId, phaseIndex: index }),
+
+  UNDO_ACTION: gameScoped,
+  REDO_ACTION: gameScoped,
+  RESPOND_UNDO_REQUEST: object({ gameId, accepted: boolean() }),
+
+  CHAT_MESSAGE: object({
+    gameId: optional(gameId),
+    text: string({ maxLength: MAX_TEXT_LENGTH }),
+    channel: optional(literal('all', 'team'))
+  }),
+
+  LOG_GAME_ACTION: object({ gameId, action: string({ maxLength: MAX_TEXT_LENGTH }) }),
+  GET_GAME_LOGS: gameScoped,
+
+  TRIGGER_HIGHLIGHT: object({ gameId, highlightData }),
+  TRIGGER_NO_TARGET: object({ gameId, coords, timestamp: number() }),
+  TRIGGER_FLOATING_TEXT: object({ gameId, floatingTextData }),
+  TRIGGER_FLOATING_TEXT_BATCH: object({ gameId, batch: array(floatingTextData, { maxLength: MAX_BATCH_SIZE }) }),
+
+  PLAY_CARD: object({
+    gameId,
+    playerId,
+    cardIndex: index,
+    cardId,
+    boardCoords: coords,
+    faceDown: optional(boolean()),
+    autoPhase: optional(boolean())
+  }),
+  MOVE_CARD: object({ gameId, item: dragItem, target: dropTarget, autoPhase: optional(boolean()) }),
+  DRAW_CARD: object({ gameId, playerId }),
+  SHUFFLE_DECK: object({ gameId, playerId }),
+  ANNOUNCE_CARD: object({ gameId, playerId, cardIndex: index, cardId }),
+  DESTROY_CARD: object({ gameId, boardCoords: coords, cardId }),
+  RETURN_CARD_TO_HAND: object({ gameId, boardCoords: coords, cardId }),
+  PLAY_TOKEN: object({ gameId, tokenId: string({ maxLength: MAX_ID_LENGTH }), boardCoords: coords, ownerId: optional(playerId) }),
+  PLAY_COUNTER: object({
+    gameId,
+    statusType: string({ maxLength: MAX_ID_LENGTH }),
+    count: optional(number({ integer: true, min: 1 })),
+    target: dropTarget
+  }),
+  REMOVE_STATUS: object({
+    gameId,
+    statusType: string({ maxLength: MAX_ID_LENGTH }),
+    target: dropTarget,
+    addedByPlayerId: optional(playerId),
+    all: optional(boolean())
+  }),
+  TRANSFER_STATUSES: object({ gameId, from: coords, to: coords, statusType: optional(string({ maxLength: MAX_ID_LENGTH })) }),
+  RESTORE_DEPLOY: object({ gameId, boardCoords: coords }),
+  REVEAL_CARD: object({ gameId, target: dropTarget }),
+  RESPOND_REVEAL_REQUEST: object({ gameId, fromPlayerId: playerId, accepted: boolean() }),
+  RESURRECT_CARD: object({
+    gameId,
+    playerId,
+    cardIndex: index,
+    cardId,
+    boardCoords: coords
+  }),
+  SCORE_LINE: object({ gameId, playerId, start: coords, end: coords }),
+  SCORE_ABILITY: object({
+    gameId,
+    playerId,
+    sourceCoords: optional(coords),
+    step: optional(union(literal('main'), index)),
+    start: optional(coords),
+    end: optional(coords),
+    target: optional(coords),
+    remove: optional(record(index))
+  }),
+  GAIN_POINTS: object({ gameId, playerId, points: literal(1, -1) }),
+  CONFIRM_ROUND_END: gameScoped
+};
+
+/**
+ * Checks that an inbound message has a known type and the payload its type requires
+ * @param data The parsed message
+ * @returns The problems found; empty if the message is valid
+ */
+export function validateClientMessage(data: { type?: unknown }): ValidationIssue[] {
+  const messageSchema = typeof data.type === 'string' && Object.prototype.hasOwnProperty.call(CLIENT_MESSAGE_SCHEMAS, data.type)
+    ? CLIENT_MESSAGE_SCHEMAS[data.type as ClientMessageType]
+    : undefined;
+  if (!messageSchema) {
+    return [{ path: 'type', message: 'Unknown message type' }];
+  }
+  return validate(messageSchema as Schema<unknown>, data);
+}
@@ -0,0 +1,45 @@
+/**
+ * @file Seeded randomness
+ * Shared between client and server
+ *
+ * A small deterministic generator for anything that has to play out the same way again
+ * from a seed, such as simulated matches.
+ */
+
+/**
+ * Turns any text into a 32-bit seed, so seeds can be given as words
+ */
+export const hashSeed = (text: string): number => {
+  let hash = 2166136261
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 16777619)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Creates a generator returning numbers in [0, 1), like Math.random; the same seed always
+ * gives the same sequence (mulberry32)
+ */
+export const createSeededRandom = (seed: number): (() => number) => {
+  let current = seed >>> 0
+  return () => {
+    current = (current + 0x6D2B79F5) >>> 0
+    let t = current
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Returns a shuffled copy of the items, drawing from the given generator (Fisher-Yates)
+ */
+export const shuffleWith = <T>(items: T[], random: () => number): T[] => {
+  const shuffled = [...items]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+  return shuffled
+}
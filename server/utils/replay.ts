@@ -0,0 +1,116 @@
+/**
+ * @file Match replays
+ * Shared between client and server
+ *
+ * A replay is the full state of the game when it started plus one patch per broadcast
+ * revision, together with the game's event log. Unlike the views sent during the game,
+ * replay states are not redacted: replays are only published once the game has ended.
+ */
+
+import type { Card, GameEvent, GameState } from '../types/types.js'
+import { applyPatch } from './statePatch.js'
+import type { PatchOperation } from './statePatch.js'
+
+/**
+ * One broadcast revision of the game
+ */
+export interface ReplayFrame {
+  version: number
+  timestamp: number
+  eventSeq: number // Last event log entry recorded before this revision
+  patch: PatchOperation[] // Changes from the previous frame (or the initial state)
+}
+
+/**
+ * A recorded match
+ */
+export interface GameReplay {
+  replayId: string
+  gameId: string
+  startedAt: number
+  endedAt: number
+  endReason: string
+  initialState: GameState
+  initialEventSeq: number
+  frames: ReplayFrame[]
+  events: GameEvent[]
+  truncated?: boolean // Recording stopped early because the game ran past the frame limit
+}
+
+/**
+ * What the replay list shows without downloading every replay
+ */
+export interface ReplaySummary {
+  replayId: string
+  gameId: string
+  startedAt: number
+  endedAt: number
+  playerNames: string[]
+  gameWinner: string | null
+}
+
+/**
+ * Where a turn starts in the list of replay states
+ */
+export interface ReplayTurn {
+  stateIndex: number
+  round: number
+  turnNumber: number
+  activePlayerId: number | null
+}
+
+/**
+ * Rebuilds every state of a replay
+ * Index 0 is the initial state, index i is the state after frame i - 1. Consecutive states
+ * share their unchanged parts, so keeping all of them costs little more than the patches.
+ */
+export const buildReplayStates = (replay: Pick<GameReplay, 'initialState' | 'frames'>): GameState[] => {
+  const states: GameState[] = [replay.initialState]
+  for (const frame of replay.frames) {
+    states.push(applyPatch(states[states.length - 1], frame.patch))
+  }
+  return states
+}
+
+/**
+ * Finds the state at which each turn begins, i.e. where the active player or the round changes
+ */
+export const findReplayTurns = (states: GameState[]): ReplayTurn[] => {
+  const turns: ReplayTurn[] = []
+  states.forEach((state, index) => {
+    const previous = turns[turns.length - 1]
+    if (state.activePlayerId === null || !state.isGameStarted) {
+      return
+    }
+    if (!previous || previous.activePlayerId !== state.activePlayerId || previous.round !== state.currentRound) {
+      turns.push({ stateIndex: index, round: state.currentRound, turnNumber: state.turnNumber, activePlayerId: state.activePlayerId })
+    }
+  })
+  return turns
+}
+
+/**
+ * Sequence number of the last event that had happened by the given replay state
+ */
+export const getReplayEventSeq = (replay: GameReplay, stateIndex: number): number =>
+  stateIndex === 0 ? replay.initialEventSeq : replay.frames[stateIndex - 1]?.eventSeq ?? replay.initialEventSeq
+
+const revealCard = (card: Card): Card => ({ ...card, revealedTo: 'all' })
+
+/**
+ * Prepares a replay state for display
+ * Hands, decks and face-down cards of the listed seats are turned face up for the viewer;
+ * everyone else's hidden cards stay hidden, as they were for a spectator of the live game.
+ */
+export const createReplayView = (state: GameState, revealedPlayerIds: number[]): GameState => {
+  const isRevealed = (playerId: number | undefined) => playerId !== undefined && revealedPlayerIds.includes(playerId)
+
+  const board = state.board.map(row => row.map(cell =>
+    cell.card?.isFaceDown && isRevealed(cell.card.ownerId) ? { ...cell, card: revealCard(cell.card) } : cell,
+  ))
+  const players = state.players.map(player => (isRevealed(player.id)
+    ? { ...player, hand: player.hand.map(revealCard), deck: player.deck.map(revealCard) }
+    : player))
+
+  return { ...state, board, players }
+}
@@ -0,0 +1,151 @@
+/**
+ * @file Minimal runtime schemas for WebSocket payloads
+ * Shared between client and server
+ *
+ * Each schema both validates an unknown value and carries the TypeScript type it
+ * accepts, so message definitions can be checked against the declared message types.
+ * Object schemas only check the listed keys; extra keys are left untouched.
+ */
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface Schema<T> {
+  /** Phantom field carrying the validated type; never set at runtime */
+  readonly _type?: T;
+  readonly check: (value: unknown, path: string, issues: ValidationIssue[]) => void;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+const schema = <T>(check: Schema<T>['check']): Schema<T> => ({ check })
+
+const describe = (value: unknown): string => {
+  if (value === null) {
+    return 'null'
+  }
+  return Array.isArray(value) ? 'array' : typeof value
+}
+
+export const string = (options: { maxLength?: number } = {}): Schema<string> => schema((value, path, issues) => {
+  if (typeof value !== 'string') {
+    issues.push({ path, message: `Expected string, got ${describe(value)}` })
+  } else if (options.maxLength !== undefined && value.length > options.maxLength) {
+    issues.push({ path, message: `Must be at most ${options.maxLength} characters` })
+  }
+})
+
+export const number = (options: { integer?: boolean; min?: number; max?: number } = {}): Schema<number> => schema((value, path, issues) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    issues.push({ path, message: `Expected number, got ${describe(value)}` })
+  } else if (options.integer && !Number.isInteger(value)) {
+    issues.push({ path, message: 'Expected an integer' })
+  } else if (options.min !== undefined && value < options.min) {
+    issues.push({ path, message: `Must be at least ${options.min}` })
+  } else if (options.max !== undefined && value > options.max) {
+    issues.push({ path, message: `Must be at most ${options.max}` })
+  }
+})
+
+export const boolean = (): Schema<boolean> => schema((value, path, issues) => {
+  if (typeof value !== 'boolean') {
+    issues.push({ path, message: `Expected boolean, got ${describe(value)}` })
+  }
+})
+
+export const unknown = (): Schema<unknown> => schema(() => undefined)
+
+export const literal = <T extends string | number>(...values: T[]): Schema<T> => schema((value, path, issues) => {
+  if (!values.includes(value as T)) {
+    issues.push({ path, message: `Expected one of ${values.join(', ')}` })
+  }
+})
+
+/** Marks an object field that may be absent */
+export interface OptionalSchema<T> extends Schema<T | undefined> {
+  readonly isOptional: true;
+}
+
+export const optional = <T>(inner: Schema<T>): OptionalSchema<T> => ({
+  isOptional: true,
+  check: (value, path, issues) => {
+    if (value !== undefined) {
+      inner.check(value, path, issues)
+    }
+  },
+})
+
+export const nullable = <T>(inner: Schema<T>): Schema<T | null> => schema((value, path, issues) => {
+  if (value !== null) {
+    inner.check(value, path, issues)
+  }
+})
+
+export const array = <T>(item: Schema<T>, options: { maxLength?: number } = {}): Schema<T[]> => schema((value, path, issues) => {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: `Expected array, got ${describe(value)}` })
+    return
+  }
+  if (options.maxLength !== undefined && value.length > options.maxLength) {
+    issues.push({ path, message: `Must contain at most ${options.maxLength} items` })
+    return
+  }
+  value.forEach((entry, i) => item.check(entry, `${path}[${i}]`, issues))
+})
+
+/** Accepts a value that matches any of the schemas; otherwise reports the closest one's problems */
+export const union = <S extends Schema<unknown>[]>(...options: S): Schema<Infer<S[number]>> => schema((value, path, issues) => {
+  let closest: ValidationIssue[] | null = null
+  for (const option of options) {
+    const optionIssues: ValidationIssue[] = []
+    option.check(value, path, optionIssues)
+    if (optionIssues.length === 0) {
+      return
+    }
+    if (!closest || optionIssues.length < closest.length) {
+      closest = optionIssues
+    }
+  }
+  issues.push(...(closest ?? []))
+})
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+export const record = <T>(valueSchema: Schema<T>): Schema<Record<string, T>> => schema((value, path, issues) => {
+  if (!isPlainObject(value)) {
+    issues.push({ path, message: `Expected object, got ${describe(value)}` })
+    return
+  }
+  Object.entries(value).forEach(([key, entry]) => valueSchema.check(entry, `${path}.${key}`, issues))
+})
+
+type Shape = Record<string, Schema<unknown>>
+
+// Keys declared with optional() become optional properties
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends OptionalSchema<unknown> ? K : never }[keyof S]
+type RequiredKeys<S extends Shape> = Exclude<keyof S, OptionalKeys<S>>
+type InferShape<S extends Shape> =
+  { [K in RequiredKeys<S>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> }
+
+export const object = <S extends Shape>(shape: S): Schema<{ [K in keyof InferShape<S>]: InferShape<S>[K] }> => schema((value, path, issues) => {
+  if (!isPlainObject(value)) {
+    issues.push({ path, message: `Expected object, got ${describe(value)}` })
+    return
+  }
+  for (const [key, fieldSchema] of Object.entries(shape)) {
+    fieldSchema.check(value[key], path ? `${path}.${key}` : key, issues)
+  }
+})
+
+/**
+ * Validates a value against a schema.
+ * @returns The list of problems found; empty if the value is valid
+ */
+export const validate = <T>(target: Schema<T>, value: unknown): ValidationIssue[] => {
+  const issues: ValidationIssue[] = []
+  target.check(value, '', issues)
+  return issues
+}
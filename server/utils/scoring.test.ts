@@ -0,0 +1,323 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { Board, Card, CardStatus, GameState } from '../types/types.js'
+import { DeckType } from '../types/types.js'
+import { DATA_LIBERATOR_BASE_ID, getCardScore, scoreDiagonal, scoreLine } from './scoring.js'
+import { applyGameAction } from './gameActions.js'
+import type { GameAction, GameActionContext } from './gameActions.js'
+import { setAbilityDefinitions } from './abilityEngine.js'
+
+const createBoard = (size = 4): Board =>
+  Array.from({ length: size }, () => Array.from({ length: size }, () => ({ card: null })))
+
+let nextCardId = 1
+
+const createCard = (ownerId: number, power: number, statuses: CardStatus[] = [], extra: Partial<Card> = {}): Card => ({
+  id: `TEST_${nextCardId++}`,
+  deck: DeckType.Custom,
+  name: 'Test Unit',
+  imageUrl: '',
+  fallbackImage: '',
+  power,
+  ability: '',
+  types: ['Unit'],
+  ownerId,
+  statuses,
+  ...extra,
+})
+
+const status = (type: string, addedByPlayerId: number): CardStatus => ({ type, addedByPlayerId })
+
+const place = (board: Board, row: number, col: number, card: Card): Card => {
+  board[row][col].card = card
+  return card
+}
+
+describe('getCardScore', () => {
+  it('adds power modifiers and never goes below zero', () => {
+    assert.equal(getCardScore(createCard(1, 3, [], { powerModifier: 2, bonusPower: 1 })), 6)
+    assert.equal(getCardScore(createCard(1, 2, [], { powerModifier: -5 })), 0)
+  })
+})
+
+describe('scoreLine', () => {
+  it('scores the player\'s own cards across a whole row', () => {
+    const board = createBoard()
+    place(board, 1, 0, createCard(1, 2))
+    place(board, 1, 3, createCard(1, 3, [], { powerModifier: 1 }))
+    place(board, 1, 2, createCard(2, 5))
+
+    const score = scoreLine(board, 1, 1, 0, 1, 1)
+
+    assert.equal(score?.points, 6)
+    assert.deepEqual(score?.cells, [{ row: 1, col: 0, points: 2 }, { row: 1, col: 3, points: 4 }])
+    assert.equal(score?.cardsToDraw, 0)
+  })
+
+  it('scores a whole column', () => {
+    const board = createBoard()
+    place(board, 0, 2, createCard(1, 1))
+    place(board, 3, 2, createCard(1, 4))
+
+    assert.equal(scoreLine(board, 1, 3, 2, 2, 2)?.points, 5)
+  })
+
+  it('skips stunned cards and cards worth nothing', () => {
+    const board = createBoard()
+    place(board, 0, 0, createCard(1, 3, [status('Stun', 2)]))
+    place(board, 0, 1, createCard(1, 1, [], { powerModifier: -3 }))
+    place(board, 0, 2, createCard(1, 2))
+
+    const score = scoreLine(board, 1, 0, 0, 0, 3)
+
+    assert.equal(score?.points, 2)
+    assert.deepEqual(score?.cells, [{ row: 0, col: 2, points: 2 }])
+  })
+
+  it('rejects cells that share neither a row nor a column', () => {
+    assert.equal(scoreLine(createBoard(), 1, 0, 0, 1, 1), null)
+  })
+
+  describe('with Data Liberator', () => {
+    it('scores opponents\' cards carrying the player\'s Exploit while the Liberator is supported', () => {
+      const board = createBoard()
+      place(board, 3, 3, createCard(1, 1, [status('Support', 1)], { baseId: DATA_LIBERATOR_BASE_ID }))
+      place(board, 0, 0, createCard(1, 2))
+      place(board, 0, 1, createCard(2, 3, [status('Exploit', 1)]))
+      place(board, 0, 2, createCard(2, 4, [status('Exploit', 3)]))
+      place(board, 0, 3, createCard(2, 5))
+
+      const score = scoreLine(board, 1, 0, 0, 0, 3)
+
+      assert.equal(score?.points, 5)
+      assert.deepEqual(score?.cells.map(cell => cell.col), [0, 1])
+    })
+
+    it('only scores the player\'s own cards while the Liberator is unsupported', () => {
+      const board = createBoard()
+      place(board, 3, 3, createCard(1, 1, [], { baseId: DATA_LIBERATOR_BASE_ID }))
+      place(board, 0, 0, createCard(1, 2))
+      place(board, 0, 1, createCard(2, 3, [status('Exploit', 1)]))
+
+      assert.equal(scoreLine(board, 1, 0, 0, 0, 3)?.points, 2)
+    })
+
+    it('does not help a player whose opponent owns the Liberator', () => {
+      const board = createBoard()
+      place(board, 3, 3, createCard(2, 1, [status('Support', 2)], { baseId: DATA_LIBERATOR_BASE_ID }))
+      place(board, 0, 1, createCard(2, 3, [status('Exploit', 1)]))
+
+      assert.equal(scoreLine(board, 1, 0, 0, 0, 3)?.points, 0)
+    })
+  })
+})
+
+describe('scoreDiagonal', () => {
+  it('scores the player\'s own cards between the two cells', () => {
+    const board = createBoard()
+    place(board, 0, 0, createCard(1, 1))
+    place(board, 1, 1, createCard(2, 5))
+    place(board, 2, 2, createCard(1, 2))
+    place(board, 3, 3, createCard(1, 7))
+
+    const score = scoreDiagonal(board, 1, 0, 0, 2, 2)
+
+    assert.equal(score?.points, 3)
+    assert.deepEqual(score?.cells.map(cell => [cell.row, cell.col]), [[0, 0], [2, 2]])
+  })
+
+  it('scores an anti-diagonal in either direction', () => {
+    const board = createBoard()
+    place(board, 0, 3, createCard(1, 2))
+    place(board, 3, 0, createCard(1, 3))
+
+    assert.equal(scoreDiagonal(board, 1, 3, 0, 0, 3)?.points, 5)
+  })
+
+  it('adds a point or a draw per supported card with a bonus', () => {
+    const board = createBoard()
+    place(board, 0, 0, createCard(1, 1, [status('Support', 1)]))
+    place(board, 1, 1, createCard(1, 2, [status('Support', 1)]))
+    place(board, 2, 2, createCard(1, 3))
+
+    assert.equal(scoreDiagonal(board, 1, 0, 0, 2, 2, 'point_per_support')?.points, 8)
+    const withDraws = scoreDiagonal(board, 1, 0, 0, 2, 2, 'draw_per_support')
+    assert.equal(withDraws?.points, 6)
+    assert.equal(withDraws?.cardsToDraw, 2)
+  })
+
+  it('rejects cells that are not on one diagonal', () => {
+    assert.equal(scoreDiagonal(createBoard(), 1, 0, 0, 1, 2), null)
+  })
+})
+
+describe('scoring intents', () => {
+  const createState = (board: Board): GameState => ({
+    isGameStarted: true,
+    activePlayerId: 1,
+    currentPhase: 2,
+    isScoringStep: true,
+    currentRound: 1,
+    activeGridSize: board.length,
+    board,
+    players: [1, 2].map(id => ({
+      id,
+      name: `Player ${id}`,
+      score: 0,
+      hand: [],
+      deck: [createCard(id, 1)],
+      discard: [],
+      selectedDeck: DeckType.Custom,
+      color: id === 1 ? 'blue' : 'red',
+      boardHistory: [],
+    })),
+  } as unknown as GameState)
+
+  const contextFor = (actorId: number): GameActionContext => ({
+    actorId,
+    shuffle: cards => cards,
+    getTokenDefinition: () => null,
+    getCounterDefinition: () => null,
+  })
+
+  describe('SCORE_LINE', () => {
+    it('adds the line through the last played card to the player\'s score, once a turn', () => {
+      const board = createBoard()
+      place(board, 2, 0, createCard(1, 3, [status('LastPlayed', 1)]))
+      const state = createState(board)
+      const line: GameAction = { type: 'SCORE_LINE', playerId: 1, start: { row: 2, col: 0 }, end: { row: 2, col: 3 } }
+
+      const result = applyGameAction(state, line, contextFor(1))
+
+      assert.equal(result.success, true)
+      assert.equal(result.score?.points, 3)
+      assert.equal(state.players[0].score, 3)
+      assert.equal(applyGameAction(state, line, contextFor(1)).success, false)
+      assert.equal(state.players[0].score, 3)
+    })
+
+    it('only scores in the scoring step, on a line through the last played card', () => {
+      const board = createBoard()
+      place(board, 2, 0, createCard(1, 3, [status('LastPlayed', 1)]))
+      place(board, 1, 1, createCard(1, 5))
+      const state = createState(board)
+
+      const missesLastPlayed = applyGameAction(state, { type: 'SCORE_LINE', playerId: 1, start: { row: 1, col: 1 }, end: { row: 1, col: 3 } }, contextFor(1))
+      state.isScoringStep = false
+      const outsideScoringStep = applyGameAction(state, { type: 'SCORE_LINE', playerId: 1, start: { row: 2, col: 0 }, end: { row: 2, col: 3 } }, contextFor(1))
+
+      assert.equal(missesLastPlayed.success, false)
+      assert.equal(outsideScoringStep.success, false)
+      assert.equal(state.players[0].score, 0)
+    })
+
+    it('only lets players score for themselves on their turn', () => {
+      const board = createBoard()
+      place(board, 2, 0, createCard(2, 3, [status('LastPlayed', 2)]))
+      const state = createState(board)
+
+      const forOpponent = applyGameAction(state, { type: 'SCORE_LINE', playerId: 2, start: { row: 2, col: 0 }, end: { row: 2, col: 3 } }, contextFor(1))
+      const offTurn = applyGameAction(state, { type: 'SCORE_LINE', playerId: 2, start: { row: 2, col: 0 }, end: { row: 2, col: 3 } }, contextFor(2))
+
+      assert.equal(forOpponent.success, false)
+      assert.equal(offTurn.success, false)
+      assert.deepEqual(state.players.map(p => p.score), [0, 0])
+    })
+  })
+
+  describe('SCORE_ABILITY', () => {
+    before(() => {
+      setAbilityDefinitions({
+        logisticsChain: { abilities: [
+          { trigger: 'command', step: 0, effect: { do: 'mode', mode: 'SELECT_DIAGONAL', score: { count: 'diagonal', bonus: 'point_per_support' } } },
+          { trigger: 'command', step: 1, effect: { do: 'mode', mode: 'SELECT_DIAGONAL', score: { count: 'diagonal', bonus: 'draw_per_support' } } },
+        ] },
+        integrator: { abilities: [
+          { trigger: 'setup', requires: 'Support', effect: { do: 'mode', mode: 'COUNTER_LINE_SELECT', score: { count: 'countersInLine', counter: 'Exploit' } } },
+        ] },
+        inspiration: { abilities: [
+          { trigger: 'command', step: 1, effect: { do: 'mode', mode: 'SELECT_TARGET', score: { count: 'removedCounters' } } },
+        ] },
+      })
+    })
+    after(() => {
+      setAbilityDefinitions()
+    })
+
+    const announce = (state: GameState, baseId: string): void => {
+      state.players[0].announcedCard = createCard(1, 0, [], { baseId, types: ['Command'] })
+    }
+
+    it('takes a command\'s bonus from the step being resolved', () => {
+      const board = createBoard()
+      place(board, 0, 0, createCard(1, 1, [status('Support', 1)]))
+      const state = createState(board)
+      announce(state, 'logisticsChain')
+
+      const result = applyGameAction(state, { type: 'SCORE_ABILITY', playerId: 1, step: 1, start: { row: 0, col: 0 }, end: { row: 3, col: 3 } }, contextFor(1))
+
+      assert.equal(result.success, true)
+      assert.equal(state.players[0].score, 1)
+      assert.equal(state.players[0].hand.length, 1)
+    })
+
+    it('counts the owner\'s counters in a line through the unit, once a turn', () => {
+      const board = createBoard()
+      place(board, 1, 1, createCard(1, 2, [status('Support', 1)], { baseId: 'integrator' }))
+      place(board, 1, 3, createCard(2, 2, [status('Exploit', 1), status('Exploit', 1), status('Exploit', 2)]))
+      place(board, 3, 3, createCard(2, 2, [status('Exploit', 1)]))
+      const state = createState(board)
+      const sourceCoords = { row: 1, col: 1 }
+
+      const missesSource = applyGameAction(state, { type: 'SCORE_ABILITY', playerId: 1, sourceCoords, start: { row: 3, col: 0 }, end: { row: 3, col: 3 } }, contextFor(1))
+      const result = applyGameAction(state, { type: 'SCORE_ABILITY', playerId: 1, sourceCoords, start: sourceCoords, end: { row: 1, col: 3 } }, contextFor(1))
+      const again = applyGameAction(state, { type: 'SCORE_ABILITY', playerId: 1, sourceCoords, start: sourceCoords, end: { row: 1, col: 3 } }, contextFor(1))
+
+      assert.equal(missesSource.success, false)
+      assert.equal(result.success, true)
+      assert.deepEqual(result.score?.cells, [{ row: 1, col: 1, points: 2 }])
+      assert.equal(again.success, false)
+      assert.equal(state.players[0].score, 2)
+    })
+
+    it('removes the counters it scores from the player\'s unit', () => {
+      const board = createBoard()
+      const unit = place(board, 2, 2, createCard(1, 2, [status('Aim', 2), status('Stun', 2), status('Support', 1)]))
+      const state = createState(board)
+      announce(state, 'inspiration')
+
+      const aura = applyGameAction(state, { type: 'SCORE_ABILITY', playerId: 1, step: 1, target: { row: 2, col: 2 }, remove: { Support: 1 } }, contextFor(1))
+      const tooMany = applyGameAction(state, { type: 'SCORE_ABILITY', playerId: 1, step: 1, target: { row: 2, col: 2 }, remove: { Aim: 2 } }, contextFor(1))
+      const result = applyGameAction(state, { type: 'SCORE_ABILITY', playerId: 1, step: 1, target: { row: 2, col: 2 }, remove: { Aim: 1, Stun: 1 } }, contextFor(1))
+
+      assert.equal(aura.success, false)
+      assert.equal(tooMany.success, false)
+      assert.equal(result.success, true)
+      assert.equal(state.players[0].score, 2)
+      assert.equal(unit.statuses?.some(s => s.type === 'Aim' || s.type === 'Stun'), false)
+    })
+
+    it('rejects cards without a scoring ability', () => {
+      const board = createBoard()
+      place(board, 0, 0, createCard(1, 4))
+      const state = createState(board)
+
+      const result = applyGameAction(state, { type: 'SCORE_ABILITY', playerId: 1, sourceCoords: { row: 0, col: 0 } }, contextFor(1))
+
+      assert.equal(result.success, false)
+      assert.equal(state.players[0].score, 0)
+    })
+  })
+
+  it('only lets players adjust their own score by a point on their turn', () => {
+    const state = createState(createBoard())
+
+    assert.equal(applyGameAction(state, { type: 'GAIN_POINTS', playerId: 1, points: 1 }, contextFor(1)).success, true)
+    assert.equal(applyGameAction(state, { type: 'GAIN_POINTS', playerId: 1, points: 2 }, contextFor(1)).success, false)
+    assert.equal(applyGameAction(state, { type: 'GAIN_POINTS', playerId: 2, points: 1 }, contextFor(1)).success, false)
+    assert.equal(applyGameAction(state, { type: 'GAIN_POINTS', playerId: 2, points: 1 }, contextFor(2)).success, false)
+    assert.equal(applyGameAction(state, { type: 'GAIN_POINTS', playerId: 1, points: -1 }, contextFor(1)).success, true)
+    assert.equal(applyGameAction(state, { type: 'GAIN_POINTS', playerId: 1, points: -1 }, contextFor(1)).success, false)
+    assert.deepEqual(state.players.map(p => p.score), [0, 0])
+  })
+})
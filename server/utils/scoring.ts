@@ -0,0 +1,145 @@
+/**
+ * @file Line and diagonal scoring
+ * Shared between client and server
+ *
+ * The server scores on SCORE_LINE and SCORE_ABILITY intents; the per-cell breakdown is
+ * what the table shows as floating "+N" texts.
+ */
+
+import type { Board, Card, Player } from '../types/types.js'
+
+// Base id of the card that lets its owner score opponents' cards carrying their Exploit
+export const DATA_LIBERATOR_BASE_ID = 'dataLiberator'
+
+export type DiagonalBonus = 'point_per_support' | 'draw_per_support'
+
+/**
+ * Points one card contributed to a score
+ */
+export interface ScoredCell {
+  row: number;
+  col: number;
+  points: number;
+}
+
+/**
+ * Result of scoring a line or a diagonal for one player
+ */
+export interface ScoreBreakdown {
+  playerId: number;
+  points: number; // Total, including bonus points
+  cells: ScoredCell[];
+  cardsToDraw: number;
+}
+
+const hasStatus = (card: Card, type: string, playerId?: number): boolean =>
+  !!card.statuses?.some(s => s.type === type && (playerId === undefined || s.addedByPlayerId === playerId))
+
+/**
+ * Points a card is worth when scored: its power with modifiers, never negative
+ */
+export const getCardScore = (card: Card): number =>
+  Math.max(0, card.power + (card.powerModifier || 0) + (card.bonusPower || 0))
+
+/**
+ * True when the player has a supported Data Liberator on the board
+ */
+const hasActiveLiberator = (board: Board, playerId: number): boolean =>
+  board.some(row => row.some(cell =>
+    cell.card?.ownerId === playerId && cell.card.baseId === DATA_LIBERATOR_BASE_ID && hasStatus(cell.card, 'Support'),
+  ))
+
+const scoreCells = (board: Board, cells: { row: number, col: number }[], canScore: (card: Card) => boolean): ScoredCell[] =>
+  cells.flatMap(({ row, col }) => {
+    const card = board[row]?.[col]?.card
+    if (!card || hasStatus(card, 'Stun') || !canScore(card)) {
+      return []
+    }
+    const points = getCardScore(card)
+    return points > 0 ? [{ row, col, points }] : []
+  })
+
+const getLineCells = (size: number, row1: number, col1: number, row2: number, col2: number): { row: number, col: number }[] | null => {
+  if (row1 === row2) {
+    return Array.from({ length: size }, (_, col) => ({ row: row1, col }))
+  }
+  if (col1 === col2) {
+    return Array.from({ length: size }, (_, row) => ({ row, col: col1 }))
+  }
+  return null
+}
+
+/**
+ * Scores the whole row or column through two cells.
+ * Counts the player's own cards and, with an active Data Liberator, opponents' cards
+ * carrying the player's Exploit. Stunned cards score nothing.
+ * @returns The breakdown, or null if the cells share neither a row nor a column
+ */
+export const scoreLine = (board: Board, playerId: number, row1: number, col1: number, row2: number, col2: number): ScoreBreakdown | null => {
+  const cells = getLineCells(board.length, row1, col1, row2, col2)
+  if (!cells) {
+    return null
+  }
+
+  const liberator = hasActiveLiberator(board, playerId)
+  const scored = scoreCells(board, cells, card =>
+    card.ownerId === playerId || (liberator && hasStatus(card, 'Exploit', playerId)))
+
+  return { playerId, points: scored.reduce((sum, cell) => sum + cell.points, 0), cells: scored, cardsToDraw: 0 }
+}
+
+/**
+ * Scores the player's own cards on the diagonal between two cells.
+ * With a bonus, each scored card carrying the player's Support adds a point or a draw.
+ * @returns The breakdown, or null if the cells are not on one diagonal
+ */
+export const scoreDiagonal = (board: Board, playerId: number, row1: number, col1: number, row2: number, col2: number, bonusType?: DiagonalBonus): ScoreBreakdown | null => {
+  const steps = Math.abs(row1 - row2)
+  if (steps !== Math.abs(col1 - col2)) {
+    return null
+  }
+  const dRow = row2 > row1 ? 1 : -1
+  const dCol = col2 > col1 ? 1 : -1
+  const cells = Array.from({ length: steps + 1 }, (_, i) => ({ row: row1 + (i * dRow), col: col1 + (i * dCol) }))
+
+  let supported = 0
+  const scored = scoreCells(board, cells, card => {
+    if (card.ownerId !== playerId) {
+      return false
+    }
+    if (bonusType && hasStatus(card, 'Support', playerId)) {
+      supported += 1
+    }
+    return true
+  })
+
+  const points = scored.reduce((sum, cell) => sum + cell.points, 0)
+  return {
+    playerId,
+    points: bonusType === 'point_per_support' ? points + supported : points,
+    cells: scored,
+    cardsToDraw: bonusType === 'draw_per_support' ? supported : 0,
+  }
+}
+
+/**
+ * Counts the player's counters of a type on the cards of the whole row or column through two cells.
+ * @returns The count, or null if the cells share neither a row nor a column
+ */
+export const countCountersInLine = (board: Board, playerId: number, counter: string, row1: number, col1: number, row2: number, col2: number): number | null => {
+  const cells = getLineCells(board.length, row1, col1, row2, col2)
+  return cells && cells.reduce((sum, { row, col }) =>
+    sum + (board[row][col].card?.statuses?.filter(s => s.type === counter && s.addedByPlayerId === playerId).length ?? 0), 0)
+}
+
+/**
+ * Counts the Revealed statuses the player put on other players' cards, in hand and on the board
+ */
+export const countRevealedCards = (board: Board, players: Player[], playerId: number): number => {
+  const cards = [
+    ...players.filter(p => p.id !== playerId).flatMap(p => p.hand),
+    ...board.flatMap(row => row.map(cell => cell.card).filter((card): card is Card => !!card && card.ownerId !== playerId)),
+  ]
+  return cards.reduce((sum, card) =>
+    sum + (card.statuses?.filter(s => s.type === 'Revealed' && s.addedByPlayerId === playerId).length ?? 0), 0)
+}
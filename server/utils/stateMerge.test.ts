@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Card, GameState } from '../types/types.js';
+import { DeckType } from '../types/types.js';
+import { mergeClientState } from './stateMerge.js';
+
+const createCard = (id: string, ownerId: number, extra: Partial<Card> = {}): Card => ({
+  id,
+  deck: DeckType.Custom,
+  name: id,
+  imageUrl: '',
+  fallbackImage: '',
+  power: 2,
+  ability: '',
+  types: ['Unit'],
+  ownerId,
+  statuses: [],
+  ...extra
+});
+
+const createState = (activePlayerId = 1): GameState => ({
+  isGameStarted: true,
+  activePlayerId,
+  currentPhase: 1,
+  currentRound: 1,
+  activeGridSize: 2,
+  board: [
+    [{ card: createCard('OWN', 1) }, { card: createCard('OPPONENT', 2, { isFaceDown: true }) }],
+    [{ card: null }, { card: null }]
+  ],
+  players: [1, 2].map(id => ({
+    id,
+    name: `Player ${id}`,
+    score: 3,
+    hand: [],
+    deck: [],
+    discard: [],
+    selectedDeck: DeckType.Custom,
+    color: id === 1 ? 'blue' : 'red',
+    boardHistory: []
+  })),
+  revealRequests: []
+} as unknown as GameState);
+
+const copy = (state: GameState): any => JSON.parse(JSON.stringify(state));
+
+describe('mergeClientState', () => {
+  it('never takes scores from the client', () => {
+    const state = createState();
+    const incoming = copy(state);
+    incoming.players[0].score = 40;
+    incoming.players[1].score = 0;
+
+    assert.equal(mergeClientState(state, incoming, 1).success, true);
+    assert.deepEqual(state.players.map(p => p.score), [3, 3]);
+  });
+
+  it('lets the sender move another player\'s card on its turn, but not flip it', () => {
+    const state = createState();
+    const incoming = copy(state);
+    incoming.board[1][1].card = incoming.board[0][1].card;
+    incoming.board[0][1].card = null;
+    incoming.board[1][1].card.isFaceDown = false;
+
+    assert.equal(mergeClientState(state, incoming, 1).success, true);
+    assert.equal(state.board[1][1].card?.id, 'OPPONENT');
+    assert.equal(state.board[1][1].card?.isFaceDown, true);
+  });
+
+  it('never takes statuses or power from the client', () => {
+    const state = createState();
+    const incoming = copy(state);
+    incoming.board[0][0].card.statuses = [{ type: 'Shield', addedByPlayerId: 1 }];
+    incoming.board[0][0].card.powerModifier = 5;
+    incoming.board[0][1].card.statuses = [{ type: 'Stun', addedByPlayerId: 1 }];
+
+    assert.equal(mergeClientState(state, incoming, 1).success, true);
+    assert.deepEqual(state.board[0][0].card?.statuses, []);
+    assert.equal(state.board[0][0].card?.powerModifier, undefined);
+    assert.deepEqual(state.board[0][1].card?.statuses, []);
+  });
+
+  it('keeps another player\'s card in place outside the sender\'s turn', () => {
+    const state = createState(2);
+    const moved = copy(state);
+    moved.board[1][1].card = moved.board[0][1].card;
+    moved.board[0][1].card = null;
+    const stunned = copy(state);
+    stunned.board[0][1].card.statuses = [{ type: 'Stun', addedByPlayerId: 1 }];
+
+    assert.equal(mergeClientState(state, moved, 1).success, false);
+    assert.equal(mergeClientState(state, stunned, 1).success, true);
+    assert.deepEqual(state.board[0][1].card?.statuses, []);
+  });
+
+  it('only opens reveal requests from the sender', () => {
+    const state = createState();
+    const incoming = copy(state);
+    incoming.revealRequests = [
+      { fromPlayerId: 1, toPlayerId: 2, cardIdentifiers: [{ source: 'hand', ownerId: 2, cardIndex: 0 }] },
+      { fromPlayerId: 2, toPlayerId: 1, cardIdentifiers: [{ source: 'hand', ownerId: 1, cardIndex: 0 }] }
+    ];
+
+    assert.equal(mergeClientState(state, incoming, 1).success, true);
+    assert.deepEqual(state.revealRequests.map(r => [r.fromPlayerId, r.toPlayerId]), [[1, 2]]);
+  });
+});
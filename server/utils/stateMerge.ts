@@ -0,0 +1,332 @@
+/**
+ * @file Guarded merge for client-submitted game states
+ *
+ * UPDATE_STATE is still used by the client for effects that have no dedicated intent yet
+ * (flips, swaps, reorders). Instead of trusting the
+ * submitted state, only the parts the sender is allowed to touch are copied over:
+ * - other players' seats (hand, deck, discard, ...) are never taken from the client
+ * - scores are never taken from the client; they change through SCORE_LINE, SCORE_ABILITY
+ *   and GAIN_POINTS
+ * - cards cannot appear on or disappear from the board; only their mutable fields change
+ * - statuses and power are never taken from the client; they change through PLAY_COUNTER,
+ *   REMOVE_STATUS, TRANSFER_STATUSES and the other card intents
+ * - another player's card only moves on the sender's turn, and is never flipped or
+ *   revealed by the sender
+ * - the sender's own zones may be reordered but must contain the same cards
+ * - reveal requests are only opened by their sender and only closed by either side
+ * - in the lobby, a seat's cards are rebuilt on the server from its selected deck
+ * - turn settings are only accepted from the player whose turn it is (or the host)
+ * - the turn position itself (phase, active player, round) is never taken from the client;
+ *   it only moves through the turn engine
+ */
+
+import type { Board, Card, GameState, Player, RevealRequest } from '../types/types.js';
+import { DeckType } from '../types/types.js';
+import { getDeckFiles } from '../services/content.js';
+import { recalculateBoardStatuses } from './boardUtils.js';
+import { createCustomDeck, createDeck } from './deckUtils.js';
+import { canControlPlayer, HOST_PLAYER_ID, isActorsTurn } from './gameActions.js';
+import { sanitizePlayerName } from './security.js';
+
+const VALID_GRID_SIZES = [4, 5, 6, 7];
+const MAX_DUMMY_PLAYERS = 3;
+const MAX_REVEAL_REQUEST_CARDS = 20;
+const MAX_CUSTOM_DECK_SIZE = 60;
+
+// Card fields that effects may legitimately change on the sender's own cards; everything else comes from the server copy
+const MUTABLE_CARD_FIELDS: (keyof Card)[] = [
+  'isFaceDown',
+  'revealedTo',
+  'enteredThisTurn',
+  'abilityUsedInPhase',
+  'deployAbilityConsumed',
+  'deployAttempted'
+];
+
+// Turn settings the player whose turn it is may change
+const TURN_FIELDS = [
+  'preserveDeployAbilities'
+];
+
+// Seat fields a player may edit for themselves (or a dummy) while in the lobby; the
+// card zones are rebuilt from the selected deck instead
+const LOBBY_PLAYER_FIELDS = [
+  'color',
+  'autoDrawEnabled'
+];
+
+const PLAYER_ZONES = ['hand', 'deck', 'discard'] as const;
+
+class MergeRejected extends Error {}
+
+/**
+ * Copies the given fields of a submitted card onto the authoritative card with the same id
+ */
+function mergeCard(serverCard: Card, clientCard: Partial<Card>): Card {
+  const merged: Record<string, unknown> = { ...serverCard };
+  for (const field of MUTABLE_CARD_FIELDS) {
+    if (clientCard[field] === undefined) {
+      delete merged[field];
+    } else {
+      merged[field] = clientCard[field];
+    }
+  }
+  return merged as unknown as Card;
+}
+
+/**
+ * Takes each card of `clientCards` out of `pool` (id -> server card), rejecting unknown or duplicated ids
+ */
+function claimCards(clientCards: any, pool: Map<string, Card>): Card[] {
+  if (!Array.isArray(clientCards)) {
+    throw new MergeRejected('Invalid card list');
+  }
+  return clientCards.map((clientCard: any) => {
+    const serverCard = clientCard && pool.get(clientCard.id);
+    if (!serverCard) {
+      throw new MergeRejected('Submitted state contains cards that are not in play');
+    }
+    pool.delete(clientCard.id);
+    return mergeCard(serverCard, clientCard);
+  });
+}
+
+/**
+ * Rebuilds the board from the submitted one, allowing cards to move between cells but
+ * never to be added or removed. The sender changes its own cards' mutable fields freely;
+ * another player's card may only move, on the sender's turn.
+ */
+function mergeBoard(existing: GameState, clientBoard: any, actorId: number): Board {
+  const serverBoard = existing.board;
+  if (!Array.isArray(clientBoard) || clientBoard.length !== serverBoard.length) {
+    throw new MergeRejected('Invalid board');
+  }
+
+  const pool = new Map<string, Card>();
+  const cellOf = new Map<string, string>();
+  serverBoard.forEach((row, r) => row.forEach((cell, c) => {
+    if (cell.card) {
+      pool.set(cell.card.id, cell.card);
+      cellOf.set(cell.card.id, `${r},${c}`);
+    }
+  }));
+  const isSendersTurn = isActorsTurn(existing, actorId);
+
+  const board: Board = clientBoard.map((row: any, r: number) => {
+    if (!Array.isArray(row) || row.length !== serverBoard[r].length) {
+      throw new MergeRejected('Invalid board');
+    }
+    return row.map((cell: any, c: number) => {
+      if (!cell || !cell.card) {
+        return { card: null };
+      }
+      const serverCard = pool.get(cell.card.id);
+      if (!serverCard || canControlPlayer(existing, actorId, serverCard.ownerId)) {
+        return { card: claimCards([cell.card], pool)[0] };
+      }
+      if (!isSendersTurn && cellOf.get(serverCard.id) !== `${r},${c}`) {
+        throw new MergeRejected('You cannot move another player\'s card outside your turn');
+      }
+      pool.delete(serverCard.id);
+      return { card: serverCard };
+    });
+  });
+
+  if (pool.size > 0) {
+    throw new MergeRejected('Cards cannot be removed from the board with a state update');
+  }
+  return board;
+}
+
+/**
+ * Merges a controllable seat's zones during a game: cards may move between the
+ * seat's own hand, deck, discard and announced slot, but none may be added or dropped
+ */
+function mergeSeatZones(serverPlayer: Player, clientPlayer: any): Partial<Player> {
+  const pool = new Map<string, Card>();
+  for (const zone of PLAYER_ZONES) {
+    (serverPlayer[zone] || []).forEach((card: Card) => pool.set(card.id, card));
+  }
+  if (serverPlayer.announcedCard) {
+    pool.set(serverPlayer.announcedCard.id, serverPlayer.announcedCard);
+  }
+
+  const merged: Record<string, any> = {};
+  for (const zone of PLAYER_ZONES) {
+    merged[zone] = claimCards(clientPlayer[zone] || [], pool);
+  }
+  merged.announcedCard = clientPlayer.announcedCard ? claimCards([clientPlayer.announcedCard], pool)[0] : null;
+
+  if (pool.size > 0) {
+    throw new MergeRejected('Cards cannot be removed from a player with a state update');
+  }
+
+  if (Array.isArray(clientPlayer.boardHistory)) {
+    merged.boardHistory = clientPlayer.boardHistory.filter((id: unknown) => typeof id === 'string');
+  }
+  return merged;
+}
+
+const isCardIdentifier = (value: any): boolean =>
+  !!value && (value.source === 'hand' || value.source === 'board') && typeof value.ownerId === 'number';
+
+/**
+ * Merges the reveal requests: the sender opens and withdraws requests from seats it
+ * controls, and answers (removes) requests made to them; all others stay as they are
+ */
+function mergeRevealRequests(existing: GameState, incoming: any, actorId: number): RevealRequest[] {
+  if (!Array.isArray(incoming)) {
+    return existing.revealRequests;
+  }
+  const isSame = (a: RevealRequest, b: any) => a.fromPlayerId === b?.fromPlayerId && a.toPlayerId === b?.toPlayerId;
+  const controls = (playerId: number) => canControlPlayer(existing, actorId, playerId);
+
+  const kept = existing.revealRequests.filter(request =>
+    !controls(request.fromPlayerId) && (!controls(request.toPlayerId) || incoming.some(other => isSame(request, other))));
+  const opened = incoming
+    .filter(request =>
+      request && controls(request.fromPlayerId) && request.toPlayerId !== request.fromPlayerId &&
+      existing.players.some(p => p.id === request.toPlayerId))
+    .filter((request, index, requests) => requests.findIndex(other => isSame(request, other)) === index)
+    .map(request => {
+      if (!Array.isArray(request.cardIdentifiers) || request.cardIdentifiers.length > MAX_REVEAL_REQUEST_CARDS ||
+        !request.cardIdentifiers.every(isCardIdentifier)) {
+        throw new MergeRejected('Invalid reveal request');
+      }
+      return { fromPlayerId: request.fromPlayerId, toPlayerId: request.toPlayerId, cardIdentifiers: request.cardIdentifiers };
+    });
+  return [...kept, ...opened];
+}
+
+/**
+ * Builds a seat's card zones for the lobby from its selected deck: a preset deck from its
+ * deck file, a custom deck card by card from the content database. The submitted cards are
+ * only used for their base ids; hand and discard start empty.
+ */
+function buildLobbyZones(serverPlayer: Player, clientPlayer: any, name: string): Partial<Player> {
+  const selectedDeck = clientPlayer.selectedDeck ?? serverPlayer.selectedDeck;
+  let deck: Card[] | null;
+  if (selectedDeck === DeckType.Custom) {
+    const cards = clientPlayer.deck ?? serverPlayer.deck;
+    if (!Array.isArray(cards) || cards.length > MAX_CUSTOM_DECK_SIZE) {
+      throw new MergeRejected('Invalid custom deck');
+    }
+    deck = createCustomDeck(cards.map((card: any) => card?.baseId), serverPlayer.id, name);
+    if (!deck) {
+      throw new MergeRejected('Custom deck contains unknown cards');
+    }
+  } else if (getDeckFiles().some(deckFile => deckFile.id === selectedDeck)) {
+    deck = createDeck(selectedDeck, serverPlayer.id, name);
+  } else {
+    throw new MergeRejected('Unknown deck');
+  }
+  return { selectedDeck, deck, hand: [], discard: [], announcedCard: null, boardHistory: [] };
+}
+
+/**
+ * Applies the lobby edits of the sender: own/dummy seat settings and, for the host,
+ * grid size and the set of dummy seats
+ */
+function mergeLobby(existing: GameState, incoming: any, actorId: number): void {
+  const isHost = actorId === HOST_PLAYER_ID;
+  const incomingPlayers: any[] = Array.isArray(incoming.players) ? incoming.players : [];
+  const incomingById = new Map(incomingPlayers.filter(p => p && typeof p.id === 'number').map(p => [p.id, p]));
+
+  let players: Player[] = existing.players.map(serverPlayer => {
+    const clientPlayer = incomingById.get(serverPlayer.id);
+    if (!clientPlayer || !canControlPlayer(existing, actorId, serverPlayer.id)) {
+      return serverPlayer;
+    }
+    const merged: Record<string, any> = { ...serverPlayer };
+    for (const field of LOBBY_PLAYER_FIELDS) {
+      if (clientPlayer[field] !== undefined) {
+        merged[field] = clientPlayer[field];
+      }
+    }
+    if (typeof clientPlayer.name === 'string') {
+      merged.name = sanitizePlayerName(clientPlayer.name);
+    }
+    return { ...merged, ...buildLobbyZones(serverPlayer, clientPlayer, merged.name) } as Player;
+  });
+
+  const lobby: Record<string, any> = {};
+  if (isHost) {
+    // The host manages dummy seats: drop removed ones, add new ones
+    players = players.filter(p => !p.isDummy || incomingById.has(p.id));
+    const existingIds = new Set(players.map(p => p.id));
+    const newDummies = incomingPlayers
+      .filter(p => p && p.isDummy && typeof p.id === 'number' && !existingIds.has(p.id))
+      .map(p => {
+        const name = sanitizePlayerName(p.name);
+        return { ...p, name, score: 0, isReady: false, playerToken: undefined, aiDifficulty: undefined, ...buildLobbyZones(p, p, name) };
+      });
+    if (players.filter(p => p.isDummy).length + newDummies.length > MAX_DUMMY_PLAYERS) {
+      throw new MergeRejected('Too many dummy players');
+    }
+    players = [...players, ...newDummies].sort((a, b) => a.id - b.id);
+    lobby.dummyPlayerCount = players.filter(p => p.isDummy).length;
+
+    if (incoming.activeGridSize !== undefined) {
+      if (!VALID_GRID_SIZES.includes(incoming.activeGridSize)) {
+        throw new MergeRejected('Invalid grid size');
+      }
+      lobby.activeGridSize = incoming.activeGridSize;
+    }
+  }
+
+  Object.assign(existing, lobby, { players });
+}
+
+/**
+ * Merges a client-submitted state into the authoritative one, keeping everything the
+ * sender is not allowed to change. Mutates `existing` only if the whole update is valid.
+ * @param existing The authoritative game state
+ * @param incoming The state submitted by the client
+ * @param actorId The seat of the sending connection
+ * @returns Whether the update was applied, with a reason if it was rejected
+ */
+export function mergeClientState(existing: GameState, incoming: any, actorId: number): { success: boolean; error?: string } {
+  if (!existing.players.some(p => p.id === actorId)) {
+    return { success: false, error: 'You are not seated in this game' };
+  }
+
+  try {
+    if (!existing.isGameStarted) {
+      mergeLobby(existing, incoming, actorId);
+      return { success: true };
+    }
+
+    const board = mergeBoard(existing, incoming.board, actorId);
+
+    const incomingPlayers: any[] = Array.isArray(incoming.players) ? incoming.players : [];
+    const incomingById = new Map(incomingPlayers.map(p => [p?.id, p]));
+    const players = existing.players.map(serverPlayer => {
+      const clientPlayer = incomingById.get(serverPlayer.id);
+      if (!clientPlayer || !canControlPlayer(existing, actorId, serverPlayer.id)) {
+        return serverPlayer;
+      }
+      return { ...serverPlayer, ...mergeSeatZones(serverPlayer, clientPlayer) };
+    });
+
+    const turnUpdates: Record<string, any> = {};
+    if (isActorsTurn(existing, actorId) || actorId === HOST_PLAYER_ID) {
+      for (const field of TURN_FIELDS) {
+        if (incoming[field] !== undefined) {
+          turnUpdates[field] = incoming[field];
+        }
+      }
+    }
+
+    const revealRequests = mergeRevealRequests(existing, incoming.revealRequests, actorId);
+
+    Object.assign(existing, turnUpdates, { board, players, revealRequests });
+
+    existing.board = recalculateBoardStatuses(existing);
+    return { success: true };
+  } catch (error) {
+    if (error instanceof MergeRejected) {
+      return { success: false, error: error.message };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { applyPatch, createPatch, isDeepEqual } from './statePatch.js'
+
+const createState = () => ({
+  version: 3,
+  board: [[{ card: { id: 'A', power: 2, statuses: [] } }, { card: null }]],
+  players: [
+    { id: 1, score: 0, hand: [{ id: 'H1' }, { id: 'H2' }, { id: 'H3' }], deck: [{ id: 'D1' }] },
+    { id: 2, score: 4, hand: [], deck: [] },
+  ],
+})
+
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value))
+
+describe('createPatch and applyPatch', () => {
+  it('round-trips changes to fields, cells and piles', () => {
+    const prev = createState()
+    const next = copy(prev)
+    next.version = 4
+    next.board[0][1].card = { id: 'H2', power: 1, statuses: [] }
+    next.players[0].hand.splice(1, 1)
+    next.players[0].deck.shift()
+    next.players[1].score = 5
+
+    const patched = applyPatch(prev, createPatch(prev, next))
+
+    assert.deepEqual(patched, next)
+    assert.deepEqual(prev, createState())
+  })
+
+  it('touches only the changed element when a card leaves the middle of a hand', () => {
+    const prev = createState()
+    const next = copy(prev)
+    next.players[0].hand.splice(1, 1)
+
+    assert.deepEqual(createPatch(prev, next), [{ op: 'remove', path: ['players', 0, 'hand', 1] }])
+  })
+
+  it('treats undefined fields as absent', () => {
+    const prev = { ...createState(), activePlayerId: 1 }
+    const next = { ...copy(prev), activePlayerId: undefined }
+
+    const patch = createPatch(prev, next)
+
+    assert.deepEqual(patch, [{ op: 'remove', path: ['activePlayerId'] }])
+    assert.equal(isDeepEqual(applyPatch(prev, patch), next), true)
+  })
+
+  it('keeps the identity of untouched parts', () => {
+    const prev = createState()
+    const next = copy(prev)
+    next.players[1].score = 6
+
+    const patched = applyPatch(prev, createPatch(prev, next))
+
+    assert.equal(patched.board, prev.board)
+    assert.equal(patched.players[0], prev.players[0])
+    assert.notEqual(patched.players[1], prev.players[1])
+  })
+
+  it('rejects operations that do not fit the document', () => {
+    assert.throws(() => applyPatch(createState(), [{ op: 'replace', path: ['version', 'x'], value: 1 }]))
+    assert.throws(() => applyPatch(createState(), [{ op: 'remove', path: [] }]))
+  })
+})
@@ -0,0 +1,160 @@
+/**
+ * @file Incremental game state patches
+ * Shared between client and server
+ *
+ * The server sends each client the difference between the last view it sent and the
+ * new one as a list of JSON-patch-like operations. Paths are arrays of object keys and
+ * array indexes; `add` and `remove` on an array index insert or delete an element.
+ */
+
+export type PatchPath = (string | number)[]
+
+export type PatchOperation =
+  | { op: 'add'; path: PatchPath; value: unknown }
+  | { op: 'remove'; path: PatchPath }
+  | { op: 'replace'; path: PatchPath; value: unknown }
+
+type JsonObject = Record<string, unknown>
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Structural equality for JSON values.
+ */
+export const isDeepEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) {
+    return true
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isDeepEqual(item, b[i]))
+  }
+  if (isObject(a) && isObject(b)) {
+    const keysA = Object.keys(a).filter(key => a[key] !== undefined)
+    const keysB = Object.keys(b).filter(key => b[key] !== undefined)
+    return keysA.length === keysB.length && keysA.every(key => isDeepEqual(a[key], b[key]))
+  }
+  return false
+}
+
+const diffArrays = (prev: unknown[], next: unknown[], path: PatchPath, ops: PatchOperation[]): void => {
+  // Skip the unchanged head and tail so draws (shift) and plays (splice) only touch one element
+  let head = 0
+  while (head < prev.length && head < next.length && isDeepEqual(prev[head], next[head])) {
+    head++
+  }
+  let tail = 0
+  while (tail < prev.length - head && tail < next.length - head &&
+    isDeepEqual(prev[prev.length - 1 - tail], next[next.length - 1 - tail])) {
+    tail++
+  }
+
+  const prevMiddle = prev.length - head - tail
+  const nextMiddle = next.length - head - tail
+  const shared = Math.min(prevMiddle, nextMiddle)
+
+  for (let i = 0; i < shared; i++) {
+    diffValues(prev[head + i], next[head + i], [...path, head + i], ops)
+  }
+  for (let i = shared; i < prevMiddle; i++) {
+    ops.push({ op: 'remove', path: [...path, head + shared] })
+  }
+  for (let i = shared; i < nextMiddle; i++) {
+    ops.push({ op: 'add', path: [...path, head + i], value: next[head + i] })
+  }
+}
+
+const diffValues = (prev: unknown, next: unknown, path: PatchPath, ops: PatchOperation[]): void => {
+  if (prev === next) {
+    return
+  }
+  if (Array.isArray(prev) && Array.isArray(next)) {
+    diffArrays(prev, next, path, ops)
+    return
+  }
+  if (isObject(prev) && isObject(next)) {
+    for (const key of Object.keys(prev)) {
+      if (prev[key] !== undefined && next[key] === undefined) {
+        ops.push({ op: 'remove', path: [...path, key] })
+      }
+    }
+    for (const key of Object.keys(next)) {
+      if (next[key] === undefined) {
+        continue
+      }
+      if (prev[key] === undefined) {
+        ops.push({ op: 'add', path: [...path, key], value: next[key] })
+      } else {
+        diffValues(prev[key], next[key], [...path, key], ops)
+      }
+    }
+    return
+  }
+  if (!isDeepEqual(prev, next)) {
+    ops.push({ op: 'replace', path, value: next })
+  }
+}
+
+/**
+ * Computes the operations that turn `prev` into `next`.
+ * Both values must be plain JSON (no functions, no cycles).
+ */
+export const createPatch = (prev: unknown, next: unknown): PatchOperation[] => {
+  const ops: PatchOperation[] = []
+  diffValues(prev, next, [], ops)
+  return ops
+}
+
+const applyOperation = (target: unknown, op: PatchOperation, depth: number): unknown => {
+  const key = op.path[depth]
+  const isLast = depth === op.path.length - 1
+
+  if (Array.isArray(target)) {
+    const copy = [...target]
+    const index = key as number
+    if (!isLast) {
+      copy[index] = applyOperation(copy[index], op, depth + 1)
+    } else if (op.op === 'add') {
+      copy.splice(index, 0, op.value)
+    } else if (op.op === 'remove') {
+      copy.splice(index, 1)
+    } else {
+      copy[index] = op.value
+    }
+    return copy
+  }
+
+  if (!isObject(target)) {
+    throw new Error(`Invalid patch path: ${op.path.join('/')}`)
+  }
+  const copy: JsonObject = { ...target }
+  if (!isLast) {
+    copy[key] = applyOperation(copy[key], op, depth + 1)
+  } else if (op.op === 'remove') {
+    delete copy[key]
+  } else {
+    copy[key] = op.value
+  }
+  return copy
+}
+
+/**
+ * Applies patch operations without mutating `doc`.
+ * Only the objects along each changed path are copied, so untouched parts of the state
+ * keep their identity (React can skip re-rendering them).
+ * @throws If an operation does not fit the document
+ */
+export const applyPatch = <T>(doc: T, ops: PatchOperation[]): T => {
+  let result: unknown = doc
+  for (const op of ops) {
+    if (op.path.length === 0) {
+      if (op.op === 'remove') {
+        throw new Error('Cannot remove the document root')
+      }
+      result = op.value
+    } else {
+      result = applyOperation(result, op, 0)
+    }
+  }
+  return result as T
+}
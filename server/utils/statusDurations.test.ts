@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { Card, CardStatus, GameState } from '../types/types.js'
+import { DeckType } from '../types/types.js'
+import { expireStatuses, setExpiryEffectDefinitions } from './statusDurations.js'
+
+const createCard = (ownerId: number, statuses: CardStatus[]): Card => ({
+  id: `TEST_${ownerId}`,
+  deck: DeckType.Custom,
+  name: 'Test Unit',
+  imageUrl: '',
+  fallbackImage: '',
+  power: 2,
+  ability: '',
+  types: ['Unit'],
+  ownerId,
+  statuses,
+})
+
+const createState = (card: Card): GameState => ({
+  board: [[{ card }, { card: null }]],
+  players: [],
+} as unknown as GameState)
+
+const resurrected: CardStatus = { type: 'Resurrected', addedByPlayerId: 1, duration: { until: 'nextPhase' } }
+
+describe('expireStatuses', () => {
+  it('applies a counter\'s expiry effects once its status runs out', () => {
+    setExpiryEffectDefinitions({ Resurrected: { onExpire: [{ do: 'addStatus', status: 'Stun' }, { do: 'addStatus', status: 'Stun' }] } })
+    const card = createCard(1, [{ ...resurrected }])
+    const state = createState(card)
+
+    expireStatuses(state, { at: 'turnEnd', playerId: 2 })
+    assert.deepEqual(card.statuses?.map(s => s.type), ['Resurrected'])
+
+    expireStatuses(state, { at: 'phaseStart' })
+    assert.deepEqual(card.statuses, [{ type: 'Stun', addedByPlayerId: 1 }, { type: 'Stun', addedByPlayerId: 1 }])
+  })
+
+  it('ignores expiry effects that do not validate', () => {
+    const problems = setExpiryEffectDefinitions({ Resurrected: { onExpire: [{ do: 'addStatus', status: 2 }] } })
+    const card = createCard(1, [{ ...resurrected }])
+
+    expireStatuses(createState(card), { at: 'phaseStart' })
+
+    assert.equal(problems.length, 1)
+    assert.deepEqual(card.statuses, [])
+  })
+})
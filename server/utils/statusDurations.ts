@@ -0,0 +1,208 @@
+/**
+ * @file Status durations
+ * Shared between client and server
+ *
+ * A status may carry a duration (CardStatus.duration). The turn engine calls
+ * expireStatuses at each turn moment: a phase starts, a turn ends or starts, a round
+ * ends; statuses whose duration runs out then are removed from cards in every zone.
+ * Stun is a counter rather than a timed status: one wears off at the end of its
+ * owner's turn.
+ *
+ * A counter definition may list what happens when its status runs out (onExpire), e.g.
+ * Resurrected gives way to two Stuns at the start of the next phase.
+ */
+
+import type { Card, CardStatus, GameState, StatusDuration, StatusExpiryEffect } from '../types/types.js'
+import { addCardStatus } from './cardEvents.js'
+import { array, literal, object, string, validate } from './schema.js'
+import type { Schema } from './schema.js'
+
+const MAX_EXPIRY_EFFECTS_PER_COUNTER = 10
+
+type Coords = { row: number, col: number }
+
+/**
+ * A point of the turn at which durations run out
+ */
+export type ExpiryMoment =
+  | { at: 'phaseStart' }
+  | { at: 'turnEnd', playerId: number }
+  | { at: 'turnStart', playerId: number }
+  | { at: 'roundEnd' }
+
+// ============================================================================
+// EXPIRY EFFECT VALIDATION
+// ============================================================================
+
+const expiryEffectsSchema: Schema<StatusExpiryEffect[]> = array(
+  object({ do: literal('addStatus'), status: string() }),
+  { maxLength: MAX_EXPIRY_EFFECTS_PER_COUNTER },
+)
+
+/**
+ * Checks the expiry effects of a counter definition.
+ * @returns The problems found, one line each; empty if the effects are valid
+ */
+export const validateExpiryEffects = (effects: unknown): string[] =>
+  validate(expiryEffectsSchema, effects).map(issue => `onExpire${issue.path}: ${issue.message}`)
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+let expiryEffectDefinitions = new Map<string, StatusExpiryEffect[]>()
+
+/**
+ * Replaces the registered expiry effects with those of the given counters database.
+ * A counter whose effects do not validate gets none.
+ * @returns One line per problem, prefixed with the counter id
+ */
+export const setExpiryEffectDefinitions = (counters: Record<string, { onExpire?: unknown }>): string[] => {
+  const definitions = new Map<string, StatusExpiryEffect[]>()
+  const problems: string[] = []
+  for (const [id, definition] of Object.entries(counters)) {
+    if (definition?.onExpire === undefined) {
+      continue
+    }
+    const issues = validateExpiryEffects(definition.onExpire)
+    if (issues.length > 0) {
+      problems.push(...issues.map(issue => `${id}: ${issue}`))
+      continue
+    }
+    definitions.set(id, definition.onExpire as StatusExpiryEffect[])
+  }
+  expiryEffectDefinitions = definitions
+  return problems
+}
+
+/**
+ * What happens to a card when a status of the given type runs out
+ */
+export const getExpiryEffects = (statusType: string): StatusExpiryEffect[] =>
+  expiryEffectDefinitions.get(statusType) || []
+
+// ============================================================================
+// EXPIRY
+// ============================================================================
+
+/**
+ * Calls `visit` for every card of the table with the player it belongs to: the owner
+ * for cards on the board, the zone's player for hands, decks, discards and announced cards.
+ * Board cards come with their cell.
+ */
+const forEachCard = (state: GameState, visit: (card: Card, ownerId: number | undefined, coords?: Coords) => void): void => {
+  state.board.forEach((row, r) => row.forEach((cell, c) => {
+    if (cell.card) {
+      visit(cell.card, cell.card.ownerId, { row: r, col: c })
+    }
+  }))
+  for (const player of state.players) {
+    for (const card of [...player.hand, ...player.deck, ...player.discard]) {
+      visit(card, player.id)
+    }
+    if (player.announcedCard) {
+      visit(player.announcedCard, player.id)
+    }
+  }
+}
+
+// Round durations count down at each round end
+const countDownRound = (status: CardStatus): CardStatus =>
+  status.duration && 'rounds' in status.duration ? { ...status, duration: { rounds: status.duration.rounds - 1 } } : status
+
+/**
+ * Whether a status's duration runs out at the moment, for a card of `ownerId`
+ */
+const runsOut = (status: CardStatus, moment: ExpiryMoment, ownerId: number | undefined): boolean => {
+  const duration = status.duration
+  if (!duration) {
+    return false
+  }
+  if ('rounds' in duration) {
+    return moment.at === 'roundEnd' && duration.rounds <= 0
+  }
+  return (duration.until === 'nextPhase' && moment.at === 'phaseStart') ||
+    (duration.until === 'endOfTurn' && moment.at === 'turnEnd') ||
+    (duration.until === 'ownersNextTurn' && moment.at === 'turnStart' && ownerId === moment.playerId)
+}
+
+/**
+ * Removes the statuses that run out at the moment and applies their expiry effects, and
+ * wears off Stun at the end of its owner's turn.
+ */
+export const expireStatuses = (state: GameState, moment: ExpiryMoment): void => {
+  const expired: { card: Card, status: CardStatus, coords?: Coords }[] = []
+  forEachCard(state, (card, ownerId, coords) => {
+    if (!card.statuses) {
+      return
+    }
+    const statuses = moment.at === 'roundEnd' ? card.statuses.map(countDownRound) : card.statuses
+    card.statuses = statuses.filter(status => {
+      if (!runsOut(status, moment, ownerId)) {
+        return true
+      }
+      expired.push({ card, status, coords })
+      return false
+    })
+  })
+
+  if (moment.at === 'turnEnd') {
+    state.board.forEach(row => row.forEach(cell => {
+      if (cell.card?.ownerId === moment.playerId && cell.card.statuses) {
+        const stunIndex = cell.card.statuses.findIndex(s => s.type === 'Stun')
+        if (stunIndex !== -1) {
+          cell.card.statuses.splice(stunIndex, 1)
+        }
+      }
+    }))
+  }
+
+  // Effects apply once every card is settled, so a Stun they add does not wear off at once
+  for (const { card, status, coords } of expired) {
+    for (const effect of getExpiryEffects(status.type)) {
+      addCardStatus(state, card, { type: effect.status, addedByPlayerId: status.addedByPlayerId }, coords)
+    }
+  }
+}
+
+/**
+ * Whether a status stays on a card that leaves the board: only Revealed does, unless it
+ * lasts until the card leaves the board.
+ */
+export const keepsStatusOffBoard = (status: CardStatus): boolean =>
+  status.type === 'Revealed' && !(status.duration && 'until' in status.duration && status.duration.until === 'leavesBoard')
+
+/**
+ * How long a status has left, for tooltips and the card detail view
+ */
+export const describeStatusDuration = (duration: StatusDuration): string => {
+  if ('rounds' in duration) {
+    return duration.rounds === 1 ? 'until the end of the round' : `${duration.rounds} rounds`
+  }
+  switch (duration.until) {
+    case 'nextPhase':
+      return 'until the next phase'
+    case 'endOfTurn':
+      return 'until the end of the turn'
+    case 'ownersNextTurn':
+      return 'until its owner\'s next turn'
+    case 'leavesBoard':
+      return 'until it leaves the board'
+  }
+}
+
+/**
+ * A short label of how long a status has left, for status badges
+ */
+export const getStatusDurationBadge = (duration: StatusDuration): string => {
+  if ('rounds' in duration) {
+    return `${duration.rounds}R`
+  }
+  const badges: Record<typeof duration.until, string> = {
+    nextPhase: 'Ph',
+    endOfTurn: 'T',
+    ownersNextTurn: 'NT',
+    leavesBoard: 'B',
+  }
+  return badges[duration.until]
+}
@@ -1,4 +1,4 @@
-import type { GameState, Card, CommandContext, AbilityAction } from '../types/types.js'
+import type { GameState, Card, CommandContext, AbilityAction, TargetFilter } from '../types/types.js'
 
 // Constants for target validation
 const TARGET_OPPONENTS = -1
@@ -6,6 +6,65 @@ const TARGET_MOVED_OWNER = -2
 const ADJACENT_DISTANCE = 1
 const RANGE_TWO_DISTANCE = 2
 
+/**
+ * Checks a board cell against the position rules of a target filter.
+ * @param boardCoords - The cell, or undefined for a card that is not on the board
+ */
+export const matchesCellFilter = (filter: TargetFilter, boardCoords?: { row: number, col: number }): boolean => {
+  if (filter.location && filter.location !== (boardCoords ? 'board' : 'hand')) {
+    return false
+  }
+  if (filter.adjacentTo && !(boardCoords && Math.abs(boardCoords.row - filter.adjacentTo.row) + Math.abs(boardCoords.col - filter.adjacentTo.col) === ADJACENT_DISTANCE)) {
+    return false
+  }
+  if (filter.inLineWith && !(boardCoords && (boardCoords.row === filter.inLineWith.row || boardCoords.col === filter.inLineWith.col))) {
+    return false
+  }
+  return true
+}
+
+/**
+ * Checks a card against a target filter.
+ * @param boardCoords - The card's cell, or undefined for a card in hand
+ */
+export const matchesTargetFilter = (
+  filter: TargetFilter,
+  card: Card,
+  players: GameState['players'],
+  boardCoords?: { row: number, col: number },
+): boolean => {
+  if (filter.ownerId !== undefined && card.ownerId !== filter.ownerId) {
+    return false
+  }
+  if (filter.notOwnerId !== undefined && card.ownerId === filter.notOwnerId) {
+    return false
+  }
+  if (filter.opponentOf !== undefined) {
+    if (card.ownerId === filter.opponentOf) {
+      return false
+    }
+    const player = players.find(p => p.id === filter.opponentOf)
+    const targetPlayer = players.find(p => p.id === card.ownerId)
+    if (player?.teamId !== undefined && player.teamId === targetPlayer?.teamId) {
+      return false
+    }
+  }
+  if (filter.statuses && !card.statuses?.some(s =>
+    filter.statuses!.includes(s.type) && (filter.statusAddedBy === undefined || s.addedByPlayerId === filter.statusAddedBy))) {
+    return false
+  }
+  if (filter.type && !card.types?.includes(filter.type)) {
+    return false
+  }
+  if (filter.faceDown !== undefined && !!card.isFaceDown !== filter.faceDown) {
+    return false
+  }
+  if (filter.notCardId !== undefined && card.id === filter.notCardId) {
+    return false
+  }
+  return matchesCellFilter(filter, boardCoords)
+}
+
 /**
  * Validates if a specific target meets the constraints.
  */
@@ -186,7 +245,7 @@ export const calculateValidTargets = (
   const { mode, payload, sourceCoords, contextCheck } = action
 
   // 1. Generic TARGET selection
-  if ((mode === 'SELECT_TARGET' || mode === 'CENSOR_SWAP' || mode === 'ZEALOUS_WEAKEN' || mode === 'CENTURION_BUFF' || mode === 'SELECT_UNIT_FOR_MOVE') && payload.filter && typeof payload.filter === 'function') {
+  if ((mode === 'SELECT_TARGET' || mode === 'SELECT_UNIT_FOR_MOVE') && payload.filter) {
 
     // Strict Hand-Only actions check
     if (payload.actionType === 'SELECT_HAND_FOR_DISCARD_THEN_SPAWN' ||
@@ -200,7 +259,7 @@ export const calculateValidTargets = (
         const cell = board[r][c]
 
         // Check basic filter
-        let isValid = cell.card && payload.filter(cell.card, r, c)
+        let isValid = cell.card && matchesTargetFilter(payload.filter, cell.card, currentGameState.players, { row: r, col: c })
 
         // Check context requirements (e.g. Adjacent to last move)
         if (isValid && contextCheck === 'ADJACENT_TO_LAST_MOVE' && commandContext?.lastMovedCardCoords) {
@@ -295,7 +354,7 @@ export const calculateValidTargets = (
     for (let r = 0; r < gridSize; r++) {
       for (let c = 0; c < gridSize; c++) {
         const cell = board[r][c]
-        if (cell.card && payload.filter(cell.card, r, c)) {
+        if (cell.card && matchesTargetFilter(payload.filter, cell.card, currentGameState.players, { row: r, col: c })) {
           targets.push({ row: r, col: c })
         }
       }
@@ -307,7 +366,7 @@ export const calculateValidTargets = (
     for (let r = 0; r < gridSize; r++) {
       for (let c = 0; c < gridSize; c++) {
         const cell = board[r][c]
-        if (cell.card && payload.filter(cell.card, r, c)) {
+        if (cell.card && matchesTargetFilter(payload.filter, cell.card, currentGameState.players, { row: r, col: c })) {
           targets.push({ row: r, col: c })
         }
       }
@@ -322,7 +381,7 @@ export const calculateValidTargets = (
 
         // If Immunis logic, we check filter (adjacency)
         if (mode === 'IMMUNIS_RETRIEVE' && payload.filter) {
-          if (isEmpty && payload.filter(r, c)) {
+          if (isEmpty && matchesCellFilter(payload.filter, { row: r, col: c })) {
             targets.push({ row: r, col: c })
           }
           continue
@@ -408,7 +467,7 @@ export const calculateValidTargets = (
     for (let r = 0; r < gridSize; r++) {
       for (let c = 0; c < gridSize; c++) {
         const cell = board[r][c]
-        if (cell.card && payload.filter(cell.card, r, c)) {
+        if (cell.card && matchesTargetFilter(payload.filter, cell.card, currentGameState.players, { row: r, col: c })) {
           targets.push({ row: r, col: c })
         }
       }
@@ -434,24 +493,13 @@ export const calculateValidTargets = (
       }
     }
   }
-  // 11. Integrator Line Select (Cells in same row/col as source)
-  else if (mode === 'INTEGRATOR_LINE_SELECT' && sourceCoords) {
-    for (let r = 0; r < gridSize; r++) {
-      for (let c = 0; c < gridSize; c++) {
-        const isRow = r === sourceCoords.row
-        const isCol = c === sourceCoords.col
-        if (isRow || isCol) {
-          targets.push({ row: r, col: c })
-        }
-      }
-    }
-  }
-  // 11.5. Zius Line Select (same as Integrator, but uses different coords)
-  else if (mode === 'ZIUS_LINE_SELECT' && sourceCoords) {
+  // 11. Counter Line Select (Cells in same row/col as the anchor: the source, or the card a previous step recorded)
+  else if (mode === 'COUNTER_LINE_SELECT' && sourceCoords) {
+    const anchor = payload.anchorCoords || sourceCoords
     for (let r = 0; r < gridSize; r++) {
       for (let c = 0; c < gridSize; c++) {
-        const isRow = r === sourceCoords.row
-        const isCol = c === sourceCoords.col
+        const isRow = r === anchor.row
+        const isCol = c === anchor.col
         if (isRow || isCol) {
           targets.push({ row: r, col: c })
         }
@@ -575,15 +623,15 @@ export const checkActionHasTargets = (action: AbilityAction, currentGameState: G
     if (action.payload.allowHandTargets || action.payload.actionType === 'DESTROY') {
       // Iterate all players hands
       for (const p of currentGameState.players) {
-        if (p.hand.some((card) => action.payload.filter!(card))) {
+        if (p.hand.some((card) => matchesTargetFilter(action.payload.filter, card, currentGameState.players))) {
           return true
         }
       }
     }
   }
 
-  // 3. Check modes with filters that only work on board (CENSOR_SWAP, etc.)
-  if ((action.mode === 'CENSOR_SWAP' || action.mode === 'ZEALOUS_WEAKEN' || action.mode === 'CENTURION_BUFF' || action.mode === 'SELECT_UNIT_FOR_MOVE') && action.payload?.filter) {
+  // 3. Check modes with filters that only work on board (SELECT_UNIT_FOR_MOVE)
+  if (action.mode === 'SELECT_UNIT_FOR_MOVE' && action.payload?.filter) {
     // Board targets are already checked in step 1
     // Return false since no valid board targets were found
     return false
@@ -0,0 +1,106 @@
+/**
+ * @file Turn clock
+ * Shared between client and server
+ *
+ * Time controls of a game: the server starts and stops the active player's clock as the
+ * turn passes; the client counts down from the same deadline in the header and panels.
+ */
+
+import type { GameState, Player, TimeControls, TurnClock } from '../types/types.js'
+
+// Upper bounds for what the host may configure
+export const MAX_TURN_LIMIT_SECONDS = 600
+export const MAX_TIME_BANK_SECONDS = 3600
+export const MAX_TIME_INCREMENT_SECONDS = 120
+
+/**
+ * Games are untimed unless the host sets a turn limit or a bank
+ */
+export const DEFAULT_TIME_CONTROLS: TimeControls = {
+  turnLimitSeconds: 0,
+  bankSeconds: 0,
+  incrementSeconds: 0,
+  onTimeout: 'warn',
+}
+
+/**
+ * The time controls of a game, falling back to an untimed game
+ */
+export const getTimeControls = (state: Pick<GameState, 'timeControls'>): TimeControls => state.timeControls ?? DEFAULT_TIME_CONTROLS
+
+/**
+ * True when the controls limit turns in any way
+ */
+export const isTimed = (controls: TimeControls): boolean => controls.turnLimitSeconds > 0 || controls.bankSeconds > 0
+
+/**
+ * Whose turn should be on the clock: the active player of a running, timed game, or no one
+ * while the game waits in the lobby or on the round-end summary.
+ */
+export const getClockedPlayerId = (state: GameState): number | null => {
+  if (!state.isGameStarted || state.isRoundEndModalOpen || !isTimed(getTimeControls(state))) {
+    return null
+  }
+  return state.activePlayerId ?? null
+}
+
+/**
+ * Fills every player's bank for a new game
+ */
+export const resetTimeBanks = (state: GameState): void => {
+  const { bankSeconds } = getTimeControls(state)
+  state.players.forEach(player => {
+    player.timeBankMs = bankSeconds > 0 ? bankSeconds * 1000 : undefined
+  })
+  state.turnClock = null
+}
+
+/**
+ * Starts the player's turn on the clock; the turn runs out at the turn limit or when the
+ * player's bank is empty, whichever comes first.
+ */
+export const startTurnClock = (state: GameState, player: Player, now: number): TurnClock => {
+  const { turnLimitSeconds, bankSeconds } = getTimeControls(state)
+  const limits: number[] = []
+  if (turnLimitSeconds > 0) {
+    limits.push(turnLimitSeconds * 1000)
+  }
+  if (bankSeconds > 0) {
+    limits.push(Math.max(0, player.timeBankMs ?? bankSeconds * 1000))
+  }
+
+  const clock: TurnClock = { playerId: player.id, startedAt: now, deadline: now + Math.min(...limits), isExpired: false }
+  state.turnClock = clock
+  return clock
+}
+
+/**
+ * Stops the running clock and charges the turn to the player's bank, then adds the increment
+ */
+export const stopTurnClock = (state: GameState, now: number): void => {
+  const clock = state.turnClock
+  state.turnClock = null
+  const { bankSeconds, incrementSeconds } = getTimeControls(state)
+  const player = clock ? state.players.find(p => p.id === clock.playerId) : undefined
+  if (!clock || !player || bankSeconds <= 0) {
+    return
+  }
+
+  const bank = player.timeBankMs ?? bankSeconds * 1000
+  player.timeBankMs = Math.max(0, bank - (now - clock.startedAt)) + (incrementSeconds * 1000)
+}
+
+/**
+ * Milliseconds until the clock runs out; negative once the player is over time
+ */
+export const getRemainingMs = (clock: TurnClock, now: number): number => clock.deadline - now
+
+/**
+ * Formats a duration as m:ss, with a leading minus when over time
+ */
+export const formatClock = (ms: number): string => {
+  const totalSeconds = Math.ceil(Math.abs(ms) / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${ms < 0 ? '-' : ''}${minutes}:${seconds.toString().padStart(2, '0')}`
+}
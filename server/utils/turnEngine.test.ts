@@ -0,0 +1,168 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { Card, GameState } from '../types/types.js'
+import { DeckType } from '../types/types.js'
+import { advancePhase, endTurn, forfeitRound, retreatPhase, setPhase, TURN_PHASE_COUNT } from './turnEngine.js'
+import { applyGameAction } from './gameActions.js'
+import type { GameActionContext } from './gameActions.js'
+import { DEFAULT_MATCH_RULES } from './matchRules.js'
+
+const createCard = (id: string, ownerId: number): Card => ({
+  id,
+  deck: DeckType.Custom,
+  name: id,
+  imageUrl: '',
+  fallbackImage: '',
+  power: 2,
+  ability: '',
+  types: ['Unit'],
+  ownerId,
+  statuses: [],
+})
+
+const createState = (scores = [0, 0, 0]): GameState => ({
+  isGameStarted: true,
+  activePlayerId: 1,
+  startingPlayerId: 1,
+  currentPhase: 0,
+  isScoringStep: false,
+  currentRound: 1,
+  turnNumber: 1,
+  roundWinners: {},
+  gameWinner: null,
+  isRoundEndModalOpen: false,
+  board: [[{ card: null }, { card: null }]],
+  players: scores.map((score, i) => ({
+    id: i + 1,
+    name: `Player ${i + 1}`,
+    score,
+    hand: [],
+    deck: [createCard(`DECK_${i + 1}`, i + 1)],
+    discard: [],
+    selectedDeck: DeckType.Custom,
+    color: 'blue',
+    boardHistory: [],
+    autoDrawEnabled: i === 1,
+  })),
+} as unknown as GameState)
+
+const contextFor = (actorId: number): GameActionContext => ({
+  actorId,
+  shuffle: cards => cards,
+  getTokenDefinition: () => null,
+  getCounterDefinition: () => null,
+})
+
+// Plays the turns of every seat until the turn is back at the starting player
+const playRound = (state: GameState) => {
+  const transitions = state.players.map(() => endTurn(state))
+  return transitions[transitions.length - 1]
+}
+
+describe('phase transitions', () => {
+  it('runs through the phases into the scoring step, then passes the turn', () => {
+    const state = createState()
+    state.turnScores = ['line']
+
+    for (let phase = 1; phase < TURN_PHASE_COUNT; phase++) {
+      advancePhase(state)
+      assert.equal(state.currentPhase, phase)
+    }
+    advancePhase(state)
+    assert.equal(state.isScoringStep, true)
+
+    const transition = advancePhase(state)
+
+    assert.equal(state.activePlayerId, 2)
+    assert.equal(state.currentPhase, 0)
+    assert.equal(state.isScoringStep, false)
+    assert.equal(state.turnScores, undefined)
+    assert.deepEqual(transition, { drawnForPlayerId: 2, roundEnded: false })
+    assert.deepEqual(state.players[1].hand.map(c => c.id), ['DECK_2'])
+  })
+
+  it('steps back out of the scoring step but never into the previous turn', () => {
+    const state = createState()
+    state.isScoringStep = true
+    state.currentPhase = TURN_PHASE_COUNT - 1
+
+    retreatPhase(state)
+    assert.equal(state.isScoringStep, false)
+    assert.equal(state.currentPhase, TURN_PHASE_COUNT - 1)
+
+    for (let i = 0; i < TURN_PHASE_COUNT + 1; i++) {
+      retreatPhase(state)
+    }
+    assert.equal(state.currentPhase, 0)
+    assert.equal(state.activePlayerId, 1)
+  })
+
+  it('jumps only to phases of the turn', () => {
+    const state = createState()
+
+    assert.equal(setPhase(state, TURN_PHASE_COUNT), false)
+    assert.equal(setPhase(state, 1.5), false)
+    assert.equal(setPhase(state, 2), true)
+    assert.equal(state.currentPhase, 2)
+  })
+})
+
+describe('round transitions', () => {
+  it('counts a turn when play is back at the starting player and nobody reached the target', () => {
+    const state = createState([5, 19, 0])
+
+    const transition = playRound(state)
+
+    assert.equal(transition.roundEnded, false)
+    assert.equal(state.activePlayerId, 1)
+    assert.equal(state.turnNumber, 2)
+    assert.equal(state.isRoundEndModalOpen, false)
+  })
+
+  it('gives the round to the leaders once someone reached the target', () => {
+    const state = createState([24, 12, 24])
+
+    const transition = playRound(state)
+
+    assert.equal(transition.roundEnded, true)
+    assert.equal(state.isRoundEndModalOpen, true)
+    assert.deepEqual(state.roundWinners, { 1: [1, 3] })
+    assert.equal(state.turnNumber, 1)
+  })
+
+  it('ends the final round when its turns run out', () => {
+    const state = createState([3, 7, 0])
+    state.currentRound = DEFAULT_MATCH_RULES.maxRounds
+    state.turnNumber = DEFAULT_MATCH_RULES.finalRoundTurnLimit
+
+    assert.equal(playRound(state).roundEnded, true)
+    assert.deepEqual(state.roundWinners[state.currentRound], [2])
+  })
+
+  it('gives a forfeited round to the leaders among the other teams', () => {
+    const state = createState([30, 2, 8])
+    state.players[0].teamId = 1
+    state.players[1].teamId = 1
+    state.players[2].teamId = 2
+
+    forfeitRound(state, 2)
+
+    assert.deepEqual(state.roundWinners, { 1: [3] })
+    assert.equal(state.isRoundEndModalOpen, true)
+  })
+
+  it('lets only the host or a round winner start the next round', () => {
+    const state = createState([12, 25, 0])
+    playRound(state)
+
+    const rejected = applyGameAction(state, { type: 'CONFIRM_ROUND_END' }, contextFor(3))
+    assert.equal(rejected.success, false)
+    assert.equal(state.isRoundEndModalOpen, true)
+
+    const confirmed = applyGameAction(state, { type: 'CONFIRM_ROUND_END' }, contextFor(2))
+    assert.equal(confirmed.success, true)
+    assert.equal(state.currentRound, 2)
+    assert.deepEqual(state.players.map(p => p.score), [0, 0, 0])
+    assert.equal(applyGameAction(state, { type: 'CONFIRM_ROUND_END' }, contextFor(1)).success, false)
+  })
+})
@@ -0,0 +1,209 @@
+/**
+ * @file Turn engine
+ * Phase and turn progression rules, applied by the server on NEXT_PHASE, PREV_PHASE and
+ * SET_PHASE so every client sees the same turn order and round ends.
+ *
+ * A turn runs through the phases in order and ends with the scoring step; leaving the
+ * scoring step passes the turn to the next seat. Like the action reducers, every
+ * function mutates the state it is given.
+ *
+ * Moving forward into a phase emits onPhaseEnd for the phase left and onPhaseStart for
+ * the phase entered (cardEvents.ts); stepping back or jumping to a phase does not. Status
+ * durations run out as phases start, turns end and start, and rounds end (statusDurations.ts).
+ */
+
+import type { GameState, Player } from '../types/types.js'
+import { recalculateBoardStatuses } from './boardUtils.js'
+import { resetReadyStatusesForTurn } from './autoAbilities.js'
+import { emitCardEvent } from './cardEvents.js'
+import { expireStatuses } from './statusDurations.js'
+import { drawCards, shouldAutoDraw } from './gameActions.js'
+import { findMatchWinners, getMatchRules, getRoundTarget, isFinalRound } from './matchRules.js'
+
+// Setup, Main and Commit; the scoring step follows the last one
+export const TURN_PHASE_COUNT = 3
+
+/**
+ * What a transition did besides moving the phase, for the event log
+ */
+export interface PhaseTransition {
+  drawnForPlayerId: number | null; // Seat that auto-drew at the start of its turn
+  roundEnded: boolean;
+}
+
+const findPlayer = (state: GameState, playerId: number | null | undefined): Player | undefined =>
+  playerId === null || playerId === undefined ? undefined : state.players.find(p => p.id === playerId)
+
+/**
+ * Draws the top card for a seat whose turn starts, if auto-draw is on for it.
+ * @returns Whether a card was drawn
+ */
+export const autoDrawForTurn = (state: GameState, playerId: number): boolean => {
+  const player = findPlayer(state, playerId)
+  return !!player && shouldAutoDraw(state, player) && drawCards(player, 1) > 0
+}
+
+/**
+ * Gives the round to the winners and opens the round-end summary; the match rules decide
+ * whether that also ends the match.
+ */
+const endRound = (state: GameState, winnerIds: number[]): void => {
+  expireStatuses(state, { at: 'roundEnd' })
+  state.roundWinners[state.currentRound] = winnerIds
+  const winners = findMatchWinners(getMatchRules(state), state.roundWinners, state.currentRound)
+  if (winners.length > 0) {
+    state.gameWinner = winners[0]
+    state.gameWinners = winners
+  }
+  state.isRoundEndModalOpen = true
+}
+
+/**
+ * Scores the round once play is back at the starting player: when someone reached the
+ * round's target, or the final round ran out of turns, the leaders win the round.
+ * @returns Whether the round ended
+ */
+export const checkRoundEnd = (state: GameState): boolean => {
+  const rules = getMatchRules(state)
+  const isTurnLimit = isFinalRound(rules, state.currentRound) &&
+    rules.finalRoundTurnLimit > 0 && state.turnNumber >= rules.finalRoundTurnLimit
+  const maxScore = Math.max(...state.players.map(p => p.score))
+
+  if (maxScore < getRoundTarget(rules, state.currentRound) && !isTurnLimit) {
+    return false
+  }
+
+  endRound(state, state.players.filter(p => p.score === maxScore).map(p => p.id))
+  return true
+}
+
+/**
+ * Ends the round as lost for the player (and their team): the leaders among the other
+ * players win it regardless of the target.
+ */
+export const forfeitRound = (state: GameState, playerId: number): void => {
+  const forfeiting = findPlayer(state, playerId)
+  const others = state.players.filter(p => p.id !== playerId &&
+    (forfeiting?.teamId === undefined || p.teamId !== forfeiting.teamId))
+  const maxScore = Math.max(...others.map(p => p.score))
+  endRound(state, others.filter(p => p.score === maxScore).map(p => p.id))
+}
+
+/**
+ * Ends the active player's turn and starts the next seat's, in seat order.
+ */
+const passTurn = (state: GameState): PhaseTransition => {
+  const transition: PhaseTransition = { drawnForPlayerId: null, roundEnded: false }
+  const finishingPlayerId = state.activePlayerId
+  state.isScoringStep = false
+  delete state.turnScores
+
+  if (finishingPlayerId === null || finishingPlayerId === undefined) {
+    state.currentPhase = 0
+    return transition
+  }
+
+  // Turn-long statuses end and Stun wears off by one on the owner's cards
+  expireStatuses(state, { at: 'turnEnd', playerId: finishingPlayerId })
+  state.board = recalculateBoardStatuses(state)
+
+  const seats = [...state.players].sort((a, b) => a.id - b.id)
+  const currentIndex = seats.findIndex(p => p.id === finishingPlayerId)
+  const nextPlayerId = currentIndex === -1 ? finishingPlayerId : seats[(currentIndex + 1) % seats.length].id
+
+  state.currentPhase = 0
+  state.activePlayerId = nextPlayerId
+  expireStatuses(state, { at: 'turnStart', playerId: nextPlayerId })
+
+  if (nextPlayerId !== finishingPlayerId && autoDrawForTurn(state, nextPlayerId)) {
+    transition.drawnForPlayerId = nextPlayerId
+  }
+  resetReadyStatusesForTurn(state, nextPlayerId)
+
+  if (state.startingPlayerId !== null && state.startingPlayerId !== undefined && nextPlayerId === state.startingPlayerId) {
+    transition.roundEnded = checkRoundEnd(state)
+    if (!transition.roundEnded) {
+      state.turnNumber += 1
+    }
+  }
+
+  state.board.forEach(row => row.forEach(cell => {
+    if (cell.card) {
+      delete cell.card.enteredThisTurn
+    }
+  }))
+  emitCardEvent(state, { type: 'onPhaseStart', phase: state.currentPhase, playerId: nextPlayerId })
+  expireStatuses(state, { at: 'phaseStart' })
+  // Phase start reactions and expiry effects (e.g. Resurrected burning out) move auras around
+  state.board = recalculateBoardStatuses(state)
+  return transition
+}
+
+/**
+ * Moves to the next phase; after the last phase comes the scoring step, and after the
+ * scoring step the next player's turn.
+ */
+export const advancePhase = (state: GameState): PhaseTransition => {
+  if (state.isScoringStep) {
+    return passTurn(state)
+  }
+
+  // Deploy abilities are only offered in the phase the card entered
+  if (!state.preserveDeployAbilities) {
+    state.board.forEach(row => row.forEach(cell => {
+      if (cell.card?.statuses) {
+        cell.card.statuses = cell.card.statuses.filter(s => s.type !== 'readyDeploy')
+      }
+    }))
+  }
+
+  emitCardEvent(state, { type: 'onPhaseEnd', phase: state.currentPhase, playerId: state.activePlayerId ?? null })
+  if (state.currentPhase + 1 >= TURN_PHASE_COUNT) {
+    state.isScoringStep = true
+  } else {
+    state.currentPhase += 1
+    emitCardEvent(state, { type: 'onPhaseStart', phase: state.currentPhase, playerId: state.activePlayerId ?? null })
+    expireStatuses(state, { at: 'phaseStart' })
+    state.board = recalculateBoardStatuses(state)
+  }
+  return { drawnForPlayerId: null, roundEnded: false }
+}
+
+/**
+ * Steps back one phase, or out of the scoring step; never into the previous turn.
+ */
+export const retreatPhase = (state: GameState): void => {
+  if (state.isScoringStep) {
+    state.isScoringStep = false
+    return
+  }
+  state.currentPhase = Math.max(0, state.currentPhase - 1)
+}
+
+/**
+ * Jumps to a phase of the current turn.
+ * @returns False if there is no such phase
+ */
+export const setPhase = (state: GameState, phaseIndex: number): boolean => {
+  if (!Number.isInteger(phaseIndex) || phaseIndex < 0 || phaseIndex >= TURN_PHASE_COUNT) {
+    return false
+  }
+  state.isScoringStep = false
+  state.currentPhase = phaseIndex
+  return true
+}
+
+/**
+ * Advances through the rest of the active player's turn, including the scoring step,
+ * until the turn passes.
+ */
+export const endTurn = (state: GameState): PhaseTransition => {
+  for (let i = 0; i <= TURN_PHASE_COUNT; i++) {
+    const wasScoringStep = state.isScoringStep
+    const transition = advancePhase(state)
+    if (wasScoringStep) {
+      return transition
+    }
+  }
+  return { drawnForPlayerId: null, roundEnded: false }
+}
@@ -0,0 +1,103 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Card, GameState } from '../types/types.js';
+import { DeckType } from '../types/types.js';
+import { createPlayerView, getVisibleCardIds, resolveHiddenCardId } from './visibility.js';
+
+const createCard = (id: string, ownerId: number, extra: Partial<Card> = {}): Card => ({
+  id,
+  deck: DeckType.Custom,
+  name: id,
+  imageUrl: '',
+  fallbackImage: '',
+  power: 2,
+  ability: '',
+  types: ['Unit'],
+  ownerId,
+  statuses: [],
+  ...extra
+});
+
+const createState = (): GameState => ({
+  board: [
+    [{ card: createCard('FACE_DOWN', 1, { isFaceDown: true }) }, { card: createCard('FACE_UP', 2) }]
+  ],
+  players: [1, 2, 3].map(id => ({
+    id,
+    name: `Player ${id}`,
+    score: 0,
+    hand: [createCard(`HAND_${id}`, id)],
+    deck: [createCard(`DECK_${id}`, id)],
+    discard: [],
+    selectedDeck: DeckType.Custom,
+    color: 'blue',
+    playerToken: `token-${id}`,
+    isDummy: id === 3,
+    boardHistory: ['FACE_DOWN']
+  })),
+  shuffleSeed: 42
+} as unknown as GameState);
+
+describe('createPlayerView', () => {
+  it('shows a player their own seat and dummies, and card backs of the others', () => {
+    const view = createPlayerView(createState(), 2);
+    const [first, second, dummy] = view.players;
+
+    assert.equal(first.hand[0].id, 'hidden:1:hand:0');
+    assert.equal(first.hand[0].name, '');
+    assert.equal(first.deck[0].id, 'hidden:1:deck:0');
+    assert.equal(second.hand[0].id, 'HAND_2');
+    assert.equal(dummy.hand[0].id, 'HAND_3');
+  });
+
+  it('masks face-down board cards for everyone but their controller', () => {
+    const state = createState();
+
+    assert.equal(createPlayerView(state, 1).board[0][0].card?.id, 'FACE_DOWN');
+    assert.equal(createPlayerView(state, 2).board[0][0].card?.id, 'hidden:board:0:0');
+    assert.equal(createPlayerView(state, null).board[0][0].card?.id, 'hidden:board:0:0');
+    assert.equal(createPlayerView(state, 2).board[0][1].card?.id, 'FACE_UP');
+    assert.deepEqual(createPlayerView(state, 2).players[0].boardHistory, ['hidden:board:0:0']);
+  });
+
+  it('shows cards revealed to the recipient', () => {
+    const state = createState();
+    state.players[0].hand[0].revealedTo = [2];
+    state.board[0][0].card!.statuses = [{ type: 'Revealed', addedByPlayerId: 2 }];
+
+    const view = createPlayerView(state, 2);
+
+    assert.equal(view.players[0].hand[0].id, 'HAND_1');
+    assert.equal(view.board[0][0].card?.id, 'FACE_DOWN');
+    assert.equal(createPlayerView(state, null).players[0].hand[0].id, 'hidden:1:hand:0');
+  });
+
+  it('sends reconnection tokens only to their owner and never the shuffle seed', () => {
+    const view = createPlayerView(createState(), 2);
+
+    assert.deepEqual(view.players.map(p => p.playerToken), [undefined, 'token-2', undefined]);
+    assert.equal(view.shuffleSeed, undefined);
+  });
+
+  it('leaves the authoritative state untouched', () => {
+    const state = createState();
+    createPlayerView(state, null);
+
+    assert.deepEqual(state, createState());
+  });
+});
+
+describe('getVisibleCardIds and resolveHiddenCardId', () => {
+  it('lists the faces a spectator can see', () => {
+    assert.deepEqual([...getVisibleCardIds(createState(), null)], ['FACE_UP']);
+  });
+
+  it('translates positional ids back to the real cards', () => {
+    const state = createState();
+
+    assert.equal(resolveHiddenCardId(state, 'hidden:board:0:0'), 'FACE_DOWN');
+    assert.equal(resolveHiddenCardId(state, 'hidden:1:hand:0'), 'HAND_1');
+    assert.equal(resolveHiddenCardId(state, 'hidden:1:deck:5'), 'hidden:1:deck:5');
+    assert.equal(resolveHiddenCardId(state, 'FACE_UP'), 'FACE_UP');
+  });
+});
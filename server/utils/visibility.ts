@@ -0,0 +1,193 @@
+/**
+ * @file Per-player views of the game state
+ *
+ * Every client receives its own copy of the state with hidden information removed:
+ * - hands of other players become card backs unless revealed to the recipient
+ * - decks of other players become card backs (only the count is visible)
+ * - face-down board cards are masked for everyone but their controller
+ * - reconnection tokens are only sent to their owner
+ * - the shuffle seed is never sent
+ *
+ * Masked cards get positional ids (e.g. `hidden:board:3:2`) so their real id, which
+ * encodes the card's identity, never leaves the server. Ids that clients send back
+ * are translated with resolveHiddenCardId.
+ */
+
+import type { Board, Card, GameState, Player } from '../types/types.js';
+
+const HIDDEN_ID_PREFIX = 'hidden:';
+
+/**
+ * Whether the recipient sees everything of a seat: their own, or one created as a dummy.
+ * A human seat that disconnected or was handed to the table as a dummy stays hidden.
+ */
+function controlsPlayer(recipientId: number | null, player: Player | undefined): boolean {
+  if (!player || recipientId === null) {
+    return false;
+  }
+  return player.id === recipientId || (!!player.isDummy && !player.replacedByDummy);
+}
+
+function isTeammate(gameState: GameState, recipientId: number | null, player: Player): boolean {
+  const recipient = gameState.players.find(p => p.id === recipientId);
+  return recipient?.teamId !== undefined && recipient.id !== player.id && recipient.teamId === player.teamId;
+}
+
+function isRevealedTo(card: Card, recipientId: number | null): boolean {
+  if (card.revealedTo === 'all') {
+    return true;
+  }
+  if (recipientId === null) {
+    return false;
+  }
+  return (Array.isArray(card.revealedTo) && card.revealedTo.includes(recipientId)) ||
+    !!card.statuses?.some(s => s.type === 'Revealed' && s.addedByPlayerId === recipientId);
+}
+
+/**
+ * Builds a card back that keeps only what is visible on the table
+ */
+function maskCard(card: Card, hiddenId: string, owner: Player | undefined): Card {
+  return {
+    id: hiddenId,
+    deck: owner?.selectedDeck ?? card.deck,
+    name: '',
+    imageUrl: '',
+    fallbackImage: '',
+    power: 0,
+    ability: '',
+    ownerId: card.ownerId,
+    ownerName: card.ownerName,
+    statuses: card.statuses,
+    isFaceDown: card.isFaceDown,
+    revealedTo: card.revealedTo
+  };
+}
+
+function boardHiddenId(row: number, col: number): string {
+  return `${HIDDEN_ID_PREFIX}board:${row}:${col}`;
+}
+
+function zoneHiddenId(playerId: number, zone: 'hand' | 'deck', index: number): string {
+  return `${HIDDEN_ID_PREFIX}${playerId}:${zone}:${index}`;
+}
+
+/**
+ * Creates the view of the game state that a single recipient is allowed to see
+ * @param gameState The authoritative game state
+ * @param recipientId The recipient's seat, or null for a spectator
+ * @returns A redacted copy; the authoritative state is not modified
+ */
+export function createPlayerView(gameState: GameState, recipientId: number | null): GameState {
+  const maskedIds = new Map<string, string>();
+
+  const board: Board = gameState.board.map((row, r) => row.map((cell, c) => {
+    const card = cell.card;
+    if (!card || !card.isFaceDown) {
+      return { card };
+    }
+    const owner = gameState.players.find(p => p.id === card.ownerId);
+    if (controlsPlayer(recipientId, owner) || isRevealedTo(card, recipientId)) {
+      return { card };
+    }
+    const hiddenId = boardHiddenId(r, c);
+    maskedIds.set(card.id, hiddenId);
+    return { card: maskCard(card, hiddenId, owner) };
+  }));
+
+  const players = gameState.players.map(player => {
+    const view: Player & { ws?: unknown } = { ...player };
+    delete view.ws; // Remove WebSocket references
+    if (player.id !== recipientId) {
+      delete view.playerToken;
+    }
+    if (controlsPlayer(recipientId, player)) {
+      return view;
+    }
+
+    // Spectators never see hands; players may look at teammates' hands
+    const handVisible = recipientId !== null && isTeammate(gameState, recipientId, player);
+    view.hand = player.hand.map((card, i) =>
+      handVisible || isRevealedTo(card, recipientId) ? card : maskCard(card, zoneHiddenId(player.id, 'hand', i), player));
+    view.deck = player.deck.map((card, i) =>
+      isRevealedTo(card, recipientId) ? card : maskCard(card, zoneHiddenId(player.id, 'deck', i), player));
+    // LastPlayed tracking refers to board cards by id; keep it pointing at the masked ones
+    view.boardHistory = (player.boardHistory || []).map(id => maskedIds.get(id) ?? id);
+    return view;
+  });
+
+  const view: GameState = { ...gameState, board, players };
+  delete view.shuffleSeed;
+  return view;
+}
+
+/**
+ * Ids of the cards whose face the recipient can see anywhere on the table
+ * Decks count as unseen, even the recipient's own, unless a card was revealed; the views
+ * carry them but nobody looks through their own deck, so drawing a card reveals it
+ * @param gameState The authoritative game state
+ * @param recipientId The recipient's seat, or null for a spectator
+ */
+export function getVisibleCardIds(gameState: GameState, recipientId: number | null): Set<string> {
+  const view = createPlayerView(gameState, recipientId);
+  const ids = new Set<string>();
+  const addCard = (card: Card | null | undefined) => {
+    if (card && !card.id.startsWith(HIDDEN_ID_PREFIX)) {
+      ids.add(card.id);
+    }
+  };
+
+  view.board.forEach(row => row.forEach(cell => addCard(cell.card)));
+  view.players.forEach(player => {
+    [...player.hand, ...player.discard].forEach(addCard);
+    player.deck.filter(card => isRevealedTo(card, recipientId)).forEach(addCard);
+    addCard(player.announcedCard);
+  });
+  return ids;
+}
+
+/**
+ * Translates a card id received from a client back to the real id
+ * @param gameState The authoritative game state
+ * @param cardId A real id or a positional id produced by createPlayerView
+ * @returns The real id, or the input if it is not a masked id
+ */
+export function resolveHiddenCardId(gameState: GameState, cardId: string): string {
+  if (typeof cardId !== 'string' || !cardId.startsWith(HIDDEN_ID_PREFIX)) {
+    return cardId;
+  }
+  const parts = cardId.slice(HIDDEN_ID_PREFIX.length).split(':');
+
+  if (parts[0] === 'board') {
+    const card = gameState.board[Number(parts[1])]?.[Number(parts[2])]?.card;
+    return card?.id ?? cardId;
+  }
+
+  const player = gameState.players.find(p => p.id === Number(parts[0]));
+  const zone = parts[1] === 'hand' || parts[1] === 'deck' ? player?.[parts[1]] : undefined;
+  return zone?.[Number(parts[2])]?.id ?? cardId;
+}
+
+/**
+ * Rewrites masked card ids in a client-submitted state (board and seats) to real ids
+ */
+export function resolveHiddenCardIds(gameState: GameState, incoming: any): void {
+  const resolveCard = (card: any) => {
+    if (card && typeof card.id === 'string') {
+      card.id = resolveHiddenCardId(gameState, card.id);
+    }
+  };
+
+  if (Array.isArray(incoming?.board)) {
+    incoming.board.forEach((row: any) => Array.isArray(row) && row.forEach((cell: any) => resolveCard(cell?.card)));
+  }
+  if (Array.isArray(incoming?.players)) {
+    incoming.players.forEach((player: any) => {
+      ['hand', 'deck', 'discard'].forEach(zone => Array.isArray(player?.[zone]) && player[zone].forEach(resolveCard));
+      resolveCard(player?.announcedCard);
+      if (Array.isArray(player?.boardHistory)) {
+        player.boardHistory = player.boardHistory.map((id: string) => resolveHiddenCardId(gameState, id));
+      }
+    });
+  }
+}